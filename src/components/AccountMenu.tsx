@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { BarChart3, LogOut } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { isAppAdmin } from "@/lib/usage";
+import UsageDashboard from "./UsageDashboard";
+
+const AccountMenu = () => {
+  const { user, workspaces, workspace, selectWorkspace, signOut } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+    isAppAdmin()
+      .then(setIsAdmin)
+      .catch(error => console.error('Failed to check admin access:', error));
+  }, [user]);
+
+  if (!user) return null;
+
+  const name = user.user_metadata?.full_name || user.email || "Account";
+  const avatarUrl = user.user_metadata?.avatar_url;
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Sign-out error:', error);
+      toast({
+        title: "Sign-out Failed",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-10 gap-2 px-2 text-slate-300 hover:bg-slate-800" aria-label="Account menu">
+            <Avatar className="h-8 w-8">
+              {avatarUrl && <AvatarImage src={avatarUrl} alt={name} />}
+              <AvatarFallback className="bg-blue-600 text-white text-sm">{name.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <span className="hidden md:inline text-sm max-w-[160px] truncate">{workspace?.name || name}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="font-normal">
+            <div className="text-sm font-medium truncate">{name}</div>
+            {user.email && name !== user.email && (
+              <div className="text-xs text-muted-foreground truncate">{user.email}</div>
+            )}
+          </DropdownMenuLabel>
+          {workspaces.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Workspace</DropdownMenuLabel>
+              <DropdownMenuRadioGroup value={workspace?.id} onValueChange={selectWorkspace}>
+                {workspaces.map(w => (
+                  <DropdownMenuRadioItem key={w.id} value={w.id} className="truncate">
+                    {w.name}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          {isAdmin && (
+            <DropdownMenuItem onClick={() => setShowUsage(true)}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              AI usage
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={handleSignOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {isAdmin && <UsageDashboard open={showUsage} onOpenChange={setShowUsage} />}
+    </>
+  );
+};
+
+export default AccountMenu;
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Provider, Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, Workspace } from "@/hooks/use-auth";
+
+const WORKSPACE_STORAGE_KEY = "qatalyst.workspace";
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(() => localStorage.getItem(WORKSPACE_STORAGE_KEY));
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setIsLoading(false);
+    });
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) {
+      setWorkspaces([]);
+      return;
+    }
+    supabase
+      .from("workspaces")
+      .select("*")
+      .order("created_at")
+      .then(({ data, error }) => {
+        if (error) console.error('Failed to load workspaces:', error);
+        setWorkspaces(data || []);
+      });
+  }, [userId]);
+
+  const selectWorkspace = useCallback((id: string) => {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, id);
+    setWorkspaceId(id);
+  }, []);
+
+  const signInWithEmail = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    if (error) throw error;
+  }, []);
+
+  const signInWithProvider = useCallback(async (provider: Provider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: window.location.origin },
+    });
+    if (error) throw error;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  // The selected workspace, falling back to the first (personal) one
+  const workspace = workspaces.find(w => w.id === workspaceId) || workspaces[0] || null;
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: session?.user ?? null,
+        isLoading,
+        workspaces,
+        workspace,
+        selectWorkspace,
+        signInWithEmail,
+        signInWithProvider,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
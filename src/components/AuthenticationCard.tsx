@@ -1,23 +1,54 @@
-
 import { useState } from "react";
+import type { Provider } from "@supabase/supabase-js";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Key, Eye, EyeOff } from "lucide-react";
+import { Github, Loader2, Lock, Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
-interface AuthenticationCardProps {
-  onAuthenticate: (key: string) => void;
-}
+const OAUTH_PROVIDERS: { provider: Provider; label: string }[] = [
+  { provider: "github", label: "GitHub" },
+  { provider: "google", label: "Google" },
+];
 
-const AuthenticationCard = ({ onAuthenticate }: AuthenticationCardProps) => {
-  const [apiKey, setApiKey] = useState("");
-  const [showKey, setShowKey] = useState(false);
+const AuthenticationCard = () => {
+  const { signInWithEmail, signInWithProvider } = useAuth();
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { toast } = useToast();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (apiKey.trim()) {
-      onAuthenticate(apiKey.trim());
+    if (!email.trim()) return;
+    setIsSending(true);
+    try {
+      await signInWithEmail(email.trim());
+      setSentTo(email.trim());
+    } catch (error) {
+      console.error('Magic link error:', error);
+      toast({
+        title: "Sign-in Failed",
+        description: error instanceof Error ? error.message : "Could not send the sign-in link.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleProvider = async (provider: Provider) => {
+    try {
+      await signInWithProvider(provider);
+    } catch (error) {
+      console.error('OAuth sign-in error:', error);
+      toast({
+        title: "Sign-in Failed",
+        description: error instanceof Error ? error.message : "Could not start sign-in.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -25,53 +56,73 @@ const AuthenticationCard = ({ onAuthenticate }: AuthenticationCardProps) => {
     <Card className="w-full max-w-md bg-slate-800 border-slate-700">
       <CardHeader className="text-center">
         <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-gradient-to-r from-blue-500 to-cyan-500 flex items-center justify-center">
-          <Key className="h-6 w-6 text-white" />
+          <Lock className="h-6 w-6 text-white" />
         </div>
-        <CardTitle className="text-white">OpenAI Authentication</CardTitle>
+        <CardTitle className="text-white">Sign in to QAtalyst</CardTitle>
         <CardDescription className="text-slate-400">
-          Enter your OpenAI API key to start generating test automation scripts
+          Sign in to generate test automation and keep your generations in your workspace
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="apiKey" className="text-white">API Key</Label>
-            <div className="relative">
-              <Input
-                id="apiKey"
-                type={showKey ? "text" : "password"}
-                placeholder="sk-..."
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="bg-slate-700 border-slate-600 text-white pr-10"
-                required
-              />
+        {sentTo ? (
+          <div className="text-center space-y-3">
+            <Mail className="h-8 w-8 text-emerald-400 mx-auto" />
+            <p className="text-sm text-slate-300">
+              We sent a sign-in link to <span className="font-medium text-white">{sentTo}</span>. Open it on this device to continue.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSentTo(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Use a different email
+            </Button>
+          </div>
+        ) : (
+          <>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-white">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@company.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                  required
+                />
+              </div>
               <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 h-auto"
-                onClick={() => setShowKey(!showKey)}
+                type="submit"
+                className="w-full bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700"
+                disabled={!email.trim() || isSending}
               >
-                {showKey ? (
-                  <EyeOff className="h-4 w-4 text-slate-400" />
-                ) : (
-                  <Eye className="h-4 w-4 text-slate-400" />
-                )}
+                {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+                Send Magic Link
               </Button>
+            </form>
+            <div className="my-4 flex items-center gap-3 text-xs text-slate-500">
+              <div className="h-px flex-1 bg-slate-700" />
+              or
+              <div className="h-px flex-1 bg-slate-700" />
             </div>
-          </div>
-          <Button 
-            type="submit" 
-            className="w-full bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700"
-            disabled={!apiKey.trim()}
-          >
-            Connect API
-          </Button>
-        </form>
-        <div className="mt-4 text-xs text-slate-500 text-center">
-          Your API key is stored locally and never sent to our servers
-        </div>
+            <div className="grid grid-cols-2 gap-3">
+              {OAUTH_PROVIDERS.map(({ provider, label }) => (
+                <Button
+                  key={provider}
+                  variant="outline"
+                  onClick={() => handleProvider(provider)}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  {provider === "github" && <Github className="h-4 w-4 mr-2" />}
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
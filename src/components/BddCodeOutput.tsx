@@ -1,16 +1,37 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Copy, Download, Loader2, Check, FileCode, Database, AlertTriangle, Layers, Plug, BookOpen } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Download, Loader2, Check, FileCode, Database, AlertTriangle, Layers, Plug, BookOpen, Square } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { GenerationProgress, QuotaExceededError, streamGeneration } from "@/lib/edgeFunctions";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  CHUNK_SIZES,
+  ChunkState,
+  GenerationChunk,
+  MAX_CONCURRENT_CHUNKS,
+  REQUEST_LIMITS,
+  chunkGherkinContext,
+  mergeChunks,
+  planChunks,
+  runWithConcurrency,
+} from "@/lib/chunkedGeneration";
+import { mergeJsModules, mergeJsonFiles, mergePythonModules, mergeRobotFiles } from "@/lib/mergeCode";
+import { ModuleFiles, flattenModules, unflattenModules } from "@/lib/generatedCode";
+import { DEFAULT_MODULE, groupByModule } from "@/lib/modules";
+import { CodeDiagnostic, SyntaxLanguage, validateSyntax } from "@/lib/validation/syntax";
+import { TARGET_LANGUAGES, TargetLanguage, isTargetLanguage } from "@/lib/targetLanguage";
+import { FRAMEWORK_LABELS } from "@/lib/frameworks";
 import { TestCaseData } from "./CsvUploader";
+import ChunkProgress from "./ChunkProgress";
+import CodeEditor from "./CodeEditor";
 
-type FrameworkType = "playwright" | "selenium" | "cypress" | "robot";
+type FrameworkType = "playwright" | "selenium" | "cypress" | "webdriverio" | "testcafe" | "robot";
 
-interface BddGeneratedCode {
+export interface BddGeneratedCode {
   stepDefinitions: string;
   actions: string;
   adapter: string;
@@ -21,102 +42,230 @@ interface BddCodeOutputProps {
   framework: FrameworkType;
   testData: TestCaseData;
   gherkinScenarios: string;
+  // Previously generated files (e.g. a reopened generation), flat by module; skips generating on mount
+  initialCode?: Record<string, string>;
+  onGenerated?: (output: Record<string, string>, model?: string) => void;
+  // AI model to generate with; the provider's default when null
+  model?: string | null;
+  // Language new generations are written in (Playwright and Cypress); reopened code keeps its own
+  language?: TargetLanguage;
 }
 
-const BddCodeOutput = ({ framework, testData, gherkinScenarios }: BddCodeOutputProps) => {
-  const [code, setCode] = useState<BddGeneratedCode>({ stepDefinitions: '', actions: '', adapter: '', dataFile: '' });
+const EMPTY_CODE: BddGeneratedCode = { stepDefinitions: '', actions: '', adapter: '', dataFile: '' };
+
+// Language the layers of a framework are written in: the chosen one for Playwright and Cypress
+const layersLanguage = (framework: FrameworkType, language: TargetLanguage): TargetLanguage =>
+  framework === "playwright" || framework === "cypress" ? language : "javascript";
+
+// Language of reopened layers; output from before the choice was stored has
+// Playwright in TypeScript and Cypress as ES modules
+const storedLanguage = (framework: FrameworkType, output: Record<string, string>): TargetLanguage => {
+  if (isTargetLanguage(output.language)) return output.language;
+  return framework === "playwright" ? "typescript" : framework === "cypress" ? "esm" : "javascript";
+};
+
+// Language of a layer file; the JSON test data of the JS frameworks is not checked
+const layerLanguage = (framework: FrameworkType, key: keyof BddGeneratedCode, language: TargetLanguage): SyntaxLanguage | null => {
+  if (framework === "robot") return key === "dataFile" ? "python" : "robot";
+  if (key === "dataFile") return null;
+  return language === "typescript" ? "typescript" : "javascript";
+};
+
+const clean = (s: string) => s
+  .replace(/```(?:javascript|typescript|json|js|robot|python)?\n?/g, '')
+  .replace(/\n?```$/g, '')
+  .trim();
+
+const BddCodeOutput = ({
+  framework,
+  testData,
+  gherkinScenarios,
+  initialCode,
+  onGenerated,
+  model,
+  language = "javascript",
+}: BddCodeOutputProps) => {
+  // Test cases by module; each module gets its own layer files
+  const groups = groupByModule(testData.testCases);
+  const [modules, setModules] = useState<ModuleFiles<BddGeneratedCode>[]>(
+    () => (initialCode ? unflattenModules(initialCode, EMPTY_CODE, groups[0]?.name || DEFAULT_MODULE) : [])
+  );
+  const [codeLanguage, setCodeLanguage] = useState<TargetLanguage>(
+    () => (initialCode ? storedLanguage(framework, initialCode) : layersLanguage(framework, language))
+  );
+  const [activeModule, setActiveModule] = useState(() => modules[0]?.module || '');
+  const currentModule = modules.find(m => m.module === activeModule) || modules[0];
+  const code = currentModule?.code || EMPTY_CODE;
   const [activeTab, setActiveTab] = useState<keyof BddGeneratedCode>("stepDefinitions");
   const [isGenerating, setIsGenerating] = useState(false);
+  // Syntax errors of the module on screen, marked in its tabs
+  const diagnostics = useMemo(() => {
+    const result: Partial<Record<keyof BddGeneratedCode, CodeDiagnostic[]>> = {};
+    if (isGenerating) return result;
+    (Object.keys(code) as (keyof BddGeneratedCode)[]).forEach(key => {
+      const syntax = layerLanguage(framework, key, codeLanguage);
+      if (syntax && code[key]) result[key] = validateSyntax(syntax, code[key]);
+    });
+    return result;
+  }, [framework, code, codeLanguage, isGenerating]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  // One request per chunk when there are several
+  const [chunks, setChunks] = useState<ChunkState[]>([]);
   const [copiedTab, setCopiedTab] = useState<string | null>(null);
+  // Aborts the generation in flight, closing its stream and the AI request behind it
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { workspace } = useAuth();
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   useEffect(() => {
-    generateBddCode();
+    if (!initialCode) generateBddCode();
   }, [framework]);
 
-  const deriveModuleName = (): string => {
-    if (!testData.testCases.length) return "Page";
-    const firstId = testData.testCases[0].id || "";
-    const idMatch = firstId.match(/^TC[_-]([A-Za-z]+)/i);
-    if (idMatch) {
-      const raw = idMatch[1].toLowerCase();
-      return raw.charAt(0).toUpperCase() + raw.slice(1);
-    }
-    const desc = testData.testCases[0].description || "";
-    const descWord = desc.split(/[\s_-]+/).find(w => w.length > 2);
-    if (descWord) {
-      const clean = descWord.replace(/[^a-zA-Z]/g, '');
-      return clean.charAt(0).toUpperCase() + clean.slice(1).toLowerCase();
-    }
-    return "Page";
+  const updateModule = (module: string, update: Partial<BddGeneratedCode>) =>
+    setModules(prev => prev.map(m => (m.module === module ? { ...m, code: { ...m.code, ...update } } : m)));
+
+  // Files of each chunk of the last generation, null while pending or failed
+  const chunkPlan = useRef<GenerationChunk[]>([]);
+  const chunkResults = useRef<(BddGeneratedCode | null)[]>([]);
+  const chunkModel = useRef<string | undefined>(undefined);
+  const chunkLanguage = useRef<TargetLanguage>(language);
+
+  const mergeLayers = (parts: BddGeneratedCode[]): BddGeneratedCode => {
+    const mergeFiles = framework === "robot" ? mergeRobotFiles : mergeJsModules;
+    return {
+      stepDefinitions: mergeFiles(parts.map(p => p.stepDefinitions)),
+      actions: mergeFiles(parts.map(p => p.actions)),
+      adapter: mergeFiles(parts.map(p => p.adapter)),
+      dataFile: (framework === "robot" ? mergePythonModules : mergeJsonFiles)(parts.map(p => p.dataFile)),
+    };
   };
 
-  const generateBddCode = async () => {
+  // Modules are generated a few at a time, those over the function's limit in
+  // several chunks; retryFailed reruns only the chunks that failed last time
+  const generateBddCode = async (retryFailed = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
     setErrorMessage(null);
+    setQuotaExceeded(false);
+    setCancelled(false);
+    setProgress(null);
 
-    try {
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+    if (!retryFailed) {
+      chunkPlan.current = planChunks(groups, CHUNK_SIZES.framework, REQUEST_LIMITS.framework);
+      chunkResults.current = chunkPlan.current.map(() => null);
+      chunkLanguage.current = layersLanguage(framework, language);
+      setModules(groups.map(({ name }) => ({ module: name, code: EMPTY_CODE })));
+      setActiveModule(groups[0]?.name || '');
+    }
+    const plan = chunkPlan.current;
+    const results = chunkResults.current;
+    const generationLanguage = chunkLanguage.current;
+    setCodeLanguage(generationLanguage);
+    const multiple = plan.length > 1;
+    const pending = plan.flatMap((_, i) => (results[i] ? [] : [i]));
+    if (!retryFailed) setChunks(multiple ? plan.map(chunk => ({ ...chunk, status: "pending", received: 0 })) : []);
+    const updateChunk = (index: number, update: Partial<ChunkState>) =>
+      setChunks(prev => prev.map((chunk, i) => (i === index ? { ...chunk, ...update } : chunk)));
+    const showMerged = () => {
+      const merged = mergeChunks(plan, results, mergeLayers);
+      setModules(prev => prev.map(m => merged.find(done => done.module === m.module) || m));
+      return merged;
+    };
+    let firstSection = true;
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000);
+    pending.forEach(i => updateChunk(i, { status: "pending", received: 0, error: undefined }));
+    try {
+      await runWithConcurrency(pending, MAX_CONCURRENT_CHUNKS, async (index) => {
+        const { module, testCases, parts } = plan[index];
+        updateChunk(index, { status: "running" });
+        try {
+          const data = await streamGeneration<Record<string, string>>("generate-bdd", {
+            framework,
+            // Each chunk only needs its own scenarios
+            gherkinScenarios: (multiple && chunkGherkinContext(gherkinScenarios, testCases)) || gherkinScenarios,
+            testCases,
+            locators: testData.locators,
+            testData: testData.testData,
+            moduleName: module,
+            workspaceId: workspace?.id,
+            ...(generationLanguage !== "javascript" ? { language: generationLanguage } : {}),
+            ...(model ? { model } : {}),
+          }, {
+            onProgress: multiple ? ({ received }) => updateChunk(index, { received }) : setProgress,
+            // Fill each tab as soon as its layer is complete; a module in several
+            // chunks shows the merge once each chunk is done instead
+            onSection: (key, content) => {
+              if (!(key in EMPTY_CODE) || parts > 1) return;
+              updateModule(module, { [key]: clean(content) });
+              if (firstSection && index === 0) setActiveTab(key as keyof BddGeneratedCode);
+              if (index === 0) firstSection = false;
+            },
+          }, controller.signal);
 
-      const response = await fetch(`${supabaseUrl}/functions/v1/generate-bdd`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseKey}`,
-          'apikey': supabaseKey,
-        },
-        body: JSON.stringify({
-          framework,
-          gherkinScenarios,
-          testCases: testData.testCases,
-          locators: testData.locators,
-          testData: testData.testData,
-          moduleName: deriveModuleName(),
-        }),
-        signal: controller.signal,
+          results[index] = {
+            stepDefinitions: clean(data.stepDefinitions || ''),
+            actions: clean(data.actions || ''),
+            adapter: clean(data.adapter || ''),
+            dataFile: clean(data.dataFile || ''),
+          };
+          chunkModel.current = data.model;
+          updateChunk(index, { status: "done" });
+          showMerged();
+        } catch (error) {
+          // Cancelling and running out of quota stop every chunk; other failures can be retried
+          if (controller.signal.aborted || error instanceof QuotaExceededError || !multiple) throw error;
+          console.error(`BDD generation error in ${module} ${plan[index].part}/${parts}:`, error);
+          updateChunk(index, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
       });
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Request failed with status ${response.status}`);
+      const failed = results.filter(result => !result).length;
+      if (failed) {
+        toast({
+          title: "Generation Incomplete",
+          description: `${failed} of ${plan.length} chunks failed. Retry them to complete the layers.`,
+          variant: "destructive",
+        });
+        return;
       }
-
-      const data = await response.json();
-      if (data?.error) throw new Error(data.error);
-
-      const clean = (s: string) => s
-        .replace(/```(?:javascript|typescript|json|js|robot|python)?\n?/g, '')
-        .replace(/\n?```$/g, '')
-        .trim();
-
-      setCode({
-        stepDefinitions: clean(data.stepDefinitions || ''),
-        actions: clean(data.actions || ''),
-        adapter: clean(data.adapter || ''),
-        dataFile: clean(data.dataFile || ''),
-      });
-
+      const merged = showMerged();
+      onGenerated?.({ ...flattenModules(merged), language: generationLanguage }, chunkModel.current);
       toast({
         title: "BDD Code Generated",
-        description: `Step Definitions, Actions, Adapter, and Data generated for ${framework}.`,
+        description: merged.length > 1
+          ? `Step Definitions, Actions, Adapter, and Data generated for ${merged.length} modules in ${framework}.`
+          : `Step Definitions, Actions, Adapter, and Data generated for ${framework}.`,
       });
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        // Unmounted, cancelled, or replaced by a newer generation
+        if (abortRef.current === controller) {
+          setCancelled(true);
+          setErrorMessage("Generation was cancelled. Nothing was saved.");
+        }
+        return;
+      }
       console.error("BDD generation error:", err);
-      if (err.name === 'AbortError') {
-        setErrorMessage('Request timed out. Please try again.');
+      if (err instanceof QuotaExceededError) {
+        setQuotaExceeded(true);
+        setErrorMessage(err.message);
       } else {
         setErrorMessage(err.message || 'Failed to generate BDD code.');
       }
       toast({ title: "Generation Failed", description: "An error occurred.", variant: "destructive" });
     } finally {
-      setIsGenerating(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+        setProgress(null);
+      }
     }
   };
 
@@ -140,14 +289,14 @@ const BddCodeOutput = ({ framework, testData, gherkinScenarios }: BddCodeOutputP
     toast({ title: "Downloaded", description: `${filename} downloaded.` });
   };
 
-  const moduleName = deriveModuleName();
-  const lower = moduleName.toLowerCase();
+  const lower = (currentModule?.module || groups[0]?.name || DEFAULT_MODULE).toLowerCase();
+  const extension = codeLanguage === "typescript" ? "ts" : "js";
 
   const fileNames: Record<string, Record<keyof BddGeneratedCode, string>> = {
     playwright: {
-      stepDefinitions: `${lower}.steps.ts`,
-      actions: `${lower}Actions.ts`,
-      adapter: `${lower}Adapter.ts`,
+      stepDefinitions: `${lower}.steps.${extension}`,
+      actions: `${lower}Actions.${extension}`,
+      adapter: `${lower}Adapter.${extension}`,
       dataFile: "testData.json",
     },
     selenium: {
@@ -157,6 +306,18 @@ const BddCodeOutput = ({ framework, testData, gherkinScenarios }: BddCodeOutputP
       dataFile: "testData.json",
     },
     cypress: {
+      stepDefinitions: `${lower}.steps.${extension}`,
+      actions: `${lower}Actions.${extension}`,
+      adapter: `${lower}Adapter.${extension}`,
+      dataFile: "testData.json",
+    },
+    webdriverio: {
+      stepDefinitions: `${lower}.steps.js`,
+      actions: `${lower}Actions.js`,
+      adapter: `${lower}Adapter.js`,
+      dataFile: "testData.json",
+    },
+    testcafe: {
       stepDefinitions: `${lower}.steps.js`,
       actions: `${lower}Actions.js`,
       adapter: `${lower}Adapter.js`,
@@ -179,10 +340,14 @@ const BddCodeOutput = ({ framework, testData, gherkinScenarios }: BddCodeOutputP
     { key: "dataFile", label: "Data", icon: <Database className="h-4 w-4 mr-1" />, folder: `data/` },
   ];
 
+  const layerLabel = tabConfig.find(t => t.key === progress?.section)?.label;
+
   const frameworkColors: Record<string, string> = {
     playwright: "text-green-300",
     selenium: "text-orange-300",
     cypress: "text-cyan-300",
+    webdriverio: "text-amber-300",
+    testcafe: "text-teal-300",
     robot: "text-rose-300",
   };
 
@@ -192,29 +357,11 @@ const BddCodeOutput = ({ framework, testData, gherkinScenarios }: BddCodeOutputP
         <CardContent className="p-6">
           <Alert variant="destructive" className="bg-red-900/20 border-red-500/50">
             <AlertTriangle className="h-5 w-5 text-red-400" />
-            <AlertTitle className="text-red-300 font-semibold">Generation Failed</AlertTitle>
+            <AlertTitle className="text-red-300 font-semibold">{quotaExceeded ? "Usage Quota Reached" : cancelled ? "Generation Cancelled" : "Generation Failed"}</AlertTitle>
             <AlertDescription className="text-red-200 mt-2">{errorMessage}</AlertDescription>
           </Alert>
           <div className="mt-4 flex justify-center">
-            <Button onClick={generateBddCode} className="bg-blue-600 hover:bg-blue-700">Try Again</Button>
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
-
-  if (isGenerating) {
-    return (
-      <Card className="bg-slate-800 border-slate-700">
-        <CardContent className="p-12">
-          <div className="flex flex-col items-center justify-center text-center">
-            <Loader2 className="h-12 w-12 text-blue-400 animate-spin mb-4" />
-            <h3 className="text-lg font-medium text-white mb-2">
-              Generating BDD Architecture for {framework.charAt(0).toUpperCase() + framework.slice(1)}...
-            </h3>
-            <p className="text-slate-400 text-sm">
-              Creating Step Definitions → Actions → Adapter layers. Please wait.
-            </p>
+            <Button onClick={() => generateBddCode()} className="bg-blue-600 hover:bg-blue-700">Try Again</Button>
           </div>
         </CardContent>
       </Card>
@@ -223,24 +370,68 @@ const BddCodeOutput = ({ framework, testData, gherkinScenarios }: BddCodeOutputP
 
   return (
     <Card className="bg-slate-800 border-slate-700">
-      <CardHeader className="pb-3">
+      <CardHeader className="pb-3 flex-row items-center justify-between space-y-0">
         <div>
           <CardTitle className="text-white flex items-center text-base">
             <Layers className="h-5 w-5 text-indigo-400 mr-2" />
-            BDD Architecture — {framework.charAt(0).toUpperCase() + framework.slice(1)}
+            BDD Architecture — {FRAMEWORK_LABELS[framework]}
+            {codeLanguage !== "javascript" && ` (${TARGET_LANGUAGES[codeLanguage].short})`}
           </CardTitle>
           <CardDescription className="text-slate-400 text-sm">
             Steps → Actions → Adapter → Framework | Fully layered, framework-agnostic
           </CardDescription>
         </div>
+        {modules.length > 1 && (
+          <Select value={currentModule?.module} onValueChange={setActiveModule}>
+            <SelectTrigger className="w-48 bg-slate-900 border-slate-600 text-slate-200">
+              <SelectValue placeholder="Module" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {modules.map(m => (
+                <SelectItem key={m.module} value={m.module} className="text-slate-200 focus:bg-slate-700">
+                  {m.module}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </CardHeader>
       <CardContent>
+        {isGenerating && (
+          <div className="flex items-center justify-between rounded-md border border-slate-700 bg-slate-900/60 px-3 py-2 mb-4">
+            <div className="flex items-center text-sm text-slate-300">
+              <Loader2 className="h-4 w-4 text-blue-400 animate-spin mr-2" />
+              {chunks.length
+                ? `${testData.testCases.length} test cases in ${chunks.length} chunks · ${chunks.filter(chunk => chunk.status === "done").length} done`
+                : !progress
+                ? "Waiting for the AI model..."
+                : `${layerLabel ? `Writing ${layerLabel} · ` : ""}${progress.received.toLocaleString()} characters received`}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => abortRef.current?.abort()}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              <Square className="h-3 w-3 mr-2" />
+              Cancel
+            </Button>
+          </div>
+        )}
+        {chunks.length > 0 && (isGenerating || chunks.some(chunk => chunk.status === "failed")) && (
+          <ChunkProgress chunks={chunks} isGenerating={isGenerating} onRetry={() => generateBddCode(true)} />
+        )}
         <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as keyof BddGeneratedCode)}>
           <TabsList className="grid w-full grid-cols-4 bg-slate-700 mb-4">
             {tabConfig.map(t => (
               <TabsTrigger key={t.key} value={t.key} className="data-[state=active]:bg-indigo-600 text-xs sm:text-sm">
                 {t.icon}
                 <span className="hidden sm:inline">{t.label}</span>
+                {!!diagnostics[t.key]?.length && (
+                  <span className="ml-1 rounded-full bg-red-500 px-1.5 text-xs leading-4 text-white">
+                    {diagnostics[t.key]!.length}
+                  </span>
+                )}
               </TabsTrigger>
             ))}
           </TabsList>
@@ -268,12 +459,13 @@ const BddCodeOutput = ({ framework, testData, gherkinScenarios }: BddCodeOutputP
                   </Button>
                 </div>
               </div>
-              <Textarea
+              <CodeEditor
                 value={code[t.key]}
-                onChange={(e) => setCode(prev => ({ ...prev, [t.key]: e.target.value }))}
-                className={`bg-slate-900 border-slate-600 font-mono text-sm min-h-[300px] resize-none ${
-                  t.key === "dataFile" ? "text-yellow-300" : frameworkColors[framework]
-                }`}
+                language={layerLanguage(framework, t.key, codeLanguage) ?? "json"}
+                readOnly={isGenerating}
+                onChange={(value) => currentModule && updateModule(currentModule.module, { [t.key]: value })}
+                className={t.key === "dataFile" ? "text-yellow-300" : frameworkColors[framework]}
+                diagnostics={diagnostics[t.key]}
                 placeholder={`${t.label} code will appear here...`}
               />
             </TabsContent>
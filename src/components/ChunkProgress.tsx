@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Check, Clock, Loader2, RotateCcw } from "lucide-react";
+import { ChunkState } from "@/lib/chunkedGeneration";
+
+interface ChunkProgressProps {
+  chunks: ChunkState[];
+  isGenerating: boolean;
+  // Regenerates the failed chunks, keeping the ones already done
+  onRetry: () => void;
+}
+
+const statusIcon = (chunk: ChunkState) => {
+  switch (chunk.status) {
+    case "pending":
+      return <Clock className="h-4 w-4 text-slate-500" />;
+    case "running":
+      return <Loader2 className="h-4 w-4 text-blue-400 animate-spin" />;
+    case "done":
+      return <Check className="h-4 w-4 text-emerald-400" />;
+    case "failed":
+      return <AlertTriangle className="h-4 w-4 text-red-400" />;
+  }
+};
+
+const statusText = (chunk: ChunkState) => {
+  switch (chunk.status) {
+    case "pending":
+      return "Queued";
+    case "running":
+      return chunk.received ? `${chunk.received.toLocaleString()} characters` : "Waiting for the AI model...";
+    case "done":
+      return "Done";
+    case "failed":
+      return chunk.error || "Failed";
+  }
+};
+
+const ChunkProgress = ({ chunks, isGenerating, onRetry }: ChunkProgressProps) => {
+  const failed = chunks.filter(chunk => chunk.status === "failed").length;
+
+  return (
+    <div className="rounded-md border border-slate-700 bg-slate-900/60 mb-4 text-left">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+        <span className="text-sm font-medium text-slate-200">
+          Chunks ({chunks.filter(chunk => chunk.status === "done").length}/{chunks.length})
+        </span>
+        {failed > 0 && !isGenerating && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRetry}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <RotateCcw className="h-3 w-3 mr-2" />
+            Retry {failed} failed
+          </Button>
+        )}
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-slate-800">
+        {chunks.map((chunk, i) => (
+          <li key={i} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+            {statusIcon(chunk)}
+            <span className="text-slate-200 font-medium">
+              {chunk.module}{chunk.parts > 1 ? ` (${chunk.part}/${chunk.parts})` : ""}
+            </span>
+            <span className="text-slate-500">{chunk.testCases.length} test cases</span>
+            <span className={`ml-auto truncate max-w-[50%] ${chunk.status === "failed" ? "text-red-300" : "text-slate-400"}`}>
+              {statusText(chunk)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ChunkProgress;
@@ -0,0 +1,168 @@
+import { useEffect, useRef } from "react";
+import { Annotation, Compartment, EditorState } from "@codemirror/state";
+import {
+  EditorView,
+  drawSelection,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderText,
+} from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap, indentWithTab } from "@codemirror/commands";
+import { bracketMatching, foldGutter, foldKeymap, indentOnInput } from "@codemirror/language";
+import { highlightSelectionMatches, search, searchKeymap } from "@codemirror/search";
+import { closeBrackets, closeBracketsKeymap } from "@codemirror/autocomplete";
+import { Diagnostic, lintGutter, lintKeymap, setDiagnostics } from "@codemirror/lint";
+import { AlertTriangle } from "lucide-react";
+import { EditorLanguage, languageExtension } from "@/lib/editor/languages";
+import { slateEditor } from "@/lib/editor/theme";
+import { CodeDiagnostic } from "@/lib/validation/syntax";
+
+interface CodeEditorProps {
+  value: string;
+  language: EditorLanguage;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+  placeholder?: string;
+  // Text color class of the code
+  className?: string;
+  diagnostics?: CodeDiagnostic[];
+}
+
+// Marks the changes that come from the value prop, so they aren't reported back through onChange
+const External = Annotation.define<boolean>();
+
+// Editor positions of diagnostics, whose lines and columns start at 1
+const toEditorDiagnostics = (state: EditorState, diagnostics: CodeDiagnostic[]): Diagnostic[] =>
+  diagnostics.map(d => {
+    const line = state.doc.line(Math.min(Math.max(d.line, 1), state.doc.lines));
+    const from = Math.min(line.from + Math.max(d.column - 1, 0), line.to);
+    return { from, to: from < line.to ? line.to : from, severity: "error", message: d.message };
+  });
+
+// A code editor for a generated file: highlighting, line numbers, folding,
+// search and replace (Ctrl+F), with syntax errors marked in the gutter and
+// listed below, each jumping to its line
+const CodeEditor = ({ value, language, onChange, readOnly, placeholder, className = "", diagnostics = [] }: CodeEditorProps) => {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const languageConfig = useRef(new Compartment());
+  const readOnlyConfig = useRef(new Compartment());
+  const placeholderConfig = useRef(new Compartment());
+  // The props the editor is created with; the effects below keep it in sync with later ones
+  const initial = useRef({ value, language, readOnly, placeholder });
+
+  useEffect(() => {
+    const { value, language, readOnly, placeholder } = initial.current;
+    const view = new EditorView({
+      parent: hostRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          lineNumbers(),
+          highlightActiveLineGutter(),
+          foldGutter(),
+          lintGutter(),
+          history(),
+          drawSelection(),
+          indentOnInput(),
+          bracketMatching(),
+          closeBrackets(),
+          highlightActiveLine(),
+          highlightSelectionMatches(),
+          search({ top: true }),
+          keymap.of([
+            ...closeBracketsKeymap,
+            ...defaultKeymap,
+            ...searchKeymap,
+            ...historyKeymap,
+            ...foldKeymap,
+            ...lintKeymap,
+            indentWithTab,
+          ]),
+          slateEditor,
+          languageConfig.current.of(languageExtension(language)),
+          readOnlyConfig.current.of(EditorState.readOnly.of(!!readOnly)),
+          placeholderConfig.current.of(placeholder ? placeholderText(placeholder) : []),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged && !update.transactions.some(tr => tr.annotation(External))) {
+              onChangeRef.current?.(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+      annotations: External.of(true),
+    });
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: languageConfig.current.reconfigure(languageExtension(language)) });
+  }, [language]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: readOnlyConfig.current.reconfigure(EditorState.readOnly.of(!!readOnly)) });
+  }, [readOnly]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: placeholderConfig.current.reconfigure(placeholder ? placeholderText(placeholder) : []),
+    });
+  }, [placeholder]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view) view.dispatch(setDiagnostics(view.state, toEditorDiagnostics(view.state, diagnostics)));
+  }, [diagnostics, value]);
+
+  const jumpTo = (diagnostic: CodeDiagnostic) => {
+    const view = viewRef.current;
+    if (!view) return;
+    const [{ from }] = toEditorDiagnostics(view.state, [diagnostic]);
+    view.dispatch({ selection: { anchor: from }, scrollIntoView: true });
+    view.focus();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={hostRef}
+        className={`rounded-md border border-slate-600 bg-slate-900 overflow-hidden ${className}`}
+      />
+      {diagnostics.length > 0 && (
+        <ul className="rounded-md border border-red-500/40 bg-red-900/20 divide-y divide-red-500/20 max-h-32 overflow-y-auto">
+          {diagnostics.map((d, i) => (
+            <li key={i}>
+              <button
+                type="button"
+                onClick={() => jumpTo(d)}
+                className="flex w-full items-start gap-2 px-3 py-1.5 text-left text-xs text-red-200 hover:bg-red-900/30"
+              >
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-red-400" />
+                <span className="font-mono text-red-300 shrink-0">{d.line}:{d.column}</span>
+                <span>{d.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CodeEditor;
@@ -1,22 +1,65 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Copy, Download, Code, FileText, Loader2, Check, FileCode, Database, AlertTriangle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Download, Code, FileText, Loader2, Check, FileCode, Database, AlertTriangle, Square, Layers, FolderDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { GenerationProgress, QuotaExceededError, streamGeneration } from "@/lib/edgeFunctions";
+import { useAuth } from "@/hooks/use-auth";
 import { supabase } from "@/integrations/supabase/client";
-import { TestCaseData } from "./CsvUploader";
+import {
+  EMPTY_CODE,
+  FileKey,
+  GeneratedCode,
+  ModuleFiles,
+  ProjectCode,
+  cleanCode,
+  parseProject,
+  serializeProject,
+} from "@/lib/generatedCode";
+import { basePageFile } from "@/lib/basePage";
+import { FRAMEWORK_LABELS } from "@/lib/frameworks";
+import { TARGET_LANGUAGES, TargetLanguage, isJavaScriptLanguage } from "@/lib/targetLanguage";
+import { TestRunner } from "@/lib/testRunner";
+import { API_CLIENTS, ApiClient } from "@/lib/apiTests";
+import { DEFAULT_MODULE, groupByModule } from "@/lib/modules";
+import { downloadProjectZip, moduleFileNames } from "@/lib/projectZip";
+import { ScaffoldingSettings, loadScaffoldingSettings, saveScaffoldingSettings } from "@/lib/scaffolding/settings";
+import { checkConsistency } from "@/lib/consistency";
+import {
+  CodeDiagnostics,
+  countDiagnostics,
+  describeDiagnostics,
+  fileLanguage,
+  validateGeneratedCode,
+  validateSyntax,
+} from "@/lib/validation/syntax";
+import {
+  CHUNK_SIZES,
+  ChunkState,
+  GenerationChunk,
+  MAX_CONCURRENT_CHUNKS,
+  REQUEST_LIMITS,
+  chunkGherkinContext,
+  mergeChunkResults,
+  planChunks,
+  runWithConcurrency,
+} from "@/lib/chunkedGeneration";
+import ChunkProgress from "./ChunkProgress";
+import CodeEditor from "./CodeEditor";
+import ConsistencyReport from "./ConsistencyReport";
+import ProjectSettings from "./ProjectSettings";
+import { TestCase, TestCaseData } from "./CsvUploader";
 
-type OutputType = "gherkin" | "playwright" | "selenium" | "cypress" | "robot";
+type OutputType = "gherkin" | "playwright" | "selenium" | "cypress" | "webdriverio" | "testcafe" | "robot" | "api";
+type OutputTab = FileKey | "basePage";
 
-interface GeneratedCode {
-  featureFile: string;
-  pageObject: string;
-  testFile: string;
-  dataFile: string;
-}
+// Tailwind only ships classes it finds written out in full
+const GRID_COLUMNS: Record<number, string> = { 2: "grid-cols-2", 3: "grid-cols-3", 4: "grid-cols-4" };
+
+const EMPTY_PROJECT: ProjectCode = { modules: [], basePage: '', language: "javascript", runner: "cucumber" };
 
 interface CodeOutputProps {
   type: OutputType;
@@ -26,6 +69,16 @@ interface CodeOutputProps {
   isGenerating: boolean;
   setIsGenerating: (v: boolean) => void;
   gherkinContext?: string;
+  // Called once per successful generation (not for manual edits), with the model that produced it
+  onGenerated?: (code: string, model?: string) => void;
+  // AI model to generate with; the provider's default when null
+  model?: string | null;
+  // Language new generations are written in; a reopened project keeps its own
+  language?: TargetLanguage;
+  // Runner new generations are written for (Playwright only); a reopened project keeps its own
+  runner?: TestRunner;
+  // Client new API tests are written with; a reopened project keeps its own
+  apiClient?: ApiClient;
 }
 
 const CodeOutput = ({ 
@@ -35,17 +88,73 @@ const CodeOutput = ({
   onCodeGenerated,
   isGenerating,
   setIsGenerating,
-  gherkinContext
+  gherkinContext,
+  onGenerated,
+  model,
+  language = "javascript",
+  runner = "cucumber",
+  apiClient = "playwright"
 }: CodeOutputProps) => {
-  const [pomCode, setPomCode] = useState<GeneratedCode>({ featureFile: '', pageObject: '', testFile: '', dataFile: '' });
+  // Test cases by module (set by Index); each module gets its own files
+  const groups = groupByModule(testData.testCases);
+  const [project, setProject] = useState<ProjectCode>(
+    () => (type !== "gherkin" && parseProject(generatedCode, groups[0]?.name || DEFAULT_MODULE)) || EMPTY_PROJECT
+  );
+  const [activeModule, setActiveModule] = useState(() => project.modules[0]?.module || '');
+  const currentModule = project.modules.find(m => m.module === activeModule) || project.modules[0];
+  const pomCode = currentModule?.code || EMPTY_CODE;
   const [gherkinCode, setGherkinCode] = useState(generatedCode);
-  const [activeTab, setActiveTab] = useState<"featureFile" | "pageObject" | "testFile" | "dataFile">("featureFile");
+  const [activeTab, setActiveTab] = useState<OutputTab>(
+    () => (type === "gherkin" || pomCode.featureFile || !pomCode.pageObject ? "featureFile" : "pageObject")
+  );
   const [copiedFeature, setCopiedFeature] = useState(false);
+  const [copiedBase, setCopiedBase] = useState(false);
   const [copiedPO, setCopiedPO] = useState(false);
   const [copiedTest, setCopiedTest] = useState(false);
   const [copiedData, setCopiedData] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  // Aborts the generation in flight, closing its stream and the AI request behind it
+  const abortRef = useRef<AbortController | null>(null);
+  // Suites over a function's limit: the chunks, their files (null until generated) and the model used
+  const [chunks, setChunks] = useState<ChunkState[]>([]);
+  const chunkPlan = useRef<GenerationChunk[]>([]);
+  const chunkResults = useRef<(GeneratedCode | null)[]>([]);
+  const chunkModel = useRef<string | undefined>(undefined);
+  const [projectSettings, setProjectSettings] = useState<ScaffoldingSettings>(loadScaffoldingSettings);
+  // Modules whose syntax errors are being sent back to the model for repair
+  const [repairing, setRepairing] = useState(0);
   const { toast } = useToast();
+  const { workspace } = useAuth();
+  // Base page sent with new generations, and the one of the project on screen
+  const basePage = type === "gherkin" ? null : basePageFile(type, language);
+  const projectBasePage = type === "gherkin" ? null : basePageFile(type, project.language);
+  // Robot tests, Playwright Test specs and API tests are written without a feature file
+  const native = project.runner === "native";
+  const hasFeatureFile = type !== "robot" && type !== "api" && !native;
+  // Robot keeps its test data, and API tests their response schemas, in a data file
+  const hasDataFile = type === "robot" || type === "api";
+  // Output type files are checked and merged as: API tests written for Robot are Robot files
+  const filesType = (client?: ApiClient) => (type === "api" && client === "robot" ? "robot" : type);
+  const projectFilesType = filesType(project.apiClient);
+  // Syntax errors of the files on screen, marked in their tabs
+  const diagnostics = useMemo<CodeDiagnostics>(
+    () => (isGenerating ? {} : type === "gherkin"
+      ? { featureFile: validateSyntax("gherkin", gherkinCode) }
+      : validateGeneratedCode(projectFilesType, pomCode, project.language)),
+    [type, projectFilesType, gherkinCode, pomCode, project.language, isGenerating]
+  );
+  // Whether the module's steps, step definitions and page object agree (JavaScript Cucumber frameworks only)
+  const consistency = useMemo(
+    () => (!hasFeatureFile || type === "gherkin" || !isJavaScriptLanguage(project.language) || isGenerating || !pomCode.testFile
+      ? null
+      : checkConsistency(pomCode, project.basePage)),
+    [type, pomCode, project.basePage, project.language, hasFeatureFile, isGenerating]
+  );
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   useEffect(() => {
     if (type === "gherkin") {
@@ -59,20 +168,43 @@ const CodeOutput = ({
     }
   }, [type, testData]);
 
-  const generateCode = async () => {
+  // retryFailed reruns only the chunks that failed in the last chunked generation
+  const generateCode = async (retryFailed = false) => {
     if (testData.testCases.length === 0) return;
     
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
     setErrorMessage(null);
+    setQuotaExceeded(false);
+    setCancelled(false);
+    setProgress(null);
     
     try {
-      await generateAutomationCode();
-    } catch (error: any) {
+      await generateAutomationCode(controller.signal, retryFailed);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Unmounted, cancelled, or replaced by a newer generation
+        if (abortRef.current === controller) {
+          setCancelled(true);
+          setErrorMessage("Generation was cancelled. Nothing was saved.");
+        }
+        return;
+      }
       console.error('Error generating code:', error);
-      const errorMsg = error?.message?.toLowerCase() || '';
+      const message = error instanceof Error ? error.message : '';
+      const errorMsg = message.toLowerCase();
       
-      if (errorMsg.includes('rate limit') || errorMsg.includes('quota') || errorMsg.includes('429') || errorMsg.includes('limit')) {
+      if (error instanceof QuotaExceededError) {
+        setQuotaExceeded(true);
+        setErrorMessage(error.message);
+      } else if (errorMsg.includes('rate limit') || errorMsg.includes('quota') || errorMsg.includes('429') || errorMsg.includes('limit')) {
         setErrorMessage("AI Generation limit reached. Please try again later or use another model.");
+      } else if (errorMsg.includes('sign in') || errorMsg.includes('401')) {
+        setErrorMessage("Your session has expired. Please sign in again.");
+      } else if (errorMsg.includes('member of this workspace')) {
+        setErrorMessage(message);
       } else {
         setErrorMessage("An error occurred while generating code. Please try again.");
       }
@@ -83,91 +215,237 @@ const CodeOutput = ({
         variant: "destructive",
       });
     } finally {
-      setIsGenerating(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+        setProgress(null);
+      }
     }
   };
 
-  const generateAutomationCode = async () => {
-    const functionName = type === "gherkin" ? "generate-gherkin" :
-                         type === "playwright" ? "generate-playwright" : 
-                         type === "selenium" ? "generate-selenium" : 
-                         type === "cypress" ? "generate-cypress" : "generate-robot";
-    
+  const cancelGeneration = () => abortRef.current?.abort();
+
+  // Every output type has its own edge function
+  const functionName = `generate-${type}`;
+
+  const requestBody = (testCases: TestCase[], moduleName: string, gherkinScenarios?: string) => ({
+    testCases,
+    locators: testData.locators,
+    testData: testData.testData,
+    moduleName,
+    workspaceId: workspace?.id,
+    ...(basePage ? { basePage: true } : {}),
+    // API tests pick their client as the framework; their language follows from it
+    ...(type === "api" ? { framework: apiClient } : language !== "javascript" ? { language } : {}),
+    ...(runner !== "cucumber" ? { runner } : {}),
+    ...(model ? { model } : {}),
+    ...(gherkinScenarios ? { gherkinScenarios } : {}),
+  });
+
+  const toGeneratedCode = (data: Record<string, string>): GeneratedCode => type === "gherkin"
+    ? { ...EMPTY_CODE, featureFile: cleanCode(data.gherkin || '') }
+    : {
+        featureFile: cleanCode(data.featureFile || ''),
+        pageObject: cleanCode(data.pageObject || ''),
+        testFile: cleanCode(data.testFile || ''),
+        dataFile: cleanCode(data.dataFile || ''),
+      };
+
+  // Shows a manual edit and hands the edited project to Index, like the Gherkin editor
+  const editProject = (next: ProjectCode) => {
+    setProject(next);
+    onCodeGenerated(serializeProject(next));
+  };
+
+  // Edits one file of the module on screen
+  const updateModuleFile = (key: FileKey, value: string) => editProject({
+    ...project,
+    modules: project.modules.map(m => (m === currentModule ? { ...m, code: { ...m.code, [key]: value } } : m)),
+  });
+
+  // Shows the modules generated so far; Gherkin is one text with a Feature per module
+  const showModules = (modules: ModuleFiles<GeneratedCode>[]) => {
+    if (type === "gherkin") {
+      const gherkin = modules.map(m => m.code.featureFile).filter(Boolean).join("\n\n");
+      setGherkinCode(gherkin);
+      return gherkin;
+    }
+    const next = { modules, basePage: basePage?.content || '', language, runner, ...(type === "api" ? { apiClient } : {}) };
+    setProject(next);
+    setActiveModule(current => (modules.some(m => m.module === current) ? current : modules[0]?.module || ''));
+    return serializeProject(next);
+  };
+
+  // Shows a completed generation and hands it to Index
+  const finishGeneration = (modules: ModuleFiles<GeneratedCode>[], generatedModel?: string) => {
+    const code = showModules(modules);
+    onCodeGenerated(code);
+    onGenerated?.(code, generatedModel);
+    if (type === "gherkin") {
+      toast({
+        title: "Gherkin Generated",
+        description: `${testData.testCases.length} test cases converted to Gherkin.`,
+      });
+    } else {
+      const first = modules[0]?.code;
+      setActiveTab(first?.featureFile ? "featureFile" : "pageObject");
+      toast({
+        title: `${type === "api" ? "API Tests" : FRAMEWORK_LABELS[type]} Generated`,
+        description: type === "api"
+          ? `Request builders, tests and schemas generated for ${modules.length} module${modules.length === 1 ? "" : "s"}.`
+          : modules.length > 1
+            ? `${modules.length} modules generated on a shared base page.`
+            : `Page Object, Test file, and Data file generated successfully.`,
+      });
+    }
+  };
+
+  // Sends the modules whose files don't parse back to the function with their
+  // errors, keeping a repaired module only when it has fewer errors than before
+  const repairModules = async (modules: ModuleFiles<GeneratedCode>[], signal: AbortSignal) => {
+    const broken = modules.flatMap((m, index) => {
+      const errors = validateGeneratedCode(filesType(apiClient), m.code, language);
+      return countDiagnostics(errors) ? [{ index, errors }] : [];
+    });
+    if (!broken.length) return modules;
+
+    const repaired = [...modules];
+    const limit = type === "gherkin" ? REQUEST_LIMITS.gherkin : REQUEST_LIMITS.framework;
+    setRepairing(broken.length);
     try {
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000); // 120s timeout
-      
-      const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseKey}`,
-          'apikey': supabaseKey,
-        },
-        body: JSON.stringify({
-          testCases: testData.testCases,
-          locators: testData.locators,
-          testData: testData.testData,
-          moduleName: deriveModuleName(),
-          ...(gherkinContext ? { gherkinScenarios: gherkinContext } : {}),
-        }),
-        signal: controller.signal,
+      await runWithConcurrency(broken, MAX_CONCURRENT_CHUNKS, async ({ index, errors }) => {
+        const { module, code } = modules[index];
+        const testCases = (groups.find(g => g.name === module)?.testCases || testData.testCases).slice(0, limit);
+        const files = type === "gherkin"
+          ? { gherkin: code.featureFile }
+          : Object.fromEntries(Object.entries(code).filter(([, content]) => content));
+        try {
+          const data = await streamGeneration<Record<string, string>>(
+            functionName,
+            {
+              ...requestBody(testCases, module, gherkinContext && chunkGherkinContext(gherkinContext, testCases)),
+              repair: { files, errors: describeDiagnostics(errors, 50) },
+            },
+            {},
+            signal
+          );
+          const fixed = toGeneratedCode(data);
+          const next = Object.fromEntries(
+            Object.entries(code).map(([key, content]) => [key, fixed[key as FileKey] || content])
+          ) as GeneratedCode;
+          if (countDiagnostics(validateGeneratedCode(filesType(apiClient), next, language)) < countDiagnostics(errors)) {
+            repaired[index] = { module, code: next };
+          }
+        } catch (error) {
+          // The unrepaired files are still shown, with their errors marked
+          if (signal.aborted || error instanceof QuotaExceededError) throw error;
+          console.error(`Error repairing ${type} module ${module}:`, error);
+        }
       });
-      
-      clearTimeout(timeoutId);
+    } finally {
+      setRepairing(0);
+    }
+    return repaired;
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Request failed with status ${response.status}`);
-      }
+  const generateAutomationCode = async (signal: AbortSignal, retryFailed: boolean) => {
+    if (!retryFailed) {
+      const limit = type === "gherkin" ? REQUEST_LIMITS.gherkin : REQUEST_LIMITS.framework;
+      const chunkSize = type === "gherkin" ? CHUNK_SIZES.gherkin : CHUNK_SIZES.framework;
+      chunkPlan.current = planChunks(groups, chunkSize, limit);
+    }
+    if (retryFailed || chunkPlan.current.length > 1) {
+      await generateInChunks(signal, retryFailed);
+      return;
+    }
 
-      const data = await response.json();
+    // A single module within the limit streams straight into the tabs
+    const { module, testCases } = chunkPlan.current[0];
+    setChunks([]);
+    if (type !== "gherkin") showModules([{ module, code: EMPTY_CODE }]);
+    let firstSection = true;
 
-      if (data?.error) {
-        throw new Error(data.error);
-      }
+    try {
+      const data = await streamGeneration<Record<string, string>>(
+        functionName,
+        requestBody(testCases, module, gherkinContext),
+        {
+          onProgress: setProgress,
+          // Fill each tab as soon as its file is complete
+          onSection: (key, content) => {
+            if (type === "gherkin" || !(key in EMPTY_CODE)) return;
+            setProject(prev => ({
+              ...prev,
+              modules: prev.modules.map(m => ({ ...m, code: { ...m.code, [key]: cleanCode(content) } })),
+            }));
+            if (firstSection) setActiveTab(key as FileKey);
+            firstSection = false;
+          },
+        },
+        signal
+      );
+      const modules = await repairModules([{ module, code: toGeneratedCode(data) }], signal);
+      finishGeneration(modules, data.model);
+    } catch (error) {
+      if (!signal.aborted) console.error(`Error generating ${type}:`, error);
+      throw error;
+    }
+  };
 
-      const cleanCode = (code: string) => code
-        .replace(/```(?:javascript|typescript|json|js|gherkin|robot|python)?\n?/g, '')
-        .replace(/\n?```$/g, '')
-        .trim();
-
-      if (type === "gherkin") {
-        const gherkin = cleanCode(data.gherkin || '');
-        setGherkinCode(gherkin);
-        onCodeGenerated(gherkin);
-        toast({
-          title: "Gherkin Generated",
-          description: `${testData.testCases.length} test cases converted to Gherkin.`,
-        });
-      } else {
-        const featureFile = cleanCode(data.featureFile || '');
-        const pageObject = cleanCode(data.pageObject || '');
-        const testFile = cleanCode(data.testFile || '');
-        const dataFile = cleanCode(data.dataFile || '');
-
-        setPomCode({ featureFile, pageObject, testFile, dataFile });
-        setActiveTab(featureFile ? "featureFile" : "pageObject");
-        onCodeGenerated(JSON.stringify({ featureFile, pageObject, testFile, dataFile }));
-      
-        toast({
-          title: `${type.charAt(0).toUpperCase() + type.slice(1)} Generated`,
-          description: `Page Object, Test file, and Data file generated successfully.`,
-        });
-      }
-    } catch (err: any) {
-      console.error(`Error generating ${type}:`, err);
-      if (err.name === 'AbortError') {
-        throw new Error('Request timed out. The AI model is taking too long. Please try again.');
+  // Several modules, or modules over the function's limit, are generated chunk by
+  // chunk, a few at a time; the tabs show the merge of every chunk finished so far
+  const generateInChunks = async (signal: AbortSignal, retryFailed: boolean) => {
+    if (!retryFailed) {
+      chunkResults.current = chunkPlan.current.map(() => null);
+      setChunks(chunkPlan.current.map(chunk => ({ ...chunk, status: "pending", received: 0 })));
+      showModules([]);
+    }
+    const plan = chunkPlan.current;
+    const results = chunkResults.current;
+    const pending = plan.flatMap((_, i) => (results[i] ? [] : [i]));
+
+    const updateChunk = (index: number, update: Partial<ChunkState>) =>
+      setChunks(prev => prev.map((chunk, i) => (i === index ? { ...chunk, ...update } : chunk)));
+    const merged = () => mergeChunkResults(filesType(apiClient), language, plan, results);
+
+    pending.forEach(i => updateChunk(i, { status: "pending", received: 0, error: undefined }));
+    await runWithConcurrency(pending, MAX_CONCURRENT_CHUNKS, async (index) => {
+      const chunk = plan[index];
+      updateChunk(index, { status: "running" });
+      try {
+        // Each chunk only needs the Gherkin scenarios of its own test cases
+        const context = gherkinContext && (plan.length > 1 ? chunkGherkinContext(gherkinContext, chunk.testCases) : gherkinContext);
+        const data = await streamGeneration<Record<string, string>>(
+          functionName,
+          requestBody(chunk.testCases, chunk.module, context),
+          { onProgress: ({ received }) => updateChunk(index, { received }) },
+          signal
+        );
+        results[index] = toGeneratedCode(data);
+        chunkModel.current = data.model;
+        updateChunk(index, { status: "done" });
+        showModules(merged());
+      } catch (error) {
+        // Cancelling and running out of quota stop every chunk; other failures can be retried
+        if (signal.aborted || error instanceof QuotaExceededError) throw error;
+        console.error(`Error generating ${type} chunk ${chunk.module} ${chunk.part}/${chunk.parts}:`, error);
+        updateChunk(index, { status: "failed", error: error instanceof Error ? error.message : String(error) });
       }
-      throw err;
+    });
+
+    const failed = results.filter(result => !result).length;
+    if (failed) {
+      toast({
+        title: "Generation Incomplete",
+        description: `${failed} of ${plan.length} chunks failed. Retry them to complete the suite.`,
+        variant: "destructive",
+      });
+      return;
     }
+    finishGeneration(await repairModules(merged(), signal), chunkModel.current);
   };
 
-  const copyToClipboard = (code: string, which: "po" | "test" | "data" | "gherkin" | "feature") => {
+  const copyToClipboard = (code: string, which: "po" | "test" | "data" | "gherkin" | "feature" | "base") => {
     navigator.clipboard.writeText(code);
     if (which === "po") {
       setCopiedPO(true);
@@ -181,6 +459,9 @@ const CodeOutput = ({
     } else if (which === "feature") {
       setCopiedFeature(true);
       setTimeout(() => setCopiedFeature(false), 2000);
+    } else if (which === "base") {
+      setCopiedBase(true);
+      setTimeout(() => setCopiedBase(false), 2000);
     }
     toast({
       title: "Copied!",
@@ -205,66 +486,108 @@ const CodeOutput = ({
     });
   };
 
-  const deriveModuleName = (): string => {
-    if (!testData.testCases.length) return "Page";
-    
-    // Try to extract module from test case ID (e.g., "TC_LOGIN_001" → "Login", "TC_CART_001" → "Cart")
-    const firstId = testData.testCases[0].id || "";
-    const idMatch = firstId.match(/^TC[_-]([A-Za-z]+)/i);
-    if (idMatch) {
-      const raw = idMatch[1].toLowerCase();
-      return raw.charAt(0).toUpperCase() + raw.slice(1);
-    }
-    
-    // Fallback: use first word of description
-    const desc = testData.testCases[0].description || "";
-    const descWord = desc.split(/[\s_-]+/).find(w => w.length > 2);
-    if (descWord) {
-      const clean = descWord.replace(/[^a-zA-Z]/g, '');
-      return clean.charAt(0).toUpperCase() + clean.slice(1).toLowerCase();
+  const downloadProject = async () => {
+    if (type === "gherkin") return;
+    try {
+      await downloadProjectZip(type, project, projectSettings);
+      toast({
+        title: "Project Downloaded",
+        description: `qatalyst-${type}-tests.zip downloaded. See its README to run it.`,
+      });
+    } catch (error) {
+      console.error('Error building project zip:', error);
+      toast({ title: "Download Failed", description: "The project zip could not be created.", variant: "destructive" });
     }
-    
-    return "Page";
   };
 
-  const moduleName = deriveModuleName();
-
-  const getFileNames = () => {
-    const lower = moduleName.toLowerCase();
-    switch (type) {
-      case "playwright":
-      case "selenium":
-      case "cypress":
-        return {
-          featureFile: `${lower}.feature`,
-          pageObject: `${lower}.page.js`,
-          testFile: `${lower}.steps.js`,
-          dataFile: "",
-        };
-      case "robot":
-        return { featureFile: "", pageObject: "keywords.robot", testFile: "tests.robot", dataFile: "testdata.py" };
-      default:
-        return { featureFile: "", pageObject: `${lower}.page.js`, testFile: `${lower}.steps.js`, dataFile: "" };
-    }
+  const handleProjectSettingsChange = (settings: ScaffoldingSettings) => {
+    setProjectSettings(settings);
+    saveScaffoldingSettings(settings);
   };
 
   const getTypeInfo = () => {
+    // "Cucumber BDD, TS", "Playwright Test, TS", or the language and its runner: "Java, Cucumber-JVM + TestNG"
+    const { label, short, runner: languageRunner } = TARGET_LANGUAGES[project.language];
+    const flavour = languageRunner ? `${label}, ${languageRunner}` : native ? `Playwright Test, ${short}` : `Cucumber BDD, ${short}`;
     switch (type) {
       case "gherkin":
         return { icon: <FileText className="h-5 w-5 text-purple-400" />, title: "Gherkin Scenarios", color: "text-purple-300" };
       case "playwright":
-        return { icon: <Code className="h-5 w-5 text-green-400" />, title: "Playwright (Cucumber BDD, JS)", color: "text-green-300" };
+        return { icon: <Code className="h-5 w-5 text-green-400" />, title: `Playwright (${flavour})`, color: "text-green-300" };
       case "selenium":
-        return { icon: <Code className="h-5 w-5 text-orange-400" />, title: "Selenium (Cucumber BDD, JS)", color: "text-orange-300" };
+        return { icon: <Code className="h-5 w-5 text-orange-400" />, title: `Selenium (${flavour})`, color: "text-orange-300" };
       case "cypress":
-        return { icon: <Code className="h-5 w-5 text-cyan-400" />, title: "Cypress (Cucumber BDD, JS)", color: "text-cyan-300" };
+        return { icon: <Code className="h-5 w-5 text-cyan-400" />, title: `Cypress (${flavour})`, color: "text-cyan-300" };
+      case "webdriverio":
+        return { icon: <Code className="h-5 w-5 text-amber-400" />, title: `WebdriverIO (${flavour})`, color: "text-amber-300" };
+      case "testcafe":
+        return { icon: <Code className="h-5 w-5 text-teal-400" />, title: `TestCafe (${flavour})`, color: "text-teal-300" };
       case "robot":
         return { icon: <Code className="h-5 w-5 text-rose-400" />, title: "Robot Framework", color: "text-rose-300" };
+      case "api":
+        return {
+          icon: <Code className="h-5 w-5 text-indigo-400" />,
+          title: `API Tests (${API_CLIENTS[project.apiClient || apiClient].label})`,
+          color: "text-indigo-300",
+        };
     }
   };
 
   const typeInfo = getTypeInfo();
-  const fileNames = getFileNames();
+  // File names of the module on screen
+  const fileNames = moduleFileNames(
+    type === "gherkin" ? "playwright" : type,
+    currentModule?.module || groups[0]?.name || DEFAULT_MODULE,
+    project
+  );
+
+  // Page object and test file, plus the feature file or the data file, plus the base page
+  const tabCount = 2 + (hasFeatureFile ? 1 : 0) + (hasDataFile ? 1 : 0) + (project.basePage ? 1 : 0);
+
+  const sectionLabels: Record<FileKey, string> = {
+    featureFile: "Feature",
+    pageObject: type === "api" ? "Requests" : type === "robot" ? "Keywords" : "Page Object",
+    testFile: type === "api" ? "Tests" : type === "robot" ? "Test File" : native ? "Spec" : "Step Defs",
+    dataFile: type === "api" ? "Schemas" : "Data File",
+  };
+
+  const progressText = () => {
+    if (repairing) return `Repairing syntax errors in ${repairing} module${repairing === 1 ? "" : "s"}...`;
+    if (chunks.length) {
+      const done = chunks.filter(chunk => chunk.status === "done").length;
+      return `${testData.testCases.length} test cases in ${chunks.length} chunks · ${done} done`;
+    }
+    if (!progress) return "Waiting for the AI model...";
+    const received = `${progress.received.toLocaleString()} characters received`;
+    const section = sectionLabels[progress.section as FileKey];
+    return section ? `Writing ${section} · ${received}` : received;
+  };
+
+  // Red count on a tab whose file has syntax errors
+  const errorMarker = (key: FileKey) => !!diagnostics[key]?.length && (
+    <span
+      title={`${diagnostics[key]!.length} syntax error${diagnostics[key]!.length === 1 ? "" : "s"}`}
+      className="ml-2 rounded-full bg-red-500 px-1.5 text-xs leading-4 text-white"
+    >
+      {diagnostics[key]!.length}
+    </span>
+  );
+
+  const cancelButton = (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={cancelGeneration}
+      className="border-slate-600 text-slate-300 hover:bg-slate-700"
+    >
+      <Square className="h-3 w-3 mr-2" />
+      Cancel
+    </Button>
+  );
+
+  const chunkProgress = chunks.length > 0 && (isGenerating || chunks.some(chunk => chunk.status === "failed")) && (
+    <ChunkProgress chunks={chunks} isGenerating={isGenerating} onRetry={() => generateCode(true)} />
+  );
 
   // Error state
   if (errorMessage) {
@@ -273,7 +596,7 @@ const CodeOutput = ({
         <CardContent className="p-6">
           <Alert variant="destructive" className="bg-red-900/20 border-red-500/50">
             <AlertTriangle className="h-5 w-5 text-red-400" />
-            <AlertTitle className="text-red-300 font-semibold">Generation Failed</AlertTitle>
+            <AlertTitle className="text-red-300 font-semibold">{quotaExceeded ? "Usage Quota Reached" : cancelled ? "Generation Cancelled" : "Generation Failed"}</AlertTitle>
             <AlertDescription className="text-red-200 mt-2">
               {errorMessage}
             </AlertDescription>
@@ -294,7 +617,7 @@ const CodeOutput = ({
     );
   }
 
-  if (isGenerating) {
+  if (isGenerating && type === "gherkin") {
     return (
       <Card className="bg-slate-800 border-slate-700">
         <CardContent className="p-12">
@@ -303,10 +626,12 @@ const CodeOutput = ({
             <h3 className="text-lg font-medium text-white mb-2">
               Generating {typeInfo.title}...
             </h3>
-            <p className="text-slate-400 text-sm">
-              AI is processing your test cases. Please wait.
+            <p className="text-slate-400 text-sm mb-4">
+              {progressText()}
             </p>
+            {cancelButton}
           </div>
+          {chunkProgress && <div className="mt-6">{chunkProgress}</div>}
         </CardContent>
       </Card>
     );
@@ -348,13 +673,16 @@ const CodeOutput = ({
           </div>
         </CardHeader>
         <CardContent>
-          <Textarea
+          {chunkProgress}
+          <CodeEditor
             value={gherkinCode}
-            onChange={(e) => {
-              setGherkinCode(e.target.value);
-              onCodeGenerated(e.target.value);
+            language="gherkin"
+            onChange={(value) => {
+              setGherkinCode(value);
+              onCodeGenerated(value);
             }}
-            className={`bg-slate-900 border-slate-600 font-mono text-sm min-h-[300px] resize-none ${typeInfo.color}`}
+            className={typeInfo.color}
+            diagnostics={diagnostics.featureFile}
             placeholder="Generated Gherkin code will appear here..."
           />
         </CardContent>
@@ -376,34 +704,89 @@ const CodeOutput = ({
               Page Object Model with separate test and data files
             </CardDescription>
           </div>
+          <div className="flex items-center gap-2">
+            {project.modules.length > 1 && (
+              <Select value={currentModule?.module} onValueChange={setActiveModule}>
+                <SelectTrigger className="w-48 bg-slate-900 border-slate-600 text-slate-200">
+                  <Layers className="h-4 w-4 mr-2 text-slate-400" />
+                  <SelectValue placeholder="Module" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {project.modules.map(m => (
+                    <SelectItem key={m.module} value={m.module} className="text-slate-200 focus:bg-slate-700">
+                      {m.module}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <ProjectSettings settings={projectSettings} onChange={handleProjectSettingsChange} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={downloadProject}
+              disabled={isGenerating || !project.modules.length}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              <FolderDown className="h-4 w-4 mr-2" />
+              Download Project
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
-          <TabsList className={`grid w-full ${type === "robot" ? "grid-cols-3" : "grid-cols-3"} bg-slate-700 mb-4`}>
-            {type !== "robot" && (
+        {isGenerating && (
+          <div className="flex items-center justify-between rounded-md border border-slate-700 bg-slate-900/60 px-3 py-2 mb-4">
+            <div className="flex items-center text-sm text-slate-300">
+              <Loader2 className="h-4 w-4 text-blue-400 animate-spin mr-2" />
+              {progressText()}
+            </div>
+            {cancelButton}
+          </div>
+        )}
+        {chunkProgress}
+        {consistency && (
+          <ConsistencyReport
+            report={consistency}
+            fileLabels={sectionLabels}
+            onSelect={(issue) => setActiveTab(issue.file)}
+          />
+        )}
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as OutputTab)}>
+          <TabsList className={`grid w-full ${GRID_COLUMNS[tabCount]} bg-slate-700 mb-4`}>
+            {hasFeatureFile && (
               <TabsTrigger value="featureFile" className="data-[state=active]:bg-blue-600">
                 <FileText className="h-4 w-4 mr-2" />
                 Feature
+                {errorMarker("featureFile")}
               </TabsTrigger>
             )}
             <TabsTrigger value="pageObject" className="data-[state=active]:bg-blue-600">
               <FileCode className="h-4 w-4 mr-2" />
-              {type === "robot" ? "Keywords" : "Page Object"}
+              {sectionLabels.pageObject}
+              {errorMarker("pageObject")}
             </TabsTrigger>
             <TabsTrigger value="testFile" className="data-[state=active]:bg-blue-600">
               <Code className="h-4 w-4 mr-2" />
-              {type === "robot" ? "Test File" : "Step Defs"}
+              {sectionLabels.testFile}
+              {errorMarker("testFile")}
             </TabsTrigger>
-            {type === "robot" && (
+            {hasDataFile && (
               <TabsTrigger value="dataFile" className="data-[state=active]:bg-blue-600">
                 <Database className="h-4 w-4 mr-2" />
-                Data File
+                {sectionLabels.dataFile}
+                {errorMarker("dataFile")}
+              </TabsTrigger>
+            )}
+            {project.basePage && (
+              <TabsTrigger value="basePage" className="data-[state=active]:bg-blue-600">
+                <Layers className="h-4 w-4 mr-2" />
+                {type === "robot" ? "Common" : "Base Page"}
               </TabsTrigger>
             )}
           </TabsList>
 
-          {type !== "robot" && (
+          {hasFeatureFile && (
             <TabsContent value="featureFile" className="space-y-3">
               <div className="flex items-center justify-between">
                 <span className="text-sm text-slate-400 font-mono">features/{fileNames.featureFile}</span>
@@ -426,10 +809,13 @@ const CodeOutput = ({
                   </Button>
                 </div>
               </div>
-              <Textarea
+              <CodeEditor
                 value={pomCode.featureFile}
-                onChange={(e) => setPomCode(prev => ({ ...prev, featureFile: e.target.value }))}
-                className={`bg-slate-900 border-slate-600 font-mono text-sm min-h-[300px] resize-none text-purple-300`}
+                language={fileLanguage(projectFilesType, "featureFile", project.language)}
+                readOnly={isGenerating}
+                onChange={(value) => updateModuleFile("featureFile", value)}
+                className="text-purple-300"
+                diagnostics={diagnostics.featureFile}
                 placeholder="Gherkin .feature content will appear here..."
               />
             </TabsContent>
@@ -457,11 +843,14 @@ const CodeOutput = ({
                 </Button>
               </div>
             </div>
-            <Textarea
+            <CodeEditor
               value={pomCode.pageObject}
-              onChange={(e) => setPomCode(prev => ({ ...prev, pageObject: e.target.value }))}
-              className={`bg-slate-900 border-slate-600 font-mono text-sm min-h-[300px] resize-none ${typeInfo.color}`}
-              placeholder={`${type === "cypress" ? "Custom commands" : type === "robot" ? "Keywords" : "Page Object"} code will appear here...`}
+              language={fileLanguage(projectFilesType, "pageObject", project.language)}
+              readOnly={isGenerating}
+              onChange={(value) => updateModuleFile("pageObject", value)}
+              className={typeInfo.color}
+              diagnostics={diagnostics.pageObject}
+              placeholder={`${type === "cypress" ? "Custom commands" : sectionLabels.pageObject} code will appear here...`}
             />
           </TabsContent>
 
@@ -487,18 +876,21 @@ const CodeOutput = ({
                 </Button>
               </div>
             </div>
-            <Textarea
+            <CodeEditor
               value={pomCode.testFile}
-              onChange={(e) => setPomCode(prev => ({ ...prev, testFile: e.target.value }))}
-              className={`bg-slate-900 border-slate-600 font-mono text-sm min-h-[300px] resize-none ${typeInfo.color}`}
+              language={fileLanguage(projectFilesType, "testFile", project.language)}
+              readOnly={isGenerating}
+              onChange={(value) => updateModuleFile("testFile", value)}
+              className={typeInfo.color}
+              diagnostics={diagnostics.testFile}
               placeholder="Test file code will appear here..."
             />
           </TabsContent>
 
-          {type === "robot" && (
+          {hasDataFile && (
             <TabsContent value="dataFile" className="space-y-3">
               <div className="flex items-center justify-between">
-                <span className="text-sm text-slate-400 font-mono">/data/{fileNames.dataFile}</span>
+                <span className="text-sm text-slate-400 font-mono">{type === "robot" ? "/data/" : ""}{fileNames.dataFile}</span>
                 <div className="flex gap-2">
                   <Button aria-label="Copy code to clipboard"
                     variant="outline"
@@ -518,14 +910,51 @@ const CodeOutput = ({
                   </Button>
                 </div>
               </div>
-              <Textarea
+              <CodeEditor
                 value={pomCode.dataFile}
-                onChange={(e) => setPomCode(prev => ({ ...prev, dataFile: e.target.value }))}
-                className={`bg-slate-900 border-slate-600 font-mono text-sm min-h-[300px] resize-none text-yellow-300`}
+                language={fileLanguage(projectFilesType, "dataFile", project.language)}
+                readOnly={isGenerating}
+                onChange={(value) => updateModuleFile("dataFile", value)}
+                className="text-yellow-300"
+                diagnostics={diagnostics.dataFile}
                 placeholder="Data file will appear here..."
               />
             </TabsContent>
           )}
+
+          {/* Shared by every module; the same for each generation of this framework */}
+          {project.basePage && (
+            <TabsContent value="basePage" className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-slate-400 font-mono">{projectBasePage?.fileName}</span>
+                <div className="flex gap-2">
+                  <Button aria-label="Copy code to clipboard"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyToClipboard(project.basePage, "base")}
+                    className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                  >
+                    {copiedBase ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                  <Button aria-label="Download file"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadCode(project.basePage, projectBasePage?.fileName || "base.page.js")}
+                    className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <CodeEditor
+                value={project.basePage}
+                language={fileLanguage(projectFilesType, "pageObject", project.language)}
+                readOnly={isGenerating}
+                onChange={(value) => editProject({ ...project, basePage: value })}
+                className={typeInfo.color}
+              />
+            </TabsContent>
+          )}
         </Tabs>
       </CardContent>
     </Card>
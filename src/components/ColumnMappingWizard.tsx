@@ -0,0 +1,150 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, Columns3, RotateCcw, X } from "lucide-react";
+import {
+  ColumnMapping,
+  FIELD_DEFINITIONS,
+  MappableField,
+  detectMapping,
+  getMappingIssues,
+} from "@/lib/columnMapping";
+
+const IGNORE = "__ignore__";
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  headers: string[];
+  sampleRows: string[][];
+  initialMapping: ColumnMapping;
+  // e.g. "Sheet 2 of 3" when several header layouts are mapped in turn
+  progressLabel?: string;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingWizard = ({
+  fileName,
+  headers,
+  sampleRows,
+  initialMapping,
+  progressLabel,
+  onConfirm,
+  onCancel,
+}: ColumnMappingWizardProps) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const issues = useMemo(() => getMappingIssues(headers, mapping), [headers, mapping]);
+  const hasErrors = issues.some(i => i.severity === "error");
+  const flagged = new Set(issues.flatMap(i => i.columns));
+
+  const assign = (column: number, value: string) => {
+    setMapping(prev => prev.map((f, i) => (i === column ? (value === IGNORE ? null : (value as MappableField)) : f)));
+  };
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5 text-blue-400" />
+            <span className="text-sm text-white font-medium">Map columns — {fileName}</span>
+            {progressLabel && <span className="text-xs text-slate-400">({progressLabel})</span>}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMapping(detectMapping(headers))}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Auto-detect
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onCancel}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-80 overflow-auto rounded border border-slate-700 bg-slate-900">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-800 sticky top-0">
+              <tr>
+                <th className="p-2 text-left text-slate-400 font-medium w-[180px]">Column</th>
+                <th className="p-2 text-left text-slate-400 font-medium">Sample</th>
+                <th className="p-2 text-left text-slate-400 font-medium w-[200px]">Maps to</th>
+              </tr>
+            </thead>
+            <tbody>
+              {headers.map((header, column) => (
+                <tr key={column} className="border-b border-slate-700 last:border-0">
+                  <td className="p-2 font-mono whitespace-nowrap">
+                    <span className={flagged.has(column) ? "text-amber-400" : "text-blue-400"}>
+                      {header || `Column ${column + 1}`}
+                    </span>
+                  </td>
+                  <td className="p-2 text-slate-400 truncate max-w-[260px]">
+                    {sampleRows.map(r => r[column]).filter(Boolean).slice(0, 2).join(" · ") || "—"}
+                  </td>
+                  <td className="p-2">
+                    <Select value={mapping[column] || IGNORE} onValueChange={(v) => assign(column, v)}>
+                      <SelectTrigger className="h-8 bg-slate-800 border-slate-600 text-slate-200 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Ignore</SelectItem>
+                        {FIELD_DEFINITIONS.map(def => (
+                          <SelectItem key={def.field} value={def.field}>{def.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {issues.length > 0 && (
+          <div className="mt-3 space-y-2">
+            {issues.map((issue, i) => (
+              <Alert
+                key={i}
+                variant={issue.severity === "error" ? "destructive" : "default"}
+                className={issue.severity === "error"
+                  ? "bg-red-900/20 border-red-500/50 py-2"
+                  : "bg-amber-900/20 border-amber-500/40 py-2"}
+              >
+                <AlertTriangle className={`h-4 w-4 ${issue.severity === "error" ? "text-red-400" : "text-amber-400"}`} />
+                <AlertDescription className={`text-xs ${issue.severity === "error" ? "text-red-200" : "text-amber-200"}`}>
+                  {issue.message}
+                </AlertDescription>
+              </Alert>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-4 flex justify-end">
+          <Button
+            onClick={() => onConfirm(mapping)}
+            disabled={hasErrors}
+            className="bg-blue-600 hover:bg-blue-700"
+            size="sm"
+          >
+            Apply Mapping
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ColumnMappingWizard;
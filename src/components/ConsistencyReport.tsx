@@ -0,0 +1,91 @@
+import { AlertTriangle, Check, CircleSlash, Copy, FileWarning, HelpCircle } from "lucide-react";
+import { ConsistencyIssue, ConsistencyIssueKind, ConsistencyReport as Report } from "@/lib/consistency";
+import { FileKey } from "@/lib/generatedCode";
+
+interface ConsistencyReportProps {
+  report: Report;
+  // Tab labels of the files issues are reported in
+  fileLabels: Record<FileKey, string>;
+  // Shows the file an issue is in
+  onSelect: (issue: ConsistencyIssue) => void;
+}
+
+const KIND_LABELS: Record<ConsistencyIssueKind, string> = {
+  "undefined-step": "Undefined steps",
+  "ambiguous-step": "Ambiguous steps",
+  "unused-step": "Unused step definitions",
+  "missing-method": "Missing page object methods",
+  "invalid-pattern": "Invalid step patterns",
+};
+
+const kindIcon = (kind: ConsistencyIssueKind) => {
+  switch (kind) {
+    case "undefined-step":
+      return <HelpCircle className="h-4 w-4 shrink-0 text-red-400" />;
+    case "ambiguous-step":
+      return <Copy className="h-4 w-4 shrink-0 text-amber-400" />;
+    case "unused-step":
+      return <CircleSlash className="h-4 w-4 shrink-0 text-slate-400" />;
+    case "missing-method":
+      return <AlertTriangle className="h-4 w-4 shrink-0 text-red-400" />;
+    case "invalid-pattern":
+      return <FileWarning className="h-4 w-4 shrink-0 text-red-400" />;
+  }
+};
+
+// How the module's feature file, step definitions and page object line up
+const ConsistencyReport = ({ report, fileLabels, onSelect }: ConsistencyReportProps) => {
+  const counts = (Object.keys(KIND_LABELS) as ConsistencyIssueKind[])
+    .map(kind => ({ kind, count: report.issues.filter(issue => issue.kind === kind).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <div className="rounded-md border border-slate-700 bg-slate-900/60 mb-4 text-left">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 border-b border-slate-700 text-sm">
+        <span className="font-medium text-slate-200">Consistency</span>
+        <span className="text-slate-500 text-xs">
+          {report.steps} steps · {report.definitions} step definitions
+        </span>
+        {counts.length === 0 ? (
+          <span className="flex items-center text-xs text-emerald-400">
+            <Check className="h-4 w-4 mr-1" />
+            {report.complete ? "Every step matches one definition" : "No issues in the files that parse"}
+          </span>
+        ) : (
+          counts.map(({ kind, count }) => (
+            <span key={kind} className="flex items-center gap-1 text-xs text-slate-300">
+              {kindIcon(kind)}
+              {count} {KIND_LABELS[kind].toLowerCase()}
+            </span>
+          ))
+        )}
+      </div>
+      {!report.complete && (
+        <p className="px-3 py-1.5 text-xs text-amber-300 border-b border-slate-800">
+          Some files have syntax errors; fix them for a full check.
+        </p>
+      )}
+      {report.issues.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-slate-800">
+          {report.issues.map((issue, i) => (
+            <li key={i}>
+              <button
+                type="button"
+                onClick={() => onSelect(issue)}
+                className="flex w-full items-center gap-3 px-3 py-1.5 text-left text-xs hover:bg-slate-800"
+              >
+                {kindIcon(issue.kind)}
+                <span className="text-slate-500 font-mono shrink-0">
+                  {fileLabels[issue.file]}:{issue.line}
+                </span>
+                <span className="text-slate-200 truncate">{issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ConsistencyReport;
@@ -1,27 +1,38 @@
-import { useCallback } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, FileText, Download, X } from "lucide-react";
+import { Upload, FileText, Download, X, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import Papa from 'papaparse';
+import { TestCaseData, buildTestCaseData, getCellIssues, getHeaders, mergeTestCaseData, withLookups } from "@/lib/testCaseData";
+import { WorkbookSheet, isWorkbookFile, readWorkbook } from "@/lib/importers/workbook";
+import { isFeatureFile, readFeatureFiles } from "@/lib/importers/feature";
+import { isToolExportFile, readToolExport } from "@/lib/importers/toolExport";
+import { isTestRailCsv, readTestRailCsv } from "@/lib/importers/testrail";
+import { ColumnMapping, headerSignature, resolveMapping, saveMapping } from "@/lib/columnMapping";
+import SheetPicker, { SheetSelection } from "./SheetPicker";
+import ColumnMappingWizard from "./ColumnMappingWizard";
+import TestCaseGrid from "./TestCaseGrid";
 
-export interface TestCase {
-  id: string;
-  description: string;
-  steps: string;
-  expected: string;
-  locator: string;
-  testData: string;
+export type { TestCase, TestCaseData } from "@/lib/testCaseData";
+
+interface ImportSource {
+  rows: string[][];
+  module?: string;
 }
 
-export interface TestCaseData {
-  testCases: TestCase[];
-  locators: { locator: string; value: string }[];
-  testData: { name: string; value: string }[];
+// An upload waiting for its column mapping; each distinct header layout is mapped once
+interface PendingImport {
+  fileName: string;
+  sources: ImportSource[];
+  layouts: string[][];
+  mappings: Record<string, ColumnMapping>;
+  step: number;
 }
 
 interface CsvUploaderProps {
-  onDataLoaded: (data: TestCaseData) => void;
+  // fileName is passed when a new upload replaces the data, not for grid edits
+  onDataLoaded: (data: TestCaseData, fileName?: string) => void;
   testData: TestCaseData | null;
   onReset: () => void;
 }
@@ -29,78 +40,150 @@ interface CsvUploaderProps {
 const CsvUploader = ({ onDataLoaded, testData, onReset }: CsvUploaderProps) => {
   const { toast } = useToast();
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === "text/csv") {
-      Papa.parse(file, {
-        complete: (results) => {
-          const parsedData = results.data as string[][];
-          const filteredData = parsedData.filter(row => 
-            row.some(cell => cell && cell.trim())
-          );
-          
-          const headers = filteredData[0]?.map(h => h.toLowerCase().trim()) || [];
-          const dataRows = filteredData.slice(1);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ fileName: string; sheets: WorkbookSheet[] } | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
 
-          // Find column indices
-          const idIdx = headers.findIndex(h => h.includes('id') || h.includes('test case'));
-          const descIdx = headers.findIndex(h => h.includes('description') || h.includes('desc'));
-          const stepsIdx = headers.findIndex(h => h.includes('step'));
-          const expectedIdx = headers.findIndex(h => h.includes('expected'));
-          const locatorIdx = headers.findIndex(h => h.includes('locator') || h.includes('selector'));
-          const testDataIdx = headers.findIndex(h => h.includes('data') || h.includes('input'));
+  const loadData = useCallback((newData: TestCaseData, fileName: string) => {
+    onDataLoaded(newData, fileName);
 
-          const testCases: TestCase[] = dataRows.map(row => ({
-            id: row[idIdx] || '',
-            description: row[descIdx] || '',
-            steps: row[stepsIdx] || '',
-            expected: row[expectedIdx] || '',
-            locator: row[locatorIdx] || '',
-            testData: row[testDataIdx] || ''
-          })).filter(tc => tc.id || tc.steps);
+    toast({
+      title: "Test Cases Uploaded Successfully",
+      description: `${newData.testCases.length} test cases loaded from "${fileName}".`,
+    });
+  }, [onDataLoaded, toast]);
 
-          // Extract unique locators
-          const locatorsMap = new Map<string, string>();
-          testCases.forEach(tc => {
-            if (tc.locator) {
-              const parts = tc.locator.split(',').map(p => p.trim());
-              parts.forEach(part => {
-                const [name, value] = part.split(':').map(s => s.trim());
-                if (name && value) {
-                  locatorsMap.set(name, value);
-                } else if (name) {
-                  locatorsMap.set(name, name);
-                }
-              });
-            }
-          });
+  const startImport = useCallback((fileName: string, sources: ImportSource[]) => {
+    const layouts = new Map<string, string[]>();
+    sources.forEach(source => {
+      const headers = getHeaders(source.rows);
+      layouts.set(headerSignature(headers), headers);
+    });
+    setPendingImport({ fileName, sources, layouts: Array.from(layouts.values()), mappings: {}, step: 0 });
+  }, []);
 
-          // Extract unique test data
-          const testDataMap = new Map<string, string>();
-          testCases.forEach(tc => {
-            if (tc.testData) {
-              const parts = tc.testData.split(',').map(p => p.trim());
-              parts.forEach(part => {
-                const [name, value] = part.split(':').map(s => s.trim());
-                if (name && value) {
-                  testDataMap.set(name, value);
-                }
-              });
-            }
-          });
+  const handleMappingConfirmed = (mapping: ColumnMapping) => {
+    if (!pendingImport) return;
+    const headers = pendingImport.layouts[pendingImport.step];
+    saveMapping(headers, mapping);
+    const mappings = { ...pendingImport.mappings, [headerSignature(headers)]: mapping };
 
-          const newData: TestCaseData = {
-            testCases,
-            locators: Array.from(locatorsMap.entries()).map(([locator, value]) => ({ locator, value })),
-            testData: Array.from(testDataMap.entries()).map(([name, value]) => ({ name, value }))
-          };
+    if (pendingImport.step + 1 < pendingImport.layouts.length) {
+      setPendingImport({ ...pendingImport, mappings, step: pendingImport.step + 1 });
+      return;
+    }
 
-          onDataLoaded(newData);
-          
-          toast({
-            title: "CSV Uploaded Successfully",
-            description: `${testCases.length} test cases loaded from "${file.name}".`,
-          });
+    const merged = mergeTestCaseData(
+      pendingImport.sources.map(({ rows, module }) =>
+        buildTestCaseData(rows, module, mappings[headerSignature(getHeaders(rows))])
+      )
+    );
+    setPendingImport(null);
+    loadData(merged, pendingImport.fileName);
+  };
+
+  const handleWorkbookUpload = useCallback(async (file: File) => {
+    try {
+      const sheets = await readWorkbook(file);
+      if (sheets.length === 0) {
+        toast({
+          title: "Empty Workbook",
+          description: `"${file.name}" does not contain any data.`,
+          variant: "destructive",
+        });
+      } else if (sheets.length === 1) {
+        startImport(file.name, [{ rows: sheets[0].rows }]);
+      } else {
+        setPendingWorkbook({ fileName: file.name, sheets });
+      }
+    } catch (error) {
+      console.error('Workbook parsing error:', error);
+      toast({
+        title: "Parsing Error",
+        description: "Failed to read workbook. Check the format.",
+        variant: "destructive",
+      });
+    }
+  }, [startImport, toast]);
+
+  const handleSheetsConfirmed = (selections: SheetSelection[]) => {
+    if (!pendingWorkbook) return;
+    setPendingWorkbook(null);
+    startImport(
+      pendingWorkbook.fileName,
+      selections.map(({ sheet, module }) => ({ rows: sheet.rows, module }))
+    );
+  };
+
+  // .feature files carry their own structure, so they skip column mapping
+  const handleFeatureUpload = useCallback(async (files: File[]) => {
+    try {
+      const data = await readFeatureFiles(files);
+      if (data.testCases.length === 0) {
+        toast({
+          title: "No Scenarios Found",
+          description: "The feature file does not contain any scenarios.",
+          variant: "destructive",
+        });
+        return;
+      }
+      loadData(data, files.length === 1 ? files[0].name : `${files.length} feature files`);
+    } catch (error) {
+      console.error('Feature parsing error:', error);
+      toast({
+        title: "Parsing Error",
+        description: error instanceof Error ? error.message : "Failed to read feature file. Check the format.",
+        variant: "destructive",
+      });
+    }
+  }, [loadData, toast]);
+
+  // TestRail XML, Zephyr Scale and Xray JSON exports map their own fields
+  const handleToolExportUpload = useCallback(async (file: File) => {
+    try {
+      const { tool, testCases } = await readToolExport(file);
+      if (testCases.length === 0) {
+        toast({
+          title: "No Test Cases Found",
+          description: `"${file.name}" does not contain any ${tool} test cases.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      loadData(withLookups(testCases), file.name);
+    } catch (error) {
+      console.error('Export parsing error:', error);
+      toast({
+        title: "Parsing Error",
+        description: error instanceof Error ? error.message : "Failed to read export file. Check the format.",
+        variant: "destructive",
+      });
+    }
+  }, [loadData, toast]);
+
+  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    const file = files[0];
+    if (file && files.every(isFeatureFile)) {
+      handleFeatureUpload(files);
+    } else if (files.length > 1) {
+      toast({
+        title: "Invalid File",
+        description: "Only .feature files can be uploaded together.",
+        variant: "destructive",
+      });
+    } else if (file && isWorkbookFile(file)) {
+      handleWorkbookUpload(file);
+    } else if (file && isToolExportFile(file)) {
+      handleToolExportUpload(file);
+    } else if (file && (file.type === "text/csv" || file.name.toLowerCase().endsWith(".csv"))) {
+      Papa.parse(file, {
+        complete: (results) => {
+          const rows = results.data as string[][];
+          if (isTestRailCsv(getHeaders(rows))) {
+            loadData(withLookups(readTestRailCsv(rows)), file.name);
+          } else {
+            startImport(file.name, [{ rows }]);
+          }
         },
         header: false,
         skipEmptyLines: 'greedy',
@@ -116,19 +199,20 @@ const CsvUploader = ({ onDataLoaded, testData, onReset }: CsvUploaderProps) => {
     } else {
       toast({
         title: "Invalid File",
-        description: "Please upload a CSV file.",
+        description: "Please upload a CSV, Excel (.xlsx, .xls, .ods), Gherkin (.feature) or TestRail / Zephyr / Xray export (.xml, .json) file.",
         variant: "destructive",
       });
     }
     event.target.value = '';
-  }, [onDataLoaded, toast]);
+  }, [handleFeatureUpload, handleToolExportUpload, handleWorkbookUpload, loadData, startImport, toast]);
 
   const downloadTemplate = () => {
     const template = `Test Case ID,Test Description,Test Steps,Expected Result,Locators,Test Data
-TC001,Verify successful login with valid credentials,Navigate to login page and enter credentials,User should be logged in successfully,usernameInput:#username;passwordInput:#password;loginBtn:button[type=submit],username:testuser@example.com;password:SecurePass123
-TC002,Verify error message on empty form submission,Submit empty login form,Error message should be displayed,errorMessage:.error-text,
-TC003,Verify validation for invalid email format,Enter invalid email format,Validation error should appear,emailInput:#email;validationMsg:.validation-error,email:invalid-email
-TC004,Verify forgot password link navigation,Click forgot password link,Password reset page should open,forgotLink:a.forgot-password,`;
+TC001,Verify successful login with valid credentials,Navigate to login page and enter credentials,User should be logged in successfully,usernameInput=#username;passwordInput=#password;loginBtn=button[type=submit],url=https://example.com/login;username=testuser@example.com;password=SecurePass123
+TC002,Verify error message on empty form submission,Submit empty login form,Error message should be displayed,errorMessage=.error-text,
+TC003,Verify validation for invalid email format,Enter invalid email format,Validation error should appear,emailInput=#email;validationMsg=.validation-error,email=invalid-email
+TC004,Verify forgot password link navigation,Click forgot password link,Password reset page should open,forgotLink=a.forgot-password:not(.disabled),
+TC005,Verify quoted values keep separators,Search for a term containing a semicolon,Results should be shown,"searchBox=""input[name='q']""","query=""salt; pepper"""`;
 
     const blob = new Blob([template], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -147,6 +231,40 @@ TC004,Verify forgot password link navigation,Click forgot password link,Password
   };
 
   const hasData = testData && testData.testCases.length > 0;
+  const moduleCount = new Set(testData?.testCases.map(tc => tc.module).filter(Boolean)).size;
+  const cellIssues = useMemo(() => (testData ? getCellIssues(testData.testCases) : []), [testData]);
+
+  if (pendingImport) {
+    const headers = pendingImport.layouts[pendingImport.step];
+    const sampleRows = pendingImport.sources
+      .find(source => headerSignature(getHeaders(source.rows)) === headerSignature(headers))
+      ?.rows.filter(row => row.some(cell => cell && cell.trim())).slice(1, 4) || [];
+    return (
+      <ColumnMappingWizard
+        key={pendingImport.step}
+        fileName={pendingImport.fileName}
+        headers={headers}
+        sampleRows={sampleRows}
+        initialMapping={resolveMapping(headers)}
+        progressLabel={pendingImport.layouts.length > 1
+          ? `layout ${pendingImport.step + 1} of ${pendingImport.layouts.length}`
+          : undefined}
+        onConfirm={handleMappingConfirmed}
+        onCancel={() => setPendingImport(null)}
+      />
+    );
+  }
+
+  if (pendingWorkbook) {
+    return (
+      <SheetPicker
+        fileName={pendingWorkbook.fileName}
+        sheets={pendingWorkbook.sheets}
+        onConfirm={handleSheetsConfirmed}
+        onCancel={() => setPendingWorkbook(null)}
+      />
+    );
+  }
 
   if (hasData) {
     return (
@@ -162,6 +280,11 @@ TC004,Verify forgot password link navigation,Click forgot password link,Password
                   ({testData.locators.length} locators)
                 </span>
               )}
+              {moduleCount > 0 && (
+                <span className="text-xs text-slate-400">
+                  ({moduleCount} modules)
+                </span>
+              )}
             </div>
             <Button
               variant="outline"
@@ -174,35 +297,27 @@ TC004,Verify forgot password link navigation,Click forgot password link,Password
             </Button>
           </div>
           
-          <div className="max-h-60 overflow-auto rounded border border-slate-700 bg-slate-900">
-            <table className="w-full text-xs">
-              <thead className="bg-slate-800 sticky top-0">
-                <tr>
-                  <th className="p-2 text-left text-slate-400 font-medium w-[120px]">ID</th>
-                  <th className="p-2 text-left text-slate-400 font-medium w-[180px]">Description</th>
-                  <th className="p-2 text-left text-slate-400 font-medium">Steps</th>
-                  <th className="p-2 text-left text-slate-400 font-medium w-[200px]">Expected</th>
-                </tr>
-              </thead>
-              <tbody>
-                {testData.testCases.slice(0, 5).map((tc, i) => (
-                  <tr key={i} className="border-b border-slate-700 last:border-0">
-                    <td className="p-2 text-blue-400 font-mono whitespace-nowrap">{tc.id}</td>
-                    <td className="p-2 text-slate-300 truncate max-w-[180px]">{tc.description}</td>
-                    <td className="p-2 text-slate-300 truncate max-w-[250px]">{tc.steps}</td>
-                    <td className="p-2 text-slate-300 truncate max-w-[200px]">{tc.expected}</td>
-                  </tr>
-                ))}
-                {testData.testCases.length > 5 && (
-                  <tr>
-                    <td colSpan={4} className="p-2 text-center text-slate-500">
-                      +{testData.testCases.length - 5} more test cases
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
+          <TestCaseGrid
+            testCases={testData.testCases}
+            onChange={(testCases) => onDataLoaded(withLookups(testCases))}
+          />
+
+          {cellIssues.length > 0 && (
+            <div className="mt-3 max-h-40 overflow-auto rounded border border-amber-500/40 bg-amber-900/10 p-2 space-y-1">
+              {cellIssues.map((report, i) => (
+                <div key={i} className="flex items-start gap-2 text-xs">
+                  <AlertTriangle className={`h-3.5 w-3.5 mt-0.5 shrink-0 ${
+                    report.issue.severity === "error" ? "text-red-400" : "text-amber-400"
+                  }`} />
+                  <span className="text-slate-300">
+                    <span className="font-mono text-blue-400">{report.testCaseId || `Row ${report.row + 1}`}</span>
+                    {" · "}{report.field === "locator" ? "Locators" : "Test Data"}
+                    {" (char "}{report.issue.offset + 1}{"): "}{report.issue.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -217,10 +332,16 @@ TC004,Verify forgot password link navigation,Click forgot password link,Password
           </div>
           <h3 className="text-base font-medium text-white mb-2">Upload Test Cases</h3>
           <p className="text-slate-400 text-sm mb-1">
-            Single CSV file with all test data
+            Single CSV file, Excel workbook (one sheet per module) or Gherkin .feature files
+          </p>
+          <p className="text-slate-400 text-sm mb-1">
+            TestRail (CSV / XML), Zephyr Scale (JSON) and Xray (JSON) exports are imported as-is
+          </p>
+          <p className="text-slate-500 text-xs mb-1">
+            Columns: Test Case ID | Test Description | Test Steps | Expected Result | Locators | Test Data (mapped after upload)
           </p>
           <p className="text-slate-500 text-xs mb-4">
-            Columns: Test Case ID | Test Description | Test Steps | Expected Result | Locators | Test Data
+            Locators / Test Data: <span className="font-mono">name=value</span> pairs separated by <span className="font-mono">;</span> — quote values that contain <span className="font-mono">;</span>
           </p>
           <div className="flex gap-3">
             <Button
@@ -235,14 +356,15 @@ TC004,Verify forgot password link navigation,Click forgot password link,Password
             <label>
               <input
                 type="file"
-                accept=".csv"
+                accept=".csv,.xlsx,.xls,.ods,.feature,.xml,.json"
+                multiple
                 onChange={handleFileUpload}
                 className="hidden"
               />
               <Button asChild className="bg-blue-600 hover:bg-blue-700 cursor-pointer" size="sm">
                 <span>
                   <Upload className="h-4 w-4 mr-2" />
-                  Upload CSV
+                  Upload File
                 </span>
               </Button>
             </label>
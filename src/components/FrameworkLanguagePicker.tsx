@@ -0,0 +1,84 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FRAMEWORK_LABELS } from "@/lib/frameworks";
+import {
+  FRAMEWORK_LANGUAGES,
+  FrameworkLanguages,
+  TARGET_LANGUAGES,
+  TargetLanguage,
+  frameworkLanguage,
+} from "@/lib/targetLanguage";
+import {
+  FRAMEWORK_RUNNERS,
+  FrameworkRunners,
+  TEST_RUNNERS,
+  TestRunner,
+  frameworkRunner,
+  runnerLanguage,
+} from "@/lib/testRunner";
+
+interface FrameworkLanguagePickerProps {
+  value: FrameworkLanguages;
+  onChange: (value: FrameworkLanguages) => void;
+  runners: FrameworkRunners;
+  onRunnersChange: (value: FrameworkRunners) => void;
+}
+
+// Runner and language each framework that offers a choice is generated for.
+// A runner that fixes the language (Playwright Test) locks the language select.
+const FrameworkLanguagePicker = ({ value, onChange, runners, onRunnersChange }: FrameworkLanguagePickerProps) => (
+  <div className="flex flex-wrap items-center gap-4">
+    {Object.entries(FRAMEWORK_RUNNERS).map(([framework, choices]) => {
+      const label = `${FRAMEWORK_LABELS[framework]} runner`;
+      return (
+        <div key={framework} className="flex items-center gap-2">
+          <span className="text-sm text-slate-400">{label}</span>
+          <Select
+            value={frameworkRunner(framework, runners)}
+            onValueChange={(runner) => onRunnersChange({ ...runners, [framework]: runner as TestRunner })}
+          >
+            <SelectTrigger aria-label={label} className="h-9 w-56 bg-slate-800 border-slate-600 text-slate-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {choices.map(runner => (
+                <SelectItem key={runner} value={runner}>
+                  {TEST_RUNNERS[runner].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    })}
+    {Object.entries(FRAMEWORK_LANGUAGES).map(([framework, languages]) => {
+      const label = `${FRAMEWORK_LABELS[framework]} language`;
+      const runner = frameworkRunner(framework, runners);
+      return (
+        <div key={framework} className="flex items-center gap-2">
+          <span className="text-sm text-slate-400">{label}</span>
+          <Select
+            value={runnerLanguage(runner, frameworkLanguage(framework, value))}
+            disabled={runner === "native"}
+            onValueChange={(language) => onChange({ ...value, [framework]: language as TargetLanguage })}
+          >
+            <SelectTrigger aria-label={label} className="h-9 w-56 bg-slate-800 border-slate-600 text-slate-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map(language => {
+                const { label, runner } = TARGET_LANGUAGES[language];
+                return (
+                  <SelectItem key={language} value={language}>
+                    {runner ? `${label} — ${runner}` : label}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default FrameworkLanguagePicker;
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { History, FolderOpen, Trash2, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { GenerationRun, deleteGenerationRun, listGenerationRuns } from "@/lib/persistence";
+import { FRAMEWORK_LABELS } from "@/lib/frameworks";
+import { API_CLIENTS, isApiClient } from "@/lib/apiTests";
+
+interface GenerationHistoryProps {
+  workspaceId: string;
+  // Bumped by the parent after a new generation is stored
+  refreshKey: number;
+  onOpen: (run: GenerationRun) => void;
+}
+
+const OUTPUT_LABELS: Record<string, string> = { gherkin: "Gherkin", ...FRAMEWORK_LABELS, api: "API Tests" };
+
+const describeRun = (run: GenerationRun): string => {
+  const label = OUTPUT_LABELS[run.outputType] || run.outputType;
+  if (run.outputType === "gherkin") return label;
+  if (run.outputType === "api") return isApiClient(run.framework) ? `${label} (${API_CLIENTS[run.framework].label})` : label;
+  if (run.mode === "bdd") return `${label} (BDD)`;
+  return run.input.gherkin ? `${label} (Classic + Gherkin)` : `${label} (Classic)`;
+};
+
+const GenerationHistory = ({ workspaceId, refreshKey, onOpen }: GenerationHistoryProps) => {
+  const [runs, setRuns] = useState<GenerationRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const { toast } = useToast();
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRuns(await listGenerationRuns(workspaceId));
+      setFailed(false);
+    } catch (error) {
+      console.error('Failed to load generation history:', error);
+      setFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns, refreshKey]);
+
+  const handleDelete = async (run: GenerationRun) => {
+    try {
+      await deleteGenerationRun(run.id);
+      setRuns(prev => prev.filter(r => r.id !== run.id));
+    } catch (error) {
+      console.error('Failed to delete generation:', error);
+      toast({
+        title: "Delete Failed",
+        description: "The generation could not be deleted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!isLoading && !failed && runs.length === 0) return null;
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-blue-400" />
+            <span className="text-sm text-white font-medium">Previous Generations</span>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={loadRuns}
+            disabled={isLoading}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+            Refresh
+          </Button>
+        </div>
+
+        {failed ? (
+          <p className="text-xs text-red-300">Generation history could not be loaded.</p>
+        ) : (
+          <div className="max-h-64 overflow-auto rounded border border-slate-700 bg-slate-900 divide-y divide-slate-700">
+            {runs.map(run => (
+              <div key={run.id} className="flex items-center gap-3 p-2 text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="text-slate-200 truncate">
+                    <span className="font-medium">{describeRun(run)}</span>
+                    {" · "}{run.suiteName}
+                  </div>
+                  <div className="text-slate-500">
+                    {new Date(run.createdAt).toLocaleString()}
+                    {" · "}{run.input.testData.testCases.length} test cases
+                    {run.model && <>{" · "}{run.model}</>}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onOpen(run)}
+                  className="h-7 border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  <FolderOpen className="h-3.5 w-3.5 mr-1" />
+                  Open
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-red-400" aria-label="Delete generation"
+                  onClick={() => handleDelete(run)}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GenerationHistory;
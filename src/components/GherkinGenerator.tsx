@@ -10,6 +10,7 @@ import { Wand2, Copy, Upload, FileText, X, Play, Link, Trash2 } from "lucide-rea
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import Papa from 'papaparse';
+import { parseCell } from "@/lib/cellGrammar";
 
 interface GherkinGeneratorProps {
   onGherkinGenerated?: (gherkin: string, title: string) => void;
@@ -192,8 +193,10 @@ Feature: ${scenarioDesc}
           if (preconditions) structuredLines.push(`Preconditions: ${preconditions}`);
           if (steps) structuredLines.push(`Test Steps: ${steps}`);
           if (expected) structuredLines.push(`Expected Result: ${expected}`);
-          if (locators) structuredLines.push(`Locators: ${locators}`);
-          if (testData) structuredLines.push(`Test Data: ${testData}`);
+          const locatorEntries = parseCell(locators, 'locator').entries;
+          const testDataEntries = parseCell(testData, 'testData').entries;
+          if (locatorEntries.length) structuredLines.push(`Locators: ${locatorEntries.map(e => `${e.name} = ${e.value}`).join('; ')}`);
+          if (testDataEntries.length) structuredLines.push(`Test Data: ${testDataEntries.map(e => `${e.name} = ${e.value}`).join('; ')}`);
         }
       });
 
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sparkles } from "lucide-react";
+import { AiModels, fetchAiModels } from "@/lib/edgeFunctions";
+
+interface ModelPickerProps {
+  // null until a model is picked; the provider's default is used then
+  value: string | null;
+  onChange: (model: string) => void;
+}
+
+const ModelPicker = ({ value, onChange }: ModelPickerProps) => {
+  const [available, setAvailable] = useState<AiModels | null>(null);
+
+  useEffect(() => {
+    fetchAiModels()
+      .then(setAvailable)
+      .catch(error => console.error('Failed to load AI models:', error));
+  }, []);
+
+  // A stored choice the provider no longer offers falls back to its default
+  useEffect(() => {
+    if (!available?.models.length) return;
+    if (!value || !available.models.some(m => m.id === value)) onChange(available.models[0].id);
+  }, [available, value, onChange]);
+
+  return (
+    <div className="flex items-center space-x-2 text-base text-emerald-400">
+      <Sparkles className="h-5 w-5" />
+      <span className="font-medium hidden sm:inline">Powered by</span>
+      {available?.models.length ? (
+        <Select value={value || available.models[0].id} onValueChange={onChange}>
+          <SelectTrigger
+            aria-label="AI model"
+            className="h-9 w-48 bg-slate-800 border-slate-600 text-emerald-400 font-medium"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {available.models.map(m => (
+              <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <span className="font-medium">{available?.provider || "AI"}</span>
+      )}
+    </div>
+  );
+};
+
+export default ModelPicker;
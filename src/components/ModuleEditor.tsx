@@ -0,0 +1,115 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Boxes, Plus, Trash2 } from "lucide-react";
+import { TestCase } from "@/lib/testCaseData";
+import { ModuleRule, assignModules, groupByModule } from "@/lib/modules";
+
+interface ModuleEditorProps {
+  testCases: TestCase[];
+  // Saved across sessions by Index
+  rules: ModuleRule[];
+  onRulesChange: (rules: ModuleRule[]) => void;
+  // Detected module name → name to generate it as
+  renames: Record<string, string>;
+  onRenamesChange: (renames: Record<string, string>) => void;
+}
+
+const SAMPLE_IDS = 3;
+
+const ModuleEditor = ({ testCases, rules, onRulesChange, renames, onRenamesChange }: ModuleEditorProps) => {
+  const detected = groupByModule(assignModules(testCases, rules));
+  const generated = new Set(groupByModule(assignModules(testCases, rules, renames)).map(g => g.name));
+
+  const updateRule = (index: number, update: Partial<ModuleRule>) =>
+    onRulesChange(rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)));
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardContent className="p-4">
+        <div className="flex items-center gap-2 mb-1">
+          <Boxes className="h-5 w-5 text-indigo-400" />
+          <span className="text-sm text-white font-medium">Modules</span>
+          <span className="text-xs text-slate-400">
+            ({generated.size} {generated.size === 1 ? "module" : "modules"})
+          </span>
+        </div>
+        <p className="text-slate-400 text-xs mb-3">
+          Each module gets its own page object, feature and step files on a shared base page.
+          Rename a module to regroup it; giving two modules the same name merges them.
+        </p>
+
+        <div className="rounded border border-slate-700 bg-slate-900 divide-y divide-slate-700 mb-4">
+          {detected.map(group => (
+            <div key={group.name} className="flex items-center gap-3 p-2">
+              <Input
+                value={renames[group.name] ?? group.name}
+                onChange={(e) => onRenamesChange({ ...renames, [group.name]: e.target.value })}
+                placeholder={group.name}
+                aria-label={`Name for module ${group.name}`}
+                className="h-8 w-48 bg-slate-800 border-slate-600 text-white text-xs"
+              />
+              <span className="text-xs text-slate-400 whitespace-nowrap">{group.testCases.length} test cases</span>
+              <span className="text-xs text-slate-500 font-mono truncate">
+                {group.testCases.slice(0, SAMPLE_IDS).map(tc => tc.id).join(", ")}
+                {group.testCases.length > SAMPLE_IDS ? ", ..." : ""}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-medium text-slate-300">Grouping rules</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRulesChange([...rules, { pattern: "", module: "" }])}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add Rule
+          </Button>
+        </div>
+        {rules.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            Test cases are grouped by their Module column, else by their ID (TC_CART_001 → Cart).
+            Add a rule such as <span className="font-mono">TC_PAY_*</span> → Checkout to group them yourself.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Input
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(i, { pattern: e.target.value })}
+                  placeholder="TC_PAY_*"
+                  aria-label="Test case ID pattern"
+                  className="h-8 w-48 bg-slate-800 border-slate-600 text-white text-xs font-mono"
+                />
+                <span className="text-slate-500 text-xs">→</span>
+                <Input
+                  value={rule.module}
+                  onChange={(e) => updateRule(i, { module: e.target.value })}
+                  placeholder="Module"
+                  aria-label="Module name"
+                  className="h-8 w-48 bg-slate-800 border-slate-600 text-white text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Remove rule"
+                  onClick={() => onRulesChange(rules.filter((_, j) => j !== i))}
+                  className="text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModuleEditor;
@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings2 } from "lucide-react";
+import { ScaffoldingSettings } from "@/lib/scaffolding/settings";
+
+interface ProjectSettingsProps {
+  settings: ScaffoldingSettings;
+  onChange: (settings: ScaffoldingSettings) => void;
+}
+
+// Settings the downloaded project's scaffolding (configs, hooks, driver setup) is rendered with
+const ProjectSettings = ({ settings, onChange }: ProjectSettingsProps) => {
+  const update = (change: Partial<ScaffoldingSettings>) => onChange({ ...settings, ...change });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          aria-label="Project settings"
+          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-slate-800 border-slate-700 text-slate-200 space-y-3">
+        <p className="text-sm font-medium text-white">Project settings</p>
+        <div className="space-y-1">
+          <Label htmlFor="project-base-url" className="text-xs text-slate-400">Base URL</Label>
+          <Input
+            id="project-base-url"
+            value={settings.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value })}
+            placeholder="https://staging.example.com"
+            className="h-8 bg-slate-900 border-slate-600 text-white text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-400">Browser</Label>
+          <Select value={settings.browser} onValueChange={(v) => update({ browser: v as ScaffoldingSettings["browser"] })}>
+            <SelectTrigger className="h-8 bg-slate-900 border-slate-600 text-white text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value="chrome" className="text-slate-200 focus:bg-slate-700">Chrome</SelectItem>
+              <SelectItem value="firefox" className="text-slate-200 focus:bg-slate-700">Firefox</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="project-timeout" className="text-xs text-slate-400">Timeout (seconds)</Label>
+          <Input
+            id="project-timeout"
+            type="number"
+            min={1}
+            value={settings.timeoutSeconds}
+            onChange={(e) => update({ timeoutSeconds: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+            className="h-8 bg-slate-900 border-slate-600 text-white text-xs"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="project-headless" className="text-xs text-slate-400">Run headless</Label>
+          <Switch
+            id="project-headless"
+            checked={settings.headless}
+            onCheckedChange={(headless) => update({ headless })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ProjectSettings;
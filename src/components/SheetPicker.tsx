@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileSpreadsheet, X } from "lucide-react";
+import { WorkbookSheet } from "@/lib/importers/workbook";
+import { toModuleName } from "@/lib/testCaseData";
+
+export interface SheetSelection {
+  sheet: WorkbookSheet;
+  module: string;
+}
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  onConfirm: (selections: SheetSelection[]) => void;
+  onCancel: () => void;
+}
+
+const SheetPicker = ({ fileName, sheets, onConfirm, onCancel }: SheetPickerProps) => {
+  const [selected, setSelected] = useState<Record<string, boolean>>(
+    () => Object.fromEntries(sheets.map(s => [s.name, true]))
+  );
+  const [modules, setModules] = useState<Record<string, string>>(
+    () => Object.fromEntries(sheets.map(s => [s.name, toModuleName(s.name)]))
+  );
+
+  const selections = sheets
+    .filter(s => selected[s.name])
+    .map(s => ({ sheet: s, module: modules[s.name].trim() }));
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-emerald-400" />
+            <span className="text-sm text-white font-medium">{fileName}</span>
+            <span className="text-xs text-slate-400">({sheets.length} sheets)</span>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onCancel}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+
+        <p className="text-slate-400 text-xs mb-3">
+          Select the sheets to import and the module each sheet belongs to.
+        </p>
+
+        <div className="rounded border border-slate-700 bg-slate-900 divide-y divide-slate-700">
+          {sheets.map(sheet => (
+            <div key={sheet.name} className="flex items-center gap-3 p-2">
+              <Checkbox
+                id={`sheet-${sheet.name}`}
+                checked={selected[sheet.name]}
+                onCheckedChange={(v) => setSelected(prev => ({ ...prev, [sheet.name]: v === true }))}
+                className="border-slate-500"
+              />
+              <label htmlFor={`sheet-${sheet.name}`} className="flex-1 text-sm text-slate-300 cursor-pointer">
+                {sheet.name}
+                <span className="ml-2 text-xs text-slate-500">{Math.max(sheet.rows.length - 1, 0)} rows</span>
+              </label>
+              <Input
+                value={modules[sheet.name]}
+                onChange={(e) => setModules(prev => ({ ...prev, [sheet.name]: e.target.value }))}
+                disabled={!selected[sheet.name]}
+                placeholder="Module"
+                aria-label={`Module for ${sheet.name}`}
+                className="h-8 w-48 bg-slate-800 border-slate-600 text-white text-xs"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <Button
+            onClick={() => onConfirm(selections)}
+            disabled={selections.length === 0 || selections.some(s => !s.module)}
+            className="bg-blue-600 hover:bg-blue-700"
+            size="sm"
+          >
+            Import {selections.length} {selections.length === 1 ? "sheet" : "sheets"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SheetPicker;
@@ -0,0 +1,258 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Copy, Plus, Replace, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { TestCase, getCellIssues } from "@/lib/testCaseData";
+import { buildStepList } from "@/lib/testSteps";
+
+type EditableField = "id" | "module" | "description" | "preconditions" | "steps" | "expected" | "locator" | "testData" | "priority" | "tags";
+
+const COLUMNS: { field: EditableField; label: string; width: string; multiline?: boolean }[] = [
+  { field: "id", label: "ID", width: "w-[120px]" },
+  { field: "module", label: "Module", width: "w-[110px]" },
+  { field: "description", label: "Description", width: "w-[200px]", multiline: true },
+  { field: "preconditions", label: "Preconditions", width: "w-[180px]", multiline: true },
+  { field: "steps", label: "Steps", width: "w-[260px]", multiline: true },
+  { field: "expected", label: "Expected", width: "w-[220px]", multiline: true },
+  { field: "locator", label: "Locators", width: "w-[220px]", multiline: true },
+  { field: "testData", label: "Test Data", width: "w-[200px]", multiline: true },
+  { field: "priority", label: "Priority", width: "w-[90px]" },
+  { field: "tags", label: "Tags", width: "w-[140px]" },
+];
+
+const ALL_FIELDS = "__all__";
+
+const emptyTestCase = (): TestCase => ({ id: "", description: "", steps: "", expected: "", locator: "", testData: "" });
+
+const readField = (tc: TestCase, field: EditableField): string =>
+  field === "tags" ? (tc.tags || []).join(", ") : tc[field] || "";
+
+// Fields whose edits make an imported Gherkin scenario stale
+const SCENARIO_FIELDS: EditableField[] = ["id", "description", "steps", "expected", "tags"];
+
+const writeField = (tc: TestCase, field: EditableField, value: string): TestCase => {
+  const updated = { ...tc };
+  if (field === "tags") {
+    const tags = value.split(/[\s,;]+/).map(t => t.replace(/^@/, "")).filter(Boolean);
+    updated.tags = tags.length ? tags : undefined;
+  } else {
+    updated[field] = value;
+  }
+  if (field === "steps" || field === "expected") {
+    const stepList = buildStepList(updated);
+    updated.stepList = stepList.length > 1 ? stepList : undefined;
+  }
+  if (updated.gherkin && SCENARIO_FIELDS.includes(field)) {
+    updated.gherkin = { ...updated.gherkin, scenario: undefined, examples: undefined };
+  }
+  return updated;
+};
+
+interface TestCaseGridProps {
+  testCases: TestCase[];
+  onChange: (testCases: TestCase[]) => void;
+}
+
+const TestCaseGrid = ({ testCases, onChange }: TestCaseGridProps) => {
+  const [find, setFind] = useState("");
+  const [replaceWith, setReplaceWith] = useState("");
+  const [replaceField, setReplaceField] = useState<string>(ALL_FIELDS);
+  const { toast } = useToast();
+
+  // "row:field" keys of cells whose grammar has problems
+  const flaggedCells = useMemo(
+    () => new Set(getCellIssues(testCases).map(r => `${r.row}:${r.field}`)),
+    [testCases]
+  );
+
+  const includedCount = testCases.filter(tc => !tc.excluded).length;
+
+  const updateRow = (index: number, update: (tc: TestCase) => TestCase) => {
+    onChange(testCases.map((tc, i) => (i === index ? update(tc) : tc)));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= testCases.length) return;
+    const next = [...testCases];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const duplicateRow = (index: number) => {
+    const copy = { ...testCases[index], id: testCases[index].id ? `${testCases[index].id}_COPY` : "" };
+    onChange([...testCases.slice(0, index + 1), copy, ...testCases.slice(index + 1)]);
+  };
+
+  const deleteRow = (index: number) => {
+    onChange(testCases.filter((_, i) => i !== index));
+  };
+
+  const setAllIncluded = (included: boolean) => {
+    onChange(testCases.map(tc => ({ ...tc, excluded: included ? undefined : true })));
+  };
+
+  const replaceAll = () => {
+    if (!find) return;
+    const fields = replaceField === ALL_FIELDS ? COLUMNS.map(c => c.field) : [replaceField as EditableField];
+    let count = 0;
+    const next = testCases.map(tc =>
+      fields.reduce((acc, field) => {
+        const current = readField(acc, field);
+        const occurrences = current.split(find).length - 1;
+        if (!occurrences) return acc;
+        count += occurrences;
+        return writeField(acc, field, current.split(find).join(replaceWith));
+      }, tc)
+    );
+    onChange(next);
+    toast({
+      title: count ? "Replaced" : "No Matches",
+      description: count ? `${count} occurrence${count === 1 ? "" : "s"} of "${find}" replaced.` : `"${find}" was not found.`,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={find}
+          onChange={(e) => setFind(e.target.value)}
+          placeholder="Find"
+          aria-label="Find text"
+          className="h-8 w-40 bg-slate-900 border-slate-600 text-white text-xs"
+        />
+        <Input
+          value={replaceWith}
+          onChange={(e) => setReplaceWith(e.target.value)}
+          placeholder="Replace with"
+          aria-label="Replacement text"
+          className="h-8 w-40 bg-slate-900 border-slate-600 text-white text-xs"
+        />
+        <Select value={replaceField} onValueChange={setReplaceField}>
+          <SelectTrigger className="h-8 w-36 bg-slate-900 border-slate-600 text-slate-200 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FIELDS}>All fields</SelectItem>
+            {COLUMNS.map(c => (
+              <SelectItem key={c.field} value={c.field}>{c.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={replaceAll}
+          disabled={!find}
+          className="h-8 border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          <Replace className="h-4 w-4 mr-1" />
+          Replace All
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-slate-400">{includedCount} of {testCases.length} included</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...testCases, emptyTestCase()])}
+            className="h-8 border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Row
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-[28rem] overflow-auto rounded border border-slate-700 bg-slate-900">
+        <table className="text-xs min-w-max">
+          <thead className="bg-slate-800 sticky top-0 z-10">
+            <tr>
+              <th className="p-2 w-[36px]">
+                <Checkbox
+                  checked={includedCount === testCases.length ? true : includedCount === 0 ? false : "indeterminate"}
+                  onCheckedChange={(v) => setAllIncluded(v === true)}
+                  aria-label="Include all in generation"
+                  className="border-slate-500"
+                />
+              </th>
+              {COLUMNS.map(c => (
+                <th key={c.field} className={`p-2 text-left text-slate-400 font-medium ${c.width}`}>{c.label}</th>
+              ))}
+              <th className="p-2 w-[120px]" />
+            </tr>
+          </thead>
+          <tbody>
+            {testCases.map((tc, index) => (
+              <tr
+                key={index}
+                className={`border-b border-slate-700 last:border-0 align-top ${tc.excluded ? "opacity-50" : ""}`}
+              >
+                <td className="p-2">
+                  <Checkbox
+                    checked={!tc.excluded}
+                    onCheckedChange={(v) => updateRow(index, row => ({ ...row, excluded: v === true ? undefined : true }))}
+                    aria-label={`Include ${tc.id || `row ${index + 1}`} in generation`}
+                    className="border-slate-500"
+                  />
+                </td>
+                {COLUMNS.map(c => {
+                  const flagged = flaggedCells.has(`${index}:${c.field}`);
+                  const className = `w-full rounded bg-transparent border px-1.5 py-1 text-slate-200 focus:outline-none focus:border-blue-500 ${
+                    flagged ? "border-amber-500/70" : "border-transparent hover:border-slate-600"
+                  } ${c.field === "id" ? "font-mono text-blue-400" : ""}`;
+                  return (
+                    <td key={c.field} className={`p-1 ${c.width}`}>
+                      {c.multiline ? (
+                        <textarea
+                          value={readField(tc, c.field)}
+                          onChange={(e) => updateRow(index, row => writeField(row, c.field, e.target.value))}
+                          rows={Math.min(4, Math.max(1, readField(tc, c.field).split("\n").length))}
+                          aria-label={`${c.label} for ${tc.id || `row ${index + 1}`}`}
+                          className={`${className} resize-y`}
+                        />
+                      ) : (
+                        <input
+                          value={readField(tc, c.field)}
+                          onChange={(e) => updateRow(index, row => writeField(row, c.field, e.target.value))}
+                          aria-label={`${c.label} for ${tc.id || `row ${index + 1}`}`}
+                          className={className}
+                        />
+                      )}
+                      {c.field === "steps" && tc.stepList && (
+                        <span className="block px-1.5 text-[10px] text-slate-500">{tc.stepList.length} steps</span>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="p-1 whitespace-nowrap">
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-slate-400" aria-label="Move up"
+                    onClick={() => moveRow(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-slate-400" aria-label="Move down"
+                    onClick={() => moveRow(index, 1)} disabled={index === testCases.length - 1}>
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-slate-400" aria-label="Duplicate row"
+                    onClick={() => duplicateRow(index)}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-red-400" aria-label="Delete row"
+                    onClick={() => deleteRow(index)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TestCaseGrid;
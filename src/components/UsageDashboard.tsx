@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+import { UsageSummary, getUsageSummary } from "@/lib/usage";
+
+interface UsageDashboardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Period = "today" | "month" | "30days";
+
+const PERIODS: { value: Period; label: string }[] = [
+  { value: "today", label: "Today" },
+  { value: "month", label: "This month" },
+  { value: "30days", label: "Last 30 days" },
+];
+
+// Quotas reset at UTC day and month boundaries, so the periods use UTC too
+const periodStart = (period: Period): Date => {
+  const now = new Date();
+  if (period === "today") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === "month") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+};
+
+const formatNumber = (n: number) => n.toLocaleString();
+
+const UsageTable = ({ rows }: { rows: UsageSummary[] }) => {
+  if (rows.length === 0) {
+    return <p className="text-xs text-slate-400 py-4 text-center">No AI usage in this period.</p>;
+  }
+  return (
+    <div className="max-h-80 overflow-auto rounded border border-slate-700 bg-slate-900">
+      <table className="w-full text-xs">
+        <thead className="sticky top-0 bg-slate-900 text-slate-400">
+          <tr className="border-b border-slate-700">
+            <th className="p-2 text-left font-medium">Name</th>
+            <th className="p-2 text-right font-medium">Requests</th>
+            <th className="p-2 text-right font-medium">Prompt tokens</th>
+            <th className="p-2 text-right font-medium">Completion tokens</th>
+            <th className="p-2 text-right font-medium">Total tokens</th>
+            <th className="p-2 text-right font-medium">Quota (day / month)</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800 text-slate-200">
+          {rows.map(row => (
+            <tr key={`${row.scope}-${row.subjectId}`}>
+              <td className="p-2 max-w-[200px] truncate">{row.name}</td>
+              <td className="p-2 text-right">{formatNumber(row.requests)}</td>
+              <td className="p-2 text-right">{formatNumber(row.promptTokens)}</td>
+              <td className="p-2 text-right">{formatNumber(row.completionTokens)}</td>
+              <td className="p-2 text-right font-medium">{formatNumber(row.totalTokens)}</td>
+              <td className="p-2 text-right text-slate-400">
+                {row.requestsPerDay === null ? "—" : `${formatNumber(row.requestsPerDay)} req / ${formatNumber(row.tokensPerMonth || 0)} tok`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const UsageDashboard = ({ open, onOpenChange }: UsageDashboardProps) => {
+  const [period, setPeriod] = useState<Period>("month");
+  const [rows, setRows] = useState<UsageSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRows(await getUsageSummary(periodStart(period)));
+      setFailed(false);
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+      setFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    if (open) loadUsage();
+  }, [open, loadUsage]);
+
+  const users = rows.filter(r => r.scope === "user");
+  const workspaces = rows.filter(r => r.scope === "workspace");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">AI Usage</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Generation requests and gateway tokens per user and workspace
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <Select value={period} onValueChange={(v) => setPeriod(v as Period)}>
+            <SelectTrigger className="h-8 w-40 bg-slate-900 border-slate-600 text-slate-200 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(p => (
+                <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+        </div>
+
+        {failed ? (
+          <p className="text-xs text-red-300">Usage could not be loaded.</p>
+        ) : (
+          <Tabs defaultValue="users">
+            <TabsList className="bg-slate-900">
+              <TabsTrigger value="users">Users ({users.length})</TabsTrigger>
+              <TabsTrigger value="workspaces">Workspaces ({workspaces.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="users">
+              <UsageTable rows={users} />
+            </TabsContent>
+            <TabsContent value="workspaces">
+              <UsageTable rows={workspaces} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UsageDashboard;
@@ -9,7 +9,7 @@ const WorkflowSteps = ({ currentStep }: WorkflowStepsProps) => {
     {
       number: 1,
       title: "Upload Test Case",
-      subtitle: "CSV",
+      subtitle: "CSV / Excel / Gherkin",
       icon: <Upload className="h-5 w-5" />,
     },
     {
@@ -0,0 +1,25 @@
+import { createContext, useContext } from "react";
+import type { Provider, Session, User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Workspace = Tables<"workspaces">;
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  isLoading: boolean;
+  workspaces: Workspace[];
+  workspace: Workspace | null;
+  selectWorkspace: (id: string) => void;
+  signInWithEmail: (email: string) => Promise<void>;
+  signInWithProvider: (provider: Provider) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error("useAuth must be used within an AuthProvider");
+  return context;
+};
@@ -14,13 +14,341 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      app_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      generation_runs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          framework: string | null
+          id: string
+          input: Json
+          mode: string
+          model: string | null
+          output: Json
+          output_type: string
+          suite_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          framework?: string | null
+          id?: string
+          input: Json
+          mode?: string
+          model?: string | null
+          output: Json
+          output_type: string
+          suite_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          framework?: string | null
+          id?: string
+          input?: Json
+          mode?: string
+          model?: string | null
+          output?: Json
+          output_type?: string
+          suite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_runs_suite_id_fkey"
+            columns: ["suite_id"]
+            isOneToOne: false
+            referencedRelation: "test_suites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_cases: {
+        Row: {
+          case_key: string
+          created_at: string
+          data: Json
+          id: string
+          module: string | null
+          position: number
+          suite_id: string
+        }
+        Insert: {
+          case_key?: string
+          created_at?: string
+          data: Json
+          id?: string
+          module?: string | null
+          position: number
+          suite_id: string
+        }
+        Update: {
+          case_key?: string
+          created_at?: string
+          data?: Json
+          id?: string
+          module?: string | null
+          position?: number
+          suite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_cases_suite_id_fkey"
+            columns: ["suite_id"]
+            isOneToOne: false
+            referencedRelation: "test_suites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_suites: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          project_id: string
+          source_file: string | null
+          source_format: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          project_id: string
+          source_file?: string | null
+          source_format?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          project_id?: string
+          source_file?: string | null
+          source_format?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_suites_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_ledger: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          function_name: string
+          id: string
+          model: string | null
+          prompt_tokens: number
+          total_tokens: number
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          function_name: string
+          id?: string
+          model?: string | null
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          function_name?: string
+          id?: string
+          model?: string | null
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_ledger_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_quotas: {
+        Row: {
+          id: string
+          requests_per_day: number
+          scope: string
+          subject_id: string | null
+          tokens_per_month: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          requests_per_day: number
+          scope: string
+          subject_id?: string | null
+          tokens_per_month: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          requests_per_day?: number
+          scope?: string
+          subject_id?: string | null
+          tokens_per_month?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_access_project: {
+        Args: { _project_id: string }
+        Returns: boolean
+      }
+      can_access_suite: {
+        Args: { _suite_id: string }
+        Returns: boolean
+      }
+      is_app_admin: {
+        Args: never
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: { _workspace_id: string }
+        Returns: boolean
+      }
+      reserve_usage: {
+        Args: {
+          _function_name: string
+          _model: string
+          _user_id: string
+          _workspace_id: string
+        }
+        Returns: Json
+      }
+      usage_summary: {
+        Args: { _since: string }
+        Returns: {
+          completion_tokens: number
+          prompt_tokens: number
+          requests: number
+          requests_per_day: number
+          scope: string
+          subject_id: string
+          subject_name: string
+          tokens_per_month: number
+          total_tokens: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,62 @@
+import { TargetLanguage } from "./targetLanguage";
+import { TestCase } from "./testCaseData";
+
+// API test output: test cases that describe HTTP interactions ("POST
+// /api/orders returns 201") written as request-level tests instead of UI page
+// objects. Each module gets reusable request builders, the tests and the JSON
+// schemas the responses are checked against.
+
+export type ApiClient = "playwright" | "rest-assured" | "robot";
+
+export interface ApiClientInfo {
+  label: string;
+  // Language of the requests and tests ("javascript" for Robot, whose files aren't in one)
+  language: TargetLanguage;
+}
+
+export const API_CLIENTS: Record<ApiClient, ApiClientInfo> = {
+  playwright: { label: "Playwright request (TS)", language: "typescript" },
+  "rest-assured": { label: "REST Assured (Java)", language: "java" },
+  robot: { label: "Robot RequestsLibrary", language: "javascript" },
+};
+
+const API_CLIENT_STORAGE_KEY = "qatalyst.apiClient";
+
+export const isApiClient = (value: unknown): value is ApiClient =>
+  typeof value === "string" && value in API_CLIENTS;
+
+export const loadApiClient = (): ApiClient => {
+  const saved = localStorage.getItem(API_CLIENT_STORAGE_KEY);
+  return isApiClient(saved) ? saved : "playwright";
+};
+
+export const saveApiClient = (client: ApiClient) => {
+  localStorage.setItem(API_CLIENT_STORAGE_KEY, client);
+};
+
+// "POST /api/orders", "GET https://host/users/1"
+const HTTP_CALL = /\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(?:https?:\/\/|\/)\S*/;
+// "returns 201", "status code 404", "responds with 200"
+const STATUS_CHECK = /\b(?:status(?:\s+code)?|returns?|responds?\s+with)\s*(?:is\s+|of\s+)?[1-5]\d\d\b/i;
+const API_WORDS = /\b(?:api|endpoint|request|response|payload|json)\b/i;
+const API_TAG = /^@?api$/i;
+
+// Whether a test case is an API check: tagged @api, or its text names an HTTP
+// call, or a status code together with API vocabulary
+export const isApiTestCase = (tc: TestCase): boolean => {
+  if (tc.tags?.some(tag => API_TAG.test(tag.trim()))) return true;
+  const text = [
+    tc.description,
+    tc.steps,
+    tc.expected,
+    ...(tc.stepList || []).flatMap(step => [step.action, step.expected || ""]),
+  ].join("\n");
+  return HTTP_CALL.test(text) || (STATUS_CHECK.test(text) && API_WORDS.test(text));
+};
+
+// The test cases an API generation is for: the API checks among them, or all
+// of them when none look like one (choosing API output says they are)
+export const apiTestCases = (testCases: TestCase[]): TestCase[] => {
+  const detected = testCases.filter(isApiTestCase);
+  return detected.length ? detected : testCases;
+};
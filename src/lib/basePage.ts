@@ -0,0 +1,335 @@
+// Shared base every generated module builds on: page objects extend BasePage,
+// Robot keyword files import common.resource. The generate-* functions are told
+// these helpers exist (basePage: true), so keep them in step with the prompts.
+
+import { TargetLanguage } from "./targetLanguage";
+
+export interface BasePageFile {
+  fileName: string;
+  content: string;
+}
+
+const PLAYWRIGHT = `// Helpers shared by every page object
+class BasePage {
+  constructor(page) {
+    this.page = page;
+  }
+
+  async goto(url) {
+    await this.page.goto(url);
+  }
+
+  async waitForLoad() {
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  async getTitle() {
+    return this.page.title();
+  }
+}
+
+module.exports = { BasePage };
+`;
+
+const PLAYWRIGHT_ESM = `// Helpers shared by every page object
+export class BasePage {
+  constructor(page) {
+    this.page = page;
+  }
+
+  async goto(url) {
+    await this.page.goto(url);
+  }
+
+  async waitForLoad() {
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  async getTitle() {
+    return this.page.title();
+  }
+}
+`;
+
+const PLAYWRIGHT_TYPESCRIPT = `import { Page } from '@playwright/test';
+
+// Helpers shared by every page object
+export class BasePage {
+  constructor(protected readonly page: Page) {}
+
+  async goto(url: string): Promise<void> {
+    await this.page.goto(url);
+  }
+
+  async waitForLoad(): Promise<void> {
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  async getTitle(): Promise<string> {
+    return this.page.title();
+  }
+}
+`;
+
+const SELENIUM = `const { until } = require('selenium-webdriver');
+
+// Helpers shared by every page object; each waits for its element first
+class BasePage {
+  constructor(driver, timeout = 10000) {
+    this.driver = driver;
+    this.timeout = timeout;
+  }
+
+  async goto(url) {
+    await this.driver.get(url);
+  }
+
+  async find(locator) {
+    const element = await this.driver.wait(until.elementLocated(locator), this.timeout);
+    return this.driver.wait(until.elementIsVisible(element), this.timeout);
+  }
+
+  async click(locator) {
+    await (await this.find(locator)).click();
+  }
+
+  async type(locator, text) {
+    const element = await this.find(locator);
+    await element.clear();
+    await element.sendKeys(text);
+  }
+
+  async textOf(locator) {
+    return (await this.find(locator)).getText();
+  }
+}
+
+module.exports = { BasePage };
+`;
+
+const SELENIUM_JAVA = `package pages;
+
+import java.time.Duration;
+import org.openqa.selenium.By;
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.WebElement;
+import org.openqa.selenium.support.ui.ExpectedConditions;
+import org.openqa.selenium.support.ui.WebDriverWait;
+
+// Helpers shared by every page object; each waits for its element first
+public class BasePage {
+    protected final WebDriver driver;
+    protected final WebDriverWait wait;
+
+    public BasePage(WebDriver driver) {
+        this(driver, Duration.ofSeconds(10));
+    }
+
+    public BasePage(WebDriver driver, Duration timeout) {
+        this.driver = driver;
+        this.wait = new WebDriverWait(driver, timeout);
+    }
+
+    public void goTo(String url) {
+        driver.get(url);
+    }
+
+    protected WebElement find(By locator) {
+        return wait.until(ExpectedConditions.visibilityOfElementLocated(locator));
+    }
+
+    protected void click(By locator) {
+        wait.until(ExpectedConditions.elementToBeClickable(locator)).click();
+    }
+
+    protected void type(By locator, String text) {
+        WebElement element = find(locator);
+        element.clear();
+        element.sendKeys(text);
+    }
+
+    protected String textOf(By locator) {
+        return find(locator).getText();
+    }
+}
+`;
+
+const SELENIUM_PYTHON = `from selenium.webdriver.support import expected_conditions as EC
+from selenium.webdriver.support.ui import WebDriverWait
+
+
+class BasePage:
+    """Helpers shared by every page object; each waits for its element first."""
+
+    def __init__(self, driver, timeout=10):
+        self.driver = driver
+        self.wait = WebDriverWait(driver, timeout)
+
+    def goto(self, url):
+        self.driver.get(url)
+
+    def find(self, locator):
+        return self.wait.until(EC.visibility_of_element_located(locator))
+
+    def click(self, locator):
+        self.wait.until(EC.element_to_be_clickable(locator)).click()
+
+    def type(self, locator, text):
+        element = self.find(locator)
+        element.clear()
+        element.send_keys(text)
+
+    def text_of(self, locator):
+        return self.find(locator).text
+`;
+
+const SELENIUM_CSHARP = `using OpenQA.Selenium;
+using OpenQA.Selenium.Support.UI;
+
+namespace QatalystTests.Pages;
+
+// Helpers shared by every page object; each waits for its element first
+public class BasePage
+{
+    protected readonly IWebDriver Driver;
+    protected readonly WebDriverWait Wait;
+
+    public BasePage(IWebDriver driver, int timeoutSeconds = 10)
+    {
+        Driver = driver;
+        Wait = new WebDriverWait(driver, TimeSpan.FromSeconds(timeoutSeconds));
+        Wait.IgnoreExceptionTypes(typeof(NoSuchElementException), typeof(StaleElementReferenceException));
+    }
+
+    public void GoTo(string url) => Driver.Navigate().GoToUrl(url);
+
+    protected IWebElement Find(By locator) =>
+        Wait.Until(driver => driver.FindElement(locator) is { Displayed: true } element ? element : null)!;
+
+    protected void Click(By locator) => Find(locator).Click();
+
+    protected void Type(By locator, string text)
+    {
+        var element = Find(locator);
+        element.Clear();
+        element.SendKeys(text);
+    }
+
+    protected string TextOf(By locator) => Find(locator).Text;
+}
+`;
+
+const CYPRESS = `// Helpers shared by every page object
+class BasePage {
+  visit(path = '/') {
+    cy.visit(path);
+  }
+
+  element(selector) {
+    return cy.get(selector);
+  }
+}
+
+module.exports = { BasePage };
+`;
+
+const CYPRESS_ESM = `// Helpers shared by every page object
+export class BasePage {
+  visit(path = '/') {
+    cy.visit(path);
+  }
+
+  element(selector) {
+    return cy.get(selector);
+  }
+}
+`;
+
+const CYPRESS_TYPESCRIPT = `// Helpers shared by every page object
+export class BasePage {
+  visit(path = '/'): void {
+    cy.visit(path);
+  }
+
+  element(selector: string): Cypress.Chainable<JQuery<HTMLElement>> {
+    return cy.get(selector);
+  }
+}
+`;
+
+const WEBDRIVERIO = `// Helpers shared by every page object; browser and $ are WebdriverIO globals
+class BasePage {
+  async open(path = '/') {
+    await browser.url(path);
+  }
+
+  async waitForDisplayed(element) {
+    await element.waitForDisplayed();
+    return element;
+  }
+}
+
+module.exports = { BasePage };
+`;
+
+const TESTCAFE = `const { t } = require('testcafe');
+
+// Helpers shared by every page object; t is the controller of the running test
+class BasePage {
+  async navigate(url) {
+    await t.navigateTo(url);
+  }
+
+  async waitForVisible(selector) {
+    await t.expect(selector.visible).ok();
+    return selector;
+  }
+}
+
+module.exports = { BasePage };
+`;
+
+const ROBOT = `*** Settings ***
+Documentation    Keywords and settings shared by every module
+Library    SeleniumLibrary
+
+*** Variables ***
+\${BROWSER}    chrome
+\${TIMEOUT}    10s
+
+*** Keywords ***
+Open Application
+    [Arguments]    \${url}
+    Open Browser    \${url}    \${BROWSER}
+    Maximize Browser Window
+    Set Selenium Timeout    \${TIMEOUT}
+
+Close Application
+    Close All Browsers
+`;
+
+export const basePageFile = (framework: string, language: TargetLanguage = "javascript"): BasePageFile | null => {
+  switch (framework) {
+    case "playwright":
+      if (language === "esm") return { fileName: "base.page.js", content: PLAYWRIGHT_ESM };
+      if (language === "typescript") return { fileName: "base.page.ts", content: PLAYWRIGHT_TYPESCRIPT };
+      return { fileName: "base.page.js", content: PLAYWRIGHT };
+    case "selenium":
+      if (language === "java") return { fileName: "BasePage.java", content: SELENIUM_JAVA };
+      if (language === "python") return { fileName: "base_page.py", content: SELENIUM_PYTHON };
+      if (language === "csharp") return { fileName: "BasePage.cs", content: SELENIUM_CSHARP };
+      return { fileName: "base.page.js", content: SELENIUM };
+    case "cypress":
+      if (language === "esm") return { fileName: "base.page.js", content: CYPRESS_ESM };
+      if (language === "typescript") return { fileName: "base.page.ts", content: CYPRESS_TYPESCRIPT };
+      return { fileName: "base.page.js", content: CYPRESS };
+    case "webdriverio":
+      return { fileName: "base.page.js", content: WEBDRIVERIO };
+    case "testcafe":
+      return { fileName: "base.page.js", content: TESTCAFE };
+    case "robot":
+      return { fileName: "common.resource", content: ROBOT };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { CellEntry, formatCell, parseCell } from "./cellGrammar";
+
+describe("parseCell", () => {
+  it("reads named and unnamed locators", () => {
+    expect(parseCell("loginBtn=button[type=submit]; username: #user\na:hover", "locator")).toEqual({
+      entries: [
+        { name: "loginBtn", value: "button[type=submit]" },
+        { name: "username", value: "#user" },
+        { name: "a:hover", value: "a:hover" },
+      ],
+      issues: [],
+    });
+  });
+
+  it("keeps selector engine prefixes and pseudo-classes in unnamed locators", () => {
+    expect(parseCell("css=.submit; li:nth-child(2); xpath=//input[@name='q']", "locator").entries).toEqual([
+      { name: "css=.submit", value: "css=.submit" },
+      { name: "li:nth-child(2)", value: "li:nth-child(2)" },
+      { name: "xpath=//input[@name='q']", value: "xpath=//input[@name='q']" },
+    ]);
+  });
+
+  it("reads test data with quoted values, escapes and URLs", () => {
+    expect(parseCell(`username=admin; password: "p;w \\"x\\""; note=a\\;b; url=https://example.com`, "testData")).toEqual({
+      entries: [
+        { name: "username", value: "admin" },
+        { name: "password", value: 'p;w "x"' },
+        { name: "note", value: "a;b" },
+        { name: "url", value: "https://example.com" },
+      ],
+      issues: [],
+    });
+  });
+
+  it("splits legacy cells on commas only when every part is named", () => {
+    expect(parseCell("username:admin, password:secret", "testData").entries).toEqual([
+      { name: "username", value: "admin" },
+      { name: "password", value: "secret" },
+    ]);
+    expect(parseCell("message=Hello, world", "testData").entries).toEqual([{ name: "message", value: "Hello, world" }]);
+  });
+
+  it("returns nothing for an empty cell", () => {
+    expect(parseCell("  ", "testData")).toEqual({ entries: [], issues: [] });
+  });
+});
+
+describe("parseCell issues", () => {
+  it("reports unnamed test data", () => {
+    expect(parseCell("admin; password=secret", "testData")).toEqual({
+      entries: [{ name: "password", value: "secret" }],
+      issues: [{ severity: "error", message: '"admin" has no name; use name=value.', offset: 0 }],
+    });
+  });
+
+  it("reports a name without a value", () => {
+    expect(parseCell("username=admin; password=", "locator").issues).toEqual([
+      { severity: "error", message: '"password" has no value.', offset: 15 },
+    ]);
+  });
+
+  it("reports unterminated quotes and dangling escapes", () => {
+    expect(parseCell('name="admin', "testData").issues).toEqual([
+      { severity: "error", message: "Unterminated double quote.", offset: 5 },
+    ]);
+    expect(parseCell("name=admin\\", "testData").issues).toEqual([
+      { severity: "error", message: "Dangling escape character at end of cell.", offset: 10 },
+    ]);
+  });
+
+  it("reports text after a closing quote", () => {
+    expect(parseCell("name='admin' extra", "testData").issues).toEqual([
+      { severity: "error", message: 'Unexpected text after closing quote: "extra".', offset: 12 },
+    ]);
+  });
+
+  it("warns when a name is given two values and keeps the last", () => {
+    expect(parseCell("user=a; user=b; user=b", "testData")).toEqual({
+      entries: [{ name: "user", value: "b" }],
+      issues: [{ severity: "warning", message: '"user" is defined more than once; the last value wins.', offset: 7 }],
+    });
+  });
+});
+
+describe("formatCell", () => {
+  const roundTrip = (entries: CellEntry[], kind: "locator" | "testData") => parseCell(formatCell(entries), kind);
+
+  it("writes entries that parse back to the same entries", () => {
+    const entries = [
+      { name: "username", value: "admin" },
+      { name: "password", value: 'p;w "x" \\ y' },
+      { name: "padded", value: " spaced " },
+      { name: "url", value: "https://example.com" },
+      { name: "path", value: "//tmp" },
+    ];
+    expect(roundTrip(entries, "testData")).toEqual({ entries, issues: [] });
+  });
+
+  it("keeps unnamed locators unnamed", () => {
+    const entries = [
+      { name: "loginBtn", value: "button[type=submit]" },
+      { name: "css=.submit", value: "css=.submit" },
+      { name: "#user", value: "#user" },
+    ];
+    expect(formatCell(entries)).toBe('loginBtn=button[type=submit];"css=.submit";#user');
+    expect(roundTrip(entries, "locator")).toEqual({ entries, issues: [] });
+  });
+
+  it("round-trips what parseCell read", () => {
+    const cell = "loginBtn=button[type=submit]; a:hover\nsearch: input[name='q']";
+    const { entries } = parseCell(cell, "locator");
+    expect(parseCell(formatCell(entries), "locator").entries).toEqual(entries);
+  });
+});
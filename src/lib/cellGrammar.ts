@@ -0,0 +1,235 @@
+/*
+ * Grammar for the "Locators" and "Test Data" cells of an uploaded test case.
+ *
+ *   cell      = entry { separator entry }
+ *   separator = ";" | newline
+ *   entry     = [ name ( "=" | ":" ) ] value
+ *   name      = letter { letter | digit | "_" | "-" | "." | "$" }
+ *   value     = quoted | bare
+ *   quoted    = '"' { char | escape } '"'  |  "'" { char | escape } "'"
+ *   bare      = { char | escape }            (surrounding whitespace is trimmed)
+ *   escape    = "\" any                      (e.g. "\;" keeps a literal semicolon)
+ *
+ * Whitespace is allowed around names, separators and values, so both
+ * "username=admin" and "username: admin" work.
+ *
+ * Disambiguation rules:
+ *   - The first "=" or ":" directly after a name separates it from the value;
+ *     later ones belong to the value ("loginBtn=button[type=submit]").
+ *   - ":" followed by "//" is never a separator ("https://…").
+ *   - In locator cells, ":" followed by a CSS pseudo-class/element is never a
+ *     separator ("a:hover", "li:nth-child(2)"), and Playwright selector engine
+ *     prefixes ("css=", "xpath=", "text=", "id=", "data-testid=" …) are kept as
+ *     part of an unnamed value.
+ *   - An unnamed locator is named after itself; an unnamed test data value is
+ *     an error.
+ *   - For backwards compatibility a cell without ";" or newlines may separate
+ *     entries with "," as long as every comma-separated part is a named entry.
+ */
+
+export type CellKind = "locator" | "testData";
+
+export interface CellEntry {
+  name: string;
+  value: string;
+}
+
+export interface CellIssue {
+  severity: "error" | "warning";
+  message: string;
+  // Character offset into the cell where the problem starts
+  offset: number;
+}
+
+export interface ParsedCell {
+  entries: CellEntry[];
+  issues: CellIssue[];
+}
+
+interface RawEntry {
+  text: string;
+  offset: number;
+}
+
+const NAME_PATTERN = /^(\s*)([A-Za-z_$][\w.$-]*)\s*([=:])/;
+
+const CSS_PSEUDOS = new Set([
+  "active", "after", "backdrop", "before", "checked", "default", "disabled", "empty", "enabled",
+  "first-child", "first-letter", "first-line", "first-of-type", "focus", "focus-visible",
+  "focus-within", "has", "has-text", "hover", "in-range", "indeterminate", "invalid", "is",
+  "last-child", "last-of-type", "link", "marker", "not", "nth-child", "nth-last-child",
+  "nth-last-of-type", "nth-match", "nth-of-type", "only-child", "only-of-type", "optional",
+  "out-of-range", "placeholder", "placeholder-shown", "read-only", "read-write", "required",
+  "root", "selection", "target", "text", "valid", "visible", "visited", "where",
+]);
+
+const SELECTOR_ENGINES = new Set([
+  "css", "xpath", "text", "id", "class", "role", "data-test", "data-testid", "data-test-id",
+  "data-cy", "placeholder", "alt", "title", "label", "internal:role", "nth",
+]);
+
+// Split on unquoted, unescaped separators, keeping offsets
+const splitEntries = (text: string, separators: string): { entries: RawEntry[]; issues: CellIssue[] } => {
+  const entries: RawEntry[] = [];
+  const issues: CellIssue[] = [];
+  let quote: string | null = null;
+  let quoteStart = 0;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") {
+      if (i === text.length - 1) {
+        issues.push({ severity: "error", message: "Dangling escape character at end of cell.", offset: i });
+      }
+      i++;
+      continue;
+    }
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      // Quotes only open at the start of a value, never inside a bare selector like [type='x']
+      const before = text.slice(start, i).trim();
+      if (before === "" || /[=:]$/.test(before)) {
+        quote = ch;
+        quoteStart = i;
+      }
+      continue;
+    }
+    if (separators.includes(ch)) {
+      entries.push({ text: text.slice(start, i), offset: start });
+      start = i + 1;
+    }
+  }
+  if (quote) {
+    issues.push({ severity: "error", message: `Unterminated ${quote === '"' ? "double" : "single"} quote.`, offset: quoteStart });
+  }
+  entries.push({ text: text.slice(start), offset: start });
+
+  return { entries: entries.filter(e => e.text.trim() !== ""), issues };
+};
+
+const unescape = (s: string): string => s.replace(/\\(.)/g, "$1");
+
+// Parse a value (quoted or bare) starting at the given offset
+const parseValue = (raw: string, offset: number, issues: CellIssue[]): string => {
+  const trimmed = raw.trim();
+  const lead = raw.length - raw.trimStart().length;
+  const quote = trimmed[0];
+  if (quote !== '"' && quote !== "'") return unescape(trimmed);
+
+  let value = "";
+  let i = 1;
+  for (; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === "\\" && i + 1 < trimmed.length) {
+      value += trimmed[++i];
+    } else if (ch === quote) {
+      break;
+    } else {
+      value += ch;
+    }
+  }
+  if (i >= trimmed.length) return value; // unterminated, already reported while splitting
+  if (trimmed.slice(i + 1).trim()) {
+    issues.push({
+      severity: "error",
+      message: `Unexpected text after closing quote: "${trimmed.slice(i + 1).trim()}".`,
+      offset: offset + lead + i + 1,
+    });
+  }
+  return value;
+};
+
+const isNameSeparator = (name: string, sep: string, rest: string, kind: CellKind): boolean => {
+  if (sep === ":" && rest.startsWith("//")) return false;
+  if (kind !== "locator") return true;
+  if (sep === "=" && SELECTOR_ENGINES.has(name.toLowerCase())) return false;
+  if (sep === ":") {
+    const pseudo = rest.replace(/^:/, "").match(/^[a-z-]+/)?.[0];
+    if (rest.startsWith(":") || (pseudo && CSS_PSEUDOS.has(pseudo))) return false;
+  }
+  return true;
+};
+
+const parseEntry = (entry: RawEntry, kind: CellKind, issues: CellIssue[]): CellEntry | null => {
+  const match = entry.text.match(NAME_PATTERN);
+  if (match) {
+    const [whole, , name, sep] = match;
+    const rest = entry.text.slice(whole.length);
+    if (isNameSeparator(name, sep, rest, kind)) {
+      const value = parseValue(rest, entry.offset + whole.length, issues);
+      if (!value) {
+        issues.push({ severity: "error", message: `"${name}" has no value.`, offset: entry.offset });
+        return null;
+      }
+      return { name, value };
+    }
+  }
+
+  const value = parseValue(entry.text, entry.offset, issues);
+  if (kind === "testData") {
+    issues.push({
+      severity: "error",
+      message: `"${value}" has no name; use name=value.`,
+      offset: entry.offset,
+    });
+    return null;
+  }
+  return { name: value, value };
+};
+
+const hasUnquoted = (text: string, chars: string): boolean =>
+  splitEntries(text, chars).entries.length > 1;
+
+export const parseCell = (text: string, kind: CellKind): ParsedCell => {
+  if (!text || !text.trim()) return { entries: [], issues: [] };
+
+  let split = splitEntries(text, ";\n");
+
+  // Legacy comma-separated cells ("username:admin, password:secret")
+  if (split.entries.length === 1 && hasUnquoted(text, ",")) {
+    const commaSplit = splitEntries(text, ",");
+    const allNamed = commaSplit.entries.every(e => {
+      const m = e.text.match(NAME_PATTERN);
+      return m && isNameSeparator(m[2], m[3], e.text.slice(m[0].length), kind);
+    });
+    if (allNamed) split = commaSplit;
+  }
+
+  const issues = [...split.issues];
+  const entries: CellEntry[] = [];
+  split.entries.forEach(raw => {
+    const parsed = parseEntry(raw, kind, issues);
+    if (!parsed) return;
+    const existing = entries.find(e => e.name === parsed.name);
+    if (existing && existing.value !== parsed.value) {
+      issues.push({
+        severity: "warning",
+        message: `"${parsed.name}" is defined more than once; the last value wins.`,
+        offset: raw.offset,
+      });
+      existing.value = parsed.value;
+    } else if (!existing) {
+      entries.push(parsed);
+    }
+  });
+
+  return { entries, issues };
+};
+
+const needsQuoting = (value: string): boolean =>
+  /[;\n"'\\]/.test(value) || value !== value.trim() || /^:|^\/\//.test(value);
+
+// Serialize entries back into a cell that parses to the same entries
+export const formatCell = (entries: CellEntry[]): string =>
+  entries
+    .map(({ name, value }) => {
+      const v = needsQuoting(value) ? `"${value.replace(/["\\]/g, "\\$&")}"` : value;
+      if (name !== value) return `${name}=${v}`;
+      // An unnamed value that looks like "name=…" must be quoted to stay unnamed
+      return v === value && NAME_PATTERN.test(value) ? `"${value.replace(/["\\]/g, "\\$&")}"` : v;
+    })
+    .join(";");
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { TestCase } from "./testCaseData";
+import { GenerationChunk, mergeChunks, planChunks, runWithConcurrency } from "./chunkedGeneration";
+
+const testCases = (count: number, prefix = "TC"): TestCase[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}_${String(i + 1).padStart(3, "0")}`,
+    description: "",
+    steps: "",
+    expected: "",
+    locator: "",
+    testData: "",
+  }));
+
+const sizes = (chunks: GenerationChunk[]) => chunks.map(c => [c.module, c.testCases.length, c.part, c.parts]);
+
+describe("planChunks", () => {
+  it("keeps a module within the request limit in one chunk", () => {
+    expect(sizes(planChunks([{ name: "Login", testCases: testCases(50) }], 20, 50))).toEqual([["Login", 50, 1, 1]]);
+  });
+
+  it("splits a module over the request limit into evenly sized chunks", () => {
+    const chunks = planChunks([{ name: "Login", testCases: testCases(51) }], 20, 50);
+    expect(sizes(chunks)).toEqual([
+      ["Login", 17, 1, 3],
+      ["Login", 17, 2, 3],
+      ["Login", 17, 3, 3],
+    ]);
+    expect(chunks.flatMap(c => c.testCases)).toEqual(testCases(51));
+  });
+
+  it("plans each module on its own, in order", () => {
+    const chunks = planChunks([
+      { name: "Login", testCases: testCases(5) },
+      { name: "Search", testCases: testCases(3, "SR") },
+    ], 2, 4);
+    expect(sizes(chunks)).toEqual([
+      ["Login", 2, 1, 3],
+      ["Login", 2, 2, 3],
+      ["Login", 1, 3, 3],
+      ["Search", 3, 1, 1],
+    ]);
+    expect(chunks[3].testCases[0].id).toBe("SR_001");
+  });
+});
+
+describe("runWithConcurrency", () => {
+  const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+  it("runs every item with at most `limit` running at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+      done.push(item);
+    });
+    expect(peak).toBe(3);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("starts no new items after a failure and rethrows it once the running ones settle", async () => {
+    const started: number[] = [];
+    const settled: number[] = [];
+    const run = runWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      started.push(item);
+      await tick();
+      if (item === 1) throw new Error("chunk 1 failed");
+      await tick();
+      settled.push(item);
+    });
+    await expect(run).rejects.toThrow("chunk 1 failed");
+    expect(started).toEqual([1, 2]);
+    expect(settled).toEqual([2]);
+  });
+
+  it("does nothing for no items", async () => {
+    await expect(runWithConcurrency([], 3, async () => { throw new Error("not called"); })).resolves.toBeUndefined();
+  });
+});
+
+describe("mergeChunks", () => {
+  const chunks = planChunks([
+    { name: "Login", testCases: testCases(3) },
+    { name: "Search", testCases: testCases(1) },
+    { name: "Cart", testCases: testCases(1) },
+  ], 1, 2);
+  const join = (parts: string[]) => parts.join("+");
+
+  it("merges each module's finished chunks in plan order", () => {
+    expect(mergeChunks(chunks, ["login 1", "login 2", "login 3", "search", "cart"], join)).toEqual([
+      { module: "Login", code: "login 1+login 2+login 3" },
+      { module: "Search", code: "search" },
+      { module: "Cart", code: "cart" },
+    ]);
+  });
+
+  it("leaves out chunks without a result and modules with none", () => {
+    expect(mergeChunks(chunks, ["login 1", null, "login 3", null, "cart"], join)).toEqual([
+      { module: "Login", code: "login 1+login 3" },
+      { module: "Cart", code: "cart" },
+    ]);
+  });
+});
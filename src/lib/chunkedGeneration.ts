@@ -0,0 +1,117 @@
+import { TestCase } from "./testCaseData";
+import { GeneratedCode, ModuleFiles } from "./generatedCode";
+import { mergeClassFiles, mergeFeatureFiles, mergeJsModules, mergePythonModules, mergeRobotFiles, selectScenarios } from "./mergeCode";
+import { TargetLanguage } from "./targetLanguage";
+import { ModuleGroup } from "./modules";
+
+// Most test cases a generate-* function accepts in one request; larger modules are chunked
+export const REQUEST_LIMITS = { gherkin: 200, framework: 50 };
+// Test cases per chunk: well under the limit, so each answer fits the model's
+// output and the function's time budget
+export const CHUNK_SIZES = { gherkin: 100, framework: 20 };
+export const MAX_CONCURRENT_CHUNKS = 3;
+// Longest Gherkin context the functions accept (LIMITS.gherkin on the server)
+export const GHERKIN_CONTEXT_LIMIT = 50_000;
+
+export interface GenerationChunk {
+  module: string;
+  testCases: TestCase[];
+  // Position of the chunk within its module (from 1) and the module's chunk count
+  part: number;
+  parts: number;
+}
+
+export type ChunkStatus = "pending" | "running" | "done" | "failed";
+
+export interface ChunkState extends GenerationChunk {
+  status: ChunkStatus;
+  // Characters of the answer received so far
+  received: number;
+  error?: string;
+}
+
+// One chunk per module, or several evenly sized ones of at most chunkSize cases
+// when the module is over the request limit
+export const planChunks = (groups: ModuleGroup[], chunkSize: number, requestLimit: number): GenerationChunk[] =>
+  groups.flatMap(({ name, testCases }) => {
+    const parts = testCases.length > requestLimit ? Math.ceil(testCases.length / chunkSize) : 1;
+    const size = Math.ceil(testCases.length / parts);
+    return Array.from({ length: parts }, (_, i) => ({
+      module: name,
+      testCases: testCases.slice(i * size, (i + 1) * size),
+      part: i + 1,
+      parts,
+    }));
+  });
+
+// Runs worker over items with at most `limit` running at once. After a worker
+// throws no new items are started, and the error is rethrown once the running
+// ones have settled.
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+  const lane = async () => {
+    while (!failure && next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+  if (failure) throw failure.error;
+};
+
+// The part of a Gherkin context a chunk needs: the scenarios tagged with one of
+// its test case IDs, or the whole context when it is untagged and small enough
+export const chunkGherkinContext = (gherkin: string, testCases: TestCase[]): string => {
+  const tags = new Set(testCases.flatMap(tc => [tc.id, tc.sourceKey]).filter(Boolean).map(key => `@${key}`.toLowerCase()));
+  const scenarios = selectScenarios(gherkin, scenarioTags => scenarioTags.some(tag => tags.has(tag.toLowerCase())));
+  if (scenarios) return scenarios;
+  return gherkin.length <= GHERKIN_CONTEXT_LIMIT ? gherkin : "";
+};
+
+// Merges the results of the chunks generated so far into one per module, in
+// plan order. results[i] holds chunk i's result, or null while it is pending or failed.
+export const mergeChunks = <T>(chunks: GenerationChunk[], results: (T | null)[], merge: (parts: T[]) => T): ModuleFiles<T>[] => {
+  const done = chunks.flatMap((chunk, i) => (results[i] ? [{ chunk, code: results[i]! }] : []));
+  const modules = [...new Set(done.map(d => d.chunk.module))];
+  return modules.map(module => ({
+    module,
+    code: merge(done.filter(d => d.chunk.module === module).map(d => d.code)),
+  }));
+};
+
+// Merges the files written in a language
+const codeMerger = (language: TargetLanguage): ((files: string[]) => string) => {
+  switch (language) {
+    case "java":
+    case "csharp":
+      return mergeClassFiles;
+    case "python":
+      return mergePythonModules;
+    default:
+      return mergeJsModules;
+  }
+};
+
+// Merges the files of the chunks generated so far into one set per module
+export const mergeChunkResults = (
+  framework: string,
+  language: TargetLanguage,
+  chunks: GenerationChunk[],
+  results: (GeneratedCode | null)[]
+): ModuleFiles<GeneratedCode>[] => {
+  const mergeFiles = framework === "robot" ? mergeRobotFiles : codeMerger(language);
+  // Robot's data files are Python; API tests' schema files are written in the tests' language
+  const mergeData = framework === "robot" ? mergePythonModules : mergeFiles;
+
+  return mergeChunks(chunks, results, files => ({
+    featureFile: mergeFeatureFiles(files.map(f => f.featureFile)),
+    pageObject: mergeFiles(files.map(f => f.pageObject)),
+    testFile: mergeFiles(files.map(f => f.testFile)),
+    dataFile: mergeData(files.map(f => f.dataFile)),
+  }));
+};
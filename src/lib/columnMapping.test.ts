@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { detectMapping, getMappingIssues } from "./columnMapping";
+
+describe("detectMapping", () => {
+  it("maps common header names to their fields", () => {
+    expect(detectMapping(["TC ID", "Test Case Description", "Test Steps", "Expected Result", "Valid Data", "Locators", "Priority"]))
+      .toEqual(["id", "description", "steps", "expected", "testData", "locator", "priority"]);
+  });
+
+  it("matches whole words only", () => {
+    // "Valid" and "Paid" contain "id", but neither is an ID column
+    expect(detectMapping(["Valid Data", "Paid"])).toEqual(["testData", null]);
+    expect(detectMapping(["Scenario ID", "Invalid Data"])).toEqual(["id", "testData"]);
+  });
+
+  it("gives a field claimed by several columns to the strongest match", () => {
+    expect(detectMapping(["Test Steps Notes", "Steps"])).toEqual([null, "steps"]);
+  });
+
+  it("leaves unknown and empty headers unmapped", () => {
+    expect(detectMapping(["Owner", ""])).toEqual([null, null]);
+  });
+});
+
+describe("getMappingIssues", () => {
+  it("reports nothing for a complete mapping", () => {
+    expect(getMappingIssues(["ID", "Steps"], ["id", "steps"])).toEqual([]);
+  });
+
+  it("requires a Test Case ID or Steps column", () => {
+    expect(getMappingIssues(["Title", ""], ["description", null])).toEqual([
+      { severity: "error", message: "Map at least one column to Test Case ID or Steps.", columns: [] },
+    ]);
+  });
+
+  it("warns when several columns map to the same field", () => {
+    expect(getMappingIssues(["Steps", "ID", "Actions"], ["steps", "id", "steps"])).toEqual([
+      { severity: "warning", message: '"Steps", "Actions" all map to Steps; their values will be combined.', columns: [0, 2] },
+    ]);
+  });
+
+  it("warns about headers that match two fields equally", () => {
+    expect(getMappingIssues(["ID", "Result Data"], ["id", "expected"])).toEqual([
+      { severity: "warning", message: '"Result Data" matches Expected Result and Test Data equally; check its assignment.', columns: [1] },
+    ]);
+  });
+
+  it("warns about named columns left unmapped", () => {
+    expect(getMappingIssues(["ID", "Owner", "Notes"], ["id", null, null])).toEqual([
+      { severity: "warning", message: '"Owner", "Notes" are not mapped and will be ignored.', columns: [1, 2] },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+// TestCase fields a spreadsheet column can be assigned to
+export type MappableField =
+  | "id"
+  | "description"
+  | "preconditions"
+  | "steps"
+  | "expected"
+  | "locator"
+  | "testData"
+  | "priority"
+  | "tags"
+  | "module";
+
+export interface FieldDefinition {
+  field: MappableField;
+  label: string;
+  synonyms: string[];
+}
+
+// Column index → assigned field (null = ignored)
+export type ColumnMapping = (MappableField | null)[];
+
+export interface MappingIssue {
+  severity: "error" | "warning";
+  message: string;
+  columns: number[];
+}
+
+export const FIELD_DEFINITIONS: FieldDefinition[] = [
+  { field: "id", label: "Test Case ID", synonyms: ["id", "test case id", "tc id", "case id", "test id", "key", "no", "number"] },
+  { field: "description", label: "Description", synonyms: ["description", "desc", "title", "summary", "test case", "name", "scenario", "test case description"] },
+  { field: "preconditions", label: "Preconditions", synonyms: ["preconditions", "precondition", "pre conditions", "prerequisites", "given"] },
+  { field: "steps", label: "Steps", synonyms: ["steps", "step", "test steps", "actions", "procedure"] },
+  { field: "expected", label: "Expected Result", synonyms: ["expected", "expected result", "expected results", "expected outcome", "result"] },
+  { field: "locator", label: "Locators", synonyms: ["locator", "locators", "selector", "selectors", "elements"] },
+  { field: "testData", label: "Test Data", synonyms: ["test data", "data", "input", "inputs", "input data", "valid data"] },
+  { field: "priority", label: "Priority", synonyms: ["priority", "severity", "importance"] },
+  { field: "tags", label: "Tags", synonyms: ["tags", "tag", "labels", "label", "category"] },
+  { field: "module", label: "Module", synonyms: ["module", "feature", "component", "area", "section"] },
+];
+
+const STORAGE_PREFIX = "qatalyst.columnMapping.";
+
+const words = (s: string): string[] =>
+  s.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const containsSequence = (haystack: string[], needle: string[]): boolean => {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((w, j) => haystack[i + j] === w)) return true;
+  }
+  return false;
+};
+
+// Score how well a header matches a field. Whole-word matching only, so
+// "Valid Data" never matches "id" and longer synonyms beat shorter ones.
+const scoreHeader = (header: string, def: FieldDefinition): number => {
+  const headerWords = words(header);
+  if (!headerWords.length) return 0;
+  let best = 0;
+  for (const synonym of def.synonyms) {
+    const synonymWords = words(synonym);
+    if (synonymWords.join(" ") === headerWords.join(" ")) {
+      best = Math.max(best, 100);
+    } else if (containsSequence(headerWords, synonymWords)) {
+      best = Math.max(best, 10 * synonymWords.length);
+    }
+  }
+  return best;
+};
+
+export const headerSignature = (headers: string[]): string =>
+  headers.map(h => words(h).join("_")).join("|");
+
+// Best-guess mapping from header names alone
+export const detectMapping = (headers: string[]): ColumnMapping => {
+  const candidates = headers.map((header, column) => {
+    const scored = FIELD_DEFINITIONS
+      .map(def => ({ field: def.field, score: scoreHeader(header, def) }))
+      .filter(s => s.score > 0)
+      .sort((a, b) => b.score - a.score);
+    return { column, best: scored[0] };
+  });
+
+  // When several columns claim the same field, the strongest match keeps it
+  const mapping: ColumnMapping = headers.map(() => null);
+  const taken = new Set<MappableField>();
+  candidates
+    .filter(c => c.best)
+    .sort((a, b) => b.best.score - a.best.score)
+    .forEach(c => {
+      if (!taken.has(c.best.field)) {
+        mapping[c.column] = c.best.field;
+        taken.add(c.best.field);
+      }
+    });
+  return mapping;
+};
+
+// Headers that match more than one field equally well
+const ambiguousColumns = (headers: string[]): { column: number; fields: MappableField[] }[] =>
+  headers
+    .map((header, column) => {
+      const scored = FIELD_DEFINITIONS.map(def => ({ field: def.field, score: scoreHeader(header, def) }));
+      const top = Math.max(...scored.map(s => s.score));
+      const fields = top > 0 ? scored.filter(s => s.score === top).map(s => s.field) : [];
+      return { column, fields };
+    })
+    .filter(a => a.fields.length > 1);
+
+export const fieldLabel = (field: MappableField): string =>
+  FIELD_DEFINITIONS.find(d => d.field === field)?.label || field;
+
+export const getMappingIssues = (headers: string[], mapping: ColumnMapping): MappingIssue[] => {
+  const issues: MappingIssue[] = [];
+
+  if (!mapping.includes("id") && !mapping.includes("steps")) {
+    issues.push({
+      severity: "error",
+      message: "Map at least one column to Test Case ID or Steps.",
+      columns: [],
+    });
+  }
+
+  FIELD_DEFINITIONS.forEach(def => {
+    const columns = mapping.flatMap((f, i) => (f === def.field ? [i] : []));
+    if (columns.length > 1) {
+      issues.push({
+        severity: "warning",
+        message: `${columns.map(c => `"${headers[c]}"`).join(", ")} all map to ${def.label}; their values will be combined.`,
+        columns,
+      });
+    }
+  });
+
+  ambiguousColumns(headers).forEach(({ column, fields }) => {
+    issues.push({
+      severity: "warning",
+      message: `"${headers[column]}" matches ${fields.map(fieldLabel).join(" and ")} equally; check its assignment.`,
+      columns: [column],
+    });
+  });
+
+  const unmapped = mapping.flatMap((f, i) => (f === null && headers[i]?.trim() ? [i] : []));
+  if (unmapped.length) {
+    issues.push({
+      severity: "warning",
+      message: `${unmapped.map(c => `"${headers[c]}"`).join(", ")} ${unmapped.length === 1 ? "is" : "are"} not mapped and will be ignored.`,
+      columns: unmapped,
+    });
+  }
+
+  return issues;
+};
+
+export const loadSavedMapping = (headers: string[]): ColumnMapping | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + headerSignature(headers));
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as ColumnMapping;
+    const known = new Set(FIELD_DEFINITIONS.map(d => d.field));
+    if (!Array.isArray(saved) || saved.length !== headers.length) return null;
+    return saved.map(f => (f && known.has(f) ? f : null));
+  } catch {
+    return null;
+  }
+};
+
+export const saveMapping = (headers: string[], mapping: ColumnMapping) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + headerSignature(headers), JSON.stringify(mapping));
+  } catch (error) {
+    console.error("Failed to save column mapping:", error);
+  }
+};
+
+// Saved mapping for this exact header set, else a fresh guess
+export const resolveMapping = (headers: string[]): ColumnMapping =>
+  loadSavedMapping(headers) || detectMapping(headers);
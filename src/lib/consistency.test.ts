@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { checkConsistency } from "./consistency";
+import { EMPTY_CODE } from "./generatedCode";
+
+const FEATURE = `Feature: Login
+
+  Scenario: Login with valid credentials
+    Given the user is on the login page
+    When the user signs in as "alice"
+    Then the dashboard is shown
+`;
+
+const STEPS = `import { Given, When, Then } from "@cucumber/cucumber";
+import { LoginPage } from "../pages/LoginPage";
+
+const loginPage = new LoginPage();
+
+Given("the user is on the login page", async () => {
+  await loginPage.open();
+});
+
+When("the user signs in as {string}", async (user: string) => {
+  await loginPage.signIn(user);
+});
+
+Then("the dashboard is shown", async () => {
+  await loginPage.expectDashboard();
+});
+`;
+
+const PAGE = `export class LoginPage {
+  async open() {}
+  async signIn(user: string) {}
+  async expectDashboard() {}
+}
+`;
+
+const check = (code: Partial<typeof EMPTY_CODE>, basePage?: string) =>
+  checkConsistency({ ...EMPTY_CODE, featureFile: FEATURE, testFile: STEPS, pageObject: PAGE, ...code }, basePage);
+
+describe("checkConsistency", () => {
+  it("reports nothing when the three files agree", () => {
+    expect(check({})).toEqual({ issues: [], steps: 3, definitions: 3, complete: true });
+  });
+
+  it("reports a step no definition matches", () => {
+    const { issues } = check({ featureFile: FEATURE.replace("the dashboard is shown", "an error is shown") });
+    expect(issues.map(i => [i.kind, i.file, i.line])).toEqual([
+      ["undefined-step", "featureFile", 6],
+      ["unused-step", "testFile", 14],
+    ]);
+    expect(issues[0].message).toBe('No step definition matches "an error is shown"');
+  });
+
+  it("reports a step more than one definition matches", () => {
+    const { issues } = check({ testFile: `${STEPS}
+Then(/^the dashboard is (shown|visible)$/, async () => {});
+` });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: "ambiguous-step", file: "featureFile", line: 6 });
+    expect(issues[0].message).toBe('"the dashboard is shown" matches 2 step definitions (lines 14, 18 of the step file)');
+  });
+
+  it("reports a definition no step uses", () => {
+    const { issues } = check({ testFile: `${STEPS}
+When("the user signs out", async () => {});
+` });
+    expect(issues).toEqual([{
+      kind: "unused-step",
+      file: "testFile",
+      line: 18,
+      message: 'Step definition "the user signs out" is not used by any step',
+    }]);
+  });
+
+  it("reports page object calls to methods the class doesn't have", () => {
+    const { issues } = check({ pageObject: PAGE.replace("  async expectDashboard() {}\n", "") });
+    expect(issues).toEqual([{
+      kind: "missing-method",
+      file: "testFile",
+      line: 15,
+      message: "loginPage.expectDashboard() is called, but LoginPage has no method expectDashboard",
+    }]);
+  });
+
+  it("finds methods the page object inherits from the base page", () => {
+    const pageObject = PAGE.replace("export class LoginPage {", "export class LoginPage extends BasePage {").replace("  async open() {}\n", "");
+    expect(check({ pageObject }, "export class BasePage {\n  async open() {}\n}\n").issues).toEqual([]);
+    // Without the base page, LoginPage may have any member
+    expect(check({ pageObject }).issues).toEqual([]);
+  });
+
+  it("reports a step pattern that isn't a valid Cucumber Expression", () => {
+    const { issues } = check({ testFile: STEPS.replace("{string}", "{unknown}") });
+    expect(issues.map(i => [i.kind, i.file, i.line])).toEqual([
+      ["undefined-step", "featureFile", 5],
+      ["invalid-pattern", "testFile", 10],
+    ]);
+    expect(issues[1].message).toMatch(/^Step pattern "the user signs in as \{unknown\}" is invalid: /);
+  });
+
+  it("marks the report incomplete when a file doesn't parse", () => {
+    const report = check({ pageObject: "export class LoginPage {" });
+    expect(report.complete).toBe(false);
+    expect(report.issues).toEqual([]);
+    expect(report.steps).toBe(3);
+    expect(check({ featureFile: "Scenario: no feature" }).complete).toBe(false);
+  });
+});
@@ -0,0 +1,307 @@
+import { parse } from "@babel/parser";
+import { AstBuilder, GherkinClassicTokenMatcher, Parser, compile } from "@cucumber/gherkin";
+import { IdGenerator } from "@cucumber/messages";
+import { Expression, ExpressionFactory, ParameterType, ParameterTypeRegistry } from "@cucumber/cucumber-expressions";
+import { FileKey, GeneratedCode } from "./generatedCode";
+
+// Static checks that a module's feature file, step definitions and page object
+// agree with each other: every step has exactly one definition, every
+// definition is used, and step bodies only call methods the page object has.
+
+export type ConsistencyIssueKind = "undefined-step" | "ambiguous-step" | "unused-step" | "missing-method" | "invalid-pattern";
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  // File and line (from 1) the issue is reported at
+  file: FileKey;
+  line: number;
+  message: string;
+}
+
+export interface ConsistencyReport {
+  issues: ConsistencyIssue[];
+  steps: number;
+  definitions: number;
+  // False when a file didn't parse, so the report only covers the files that did
+  complete: boolean;
+}
+
+// A Babel AST node, walked generically rather than through @babel/types
+interface AstNode {
+  type: string;
+  loc?: { start: { line: number } };
+  [key: string]: unknown;
+}
+
+interface StepDefinition {
+  pattern: string;
+  line: number;
+  expression: Expression | null;
+  body: AstNode | null;
+}
+
+interface FeatureStep {
+  text: string;
+  line: number;
+}
+
+const STEP_FUNCTIONS = new Set(["Given", "When", "Then", "And", "But", "Step", "defineStep"]);
+
+const isNode = (value: unknown): value is AstNode =>
+  !!value && typeof value === "object" && typeof (value as AstNode).type === "string";
+
+// Calls visit on node and every node below it
+const walk = (node: unknown, visit: (node: AstNode) => void) => {
+  if (Array.isArray(node)) {
+    node.forEach(child => walk(child, visit));
+    return;
+  }
+  if (!isNode(node)) return;
+  visit(node);
+  Object.entries(node).forEach(([key, value]) => {
+    if (key !== "loc" && value && typeof value === "object") walk(value, visit);
+  });
+};
+
+const parseProgram = (code: string): AstNode | null => {
+  try {
+    const ast = parse(code, { sourceType: "unambiguous", errorRecovery: true, plugins: ["typescript"] });
+    return ast.errors?.length ? null : (ast as unknown as AstNode);
+  } catch {
+    return null;
+  }
+};
+
+const lineOf = (node: AstNode) => node.loc?.start.line ?? 1;
+
+const propertyName = (node: unknown): string | null => {
+  if (!isNode(node)) return null;
+  if (node.type === "Identifier" || node.type === "PrivateName") return String(node.name);
+  if (node.type === "StringLiteral") return String(node.value);
+  return null;
+};
+
+// The text of a string or an interpolation-free template literal
+const staticString = (node: unknown): string | null => {
+  if (!isNode(node)) return null;
+  if (node.type === "StringLiteral") return String(node.value);
+  const quasis = node.quasis as AstNode[] | undefined;
+  if (node.type === "TemplateLiteral" && quasis?.length === 1) {
+    return String((quasis[0].value as { cooked?: string }).cooked ?? "");
+  }
+  return null;
+};
+
+const regExpOf = (node: unknown): RegExp | null => {
+  if (!isNode(node) || node.type !== "RegExpLiteral") return null;
+  try {
+    return new RegExp(String(node.pattern), String(node.flags || ""));
+  } catch {
+    return null;
+  }
+};
+
+// "this.loginPage" or "loginPage": how step bodies refer to a page object instance
+const receiverName = (node: unknown): string | null => {
+  if (!isNode(node)) return null;
+  if (node.type === "Identifier") return String(node.name);
+  if (node.type === "MemberExpression" && isNode(node.object) && node.object.type === "ThisExpression" && !node.computed) {
+    const name = propertyName(node.property);
+    return name && `this.${name}`;
+  }
+  return null;
+};
+
+// Each step of the feature as Cucumber runs it: Scenario Outlines expanded per
+// Examples row, Background steps once, at the line of the step in the file
+const featureSteps = (feature: string): FeatureStep[] | null => {
+  const newId = IdGenerator.incrementing();
+  try {
+    const document = new Parser(new AstBuilder(newId), new GherkinClassicTokenMatcher()).parse(feature);
+    const lines = new Map<string, number>();
+    const collect = (value: unknown) => {
+      if (Array.isArray(value)) value.forEach(collect);
+      else if (value && typeof value === "object") {
+        const node = value as { id?: string; keyword?: string; text?: string; location?: { line: number } };
+        if (node.id && node.keyword !== undefined && node.text !== undefined && node.location) lines.set(node.id, node.location.line);
+        Object.values(value).forEach(collect);
+      }
+    };
+    collect(document.feature);
+
+    const seen = new Set<string>();
+    return compile(document, "feature", newId).flatMap(pickle => pickle.steps.flatMap(step => {
+      const line = lines.get(step.astNodeIds[0]) ?? 1;
+      const key = `${line}\n${step.text}`;
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [{ text: step.text, line }];
+    }));
+  } catch {
+    return null;
+  }
+};
+
+// Parameter types the step file defines with defineParameterType({ name, regexp })
+const parameterRegistry = (program: AstNode): ParameterTypeRegistry => {
+  const registry = new ParameterTypeRegistry();
+  walk(program, node => {
+    if (node.type !== "CallExpression" || propertyName(node.callee) !== "defineParameterType") return;
+    const options = (node.arguments as unknown[])[0];
+    if (!isNode(options) || options.type !== "ObjectExpression") return;
+    const props = new Map((options.properties as AstNode[]).map(p => [propertyName(p.key), p.value]));
+    const name = staticString(props.get("name"));
+    const regexp = regExpOf(props.get("regexp")) ?? staticString(props.get("regexp"));
+    if (!name || !regexp) return;
+    try {
+      registry.defineParameterType(new ParameterType(name, regexp, null, (s: string) => s, true, false));
+    } catch {
+      // A duplicate or invalid definition; the step patterns using it are reported instead
+    }
+  });
+  return registry;
+};
+
+// The reason line of a Cucumber Expression error, which first repeats the
+// expression with a caret under the problem
+const patternError = (error: Error) => {
+  const lines = error.message.split("\n");
+  const caret = lines.findIndex(line => /^\s*\^/.test(line));
+  return (caret >= 0 && lines[caret + 1]) || lines[0];
+};
+
+const stepDefinitions = (program: AstNode, issues: ConsistencyIssue[]): StepDefinition[] => {
+  const factory = new ExpressionFactory(parameterRegistry(program));
+  const definitions: StepDefinition[] = [];
+  walk(program, node => {
+    if (node.type !== "CallExpression" || !isNode(node.callee) || node.callee.type !== "Identifier") return;
+    if (!STEP_FUNCTIONS.has(String(node.callee.name))) return;
+    const args = node.arguments as AstNode[];
+    const source = regExpOf(args[0]) ?? staticString(args[0]);
+    if (source === null) return;
+    const pattern = source instanceof RegExp ? String(source) : source;
+    const body = [...args].reverse().find(arg => arg.type === "FunctionExpression" || arg.type === "ArrowFunctionExpression") ?? null;
+    let expression: Expression | null = null;
+    try {
+      expression = factory.createExpression(source);
+    } catch (error) {
+      issues.push({
+        kind: "invalid-pattern",
+        file: "testFile",
+        line: lineOf(node),
+        message: `Step pattern "${pattern}" is invalid: ${patternError(error as Error)}`,
+      });
+    }
+    definitions.push({ pattern, line: lineOf(node), expression, body });
+  });
+  return definitions;
+};
+
+// Members of each class in a file: methods, fields and this.x assignments
+const classMembers = (program: AstNode): Map<string, { members: Set<string>; superClass: string | null }> => {
+  const classes = new Map<string, { members: Set<string>; superClass: string | null }>();
+  walk(program, node => {
+    if (node.type !== "ClassDeclaration" && node.type !== "ClassExpression") return;
+    const name = propertyName(node.id);
+    if (!name) return;
+    const members = new Set<string>();
+    walk(node.body, member => {
+      if (/^Class(Private)?(Method|Property)$/.test(member.type) || member.type === "ClassAccessorProperty") {
+        const key = propertyName(member.key);
+        if (key) members.add(key);
+      }
+      if (member.type === "AssignmentExpression" && isNode(member.left) && member.left.type === "MemberExpression"
+        && isNode(member.left.object) && member.left.object.type === "ThisExpression") {
+        const key = propertyName(member.left.property);
+        if (key) members.add(key);
+      }
+    });
+    classes.set(name, { members, superClass: isNode(node.superClass) ? propertyName(node.superClass) : null });
+  });
+  return classes;
+};
+
+// What each variable or this.x the step file creates with new PageClass(...) holds
+const pageInstances = (program: AstNode, classes: Set<string>): Map<string, string> => {
+  const instances = new Map<string, string>();
+  const record = (target: unknown, value: unknown) => {
+    const name = receiverName(target);
+    if (!name || !isNode(value) || value.type !== "NewExpression") return;
+    const className = propertyName(value.callee);
+    if (className && classes.has(className)) instances.set(name, className);
+  };
+  walk(program, node => {
+    if (node.type === "VariableDeclarator") record(node.id, node.init);
+    if (node.type === "AssignmentExpression") record(node.left, node.right);
+  });
+  return instances;
+};
+
+const preview = (text: string) => (text.length > 80 ? `${text.slice(0, 77)}...` : text);
+
+// Checks one module's files; basePage is the shared base page its page object may extend
+export const checkConsistency = (code: GeneratedCode, basePage = ""): ConsistencyReport => {
+  const issues: ConsistencyIssue[] = [];
+  const steps = featureSteps(code.featureFile);
+  const stepProgram = parseProgram(code.testFile);
+  const pageProgram = parseProgram(code.pageObject);
+  const baseProgram = basePage ? parseProgram(basePage) : null;
+  const definitions = stepProgram ? stepDefinitions(stepProgram, issues) : [];
+
+  // Steps against definitions, matched on text alone as Cucumber does
+  if (steps && stepProgram) {
+    const used = new Set<StepDefinition>();
+    steps.forEach(step => {
+      const matches = definitions.filter(d => d.expression?.match(step.text));
+      matches.forEach(d => used.add(d));
+      if (!matches.length) {
+        issues.push({ kind: "undefined-step", file: "featureFile", line: step.line, message: `No step definition matches "${preview(step.text)}"` });
+      } else if (matches.length > 1) {
+        issues.push({
+          kind: "ambiguous-step",
+          file: "featureFile",
+          line: step.line,
+          message: `"${preview(step.text)}" matches ${matches.length} step definitions (lines ${matches.map(d => d.line).join(", ")} of the step file)`,
+        });
+      }
+    });
+    definitions.filter(d => d.expression && !used.has(d)).forEach(d => {
+      issues.push({ kind: "unused-step", file: "testFile", line: d.line, message: `Step definition "${preview(d.pattern)}" is not used by any step` });
+    });
+  }
+
+  // Page object calls in step bodies against the members of the class they were made on
+  if (stepProgram && pageProgram) {
+    const classes = classMembers(pageProgram);
+    const baseClasses = baseProgram ? classMembers(baseProgram) : new Map();
+    const membersOf = (name: string, seen = new Set<string>()): Set<string> | null => {
+      const info = classes.get(name) ?? baseClasses.get(name);
+      if (!info || seen.has(name)) return null;
+      seen.add(name);
+      const inherited = info.superClass ? membersOf(info.superClass, seen) : new Set<string>();
+      // A class extending something we can't see may have any member
+      return inherited ? new Set([...info.members, ...inherited]) : null;
+    };
+    const instances = pageInstances(stepProgram, new Set(classes.keys()));
+    const reported = new Set<string>();
+    definitions.forEach(d => walk(d.body, node => {
+      if (node.type !== "CallExpression" || !isNode(node.callee) || node.callee.type !== "MemberExpression" || node.callee.computed) return;
+      const receiver = receiverName(node.callee.object);
+      const method = propertyName(node.callee.property);
+      const className = receiver && instances.get(receiver);
+      if (!className || !method) return;
+      const members = membersOf(className);
+      const key = `${lineOf(node)}:${receiver}.${method}`;
+      if (!members || members.has(method) || reported.has(key)) return;
+      reported.add(key);
+      issues.push({ kind: "missing-method", file: "testFile", line: lineOf(node), message: `${receiver}.${method}() is called, but ${className} has no method ${method}` });
+    }));
+  }
+
+  return {
+    issues: issues.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line),
+    steps: steps?.length ?? 0,
+    definitions: definitions.length,
+    complete: !!steps && !!stepProgram && !!pageProgram,
+  };
+};
@@ -0,0 +1,116 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Request headers for a generate-* edge function, authenticated as the
+// signed-in user (the functions reject the bare publishable key)
+export const functionHeaders = async (): Promise<Record<string, string>> => {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Your session has expired. Please sign in again.");
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+    'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  };
+};
+
+export interface AiModel {
+  id: string;
+  label: string;
+}
+
+// The configured AI provider and the models it offers; the first is its default
+export interface AiModels {
+  provider: string;
+  models: AiModel[];
+}
+
+export const fetchAiModels = async (): Promise<AiModels> => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-models`, {
+    headers: await functionHeaders(),
+  });
+  if (!response.ok) throw await responseError(response);
+  return response.json();
+};
+
+// Quota details returned with a 429 when a usage quota is used up
+export interface QuotaDetails {
+  scope: "user" | "workspace";
+  limit: "requests_per_day" | "tokens_per_month";
+  used: number;
+  allowed: number;
+  resets_at: string;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string, public quota: QuotaDetails) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+// Error for a non-OK generate-* response, keeping the function's own message
+export const responseError = async (response: Response): Promise<Error> => {
+  const errorData = await response.json().catch(() => ({}));
+  if (errorData.code === "quota_exceeded" && errorData.quota) {
+    return new QuotaExceededError(errorData.error, errorData.quota);
+  }
+  return new Error(errorData.error || `Request failed with status ${response.status}`);
+};
+
+export interface GenerationProgress {
+  // Characters of the answer received so far
+  received: number;
+  // Response field of the section being written, null between sections
+  section: string | null;
+}
+
+export interface GenerationStreamHandlers {
+  onProgress?: (progress: GenerationProgress) => void;
+  // A section of the answer (e.g. "pageObject"), sent as soon as it is complete
+  onSection?: (key: string, content: string) => void;
+}
+
+// Calls a generate-* function as a server-sent event stream and resolves with the
+// same body a plain request returns. Aborting the signal closes the stream, which
+// also aborts the function's request to the AI provider.
+export const streamGeneration = async <T>(
+  functionName: string,
+  body: Record<string, unknown>,
+  handlers: GenerationStreamHandlers,
+  signal?: AbortSignal,
+): Promise<T> => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`, {
+    method: 'POST',
+    headers: await functionHeaders(),
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+  if (!response.ok) throw await responseError(response);
+  if (!response.body) throw new Error("The generation stream could not be opened.");
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+      const payload = JSON.parse(data);
+      if (event === 'progress') handlers.onProgress?.(payload);
+      else if (event === 'section') handlers.onSection?.(payload.key, payload.content);
+      else if (event === 'error') throw new Error(payload.error);
+      else if (event === 'done') return payload;
+    }
+  }
+  throw new Error("The generation stream ended before the code was complete.");
+};
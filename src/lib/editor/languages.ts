@@ -0,0 +1,55 @@
+import { Extension } from "@codemirror/state";
+import { StreamLanguage, foldService } from "@codemirror/language";
+import { javascript } from "@codemirror/lang-javascript";
+import { python } from "@codemirror/lang-python";
+import { java } from "@codemirror/lang-java";
+import { json } from "@codemirror/lang-json";
+import { gherkin } from "@codemirror/legacy-modes/mode/gherkin";
+import { csharp } from "@codemirror/legacy-modes/mode/clike";
+import { SyntaxLanguage } from "../validation/syntax";
+import { robot } from "./robot";
+
+// Languages the editor highlights: those the syntax checks know, plus JSON test data
+export type EditorLanguage = SyntaxLanguage | "json";
+
+const ROBOT_HEADER = /^\*+\s*[^*]/;
+
+const indentOf = (text: string) => text.match(/^[ \t]*/)![0].replace(/\t/g, "    ").length;
+
+// Folding for the stream-parsed languages: a line folds over the more indented
+// lines below it, and a Robot section header over its whole section
+const indentFolding = foldService.of((state, lineStart) => {
+  const line = state.doc.lineAt(lineStart);
+  if (!line.text.trim()) return null;
+  const header = ROBOT_HEADER.test(line.text);
+  const indent = indentOf(line.text);
+  let end = line.to;
+  for (let n = line.number + 1; n <= state.doc.lines; n++) {
+    const next = state.doc.line(n);
+    if (!next.text.trim()) continue;
+    if (header ? ROBOT_HEADER.test(next.text) : indentOf(next.text) <= indent) break;
+    end = next.to;
+  }
+  return end > line.to ? { from: line.to, to: end } : null;
+});
+
+export const languageExtension = (language: EditorLanguage): Extension => {
+  switch (language) {
+    case "javascript":
+      return javascript();
+    case "typescript":
+      return javascript({ typescript: true });
+    case "python":
+      return python();
+    case "json":
+      return json();
+    case "java":
+      return java();
+    case "csharp":
+      return [StreamLanguage.define(csharp), indentFolding];
+    case "gherkin":
+      return [StreamLanguage.define(gherkin), indentFolding];
+    case "robot":
+      return [StreamLanguage.define(robot), indentFolding];
+  }
+};
@@ -0,0 +1,97 @@
+import { StreamParser, StringStream } from "@codemirror/language";
+
+// Highlighting for Robot Framework files (.robot and .resource): section
+// headers, test and keyword names, settings, variables, control structures
+// and the keyword each step calls
+
+interface RobotState {
+  section: string | null;
+  // The next token starts a cell (a line start, or after two spaces or a tab)
+  cellStart: boolean;
+  // The step on this line already named its keyword; later cells are arguments
+  called: boolean;
+}
+
+const CONTROL = new Set([
+  "FOR", "IN", "IN RANGE", "IN ENUMERATE", "IN ZIP", "END", "IF", "ELSE", "ELSE IF", "WHILE",
+  "TRY", "EXCEPT", "FINALLY", "BREAK", "CONTINUE", "RETURN", "VAR", "AND",
+]);
+
+const VARIABLE = /^[$@&%]\{(?:[^{}]|\{[^{}]*\})*\}(?:\[[^\]]*\])*/;
+
+// The rest of the current cell, which ends at two spaces, a tab or the line end
+const CELL = /^(?:[^\s]| (?![ \t]))+/;
+
+export const robot: StreamParser<RobotState> = {
+  name: "robot",
+  startState: () => ({ section: null, cellStart: true, called: false }),
+
+  token(stream: StringStream, state: RobotState) {
+    if (stream.sol()) {
+      state.cellStart = true;
+      state.called = false;
+      const header = stream.match(/^\*+\s*([^*]+?)\s*\**\s*$/) as RegExpMatchArray | null;
+      if (header) {
+        state.section = header[1].toLowerCase().replace(/s$/, "");
+        return "header";
+      }
+    }
+    if (stream.eatSpace()) {
+      if (/ {2}|\t/.test(stream.current())) state.cellStart = true;
+      return null;
+    }
+    const cellStart = state.cellStart;
+    state.cellStart = false;
+
+    if (cellStart && stream.match(/^#.*/)) return "comment";
+    if (state.section === "comment") {
+      stream.skipToEnd();
+      return "comment";
+    }
+    if (stream.match(VARIABLE)) {
+      stream.match(/^ ?=/);
+      return "variable-2";
+    }
+    if (!cellStart) {
+      // Inside a cell: stop before the next variable so it is highlighted on its own
+      if (!stream.match(/^(?:[^\s$@&%]| (?![ \t])|[$@&%](?!\{))+/)) stream.next();
+      return state.called ? "string" : null;
+    }
+
+    if (stream.sol()) {
+      // Test and keyword names, setting names and variable names start their line
+      stream.match(CELL);
+      if (state.section === "test case" || state.section === "task" || state.section === "keyword") return "def";
+      return state.section === "setting" ? "meta" : null;
+    }
+    if (stream.match(/^\[[^\]]+\]/)) {
+      // A test or keyword setting such as [Tags]; its values are not keyword calls
+      state.called = true;
+      return "meta";
+    }
+    if (stream.match(/^\.\.\.(?![^\s])/)) return "meta";
+    if (stream.match(/^-?\d+(?:\.\d+)?(?![^\s])/)) return "number";
+    const cell = stream.match(CELL, false) as RegExpMatchArray | null;
+    if (cell && CONTROL.has(cell[0])) {
+      stream.match(CELL);
+      return "keyword";
+    }
+    if (!state.called && (state.section === "test case" || state.section === "task" || state.section === "keyword")) {
+      state.called = true;
+      stream.match(CELL);
+      return "builtin";
+    }
+    if (state.section === "setting" && !state.called) {
+      // The library, resource or keyword a setting names
+      state.called = true;
+      stream.match(CELL);
+      return "string";
+    }
+    if (!stream.match(/^(?:[^\s$@&%]| (?![ \t])|[$@&%](?!\{))+/)) stream.next();
+    return "string";
+  },
+
+  languageData: {
+    commentTokens: { line: "#" },
+  },
+};
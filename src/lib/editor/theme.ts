@@ -0,0 +1,54 @@
+import { EditorView } from "@codemirror/view";
+import { HighlightStyle, syntaxHighlighting } from "@codemirror/language";
+import { tags } from "@lezer/highlight";
+
+// The editor in the app's slate palette; plain text keeps the color of the
+// element around it, which CodeOutput sets per framework
+const slateEditorTheme = EditorView.theme({
+  "&": {
+    backgroundColor: "transparent",
+    color: "inherit",
+    fontSize: "0.875rem",
+    maxHeight: "600px",
+  },
+  ".cm-scroller": {
+    fontFamily: "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace",
+    lineHeight: "1.5rem",
+    overflow: "auto",
+  },
+  ".cm-content": { minHeight: "300px", caretColor: "#e2e8f0" },
+  ".cm-gutters": { backgroundColor: "#0f172a", color: "#475569", borderRight: "1px solid #334155" },
+  ".cm-activeLine": { backgroundColor: "rgba(51, 65, 85, 0.25)" },
+  ".cm-activeLineGutter": { backgroundColor: "rgba(51, 65, 85, 0.5)", color: "#cbd5e1" },
+  "&.cm-focused": { outline: "none" },
+  "&.cm-focused .cm-cursor": { borderLeftColor: "#e2e8f0" },
+  "&.cm-focused .cm-selectionBackground, .cm-selectionBackground, ::selection": { backgroundColor: "rgba(59, 130, 246, 0.35)" },
+  ".cm-selectionMatch": { backgroundColor: "rgba(59, 130, 246, 0.2)" },
+  ".cm-matchingBracket": { backgroundColor: "rgba(148, 163, 184, 0.25)", outline: "none" },
+  ".cm-foldPlaceholder": { backgroundColor: "#334155", border: "none", color: "#cbd5e1" },
+  ".cm-placeholder": { color: "#64748b" },
+  ".cm-searchMatch": { backgroundColor: "rgba(234, 179, 8, 0.3)" },
+  ".cm-searchMatch-selected": { backgroundColor: "rgba(234, 179, 8, 0.55)" },
+  ".cm-panels": { backgroundColor: "#1e293b", color: "#e2e8f0" },
+  ".cm-panels.cm-panels-top": { borderBottom: "1px solid #334155" },
+  ".cm-panel input, .cm-panel button": { color: "#e2e8f0" },
+  ".cm-textfield": { backgroundColor: "#0f172a", border: "1px solid #475569", borderRadius: "4px" },
+  ".cm-button": { backgroundImage: "none", backgroundColor: "#334155", border: "1px solid #475569", borderRadius: "4px" },
+  ".cm-tooltip": { backgroundColor: "#1e293b", border: "1px solid #334155", color: "#e2e8f0" },
+}, { dark: true });
+
+const slateHighlightStyle = HighlightStyle.define([
+  { tag: [tags.keyword, tags.controlKeyword, tags.moduleKeyword, tags.operatorKeyword], color: "#c084fc" },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], color: "#86efac" },
+  { tag: [tags.comment, tags.lineComment, tags.blockComment], color: "#64748b", fontStyle: "italic" },
+  { tag: [tags.number, tags.bool, tags.null, tags.atom], color: "#fdba74" },
+  { tag: tags.special(tags.variableName), color: "#93c5fd" },
+  { tag: [tags.function(tags.variableName), tags.function(tags.propertyName), tags.standard(tags.variableName)], color: "#67e8f9" },
+  { tag: [tags.definition(tags.variableName), tags.className, tags.typeName], color: "#fde68a" },
+  { tag: [tags.propertyName], color: "#bae6fd" },
+  { tag: [tags.heading, tags.meta, tags.annotation], color: "#f9a8d4", fontWeight: "600" },
+  { tag: tags.tagName, color: "#f9a8d4" },
+  { tag: tags.invalid, color: "#f87171" },
+]);
+
+export const slateEditor = [slateEditorTheme, syntaxHighlighting(slateHighlightStyle)];
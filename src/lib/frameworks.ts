@@ -0,0 +1,9 @@
+// Display names of the automation frameworks code is generated for
+export const FRAMEWORK_LABELS: Record<string, string> = {
+  playwright: "Playwright",
+  selenium: "Selenium",
+  cypress: "Cypress",
+  webdriverio: "WebdriverIO",
+  testcafe: "TestCafe",
+  robot: "Robot Framework",
+};
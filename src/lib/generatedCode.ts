@@ -0,0 +1,95 @@
+import { TargetLanguage, isTargetLanguage } from "./targetLanguage";
+import { TestRunner, isTestRunner } from "./testRunner";
+import { ApiClient, isApiClient } from "./apiTests";
+
+// Files of a classic framework generation, one per output tab. Robot,
+// Playwright Test specs and API tests leave featureFile empty; the JavaScript
+// frameworks leave dataFile empty. API tests keep their request builders under
+// pageObject and their response schemas under dataFile.
+export interface GeneratedCode {
+  featureFile: string;
+  pageObject: string;
+  testFile: string;
+  dataFile: string;
+}
+
+export type FileKey = keyof GeneratedCode;
+
+export const EMPTY_CODE: GeneratedCode = { featureFile: '', pageObject: '', testFile: '', dataFile: '' };
+
+// Strips markdown fences the model put around a file despite the prompt
+export const cleanCode = (code: string) => code
+  .replace(/```(?:javascript|typescript|json|js|ts|gherkin|robot|python|py|java|csharp|cs)?\n?/g, '')
+  .replace(/\n?```$/g, '')
+  .trim();
+
+// One module's files in a multi-module project
+export interface ModuleFiles<T> {
+  module: string;
+  code: T;
+}
+
+// A classic framework project: each module's files plus the base page they share ("" when none)
+export interface ProjectCode {
+  modules: ModuleFiles<GeneratedCode>[];
+  basePage: string;
+  // Language the files are written in and the runner they are written for,
+  // which decide their names and layout
+  language: TargetLanguage;
+  runner: TestRunner;
+  // API tests only: the client library they are written with
+  apiClient?: ApiClient;
+}
+
+// What decides a project's file names, layout and scaffolding
+export type ProjectLayout = Pick<ProjectCode, "language" | "runner" | "apiClient">;
+
+// Projects are stored flat: each module's files under "<Module>/<file>" keys,
+// the base page under basePage, a language other than JavaScript under language,
+// a runner other than Cucumber under runner and an API test client under apiClient
+export const flattenModules = <T extends object>(modules: ModuleFiles<T>[]): Record<string, string> =>
+  Object.fromEntries(modules.flatMap(({ module, code }) =>
+    Object.entries(code).map(([key, value]) => [`${module}/${key}`, String(value)])
+  ));
+
+// Reads modules back from flat output; output from before modules were
+// generated separately holds one module's files under plain keys
+export const unflattenModules = <T extends object>(output: Record<string, unknown>, empty: T, fallbackModule: string): ModuleFiles<T>[] => {
+  const modules = new Map<string, T>();
+  for (const [key, value] of Object.entries(output)) {
+    const slash = key.indexOf("/");
+    if (slash === -1 || typeof value !== "string") continue;
+    const module = key.slice(0, slash);
+    modules.set(module, { ...(modules.get(module) || empty), [key.slice(slash + 1)]: value });
+  }
+  if (modules.size) return [...modules].map(([module, code]) => ({ module, code }));
+
+  const keys = Object.keys(empty).filter(key => typeof output[key] === "string");
+  if (!keys.some(key => output[key])) return [];
+  return [{ module: fallbackModule, code: { ...empty, ...Object.fromEntries(keys.map(key => [key, output[key]])) } }];
+};
+
+export const serializeProject = (project: ProjectCode): string =>
+  JSON.stringify({
+    ...flattenModules(project.modules),
+    ...(project.basePage ? { basePage: project.basePage } : {}),
+    ...(project.language !== "javascript" ? { language: project.language } : {}),
+    ...(project.runner !== "cucumber" ? { runner: project.runner } : {}),
+    ...(project.apiClient ? { apiClient: project.apiClient } : {}),
+  });
+
+export const parseProject = (code: string, fallbackModule: string): ProjectCode | null => {
+  try {
+    const parsed = JSON.parse(code);
+    if (!parsed || typeof parsed !== "object") return null;
+    return {
+      modules: unflattenModules(parsed, EMPTY_CODE, fallbackModule),
+      basePage: typeof parsed.basePage === "string" ? parsed.basePage : "",
+      language: isTargetLanguage(parsed.language) ? parsed.language : "javascript",
+      runner: isTestRunner(parsed.runner) ? parsed.runner : "cucumber",
+      ...(isApiClient(parsed.apiClient) ? { apiClient: parsed.apiClient } : {}),
+    };
+  } catch {
+    return null;
+  }
+};
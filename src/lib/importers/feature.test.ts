@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { readFeatureFiles } from "./feature";
+
+const featureFile = (text: string) => new File([text], "login.feature");
+
+describe("readFeatureFiles", () => {
+  it("keeps a multi-segment ID tag as the test case ID", async () => {
+    const { testCases } = await readFeatureFiles([featureFile(`Feature: Login
+
+  @TC_LOGIN_001 @smoke
+  Scenario: Login with valid credentials
+    Given the user is on the login page
+    When the user signs in
+    Then the dashboard is shown
+`)]);
+    expect(testCases).toHaveLength(1);
+    expect(testCases[0].id).toBe("TC_LOGIN_001");
+    expect(testCases[0].tags).toEqual(["smoke"]);
+  });
+
+  it("numbers scenarios without an ID tag", async () => {
+    const { testCases } = await readFeatureFiles([featureFile(`Feature: Login
+
+  @smoke
+  Scenario: Logout
+    Given the user is signed in
+    When the user signs out
+`)]);
+    expect(testCases[0].id).toBe("SC001");
+  });
+
+  it("doesn't take a digit-suffixed tag before the ID tag as the ID", async () => {
+    const { testCases } = await readFeatureFiles([featureFile(`Feature: Login
+
+  @regression2 @sprint14 @TC_LOGIN_001
+  Scenario: Login with valid credentials
+    Given the user is on the login page
+
+  @regression2 @TC002
+  Scenario: Logout
+    Given the user is signed in
+`)]);
+    expect(testCases.map(tc => tc.id)).toEqual(["TC_LOGIN_001", "TC002"]);
+    expect(testCases[0].tags).toEqual(["regression2", "sprint14"]);
+    expect(testCases[1].tags).toEqual(["regression2"]);
+  });
+});
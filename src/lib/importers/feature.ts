@@ -0,0 +1,316 @@
+import { TestCase, TestCaseData, TestStep, toModuleName, withLookups } from "../testCaseData";
+import { formatCell } from "../cellGrammar";
+import { buildStepList, stepListText } from "../testSteps";
+
+// Only the English Gherkin dialect is recognised
+const FEATURE = /^Feature:\s*(.*)$/;
+const RULE = /^Rule:\s*(.*)$/;
+const BACKGROUND = /^Background:\s*(.*)$/;
+const SCENARIO = /^(Scenario Outline|Scenario Template|Scenario|Example):\s*(.*)$/;
+const EXAMPLES = /^(Examples|Scenarios):\s*(.*)$/;
+const STEP = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+// Test case IDs: "TC001", "C-12", "TC_LOGIN_001", "PROJ-T12"
+const ID_TAG = /^[A-Za-z][A-Za-z0-9]*(?:[-_][A-Za-z0-9]+)*[-_]?\d+$/;
+
+interface ParsedStep {
+  keyword: string;
+  text: string;
+  // Doc string or data table lines following the step, verbatim
+  argument: string[];
+}
+
+interface ParsedExamples {
+  heading: string[];
+  header: string[];
+  rows: { line: string; cells: string[] }[];
+}
+
+interface ParsedScenario {
+  tags: string[];
+  name: string;
+  rule?: string;
+  source: string[];
+  steps: ParsedStep[];
+  examples: ParsedExamples[];
+}
+
+interface ParsedFeature {
+  tags: string[];
+  name: string;
+  header: string[];
+  background: { source: string[]; steps: ParsedStep[] } | null;
+  scenarios: ParsedScenario[];
+}
+
+export const isFeatureFile = (file: File): boolean => file.name.toLowerCase().endsWith(".feature");
+
+const tagsOf = (line: string): string[] =>
+  line.replace(/\s#.*$/, "").split(/\s+/).filter(t => t.startsWith("@")).map(t => t.slice(1));
+
+// "| a | b\|c |" → ["a", "b|c"]
+const tableCells = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+const trimBlank = (lines: string[]): string[] => {
+  const result = [...lines];
+  while (result.length && !result[result.length - 1].trim()) result.pop();
+  return result;
+};
+
+const parseFeature = (text: string): ParsedFeature | null => {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let feature: ParsedFeature | null = null;
+  let rule: string | undefined;
+  // Tag and comment lines waiting for the element they belong to
+  let pending: string[] = [];
+  let pendingTags: string[] = [];
+  let steps: ParsedStep[] | null = null;
+  let block: string[] | null = null;
+  let scenario: ParsedScenario | null = null;
+  let examples: ParsedExamples | null = null;
+  let docString: string | null = null;
+
+  const claim = (): { source: string[]; tags: string[] } => {
+    const claimed = { source: [...pending], tags: pendingTags };
+    pending = [];
+    pendingTags = [];
+    return claimed;
+  };
+
+  lines.forEach(line => {
+    const trimmed = line.trim();
+
+    if (docString) {
+      steps?.[steps.length - 1]?.argument.push(line);
+      block?.push(line);
+      if (trimmed.startsWith(docString)) docString = null;
+      return;
+    }
+    if (trimmed.startsWith('"""') || trimmed.startsWith("```")) {
+      docString = trimmed.slice(0, 3);
+      steps?.[steps.length - 1]?.argument.push(line);
+      block?.push(line);
+      return;
+    }
+    if (trimmed.startsWith("@") || trimmed.startsWith("#")) {
+      if (trimmed.startsWith("@")) pendingTags.push(...tagsOf(trimmed));
+      pending.push(line);
+      return;
+    }
+
+    const match = (pattern: RegExp) => trimmed.match(pattern);
+    let m: RegExpMatchArray | null;
+
+    if ((m = match(FEATURE))) {
+      const { source, tags } = claim();
+      feature = { tags, name: m[1].trim(), header: [...source, line], background: null, scenarios: [] };
+      block = feature.header;
+      steps = null;
+    } else if (!feature) {
+      return;
+    } else if ((m = match(RULE))) {
+      claim();
+      rule = line;
+      block = null;
+      steps = null;
+    } else if ((m = match(BACKGROUND))) {
+      const { source } = claim();
+      feature.background = { source: [...source, line], steps: [] };
+      block = feature.background.source;
+      steps = feature.background.steps;
+    } else if ((m = match(SCENARIO))) {
+      const { source, tags } = claim();
+      scenario = { tags, name: m[2].trim(), rule, source: [...source, line], steps: [], examples: [] };
+      feature.scenarios.push(scenario);
+      block = scenario.source;
+      steps = scenario.steps;
+      examples = null;
+    } else if ((m = match(EXAMPLES)) && scenario) {
+      const { source } = claim();
+      examples = { heading: [...source, line], header: [], rows: [] };
+      scenario.examples.push(examples);
+      block = null;
+      steps = null;
+    } else if (trimmed.startsWith("|") && examples) {
+      if (!examples.header.length) {
+        examples.header = tableCells(trimmed);
+        examples.heading.push(line);
+      } else {
+        examples.rows.push({ line, cells: tableCells(trimmed) });
+      }
+    } else if ((m = match(STEP)) && steps) {
+      block?.push(...pending, line);
+      pending = [];
+      steps.push({ keyword: m[1], text: m[2].trim(), argument: [] });
+    } else if (trimmed.startsWith("|") && steps?.length) {
+      steps[steps.length - 1].argument.push(line);
+      block?.push(line);
+    } else {
+      // Descriptions, blank lines and comments stay with the current block
+      block?.push(...pending, line);
+      pending = [];
+    }
+  });
+
+  return feature;
+};
+
+const substitute = (text: string, values: Record<string, string>): string =>
+  text.replace(/<([^<>]+)>/g, (whole, name) => (name in values ? values[name] : whole));
+
+// Given/When steps become actions; Then steps (and their And/But) the expected
+// result of the action before them
+const toStepList = (steps: ParsedStep[], values: Record<string, string>): TestStep[] => {
+  const list: TestStep[] = [];
+  let kind = "Given";
+  steps.forEach(step => {
+    if (step.keyword !== "And" && step.keyword !== "But" && step.keyword !== "*") kind = step.keyword;
+    const text = substitute([`${step.keyword} ${step.text}`, ...step.argument.map(l => l.trim())].join("\n"), values);
+    const last = list[list.length - 1];
+    if (kind === "Then" && last) {
+      last.expected = last.expected ? `${last.expected}\n${text}` : text;
+    } else {
+      list.push({ action: text });
+    }
+  });
+  return list;
+};
+
+// The ID among a scenario's tags. Tags like "@regression2" or "@sprint14" end in
+// digits too, so one with a "-" or "_" wins, and otherwise the last one
+const findIdTag = (tags: string[]): string | undefined => {
+  const candidates = tags.filter(t => ID_TAG.test(t));
+  return candidates.find(t => /[-_]/.test(t)) ?? candidates[candidates.length - 1];
+};
+
+const fromScenario = (feature: ParsedFeature, scenario: ParsedScenario, index: number): TestCase[] => {
+  const idTag = findIdTag(scenario.tags);
+  const id = idTag || `SC${String(index + 1).padStart(3, "0")}`;
+  const tags = [...feature.tags, ...scenario.tags].filter(t => t !== idTag);
+  const background = feature.background;
+  const gherkin = {
+    feature: trimBlank(feature.header).join("\n"),
+    ...(background ? { background: trimBlank(background.source).join("\n") } : {}),
+    ...(scenario.rule ? { rule: scenario.rule } : {}),
+    scenario: trimBlank(scenario.source).join("\n"),
+  };
+
+  const build = (caseId: string, values: Record<string, string>, testData: string): TestCase => {
+    const stepList = toStepList(scenario.steps, values);
+    const tc: TestCase = {
+      id: caseId,
+      description: substitute(scenario.name, values),
+      ...stepListText(stepList),
+      locator: "",
+      testData,
+      module: toModuleName(feature.name) || undefined,
+      gherkin,
+    };
+    if (background?.steps.length) {
+      tc.preconditions = background.steps.map(s => `${s.keyword} ${s.text}`).join("\n");
+    }
+    if (tags.length) tc.tags = tags;
+    if (stepList.length > 1) tc.stepList = stepList;
+    return tc;
+  };
+
+  if (!scenario.examples.some(e => e.rows.length)) return [build(id, {}, "")];
+
+  // One test case per Examples row, with the row as its test data
+  let row = 0;
+  return scenario.examples.flatMap(examples => {
+    const exampleTags = examples.heading.flatMap(l => (l.trim().startsWith("@") ? tagsOf(l) : []));
+    return examples.rows.map(({ line, cells }) => {
+      row++;
+      const values = Object.fromEntries(examples.header.map((name, i) => [name, cells[i] ?? ""]));
+      const testData = formatCell(
+        examples.header.map((name, i) => ({ name: name.replace(/[^\w.$-]+/g, "_").replace(/^[^A-Za-z_$]/, "_$&"), value: cells[i] ?? "" }))
+          .filter(entry => entry.value)
+      );
+      const tc = build(`${id}_${row}`, values, testData);
+      if (exampleTags.length) tc.tags = [...(tc.tags || []), ...exampleTags];
+      tc.gherkin = { ...gherkin, examples: { heading: trimBlank(examples.heading).join("\n"), row: line } };
+      return tc;
+    });
+  });
+};
+
+// Parse .feature files into test cases that remember their Gherkin source,
+// so the suite can be sent to the generators without regenerating it
+export const readFeatureFiles = async (files: File[]): Promise<TestCaseData> => {
+  const texts = await Promise.all(files.map(file => file.text()));
+  let index = 0;
+  const testCases = texts.flatMap((text, i) => {
+    const feature = parseFeature(text);
+    if (!feature) throw new Error(`"${files[i].name}" has no Feature: line.`);
+    return feature.scenarios.flatMap(scenario => fromScenario(feature, scenario, index++));
+  });
+  return withLookups(testCases);
+};
+
+const withKeyword = (line: string, keyword: string): string =>
+  STEP.test(line.trim()) ? line.trim() : `${keyword} ${line.trim()}`;
+
+// Scenario block for a case without (or with an edited) Gherkin source
+const renderScenario = (tc: TestCase): string => {
+  const lines: string[] = [];
+  const tags = [tc.id, ...(tc.tags || [])].filter(Boolean);
+  if (tags.length) lines.push(`  ${tags.map(t => `@${t.replace(/\s+/g, "_")}`).join(" ")}`);
+  lines.push(`  Scenario: ${tc.description || tc.id}`);
+  buildStepList(tc).forEach((step, i) => {
+    const [first, ...rest] = step.action.split("\n");
+    lines.push(`    ${withKeyword(first, i === 0 ? "Given" : "When")}`, ...rest.map(l => `      ${l.trim()}`));
+    step.expected?.split("\n").forEach((line, j) => {
+      lines.push(`    ${withKeyword(line, j === 0 ? "Then" : "And")}`);
+    });
+  });
+  return lines.join("\n");
+};
+
+// Feature file text for the given cases: imported sources verbatim, grouped
+// back into their features, outlines and Examples tables
+export const toFeatureText = (testCases: TestCase[]): string => {
+  const out: string[] = [];
+  let feature: string | undefined;
+  let rule: string | undefined;
+  let scenario: string | undefined;
+  let heading: string | undefined;
+
+  testCases.forEach(tc => {
+    const source = tc.gherkin;
+    const header = source?.feature || `Feature: ${tc.module || "Imported"}`;
+    if (header !== feature) {
+      if (out.length) out.push("");
+      out.push(header);
+      if (source?.background) out.push("", source.background);
+      feature = header;
+      rule = scenario = heading = undefined;
+    }
+    if (source?.rule && source.rule !== rule) {
+      out.push("", source.rule);
+      rule = source.rule;
+    }
+
+    if (source?.scenario && source.examples) {
+      if (source.scenario !== scenario) {
+        out.push("", source.scenario);
+        scenario = source.scenario;
+        heading = undefined;
+      }
+      if (source.examples.heading !== heading) {
+        out.push("", source.examples.heading);
+        heading = source.examples.heading;
+      }
+      out.push(source.examples.row);
+    } else {
+      out.push("", source?.scenario || renderScenario(tc));
+      scenario = heading = undefined;
+    }
+  });
+
+  return `${out.join("\n")}\n`;
+};
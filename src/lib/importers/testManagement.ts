@@ -0,0 +1,94 @@
+import { TestCase, TestStep, toModuleName } from "../testCaseData";
+import { parseCell } from "../cellGrammar";
+import { buildStepList, stepListText } from "../testSteps";
+
+// A test case as read from a test management tool export, before it is
+// turned into the app's TestCase shape
+export interface ImportedCase {
+  // Case key in the tool (TestRail "C123", Zephyr "PROJ-T12", Xray "PROJ-45")
+  key: string;
+  title: string;
+  // Section / folder path, e.g. "Checkout > Payment" or "/Checkout/Payment"
+  folder?: string;
+  preconditions?: string;
+  priority?: string;
+  labels?: string[];
+  // Linked requirements / stories
+  references?: string[];
+  steps: TestStep[];
+  // Free-text steps and expected result, for cases without a step table
+  stepsText?: string;
+  expectedText?: string;
+  locator?: string;
+  testData?: string;
+}
+
+export type JsonObject = Record<string, unknown>;
+
+// Exports differ between tool versions, so JSON is read defensively
+export const asObject = (value: unknown): JsonObject =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as JsonObject) : {};
+
+export const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Names may be plain strings or { name } objects depending on the API version
+export const nameOf = (value: unknown): string =>
+  typeof value === "string" ? value : String(asObject(value).name ?? "");
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+// Zephyr and Xray store rich text as HTML; keep line breaks, drop the markup
+export const htmlToText = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#\d+|[a-z]+);/gi, (whole, name: string) =>
+      name.startsWith("#") ? String.fromCharCode(Number(name.slice(1))) : ENTITIES[name.toLowerCase()] ?? whole
+    )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// "PROJ-1, PROJ-2" / "PROJ-1 PROJ-2" → ["PROJ-1", "PROJ-2"]
+export const splitList = (value: unknown): string[] =>
+  String(value ?? "").split(/[\s,;]+/).map(v => v.trim()).filter(Boolean);
+
+// Custom field names that carry locators or test data for generation
+export const LOCATOR_FIELD = /locator|selector/i;
+export const TEST_DATA_FIELD = /test[\s_-]*data/i;
+
+// Step data that follows the name=value grammar also feeds the case's test data
+const namedData = (data?: string): string | undefined => {
+  if (!data) return undefined;
+  const parsed = parseCell(data, "testData");
+  return parsed.entries.length && !parsed.issues.length ? data : undefined;
+};
+
+export const toTestCase = (imported: ImportedCase): TestCase => {
+  const steps = imported.steps.filter(s => s.action);
+  const testData = [imported.testData, ...steps.map(s => namedData(s.data))].filter(Boolean).join(";");
+
+  const tc: TestCase = {
+    id: imported.key,
+    description: imported.title,
+    ...(steps.length
+      ? stepListText(steps)
+      : { steps: imported.stepsText || "", expected: imported.expectedText || "" }),
+    locator: imported.locator || "",
+    testData,
+    sourceKey: imported.key,
+  };
+  // "Checkout > Payment" → "CheckoutPayment"
+  const module = toModuleName(imported.folder || "");
+  const tags = (imported.labels || []).map(l => l.replace(/\s+/g, "_"));
+  if (module) tc.module = module;
+  if (imported.preconditions) tc.preconditions = imported.preconditions;
+  if (imported.priority) tc.priority = imported.priority;
+  if (tags.length) tc.tags = tags;
+  if (imported.references?.length) tc.references = imported.references;
+
+  const stepList = steps.length ? steps : buildStepList(tc);
+  if (stepList.length > 1) tc.stepList = stepList;
+  return tc;
+};
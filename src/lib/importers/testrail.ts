@@ -0,0 +1,107 @@
+import { TestCase, TestStep } from "../testCaseData";
+import { ImportedCase, LOCATOR_FIELD, TEST_DATA_FIELD, splitList, toTestCase } from "./testManagement";
+
+const normalize = (header: string): string => header.trim().toLowerCase();
+
+// TestRail CSV exports always carry the case ID, title and section columns
+export const isTestRailCsv = (headers: string[]): boolean => {
+  const names = headers.map(normalize);
+  return names.includes("id") && names.includes("title") && names.some(h => h === "section" || h === "section hierarchy");
+};
+
+// TestRail CSV export → test cases. Cases with separated steps may span
+// several rows: the first carries the case fields, the rest only a step.
+export const readTestRailCsv = (rows: string[][]): TestCase[] => {
+  const [headerRow, ...dataRows] = rows.filter(row => row.some(cell => cell && String(cell).trim()));
+  const headers = headerRow.map(normalize);
+  const column = (name: string) => headers.indexOf(name);
+  const cell = (row: string[], name: string): string => String(row[column(name)] ?? "").trim();
+  const custom = (row: string[], pattern: RegExp): string =>
+    headerRow
+      .flatMap((h, i) => (pattern.test(h) && row[i]?.trim() ? [row[i].trim()] : []))
+      .join(";");
+
+  const cases: ImportedCase[] = [];
+  dataRows.forEach(row => {
+    const stepAction = cell(row, "steps (step)");
+    const step: TestStep | null = stepAction
+      ? { action: stepAction, expected: cell(row, "steps (expected result)") || undefined }
+      : null;
+    const additional = cell(row, "steps (additional info)");
+    if (step && additional) step.data = additional;
+
+    const id = cell(row, "id");
+    const current = cases[cases.length - 1];
+    if (!id && current) {
+      if (step) current.steps.push(step);
+      return;
+    }
+    if (!id) return;
+
+    cases.push({
+      key: id,
+      title: cell(row, "title"),
+      folder: cell(row, "section hierarchy") || cell(row, "section") || undefined,
+      preconditions: cell(row, "preconditions") || undefined,
+      priority: cell(row, "priority") || undefined,
+      labels: splitList(cell(row, "labels")),
+      references: splitList(cell(row, "references")),
+      steps: step ? [step] : [],
+      stepsText: cell(row, "steps"),
+      expectedText: cell(row, "expected result"),
+      locator: custom(row, LOCATOR_FIELD),
+      testData: custom(row, TEST_DATA_FIELD),
+    });
+  });
+
+  return cases.map(toTestCase);
+};
+
+const childText = (el: Element, tag: string): string =>
+  Array.from(el.children).find(c => c.tagName === tag)?.textContent?.trim() || "";
+
+// TestRail XML export: <suite><sections><section> with nested sections and
+// <cases><case>, custom fields under <custom>
+export const readTestRailXml = (xml: string): TestCase[] => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.querySelector("parsererror")) throw new Error("The file is not valid XML.");
+  if (!doc.querySelector("case")) throw new Error("No TestRail test cases found in the XML file.");
+
+  return Array.from(doc.querySelectorAll("case")).map(el => {
+    const sections: string[] = [];
+    for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+      if (parent.tagName === "section") sections.unshift(childText(parent, "name"));
+    }
+    const custom = Array.from(el.children).find(c => c.tagName === "custom");
+    const customText = (tag: string) => (custom ? childText(custom, tag) : "");
+    const customMatching = (pattern: RegExp) =>
+      Array.from(custom?.children || [])
+        .filter(c => pattern.test(c.tagName) && c.textContent?.trim())
+        .map(c => c.textContent!.trim())
+        .join(";");
+
+    const steps = Array.from(custom?.querySelectorAll("steps_separated > step") || []).map(step => {
+      const parsed: TestStep = { action: childText(step, "content") };
+      const expected = childText(step, "expected");
+      const data = childText(step, "additional_info");
+      if (expected) parsed.expected = expected;
+      if (data) parsed.data = data;
+      return parsed;
+    });
+
+    return toTestCase({
+      key: childText(el, "id"),
+      title: childText(el, "title"),
+      folder: sections.filter(Boolean).join(" > ") || undefined,
+      preconditions: customText("preconds") || undefined,
+      priority: childText(el, "priority") || undefined,
+      labels: splitList(childText(el, "labels")),
+      references: splitList(childText(el, "references")),
+      steps,
+      stepsText: customText("steps"),
+      expectedText: customText("expected"),
+      locator: customMatching(LOCATOR_FIELD),
+      testData: customMatching(TEST_DATA_FIELD),
+    });
+  });
+};
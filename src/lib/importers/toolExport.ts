@@ -0,0 +1,38 @@
+import { TestCase } from "../testCaseData";
+import { asArray, asObject } from "./testManagement";
+import { readTestRailXml } from "./testrail";
+import { isXrayCase, readXrayTests } from "./xray";
+import { isZephyrCase, readZephyrCases } from "./zephyr";
+
+export const TOOL_EXPORT_EXTENSIONS = [".xml", ".json"];
+
+export const isToolExportFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return TOOL_EXPORT_EXTENSIONS.some(ext => name.endsWith(ext));
+};
+
+// The list of cases inside a JSON export: a bare array, a paginated API
+// response ({ values }) or a GraphQL result ({ data: { getTests: { results } } })
+const caseList = (json: unknown): unknown[] => {
+  if (Array.isArray(json)) return json;
+  const obj = asObject(json);
+  const graphQl = Object.values(asObject(obj.data)).map(v => asObject(v).results).find(Array.isArray);
+  return asArray(obj.values ?? obj.results ?? obj.testCases ?? obj.tests ?? graphQl);
+};
+
+// TestRail XML, Zephyr Scale JSON or Xray JSON export → test cases
+export const readToolExport = async (file: File): Promise<{ tool: string; testCases: TestCase[] }> => {
+  const text = await file.text();
+  if (file.name.toLowerCase().endsWith(".xml")) {
+    return { tool: "TestRail", testCases: readTestRailXml(text) };
+  }
+
+  const items = caseList(JSON.parse(text));
+  if (items.length && items.every(isZephyrCase)) {
+    return { tool: "Zephyr Scale", testCases: readZephyrCases(items) };
+  }
+  if (items.length && items.every(isXrayCase)) {
+    return { tool: "Xray", testCases: readXrayTests(items) };
+  }
+  throw new Error("Unrecognised export. Expected Zephyr Scale or Xray test case JSON.");
+};
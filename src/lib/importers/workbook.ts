@@ -0,0 +1,31 @@
+export interface WorkbookSheet {
+  name: string;
+  rows: string[][];
+}
+
+export const WORKBOOK_EXTENSIONS = [".xlsx", ".xls", ".ods"];
+
+export const isWorkbookFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return WORKBOOK_EXTENSIONS.some(ext => name.endsWith(ext));
+};
+
+// Read every sheet of an xlsx/xls/ods workbook as rows of display strings.
+// Sheets without any non-empty cell are dropped. SheetJS is loaded on the
+// first workbook upload, so it stays out of the main bundle.
+export const readWorkbook = async (file: File): Promise<WorkbookSheet[]> => {
+  const [XLSX, buffer] = await Promise.all([import("xlsx"), file.arrayBuffer()]);
+  const workbook = XLSX.read(buffer, { type: "array" });
+
+  return workbook.SheetNames
+    .map(name => {
+      const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[name], {
+        header: 1,
+        raw: false,
+        defval: "",
+        blankrows: false,
+      });
+      return { name, rows: rows.map(row => row.map(cell => String(cell ?? ""))) };
+    })
+    .filter(sheet => sheet.rows.some(row => row.some(cell => cell.trim())));
+};
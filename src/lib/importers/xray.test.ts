@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { readXrayTests } from "./xray";
+
+describe("readXrayTests", () => {
+  it("reads labels given as strings or objects", () => {
+    const [testCase] = readXrayTests([{
+      key: "PROJ-12",
+      testtype: "Manual",
+      fields: { summary: "Login", labels: ["smoke", { name: "regression" }, { value: "login page" }] },
+      steps: [{ action: "Open the login page", result: "The form is shown" }],
+    }]);
+    expect(testCase.tags).toEqual(["smoke", "regression", "login_page"]);
+  });
+});
@@ -0,0 +1,79 @@
+import { TestCase, TestStep } from "../testCaseData";
+import { JsonObject, asArray, asObject, htmlToText, nameOf, splitList, toTestCase } from "./testManagement";
+
+// Xray step fields are plain strings (import format, Cloud GraphQL), { raw }
+// objects (Server REST) or a "fields" map keyed by column name
+const stepField = (step: JsonObject, ...names: string[]): string => {
+  const fields = asObject(step.fields);
+  for (const name of names) {
+    const value = step[name] ?? fields[name];
+    if (value === undefined || value === null) continue;
+    const text = htmlToText(typeof value === "object" ? asObject(value).raw ?? asObject(value).rendered : value);
+    if (text) return text;
+  }
+  return "";
+};
+
+// Labels are plain strings, or { name } / { value } objects in some exports
+const labelOf = (label: unknown): string => {
+  if (typeof label !== "object" || label === null) return String(label ?? "");
+  const obj = asObject(label);
+  return String(obj.name ?? obj.value ?? "");
+};
+
+// Xray tests carry a test type and either steps or a Gherkin/unstructured definition
+export const isXrayCase = (item: unknown): boolean => {
+  const obj = asObject(item);
+  return ["testtype", "testType", "type", "gherkin_def", "unstructured_def", "jira"].some(key => key in obj)
+    && !("testScript" in obj);
+};
+
+const readSteps = (test: JsonObject): TestStep[] =>
+  asArray(test.steps).map(raw => {
+    const step = asObject(raw);
+    const parsed: TestStep = { action: stepField(step, "action", "step", "Action") };
+    const data = stepField(step, "data", "Data");
+    const expected = stepField(step, "result", "expectedResult", "Expected Result");
+    if (data) parsed.data = data;
+    if (expected) parsed.expected = expected;
+    return parsed;
+  });
+
+// Precondition issues: [{ key, condition }] (Server), { results: [{ definition, jira }] }
+// (Cloud GraphQL) or plain keys
+const readPreconditions = (test: JsonObject): string =>
+  [...asArray(test.precondition), ...asArray(test.preconditions), ...asArray(asObject(test.preconditions).results)]
+    .map(raw => {
+      if (typeof raw === "string") return raw;
+      const pre = asObject(raw);
+      return htmlToText(pre.condition ?? pre.definition) || String(pre.key ?? asObject(pre.jira).key ?? "");
+    })
+    .filter(Boolean)
+    .join("\n");
+
+// Xray test JSON (import format, Server REST export or Cloud GraphQL results) → test cases
+export const readXrayTests = (items: unknown[]): TestCase[] =>
+  items.map((item, index) => {
+    const test = asObject(item);
+    const fields = { ...asObject(test.fields), ...asObject(test.jira) };
+    const key = String(test.key ?? test.issueKey ?? fields.key ?? `XRAY-${index + 1}`);
+    const folder = test.xray_test_repository_folder ?? asObject(test.folder).path ?? test.folder;
+    const definition = htmlToText(
+      test.gherkin_def ?? test.gherkin ?? test.unstructured_def ?? test.unstructured ?? test.definition
+    );
+
+    return toTestCase({
+      key,
+      title: htmlToText(fields.summary ?? test.summary ?? key),
+      folder: typeof folder === "string" ? folder : undefined,
+      preconditions: readPreconditions(test) || undefined,
+      priority: nameOf(fields.priority ?? test.priority) || undefined,
+      labels: asArray(fields.labels ?? test.labels).map(labelOf).filter(Boolean),
+      references: [
+        ...asArray(test.requirementKeys ?? test.requirements).map(r => (typeof r === "string" ? r : String(asObject(r).key ?? ""))),
+        ...splitList(test.references),
+      ].filter(Boolean),
+      steps: readSteps(test),
+      stepsText: definition,
+    });
+  });
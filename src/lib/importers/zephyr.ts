@@ -0,0 +1,65 @@
+import { TestCase, TestStep } from "../testCaseData";
+import {
+  JsonObject,
+  LOCATOR_FIELD,
+  TEST_DATA_FIELD,
+  asArray,
+  asObject,
+  htmlToText,
+  nameOf,
+  toTestCase,
+} from "./testManagement";
+
+// Zephyr Scale keys look like "PROJ-T12"; its cases have a test script or an objective
+export const isZephyrCase = (item: unknown): boolean => {
+  const obj = asObject(item);
+  return "testScript" in obj || "objective" in obj || /^[A-Z][A-Z0-9]*-T\d+$/.test(String(obj.key ?? ""));
+};
+
+const readSteps = (testCase: JsonObject): TestStep[] => {
+  const script = asObject(testCase.testScript);
+  const steps = asArray(script.steps ?? asObject(script.stepByStepScript).steps ?? testCase.steps);
+  return steps.map(raw => {
+    // API v2 test steps wrap the fields in "inline"
+    const step = asObject(asObject(raw).inline ?? raw);
+    const parsed: TestStep = { action: htmlToText(step.description) };
+    const data = htmlToText(step.testData);
+    const expected = htmlToText(step.expectedResult);
+    if (data) parsed.data = data;
+    if (expected) parsed.expected = expected;
+    return parsed;
+  });
+};
+
+const customValues = (customFields: JsonObject, pattern: RegExp): string =>
+  Object.entries(customFields)
+    .filter(([name, value]) => pattern.test(name) && value)
+    .map(([, value]) => htmlToText(value))
+    .join(";");
+
+// Zephyr Scale test case JSON (Server export or Cloud API) → test cases
+export const readZephyrCases = (items: unknown[]): TestCase[] =>
+  items.map(item => {
+    const testCase = asObject(item);
+    const script = asObject(testCase.testScript);
+    const customFields = asObject(testCase.customFields);
+    const issueLinks = [
+      ...asArray(testCase.issueLinks),
+      ...asArray(asObject(testCase.links).issues),
+    ].map(link => (typeof link === "string" ? link : String(asObject(link).issueKey ?? asObject(link).key ?? "")));
+    const plainText = htmlToText(script.text ?? asObject(script.plainTextScript).text);
+
+    return toTestCase({
+      key: String(testCase.key ?? ""),
+      title: htmlToText(testCase.name),
+      folder: nameOf(testCase.folder) || undefined,
+      preconditions: htmlToText(testCase.precondition) || undefined,
+      priority: nameOf(testCase.priority) || undefined,
+      labels: asArray(testCase.labels).map(String),
+      references: issueLinks.filter(Boolean),
+      steps: readSteps(testCase),
+      stepsText: plainText || htmlToText(testCase.objective),
+      locator: customValues(customFields, LOCATOR_FIELD),
+      testData: customValues(customFields, TEST_DATA_FIELD),
+    });
+  });
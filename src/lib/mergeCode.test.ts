@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { mergeClassFiles, mergeJsonFiles, mergePythonModules } from "./mergeCode";
+
+describe("mergePythonModules", () => {
+  it("merges the entries of a dict defined in several chunks", () => {
+    const first = `USERS = {
+    "admin": {"username": "admin", "password": "secret"},
+    "guest": {"username": "guest", "password": "guest"},
+}`;
+    const second = `USERS = {
+    "guest": {"username": "guest", "password": "guest"},
+    "locked": {"username": "locked", "password": "secret"}  # TC_LOGIN_004
+}`;
+    expect(mergePythonModules([first, second])).toBe(`USERS = {
+    "admin": {"username": "admin", "password": "secret"},
+    "guest": {"username": "guest", "password": "guest"},
+    "locked": {"username": "locked", "password": "secret"},  # TC_LOGIN_004
+}`);
+  });
+
+  it("merges the items of a list defined in several chunks", () => {
+    expect(mergePythonModules(['ROLES = ["admin", "guest"]', "ROLES = ['guest', 'editor']"])).toBe(`ROLES = [
+    "admin",
+    "guest",
+    'editor',
+]`);
+  });
+
+  it("keeps a module unchanged when the other chunks add nothing", () => {
+    const data = 'import os\n\nBASE_URL = os.getenv("BASE_URL", "http://localhost")\n\nUSERS = {"admin": "secret"}';
+    expect(mergePythonModules([data, data])).toBe(data);
+  });
+
+  it("merges the members of a class defined in several chunks", () => {
+    const page = (members: string) => `from selenium.webdriver.common.by import By
+
+
+class LoginPage:
+${members}`;
+    const merged = mergePythonModules([
+      page('    USERNAME = (By.ID, "username")\n\n    def enter_username(self, value):\n        self.type(self.USERNAME, value)'),
+      page('    ERROR = (By.CSS_SELECTOR, ".error")\n\n    def error_text(self):\n        return self.text_of(self.ERROR)'),
+    ]);
+    expect(merged).toBe(`from selenium.webdriver.common.by import By
+
+class LoginPage:
+    USERNAME = (By.ID, "username")
+
+    def enter_username(self, value):
+        self.type(self.USERNAME, value)
+
+    ERROR = (By.CSS_SELECTOR, ".error")
+
+    def error_text(self):
+        return self.text_of(self.ERROR)`);
+  });
+
+  it("leaves conflicting definitions as comments", () => {
+    const merged = mergePythonModules([
+      'TIMEOUT = 10\n\nUSERS = {"admin": "secret"}',
+      'TIMEOUT = 30\n\nUSERS = {"admin": "changed"}',
+    ]);
+    expect(merged).toBe(`TIMEOUT = 10
+# Conflict: another chunk defines this differently:
+# TIMEOUT = 30
+
+USERS = {
+    "admin": "secret",
+    # Conflict: another chunk defines this differently:
+    # "admin": "changed"
+}`);
+  });
+});
+
+describe("mergeJsonFiles", () => {
+  it("merges the keys and array items of every chunk", () => {
+    const first = JSON.stringify({ users: { admin: { password: "secret" } }, roles: ["admin"] });
+    const second = JSON.stringify({ users: { guest: { password: "guest" } }, roles: ["admin", "guest"], timeout: 10 });
+    expect(JSON.parse(mergeJsonFiles([first, second]))).toEqual({
+      users: { admin: { password: "secret" }, guest: { password: "guest" } },
+      roles: ["admin", "guest"],
+      timeout: 10,
+    });
+  });
+
+  it("keeps every file when one does not parse", () => {
+    expect(mergeJsonFiles(['{ "a": 1 }', "{ broken"])).toBe('{ "a": 1 }\n\n{ broken');
+  });
+});
+
+describe("mergeClassFiles", () => {
+  it("merges two Java chunks into one class under the package", () => {
+    const first = `package pages;
+
+import org.openqa.selenium.By;
+import org.openqa.selenium.WebDriver;
+
+public class LoginPage {
+    private final WebDriver driver;
+    private final By username = By.id("username");
+
+    public LoginPage(WebDriver driver) {
+        this.driver = driver;
+    }
+
+    public void enterUsername(String value) {
+        driver.findElement(username).sendKeys(value);
+    }
+}`;
+    const second = `package pages;
+
+import org.openqa.selenium.By;
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.support.ui.WebDriverWait;
+
+public class LoginPage {
+    private final WebDriver driver;
+    private final By error = By.cssSelector(".error");
+
+    public LoginPage(WebDriver driver) {
+        this.driver = driver;
+    }
+
+    public String errorText() {
+        return driver.findElement(error).getText();
+    }
+}`;
+    expect(mergeClassFiles([first, second])).toBe(`package pages;
+
+import org.openqa.selenium.By;
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.support.ui.WebDriverWait;
+
+public class LoginPage {
+    private final WebDriver driver;
+    private final By username = By.id("username");
+
+    public LoginPage(WebDriver driver) {
+        this.driver = driver;
+    }
+
+    public void enterUsername(String value) {
+        driver.findElement(username).sendKeys(value);
+    }
+
+    private final By error = By.cssSelector(".error");
+
+    public String errorText() {
+        return driver.findElement(error).getText();
+    }
+}`);
+  });
+
+  it("keeps C# usings before the file-scoped namespace and overloads apart", () => {
+    const steps = (method: string) => `using TechTalk.SpecFlow;
+
+namespace QatalystTests.StepDefinitions;
+
+[Binding]
+public class LoginSteps
+{
+${method}
+}`;
+    const merged = mergeClassFiles([
+      steps('    [When(@"I enter ""(.*)""")]\n    public void WhenIEnter(string name)\n    {\n    }'),
+      steps('    [When(@"I enter (\\d+)")]\n    public void WhenIEnter(int count)\n    {\n    }'),
+    ]);
+    expect(merged).toBe(`using TechTalk.SpecFlow;
+
+namespace QatalystTests.StepDefinitions;
+
+[Binding]
+public class LoginSteps
+{
+    [When(@"I enter ""(.*)""")]
+    public void WhenIEnter(string name)
+    {
+    }
+
+    [When(@"I enter (\\d+)")]
+    public void WhenIEnter(int count)
+    {
+    }
+}`);
+  });
+});
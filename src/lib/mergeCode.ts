@@ -0,0 +1,1027 @@
+// Merges files generated for separate chunks of one suite into a single file.
+// The merge is textual, not a full parse: it knows just enough of each language
+// to keep shared imports, page object members, step definitions, tests, keywords
+// and data entries once, in the order they first appear.
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Strips leading blank lines, the common indentation and trailing whitespace, then indents every line
+const reindent = (text: string, indent: string): string => {
+  const lines = text.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n');
+  const widths = lines.filter(l => l.trim()).map(l => l.match(/^[ \t]*/)![0].length);
+  const min = widths.length ? Math.min(...widths) : 0;
+  return lines.map(l => (l.trim() ? indent + l.slice(min) : '')).join('\n');
+};
+
+// Entries keyed by identity; the first occurrence of a key wins
+class OrderedEntries<T> {
+  private entries = new Map<string, T>();
+
+  add(key: string, value: T): T {
+    if (!this.entries.has(key)) this.entries.set(key, value);
+    return this.entries.get(key)!;
+  }
+
+  get(key: string): T | undefined {
+    return this.entries.get(key);
+  }
+
+  values(): T[] {
+    return [...this.entries.values()];
+  }
+}
+
+// ---------- JavaScript / TypeScript ----------
+
+const skipString = (source: string, start: number): number => {
+  const quote = source[start];
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === '\\') i++;
+    // Template literal placeholders may hold nested strings and braces
+    else if (quote === '`' && source[i] === '$' && source[i + 1] === '{') i = skipBlock(source, i + 1) - 1;
+    i++;
+  }
+  return i + 1;
+};
+
+const skipRegExp = (source: string, start: number): number => {
+  let i = start + 1;
+  let inClass = false;
+  while (i < source.length && source[i] !== '\n') {
+    if (source[i] === '\\') i++;
+    else if (source[i] === '[') inClass = true;
+    else if (source[i] === ']') inClass = false;
+    else if (source[i] === '/' && !inClass) return i + 1;
+    i++;
+  }
+  return i;
+};
+
+// Position just past the bracket that closes the one at start
+const skipBlock = (source: string, start: number): number => {
+  let depth = 0;
+  let i = start;
+  while (i < source.length) {
+    const next = skipNonCode(source, i);
+    if (next !== i) {
+      i = next;
+      continue;
+    }
+    const c = source[i];
+    if ('({['.includes(c)) depth++;
+    else if (')}]'.includes(c) && --depth === 0) return i + 1;
+    i++;
+  }
+  return i;
+};
+
+// Skips a comment, string or regular expression starting at i; returns i when there is none
+const skipNonCode = (source: string, i: number): number => {
+  const c = source[i];
+  if (c === '/' && source[i + 1] === '/') {
+    const end = source.indexOf('\n', i);
+    return end === -1 ? source.length : end;
+  }
+  if (c === '/' && source[i + 1] === '*') {
+    const end = source.indexOf('*/', i + 2);
+    return end === -1 ? source.length : end + 2;
+  }
+  if (c === '"' || c === "'" || c === '`') return skipString(source, i);
+  if (c === '/') {
+    const before = source.slice(0, i).trimEnd();
+    if (!before || '(,=:[!&|?{};'.includes(before[before.length - 1])) return skipRegExp(source, i);
+  }
+  return i;
+};
+
+const CONTINUES_LINE = /[=,(+\-*/&|?:.{[]$/;
+const CONTINUATION = /^[.)\]},?:+\-*/&|=]/;
+
+// Splits source into top-level statements, each with the comments above it.
+// Statements end at a semicolon, at a closing brace that ends its line, or at a
+// line break that cannot continue the statement (no semicolons).
+const splitStatements = (source: string): string[] => {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+  const push = (end: number) => {
+    const text = source.slice(start, end);
+    if (text.trim()) statements.push(text);
+    start = end;
+  };
+  const nextCode = (from: number) => source.slice(from).trimStart();
+
+  while (i < source.length) {
+    const skipped = skipNonCode(source, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    const c = source[i];
+    if ('({['.includes(c)) {
+      i = skipBlock(source, i);
+      if (c !== '{') continue;
+      const rest = source.slice(i).match(/^[ \t]*;?/)![0];
+      const after = i + rest.length;
+      if ((rest.includes(';') || source[after] === '\n' || after >= source.length) && !CONTINUATION.test(nextCode(after))) {
+        i = after;
+        push(i);
+      }
+      continue;
+    }
+    if (c === ';') {
+      push(i + 1);
+    } else if (c === '\n') {
+      const code = stripComments(source.slice(start, i)).trim();
+      if (code && !CONTINUES_LINE.test(code) && !CONTINUATION.test(nextCode(i))) push(i);
+    }
+    i++;
+  }
+  push(source.length);
+  return statements;
+};
+
+const stripComments = (text: string) => text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+
+// The statement without its leading comments
+const codeOf = (statement: string) => statement.replace(/^(?:\s*(?:\/\/[^\n]*|\/\*[\s\S]*?\*\/))*/, '').trim();
+
+const DESTRUCTURED_IMPORT = /^(const|let|var)\s*\{([^}]*)\}\s*=\s*require\(\s*(['"])(.+?)\3\s*\)\s*;?$/;
+const NAMED_IMPORT = /^import\s*\{([^}]*)\}\s*from\s*(['"])(.+?)\2\s*;?$/;
+const CLASS = /^(?:export\s+(?:default\s+)?)?class\s+([\w$]+)[^{]*\{/;
+const EXPORTS = /^module\.exports\s*=\s*(\{[^}]*\}|[\w$]+)\s*;?$/;
+const STEP = /^(?:Given|When|Then|And|But|defineStep)\s*\(\s*((['"`])(?:\\.|(?!\2)[\s\S])*\2|\/(?:\\.|[^/\n])+\/)/;
+const HOOK = /^(Before|After|BeforeAll|AfterAll|BeforeStep|AfterStep)\s*\(/;
+const DECLARATION = /^(?:export\s+)?(?:const|let|var|(?:async\s+)?function\*?|class|interface|type|enum)\s+([\w$]+)/;
+const CALL = /^([\w$.]+)\s*\(/;
+// Playwright Test: test('title', ...) and test.describe('title', () => { ... })
+const TEST = /^test(?:\.(?:only|skip|fixme|fail|slow))?\s*\(\s*((['"`])(?:\\.|(?!\2)[\s\S])*\2)/;
+const DESCRIBE = /^test\.describe(?:\.(?:only|skip|fixme|serial|parallel))?\s*\(\s*((['"`])(?:\\.|(?!\2)[\s\S])*\2)/;
+
+const names = (list: string) => list.split(',').map(n => n.trim()).filter(Boolean);
+
+interface ImportEntry {
+  // Destructuring require or named import; other imports are kept verbatim
+  kind: 'require' | 'import' | 'verbatim';
+  text: string;
+  names: Set<string>;
+}
+
+const renderImport = ({ kind, text, names }: ImportEntry) =>
+  kind === 'require' ? `const { ${[...names].join(', ')} } = require('${text}');`
+  : kind === 'import' ? `import { ${[...names].join(', ')} } from '${text}';`
+  : text;
+
+interface ClassEntry {
+  header: string;
+  constructorHead?: string;
+  constructorBody: OrderedEntries<string>;
+  members: OrderedEntries<string>;
+}
+
+const memberKey = (member: string): string => {
+  const code = codeOf(member);
+  const match = code.match(/^((?:static\s+)?(?:get\s+|set\s+)?)(?:async\s+)?\*?\s*([#\w$]+)/);
+  return match ? `${match[1].replace(/\s+/g, ' ')}${match[2]}` : normalize(code);
+};
+
+const constructorKey = (statement: string): string => {
+  const code = codeOf(statement);
+  const match = code.match(/^(this\.[\w$]+)\s*=/) || code.match(/^(super)\s*\(/);
+  return match ? match[1] : normalize(code);
+};
+
+const addClass = (classes: OrderedEntries<ClassEntry>, name: string, statement: string) => {
+  const code = codeOf(statement);
+  const comments = statement.slice(0, statement.indexOf(code));
+  const open = code.indexOf('{');
+  const entry = classes.add(name, {
+    header: reindent(comments + code.slice(0, open + 1), ''),
+    constructorBody: new OrderedEntries<string>(),
+    members: new OrderedEntries<string>(),
+  });
+  const body = code.slice(open + 1, skipBlock(code, open) - 1);
+  for (const member of splitStatements(body)) {
+    const key = memberKey(member);
+    if (key !== 'constructor') {
+      entry.members.add(key, member);
+      continue;
+    }
+    const memberCode = codeOf(member);
+    const bodyStart = memberCode.indexOf('{', skipBlock(memberCode, memberCode.indexOf('(')));
+    entry.constructorHead ??= memberCode.slice(0, bodyStart).trim();
+    const constructorBody = memberCode.slice(bodyStart + 1, skipBlock(memberCode, bodyStart) - 1);
+    for (const statement of splitStatements(constructorBody)) {
+      entry.constructorBody.add(constructorKey(statement), statement);
+    }
+  }
+};
+
+interface DescribeEntry {
+  // Up to the callback's opening brace, and from its closing brace on
+  header: string;
+  footer: string;
+  body: OrderedEntries<string>;
+}
+
+const describeMemberKey = (statement: string): string => {
+  const code = codeOf(statement);
+  const test = code.match(TEST);
+  if (test) return `test:${test[1]}`;
+  const declaration = code.match(DECLARATION);
+  return declaration ? `name:${declaration[1]}` : normalize(code);
+};
+
+// A describe block that several chunks wrote keeps each of their tests once
+const addDescribe = (describes: OrderedEntries<DescribeEntry>, title: string, statement: string): DescribeEntry | null => {
+  const code = codeOf(statement);
+  const arrow = code.indexOf('=>');
+  const open = arrow === -1 ? -1 : code.indexOf('{', arrow);
+  if (open === -1) return null;
+  const close = skipBlock(code, open);
+  const comments = statement.slice(0, statement.indexOf(code));
+  const entry = describes.add(title, {
+    header: reindent(comments + code.slice(0, open + 1), ''),
+    footer: code.slice(close - 1),
+    body: new OrderedEntries<string>(),
+  });
+  for (const member of splitStatements(code.slice(open + 1, close - 1))) {
+    entry.body.add(describeMemberKey(member), member);
+  }
+  return entry;
+};
+
+const renderDescribe = (entry: DescribeEntry): string =>
+  `${entry.header}\n${entry.body.values().map(m => reindent(m, '  ')).join('\n\n')}\n${entry.footer}`;
+
+const renderClass = (entry: ClassEntry): string => {
+  const parts: string[] = [];
+  if (entry.constructorHead) {
+    const body = entry.constructorBody.values().map(s => reindent(s, '    ')).join('\n');
+    parts.push(`  ${entry.constructorHead} {\n${body}\n  }`);
+  }
+  parts.push(...entry.members.values().map(m => reindent(m, '  ')));
+  return `${entry.header}\n${parts.join('\n\n')}\n}`;
+};
+
+// Merges JavaScript/TypeScript modules: imports of the same module are combined,
+// classes with the same name keep each constructor assignment and member once,
+// step definitions are kept once per pattern (Cucumber rejects duplicates),
+// Playwright tests once per title (describe blocks of the same title are
+// combined) and module.exports lists every exported name.
+export const mergeJsModules = (files: string[]): string => {
+  const sources = files.filter(f => f.trim());
+  if (sources.length <= 1) return sources[0] || '';
+
+  const imports = new OrderedEntries<ImportEntry>();
+  const statements = new OrderedEntries<string | ClassEntry | DescribeEntry>();
+  const classes = new OrderedEntries<ClassEntry>();
+  const describes = new OrderedEntries<DescribeEntry>();
+  const exported = new Set<string>();
+  let exportsObject = false;
+
+  for (const source of sources) {
+    for (const statement of splitStatements(source)) {
+      const code = codeOf(statement);
+      let match: RegExpMatchArray | null;
+
+      if ((match = code.match(DESTRUCTURED_IMPORT))) {
+        const [, , list, , path] = match;
+        const entry = imports.add(`require:${path}`, { kind: 'require', text: path, names: new Set() });
+        names(list).forEach(n => entry.names.add(n));
+      } else if ((match = code.match(NAMED_IMPORT))) {
+        const [, list, , path] = match;
+        const entry = imports.add(`import:${path}`, { kind: 'import', text: path, names: new Set() });
+        names(list).forEach(n => entry.names.add(n));
+      } else if (/^(?:import\s|(?:const|let|var)\s+[\w$]+\s*=\s*require\()/.test(code)) {
+        imports.add(normalize(code), { kind: 'verbatim', text: code, names: new Set() });
+      } else if ((match = code.match(EXPORTS))) {
+        if (match[1].startsWith('{')) {
+          exportsObject = true;
+          names(match[1].slice(1, -1)).forEach(n => exported.add(n));
+        } else {
+          exported.add(match[1]);
+        }
+      } else if ((match = code.match(CLASS))) {
+        addClass(classes, match[1], statement);
+        statements.add(`class:${match[1]}`, classes.get(match[1])!);
+      } else if ((match = code.match(STEP))) {
+        statements.add(`step:${match[1]}`, statement);
+      } else if ((match = code.match(TEST))) {
+        statements.add(`test:${match[1]}`, statement);
+      } else if ((match = code.match(DESCRIBE))) {
+        const entry = addDescribe(describes, match[1], statement);
+        statements.add(entry ? `describe:${match[1]}` : normalize(code), entry || statement);
+      } else if ((match = code.match(HOOK))) {
+        // Hooks are kept once each, or once per tag expression
+        const filter = code.match(/^\w+\s*\(\s*(\{[^}]*\}|(['"]).*?\2)/)?.[1] || '';
+        statements.add(`hook:${match[1]}:${normalize(filter)}`, statement);
+      } else if ((match = code.match(DECLARATION))) {
+        statements.add(`name:${match[1]}`, statement);
+      } else if ((match = code.match(CALL)) && !code.includes('=')) {
+        statements.add(`call:${match[1]}`, statement);
+      } else {
+        statements.add(normalize(code), statement);
+      }
+    }
+  }
+
+  const body = statements.values().map(s =>
+    typeof s === 'string' ? reindent(s, '') : 'members' in s ? renderClass(s) : renderDescribe(s));
+  const exportLine = !exported.size ? ''
+    : exportsObject || exported.size > 1 ? `module.exports = { ${[...exported].join(', ')} };`
+    : `module.exports = ${[...exported][0]};`;
+
+  return [
+    imports.values().map(renderImport).join('\n'),
+    body.join('\n\n'),
+    exportLine,
+  ].filter(Boolean).join('\n\n');
+};
+
+// ---------- Java / C# ----------
+
+// Skips a comment, string, Java text block or C# verbatim string starting at i; returns i when there is none
+const skipBraceNonCode = (source: string, i: number): number => {
+  if (source.startsWith('//', i)) {
+    const end = source.indexOf('\n', i);
+    return end === -1 ? source.length : end;
+  }
+  if (source.startsWith('/*', i)) {
+    const end = source.indexOf('*/', i + 2);
+    return end === -1 ? source.length : end + 2;
+  }
+  if (source.startsWith('"""', i)) {
+    const end = source.indexOf('"""', i + 3);
+    return end === -1 ? source.length : end + 3;
+  }
+  const verbatim = source.slice(i, i + 3).match(/^(?:@\$?|\$@)"/);
+  if (verbatim) {
+    let j = i + verbatim[0].length;
+    while (j < source.length && (source[j] !== '"' || source[j + 1] === '"')) j += source[j] === '"' ? 2 : 1;
+    return j + 1;
+  }
+  if (source[i] === '"' || source[i] === "'") {
+    let j = i + 1;
+    while (j < source.length && source[j] !== source[i] && source[j] !== '\n') j += source[j] === '\\' ? 2 : 1;
+    return j + 1;
+  }
+  return i;
+};
+
+// Top-level statements of a file or of a type's body, each with the comments,
+// annotations and attributes before it: a declaration ending in ; or a block
+const splitBraceStatements = (source: string): string[] => {
+  const statements: string[] = [];
+  let start = 0;
+  let depth = 0;
+  let i = 0;
+  const push = (end: number) => {
+    const statement = source.slice(start, end);
+    if (statement.trim()) statements.push(reindent(statement, ''));
+    start = end;
+  };
+
+  while (i < source.length) {
+    const next = skipBraceNonCode(source, i);
+    if (next !== i) {
+      i = next;
+      continue;
+    }
+    const c = source[i];
+    if ('({['.includes(c)) depth++;
+    else if (')}]'.includes(c) && --depth === 0 && c === '}') {
+      // Initializers such as String[] roles = { ... }; end after their semicolon
+      i += 1 + (source.slice(i + 1).match(/^\s*;/)?.[0].length || 0);
+      push(i);
+      continue;
+    } else if (c === ';' && depth === 0) push(i + 1);
+    i++;
+  }
+  push(source.length);
+  return statements;
+};
+
+const stripBraceComments = (text: string): string => {
+  let code = '';
+  let i = 0;
+  while (i < text.length) {
+    const next = skipBraceNonCode(text, i);
+    if (next === i) code += text[i++];
+    else {
+      if (!/^(?:\/\/|\/\*)/.test(text.slice(i, i + 2))) code += text.slice(i, next);
+      i = next;
+    }
+  }
+  return code;
+};
+
+// Position just past the bracket that closes the one at start
+const skipBraceBlock = (source: string, start: number): number => {
+  let depth = 0;
+  let i = start;
+  while (i < source.length) {
+    const next = skipBraceNonCode(source, i);
+    if (next !== i) {
+      i = next;
+      continue;
+    }
+    if ('({['.includes(source[i])) depth++;
+    else if (')}]'.includes(source[i]) && --depth === 0) return i + 1;
+    i++;
+  }
+  return i;
+};
+
+// A statement's code without its comments and leading annotations or attributes
+const braceCode = (statement: string): string => {
+  let code = stripBraceComments(statement).trim();
+  for (;;) {
+    const annotation = code.match(/^@[\w.]+\s*/);
+    if (annotation && !code.startsWith('@interface')) {
+      code = code.slice(annotation[0].length);
+      if (code.startsWith('(')) code = code.slice(skipBraceBlock(code, 0)).trim();
+    } else if (code.startsWith('[')) {
+      code = code.slice(skipBraceBlock(code, 0)).trim();
+    } else {
+      return code;
+    }
+  }
+};
+
+// Types of a parameter list, so overloads stay apart: "(String user, int n)" -> "String,int"
+const parameterTypes = (list: string): string => {
+  const params: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const c of list) {
+    if ('(<['.includes(c)) depth++;
+    else if (')>]'.includes(c)) depth--;
+    if (c === ',' && depth === 0) {
+      params.push(current);
+      current = '';
+    } else current += c;
+  }
+  params.push(current);
+  return params
+    .map(p => braceCode(p.replace(/=.*$/s, '')).replace(/\bfinal\s+/g, '').replace(/\s*[\w$]+\s*$/, '').replace(/\s+/g, ''))
+    .filter(Boolean)
+    .join(',');
+};
+
+const TYPE_DECLARATION = /^(?:(?:public|private|protected|internal|static|final|abstract|sealed|partial|file|readonly)\s+)*(class|interface|record|struct|enum|namespace)\s+([\w.]+)/;
+const MEMBER = /^[^=({;]*?([\w$]+)\s*(?:<[^<>]*(?:<[^<>]*>[^<>]*)*>\s*)?([=({;])/;
+
+interface BraceStatement {
+  key: string;
+  // Order within a file: Java's package, the imports or usings, C#'s
+  // file-scoped namespace, then the rest
+  rank: number;
+  // A type or namespace whose members are merged
+  block: boolean;
+}
+
+const braceKey = (statement: string): BraceStatement => {
+  const code = braceCode(statement);
+  let match: RegExpMatchArray | null;
+  if (/^package\s/.test(code)) return { key: normalize(code), rank: 0, block: false };
+  if (/^(?:import|using)\s[^(=]*;$/.test(code)) return { key: normalize(code), rank: 1, block: false };
+  if (/^namespace\s+[\w.]+\s*;$/.test(code)) return { key: normalize(code), rank: 2, block: false };
+  if ((match = code.match(TYPE_DECLARATION))) {
+    return { key: `type:${match[2]}`, rank: 3, block: match[1] !== 'enum' && code.endsWith('}') };
+  }
+  if ((match = code.match(MEMBER))) {
+    const [member, name, kind] = match;
+    const params = kind === '(' ? `(${parameterTypes(code.slice(member.length, skipBraceBlock(code, member.length - 1) - 1))})` : '';
+    return { key: `${kind === '(' ? 'method' : 'field'}:${name}${params}`, rank: 3, block: false };
+  }
+  return { key: normalize(code), rank: 3, block: false };
+};
+
+// Index of the brace that opens a type's body, past its annotations and attributes
+const blockOpen = (statement: string): number => {
+  let depth = 0;
+  let i = 0;
+  while (i < statement.length) {
+    const next = skipBraceNonCode(statement, i);
+    if (next !== i) {
+      i = next;
+      continue;
+    }
+    if (statement[i] === '{' && depth === 0) return i;
+    if ('(['.includes(statement[i])) depth++;
+    else if (')]'.includes(statement[i])) depth--;
+    i++;
+  }
+  return -1;
+};
+
+const braceConflictNote = (text: string) => [
+  '// Conflict: another chunk defines this differently:',
+  ...text.split('\n').map(line => `// ${line}`.trimEnd()),
+];
+
+// One statement from its definitions in several chunks: types and namespaces
+// get the members of all of them; otherwise the first definition is kept and
+// each different one is left below it as a comment
+const mergeBraceDefinitions = (definitions: string[], block: boolean): string => {
+  const code = (text: string) => normalize(stripBraceComments(text));
+  const distinct = definitions.filter((d, i) => definitions.findIndex(o => code(o) === code(d)) === i);
+  if (distinct.length === 1) return definitions[0];
+
+  if (block) {
+    const parts = distinct.map(d => {
+      const open = blockOpen(d);
+      return { head: d.slice(0, open + 1), body: d.slice(open + 1, d.lastIndexOf('}')) };
+    });
+    const indent = parts[0].body.split('\n').find(l => l.trim())?.match(/^[ \t]+/)?.[0] || '    ';
+    return `${parts[0].head}\n${reindent(mergeBraceStatements(parts.map(p => p.body)), indent)}\n}`;
+  }
+
+  return [distinct[0], ...distinct.slice(1).flatMap(braceConflictNote)].join('\n');
+};
+
+const mergeBraceStatements = (sources: string[]): string => {
+  const statements = new OrderedEntries<BraceStatement & { definitions: string[] }>();
+  for (const source of sources) {
+    for (const statement of splitBraceStatements(source)) {
+      const info = braceKey(statement);
+      statements.add(info.key, { ...info, definitions: [] }).definitions.push(statement);
+    }
+  }
+
+  const entries = statements.values().sort((a, b) => a.rank - b.rank);
+  const texts = entries.map(entry => mergeBraceDefinitions(entry.definitions, entry.block));
+  // Imports and fields stay on consecutive lines; anything longer is set apart
+  return texts.map((text, i) => {
+    if (i === 0) return text;
+    const single = !text.includes('\n') && !texts[i - 1].includes('\n') && entries[i - 1].rank === entries[i].rank;
+    return `${single ? '\n' : '\n\n'}${text}`;
+  }).join('');
+};
+
+// Merges Java and C# files such as Selenium page objects and REST Assured
+// tests: the package (or file-scoped namespace) comes first and the imports
+// once each, and a class defined in several files gets the members of all of
+// them, kept once per field name and method signature
+export const mergeClassFiles = (files: string[]): string => {
+  const sources = files.filter(f => f.trim());
+  if (sources.length <= 1) return sources[0] || '';
+  return mergeBraceStatements(sources);
+};
+
+// ---------- Gherkin ----------
+
+const FEATURE = /^\s*Feature:/;
+const BLOCK_START = /^\s*(Scenario Outline|Scenario Template|Scenario|Example|Rule):/;
+const TAG_LINE = /^\s*@/;
+const TABLE_ROW = /^\s*\|/;
+
+interface FeatureBlock {
+  // Tags of the block, in order
+  tags: string[];
+  indent: string;
+  // Title line and everything below it
+  lines: string[];
+}
+
+interface FeatureDocument {
+  header: string[];
+  blocks: FeatureBlock[];
+}
+
+const parseFeatureDocuments = (text: string): FeatureDocument[] => {
+  const documents: FeatureDocument[] = [];
+  let preamble: string[] = [];
+  let pending: string[] = [];
+  let block: FeatureBlock | null = null;
+  const current = () => documents[documents.length - 1];
+
+  for (const line of text.split('\n')) {
+    if (TAG_LINE.test(line) || (pending.length && !line.trim())) {
+      pending.push(line);
+    } else if (FEATURE.test(line)) {
+      documents.push({ header: [...preamble, ...pending, line], blocks: [] });
+      preamble = [];
+      pending = [];
+      block = null;
+    } else if (BLOCK_START.test(line) && current()) {
+      block = {
+        tags: pending.join(' ').split(/\s+/).filter(t => t.startsWith('@')),
+        indent: line.match(/^\s*/)![0],
+        lines: [line],
+      };
+      current().blocks.push(block);
+      pending = [];
+    } else {
+      const target = block?.lines || current()?.header || preamble;
+      target.push(...pending, line);
+      pending = [];
+    }
+  }
+  if (pending.length) (block?.lines || current()?.header || preamble).push(...pending);
+  return documents;
+};
+
+const trimBlank = (lines: string[]) => {
+  const out = [...lines];
+  while (out.length && !out[out.length - 1].trim()) out.pop();
+  while (out.length && !out[0].trim()) out.shift();
+  return out;
+};
+
+const isOutline = (block: FeatureBlock) => /^\s*Scenario (Outline|Template):/.test(block.lines[0]);
+
+// Data rows of every Examples table in the block (the header row of each table is skipped)
+const exampleRows = (block: FeatureBlock): string[] => {
+  const rows: string[] = [];
+  let inTable = false;
+  for (const line of block.lines) {
+    if (TABLE_ROW.test(line)) {
+      if (inTable) rows.push(line);
+      inTable = true;
+    } else if (line.trim()) {
+      inTable = false;
+    }
+  }
+  return rows;
+};
+
+// Adds another chunk's outline rows and tags to an outline with the same title
+const mergeOutline = (into: FeatureBlock, from: FeatureBlock) => {
+  const existing = new Set(into.lines.filter(l => TABLE_ROW.test(l)).map(normalize));
+  const rows = exampleRows(from).filter(r => !existing.has(normalize(r)));
+  let last = into.lines.length - 1;
+  while (last >= 0 && !TABLE_ROW.test(into.lines[last])) last--;
+  if (rows.length && last >= 0) into.lines.splice(last + 1, 0, ...rows);
+  from.tags.forEach(t => !into.tags.includes(t) && into.tags.push(t));
+};
+
+const renderBlock = (block: FeatureBlock) => [
+  ...(block.tags.length ? [`${block.indent}${block.tags.join(' ')}`] : []),
+  ...trimBlank(block.lines),
+].join('\n');
+
+// Merges feature files of one module into a single Feature: the first file's
+// header and Background are kept, scenarios are appended once, and a Scenario
+// Outline that several chunks wrote gets all their Examples rows.
+export const mergeFeatureFiles = (files: string[]): string => {
+  const sources = files.filter(f => f.trim());
+  if (sources.length <= 1) return sources[0] || '';
+
+  const documents = sources.flatMap(parseFeatureDocuments);
+  if (!documents.length) return sources.join('\n\n');
+
+  const blocks = new OrderedEntries<FeatureBlock>();
+  for (const document of documents) {
+    for (const block of document.blocks) {
+      const key = isOutline(block) ? `outline:${normalize(block.lines[0])}` : normalize(renderBlock(block));
+      const copy = { ...block, tags: [...block.tags], lines: [...block.lines] };
+      const kept = blocks.add(key, copy);
+      if (kept !== copy && isOutline(block)) mergeOutline(kept, block);
+    }
+  }
+
+  return [
+    trimBlank(documents[0].header).join('\n'),
+    ...blocks.values().map(renderBlock),
+  ].join('\n\n');
+};
+
+// Only the scenarios whose tags pass the filter, under their Feature headers; "" when none do
+export const selectScenarios = (text: string, keep: (tags: string[]) => boolean): string =>
+  parseFeatureDocuments(text)
+    .map(document => {
+      const blocks = document.blocks.filter(block => keep(block.tags));
+      return blocks.length ? [trimBlank(document.header).join('\n'), ...blocks.map(renderBlock)].join('\n\n') : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+// ---------- Robot Framework ----------
+
+const SECTION_HEADER = /^\*{3}\s*(.+?)\s*\*{3}/;
+// Settings that may only appear once per file
+const SINGLE_SETTINGS = new Set([
+  'documentation', 'suite setup', 'suite teardown', 'test setup', 'test teardown',
+  'test template', 'test timeout', 'force tags', 'default tags', 'test tags',
+]);
+
+const cells = (line: string) => line.trim().split(/\s{2,}|\t/);
+// Robot names ignore case, spaces and underscores
+const robotName = (name: string) => name.toLowerCase().replace(/[\s_]+/g, '');
+
+const robotEntryKey = (section: string, line: string): string => {
+  const [first] = cells(line);
+  if (section.startsWith('setting')) {
+    return SINGLE_SETTINGS.has(first.toLowerCase()) ? first.toLowerCase() : normalize(line);
+  }
+  return robotName(first);
+};
+
+// Merges .robot files: each section appears once, settings and variables are
+// kept once, and test cases and keywords are kept once per name
+export const mergeRobotFiles = (files: string[]): string => {
+  const sources = files.filter(f => f.trim());
+  if (sources.length <= 1) return sources[0] || '';
+
+  const sections = new OrderedEntries<{ header: string; entries: OrderedEntries<string[]> }>();
+
+  for (const source of sources) {
+    let section: { header: string; entries: OrderedEntries<string[]> } | null = null;
+    let name = '';
+    let entry: string[] | null = null;
+
+    for (const line of source.split('\n')) {
+      const header = line.match(SECTION_HEADER);
+      if (header) {
+        name = header[1].toLowerCase().replace(/s$/, '');
+        section = sections.add(name, { header: line.trim(), entries: new OrderedEntries<string[]>() });
+        entry = null;
+        continue;
+      }
+      if (!section) continue;
+      const startsEntry = line.trim() && !/^\s/.test(line) && !line.startsWith('...') && !line.startsWith('#');
+      if (startsEntry) {
+        const lines = [line];
+        const kept = section.entries.add(robotEntryKey(name, line), lines);
+        // Lines of a duplicate entry are collected and then dropped
+        entry = kept === lines ? kept : [];
+      } else if (entry) {
+        entry.push(line);
+      } else if (line.trim()) {
+        section.entries.add(normalize(line), [line]);
+      }
+    }
+  }
+
+  return sections.values().map(({ header, entries }) => {
+    const blocks = entries.values().map(lines => trimBlank(lines).join('\n'));
+    const multiline = blocks.some(b => b.includes('\n'));
+    return `${header}\n${blocks.join(multiline ? '\n\n' : '\n')}`;
+  }).join('\n\n');
+};
+
+// ---------- JSON ----------
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mergeJsonValues = (into: unknown, from: unknown): unknown => {
+  if (Array.isArray(into) && Array.isArray(from)) {
+    const seen = new Set(into.map(item => JSON.stringify(item)));
+    return [...into, ...from.filter(item => !seen.has(JSON.stringify(item)))];
+  }
+  if (isJsonObject(into) && isJsonObject(from)) {
+    const merged = { ...into };
+    for (const [key, value] of Object.entries(from)) {
+      merged[key] = key in merged ? mergeJsonValues(merged[key], value) : value;
+    }
+    return merged;
+  }
+  return into;
+};
+
+// Merges JSON data files such as the BDD layers' testData.json: objects get the
+// keys of every file and arrays their distinct items, while a value set in two
+// files keeps the first one. Files that don't parse are kept one after another.
+export const mergeJsonFiles = (files: string[]): string => {
+  const sources = files.filter(f => f.trim());
+  if (sources.length <= 1) return sources[0] || '';
+  try {
+    return JSON.stringify(sources.map(source => JSON.parse(source)).reduce(mergeJsonValues), null, 2);
+  } catch {
+    return sources.join('\n\n');
+  }
+};
+
+// ---------- Python ----------
+
+// Index of the comment on a line, ignoring # inside strings; -1 when there is none
+const commentStart = (line: string): number => {
+  let quote = '';
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === '\\') i++;
+      else if (c === quote) quote = '';
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === '#') return i;
+  }
+  return -1;
+};
+
+const stripComment = (line: string) => {
+  const at = commentStart(line);
+  return at === -1 ? line : line.slice(0, at);
+};
+
+// Bracket depth change of one line, ignoring strings and comments
+const bracketDelta = (line: string): number => {
+  let depth = 0;
+  let quote = '';
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === '\\') i++;
+      else if (c === quote) quote = '';
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === '#') break;
+    else if ('([{'.includes(c)) depth++;
+    else if (')]}'.includes(c)) depth--;
+  }
+  return depth;
+};
+
+const pythonKey = (statement: string[]): string => {
+  const code = statement.filter(l => !/^[@#]/.test(l.trim()));
+  const match = code[0]?.match(/^(?:async\s+)?(?:def|class)\s+(\w+)/) || code[0]?.match(/^(\w+)\s*(?::[^=]+)?=/);
+  return match ? `name:${match[1]}` : normalize(code.join('\n'));
+};
+
+const pythonCode = (text: string) => normalize(text.split('\n').map(stripComment).join('\n'));
+
+// A dict or list literal assigned to a name, e.g. USERS = { ... }: the text up
+// to its opening bracket, its entries without their separating commas, and the
+// closing bracket with anything after it
+interface PythonLiteral {
+  open: string;
+  kind: '{' | '[';
+  items: string[];
+  close: string;
+}
+
+const LITERAL_OPEN = /^((?:[ \t]*#.*\n)*\w+\s*(?::[^=\n]+)?=\s*)([[{])/;
+
+const parsePythonLiteral = (statement: string[]): PythonLiteral | null => {
+  const text = statement.join('\n');
+  const open = text.match(LITERAL_OPEN);
+  if (!open) return null;
+
+  const items: string[] = [];
+  let start = open[0].length;
+  let depth = 0;
+  let quote = '';
+  for (let i = open[0].length - 1; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\') i++;
+      else if (text.startsWith(quote, i)) {
+        i += quote.length - 1;
+        quote = '';
+      }
+    } else if (c === '"' || c === "'") {
+      quote = text.startsWith(c.repeat(3), i) ? c.repeat(3) : c;
+      i += quote.length - 1;
+    } else if (c === '#') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end - 1;
+    } else if ('([{'.includes(c)) depth++;
+    else if (c === ',' && depth === 1) {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    } else if (')]}'.includes(c) && --depth === 0) {
+      items.push(text.slice(start, i));
+      const close = text.slice(i);
+      if (!/^[\]}][ \t]*(?:#.*)?$/.test(close)) return null;
+      return { open: open[1] + open[2], kind: open[2] as '{' | '[', items: items.map(item => item.trim()).filter(Boolean), close };
+    }
+  }
+  return null;
+};
+
+// A string literal's text, so 'a' and "a" are the same key; other code unchanged
+const unquote = (code: string) => code.replace(/^(['"])((?:\\.|(?!\1).)*)\1$/, 'str:$2');
+
+// Dict entries are keyed by their key, list items by their value; comments
+// between entries are kept once each
+const literalItemKey = (kind: '{' | '[', item: string): string => {
+  const code = pythonCode(item);
+  if (!code) return `comment:${normalize(item)}`;
+  const key = kind === '{' && code.match(/^(?:'(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*"|[\w.]+)\s*:/);
+  if (key) return `key:${unquote(key[0].slice(0, -1).trim())}`;
+  return `value:${unquote(code)}`;
+};
+
+// The entry followed by its comma, placed before a comment on its last line of code
+const withComma = (item: string): string => {
+  const lines = item.split('\n');
+  let last = lines.length - 1;
+  while (last >= 0 && !stripComment(lines[last]).trim()) last--;
+  if (last === -1) return item;
+  const code = stripComment(lines[last]).trimEnd();
+  const comment = lines[last].slice(code.length).trim();
+  lines[last] = `${code},${comment ? `  ${comment}` : ''}`;
+  return lines.join('\n');
+};
+
+const conflictNote = (text: string, indent = '') => [
+  `${indent}# Conflict: another chunk defines this differently:`,
+  ...text.split('\n').map(line => `${indent}# ${line.trim() ? line.trimStart() : ''}`.trimEnd()),
+];
+
+// One statement from the definitions of a name in several chunks: dict and
+// list literals are merged entry by entry; otherwise the first definition is
+// kept and each different one is left below it as a comment
+const mergePythonDefinitions = (definitions: string[][]): string => {
+  const [first] = definitions;
+  const distinct = definitions.filter((d, i) => definitions.findIndex(o => pythonCode(o.join('\n')) === pythonCode(d.join('\n'))) === i);
+  if (distinct.length === 1) return first.join('\n');
+
+  // A class's body is merged like a module, one member at a time
+  const header = (d: string[]) => d.findIndex(l => /^class\s/.test(l));
+  if (distinct.every(d => header(d) !== -1 && normalize(d[header(d)]) === normalize(distinct[0][header(distinct[0])]))) {
+    const bodies = distinct.map(d => reindent(d.slice(header(d) + 1).join('\n'), ''));
+    const indent = first.slice(header(first) + 1).find(l => l.trim())?.match(/^[ \t]+/)?.[0] || '    ';
+    return [...first.slice(0, header(first) + 1), reindent(mergePythonStatements(bodies, true), indent)].join('\n');
+  }
+
+  const literals = distinct.map(parsePythonLiteral);
+  if (literals.every(l => l && l.kind === literals[0]!.kind)) {
+    const { open, kind, close } = literals[0]!;
+    const items = new OrderedEntries<{ item: string; conflicts: string[] }>();
+    for (const literal of literals as PythonLiteral[]) {
+      for (const item of literal.items) {
+        const key = literalItemKey(kind, item);
+        const entry = items.add(key, { item, conflicts: [] });
+        const code = pythonCode(item);
+        if (key.startsWith('key:') && pythonCode(entry.item) !== code && !entry.conflicts.some(c => pythonCode(c) === code)) {
+          entry.conflicts.push(item);
+        }
+      }
+    }
+    const indent = first.slice(open.split('\n').length).find(l => l.trim())?.match(/^[ \t]+/)?.[0] || '    ';
+    const body = items.values().flatMap(({ item, conflicts }) => [
+      ...withComma(item).split('\n').map((line, i) => (i === 0 ? indent + line : line)),
+      ...conflicts.flatMap(conflict => conflictNote(conflict, indent)),
+    ]);
+    return [open, ...body, close].join('\n');
+  }
+
+  return [...first, ...distinct.slice(1).flatMap(d => conflictNote(d.join('\n')))].join('\n');
+};
+
+// Top-level statements of a module, each with the comments, decorators and
+// continued lines that belong to it
+const splitPythonStatements = (source: string): string[][] => {
+  const statements: string[][] = [];
+  let current: string[] = [];
+  let comments: string[] = [];
+  let depth = 0;
+  const flush = () => {
+    if (current.length) statements.push(trimBlank(current));
+    current = [];
+  };
+
+  for (const line of source.split('\n')) {
+    const topLevel = depth === 0 && line.trim() && !/^\s/.test(line);
+    if (topLevel && line.startsWith('#')) {
+      flush();
+      comments.push(line);
+      continue;
+    }
+    // Decorators and continued lines belong to the statement that follows
+    const decorated = current.some(l => l.startsWith('@')) && current.every(l => !l.trim() || /^[@#]/.test(l));
+    const continued = current[current.length - 1]?.endsWith('\\');
+    if (topLevel && !/^(?:elif|else|except|finally)\b/.test(line) && !decorated && !continued) {
+      flush();
+      current = [...comments];
+      comments = [];
+    }
+    if (current.length || line.trim()) current.push(line);
+    depth = Math.max(0, depth + bracketDelta(line));
+  }
+  flush();
+  return statements;
+};
+
+// Statements of several modules (or class bodies), kept once per name;
+// statements without a name are kept once each. In a class body, one-line
+// statements such as locators stay on consecutive lines.
+const mergePythonStatements = (sources: string[], classBody = false): string => {
+  const statements = new OrderedEntries<string[][]>();
+  for (const source of sources) {
+    for (const statement of splitPythonStatements(source)) {
+      const key = pythonKey(statement);
+      const definitions = statements.add(key, []);
+      if (key.startsWith('name:') || !definitions.length) definitions.push(statement);
+    }
+  }
+  const texts = statements.values().map(mergePythonDefinitions);
+  return texts.map((text, i) => {
+    if (i === 0) return text;
+    const single = classBody && !text.includes('\n') && !texts[i - 1].includes('\n');
+    return `${single ? '\n' : '\n\n'}${text}`;
+  }).join('');
+};
+
+// Merges Python modules such as Robot's testdata.py and Selenium's page
+// objects: imports, constants, functions and classes are kept once per name,
+// a class defined in several modules gets the methods and attributes of all of
+// them, and so do dict and list literals their entries
+export const mergePythonModules = (files: string[]): string => {
+  const sources = files.filter(f => f.trim());
+  if (sources.length <= 1) return sources[0] || '';
+  return mergePythonStatements(sources);
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { TestCase } from "./testCaseData";
+import { DEFAULT_MODULE, assignModules, groupByModule, moduleIdentifier } from "./modules";
+
+const testCase = (id: string, fields: Partial<TestCase> = {}): TestCase => ({
+  id,
+  description: "",
+  steps: "",
+  expected: "",
+  locator: "",
+  testData: "",
+  ...fields,
+});
+
+const modulesOf = (testCases: TestCase[]) => testCases.map(tc => tc.module);
+
+describe("moduleIdentifier", () => {
+  it("turns a name into a PascalCase identifier", () => {
+    expect(moduleIdentifier("shopping cart")).toBe("ShoppingCart");
+    expect(moduleIdentifier("user-profile / settings")).toBe("UserProfileSettings");
+  });
+
+  it("leaves its own output unchanged", () => {
+    expect(moduleIdentifier("ShoppingCart")).toBe("ShoppingCart");
+  });
+
+  it("drops leading digits and keeps at most 50 characters", () => {
+    expect(moduleIdentifier("3 cart")).toBe("Cart");
+    expect(moduleIdentifier("a".repeat(60))).toHaveLength(50);
+  });
+
+  it("returns an empty string when nothing is left", () => {
+    expect(moduleIdentifier("!!! 42")).toBe("");
+  });
+});
+
+describe("assignModules", () => {
+  it("takes the module from the first matching rule, ignoring case", () => {
+    const rules = [
+      { pattern: "tc_pay_*", module: "checkout" },
+      { pattern: "TC_PAY_001", module: "Refunds" },
+    ];
+    expect(modulesOf(assignModules([testCase("TC_PAY_001", { module: "Billing" }), testCase("PAY_001", { module: "Billing" })], rules)))
+      .toEqual(["Checkout", "Billing"]);
+  });
+
+  it("falls back to the Module column, then the word after TC in the ID", () => {
+    expect(modulesOf(assignModules([
+      testCase("TC_CART_001", { module: "user profile" }),
+      testCase("TC_CART_002"),
+      testCase("TC-search-1"),
+    ], []))).toEqual(["UserProfile", "Cart", "Search"]);
+  });
+
+  it("places the remaining cases by the first meaningful word of a description", () => {
+    expect(modulesOf(assignModules([
+      testCase("1", { description: "" }),
+      testCase("2", { description: "A login with valid credentials" }),
+      testCase("TC_CART_001"),
+    ], []))).toEqual(["Login", "Login", "Cart"]);
+  });
+
+  it(`uses ${DEFAULT_MODULE} when nothing names a module`, () => {
+    expect(modulesOf(assignModules([testCase("1"), testCase("2", { description: "Do it" })], []))).toEqual([DEFAULT_MODULE, DEFAULT_MODULE]);
+  });
+
+  it("applies renames, merging modules renamed to the same name", () => {
+    const testCases = [testCase("TC_CART_001"), testCase("TC_BASKET_001"), testCase("TC_LOGIN_001")];
+    expect(modulesOf(assignModules(testCases, [], { Cart: "shopping cart", Basket: "ShoppingCart", Login: "!!!" })))
+      .toEqual(["ShoppingCart", "ShoppingCart", "Login"]);
+  });
+});
+
+describe("groupByModule", () => {
+  it("groups test cases by module in the order modules first appear", () => {
+    const testCases = [
+      testCase("1", { module: "Cart" }),
+      testCase("2", { module: "Login" }),
+      testCase("3", { module: "cart" }),
+      testCase("4"),
+    ];
+    expect(groupByModule(testCases).map(g => [g.name, g.testCases.map(tc => tc.id)])).toEqual([
+      ["Cart", ["1", "3"]],
+      ["Login", ["2"]],
+      [DEFAULT_MODULE, ["4"]],
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { TestCase } from "./testCaseData";
+
+// User-defined grouping: test cases whose ID matches the pattern (* matches
+// anything, case-insensitive) belong to the module. The first matching rule wins.
+export interface ModuleRule {
+  pattern: string;
+  module: string;
+}
+
+export interface ModuleGroup {
+  name: string;
+  testCases: TestCase[];
+}
+
+const RULES_STORAGE_KEY = "qatalyst.moduleRules";
+
+// Module of the cases nothing else places, when their descriptions don't name one either
+export const DEFAULT_MODULE = "General";
+
+export const loadModuleRules = (): ModuleRule[] => {
+  try {
+    const rules = JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) || "[]");
+    return Array.isArray(rules) ? rules.filter(r => typeof r?.pattern === "string" && typeof r?.module === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveModuleRules = (rules: ModuleRule[]) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+// PascalCase identifier for class and file names ("shopping cart" → "ShoppingCart"); "" when
+// nothing is left. Unlike toModuleName it keeps inner capitals, so it leaves its own output unchanged.
+export const moduleIdentifier = (name: string): string =>
+  name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("")
+    .replace(/^[0-9]+/, "")
+    .slice(0, 50);
+
+const ruleMatches = (rule: ModuleRule, id: string): boolean => {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return false;
+  const source = pattern.split("*").map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`, "i").test(id.trim());
+};
+
+// Where a test case's module comes from: a matching rule, its Module column, or
+// the word after TC in its ID ("TC_CART_001" → "Cart"); null when none says
+const explicitModule = (tc: TestCase, rules: ModuleRule[]): string | null => {
+  const rule = rules.find(r => ruleMatches(r, tc.id || ""));
+  const name = rule?.module || tc.module || tc.id?.match(/^TC[_-]([A-Za-z]+)/i)?.[1].toLowerCase() || "";
+  return moduleIdentifier(name) || null;
+};
+
+// Module for cases nothing places: the first meaningful word of a description
+const fallbackModule = (testCases: TestCase[]): string => {
+  const word = testCases
+    .map(tc => (tc.description || "").split(/[\s_-]+/).find(w => w.replace(/[^a-zA-Z]/g, "").length > 2))
+    .find(Boolean);
+  return moduleIdentifier(word?.replace(/[^a-zA-Z]/g, "").toLowerCase() || "") || DEFAULT_MODULE;
+};
+
+// Sets each test case's module from the rules, its Module column or its ID,
+// then applies renames (detected name → new name; renaming two modules to the
+// same name merges them)
+export const assignModules = (testCases: TestCase[], rules: ModuleRule[], renames: Record<string, string> = {}): TestCase[] => {
+  const unplaced = testCases.filter(tc => !explicitModule(tc, rules));
+  const fallback = unplaced.length ? fallbackModule(unplaced) : DEFAULT_MODULE;
+  return testCases.map(tc => {
+    const detected = explicitModule(tc, rules) || fallback;
+    return { ...tc, module: moduleIdentifier(renames[detected] || "") || detected };
+  });
+};
+
+// Test cases by module, in the order modules first appear
+export const groupByModule = (testCases: TestCase[]): ModuleGroup[] => {
+  const groups = new Map<string, TestCase[]>();
+  for (const tc of testCases) {
+    const name = moduleIdentifier(tc.module || "") || DEFAULT_MODULE;
+    groups.set(name, [...(groups.get(name) || []), tc]);
+  }
+  return [...groups].map(([name, cases]) => ({ name, testCases: cases }));
+};
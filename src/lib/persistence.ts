@@ -0,0 +1,145 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { TestCaseData } from "./testCaseData";
+
+const DEFAULT_PROJECT = "Default Project";
+
+export type GenerationOutputType = "gherkin" | "playwright" | "selenium" | "cypress" | "webdriverio" | "testcafe" | "robot" | "api";
+export type GenerationMode = "classic" | "bdd";
+
+// What a generation was given, enough to show it again without the upload
+export interface GenerationInput {
+  testData: TestCaseData;
+  // Gherkin the framework code was generated against
+  gherkin?: string;
+}
+
+export interface GenerationRun {
+  id: string;
+  suiteId: string;
+  suiteName: string;
+  projectName: string;
+  outputType: GenerationOutputType;
+  mode: GenerationMode;
+  framework: string | null;
+  model: string | null;
+  input: GenerationInput;
+  // { gherkin } for Gherkin runs, otherwise the generated files keyed by role
+  output: Record<string, string>;
+  createdAt: string;
+}
+
+type GenerationRunRow = Tables<"generation_runs"> & {
+  test_suites: { name: string; projects: { name: string; workspace_id: string | null } | null } | null;
+};
+
+const toGenerationRun = (row: GenerationRunRow): GenerationRun => ({
+  id: row.id,
+  suiteId: row.suite_id,
+  suiteName: row.test_suites?.name || "",
+  projectName: row.test_suites?.projects?.name || "",
+  outputType: row.output_type as GenerationOutputType,
+  mode: row.mode as GenerationMode,
+  framework: row.framework,
+  model: row.model,
+  input: row.input as unknown as GenerationInput,
+  output: row.output as Record<string, string>,
+  createdAt: row.created_at,
+});
+
+// The project new suites of a workspace are filed under, created on first use
+export const getDefaultProject = async (workspaceId: string): Promise<string> => {
+  const { data: existing, error } = await supabase
+    .from("projects")
+    .select("id")
+    .eq("workspace_id", workspaceId)
+    .eq("name", DEFAULT_PROJECT)
+    .order("created_at")
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (existing) return existing.id;
+
+  const { data: created, error: insertError } = await supabase
+    .from("projects")
+    .insert({ name: DEFAULT_PROJECT, workspace_id: workspaceId })
+    .select("id")
+    .single();
+  if (insertError) throw insertError;
+  return created.id;
+};
+
+// Store the test cases sent to generation as a suite of the workspace's default project
+export const saveTestSuite = async (workspaceId: string, sourceFile: string | null, data: TestCaseData): Promise<string> => {
+  const projectId = await getDefaultProject(workspaceId);
+  const extension = sourceFile?.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() || null;
+
+  const { data: suite, error } = await supabase
+    .from("test_suites")
+    .insert({
+      project_id: projectId,
+      name: sourceFile?.replace(/\.[^.]+$/, "") || `Suite ${new Date().toLocaleString()}`,
+      source_file: sourceFile,
+      source_format: extension,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  if (data.testCases.length) {
+    const { error: casesError } = await supabase.from("test_cases").insert(
+      data.testCases.map((tc, position) => ({
+        suite_id: suite.id,
+        position,
+        case_key: tc.sourceKey || tc.id,
+        module: tc.module || null,
+        data: tc as unknown as Json,
+      }))
+    );
+    if (casesError) throw casesError;
+  }
+  return suite.id;
+};
+
+export const recordGenerationRun = async (run: {
+  suiteId: string;
+  outputType: GenerationOutputType;
+  mode: GenerationMode;
+  framework?: string | null;
+  model?: string | null;
+  input: GenerationInput;
+  output: Record<string, string>;
+}): Promise<string> => {
+  const { data, error } = await supabase
+    .from("generation_runs")
+    .insert({
+      suite_id: run.suiteId,
+      output_type: run.outputType,
+      mode: run.mode,
+      framework: run.framework ?? null,
+      model: run.model ?? null,
+      input: run.input as unknown as Json,
+      output: run.output,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+// Most recent generations of a workspace first
+export const listGenerationRuns = async (workspaceId: string, limit = 25): Promise<GenerationRun[]> => {
+  const { data, error } = await supabase
+    .from("generation_runs")
+    .select("*, test_suites!inner(name, projects!inner(name, workspace_id))")
+    .eq("test_suites.projects.workspace_id", workspaceId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as GenerationRunRow[]).map(toGenerationRun);
+};
+
+export const deleteGenerationRun = async (id: string): Promise<void> => {
+  const { error } = await supabase.from("generation_runs").delete().eq("id", id);
+  if (error) throw error;
+};
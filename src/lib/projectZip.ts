@@ -0,0 +1,127 @@
+import JSZip from "jszip";
+import { GeneratedCode, ProjectCode, ProjectLayout } from "./generatedCode";
+import { basePageFile } from "./basePage";
+import { ProjectFile, ProjectFramework, ScaffoldingTarget, renderReadme, renderScaffolding, scaffoldingTarget } from "./scaffolding/templates";
+import { ScaffoldingSettings } from "./scaffolding/settings";
+
+// File names of one module's generated files; "" for the files a framework doesn't have
+export const moduleFileNames = (
+  framework: ProjectFramework,
+  module: string,
+  layout: Partial<ProjectLayout> = {}
+): Record<keyof GeneratedCode, string> => {
+  const lower = module.toLowerCase();
+  switch (scaffoldingTarget(framework, layout)) {
+    case "robot":
+      return { featureFile: "", pageObject: `${lower}_keywords.robot`, testFile: `${lower}_tests.robot`, dataFile: `${lower}_data.py` };
+    case "selenium-java":
+      return { featureFile: `${lower}.feature`, pageObject: `${module}Page.java`, testFile: `${module}Steps.java`, dataFile: "" };
+    case "selenium-python":
+      return { featureFile: `${lower}.feature`, pageObject: `${lower}_page.py`, testFile: `test_${lower}.py`, dataFile: "" };
+    case "selenium-csharp":
+      return { featureFile: `${module}.feature`, pageObject: `${module}Page.cs`, testFile: `${module}Steps.cs`, dataFile: "" };
+    case "playwright-native":
+      return { featureFile: "", pageObject: `${lower}.page.ts`, testFile: `${lower}.spec.ts`, dataFile: "" };
+    case "playwright-typescript":
+    case "cypress-typescript":
+      return { featureFile: `${lower}.feature`, pageObject: `${lower}.page.ts`, testFile: `${lower}.steps.ts`, dataFile: "" };
+    case "api-playwright":
+      return { featureFile: "", pageObject: `${lower}.api.ts`, testFile: `${lower}.api.spec.ts`, dataFile: `${lower}.schemas.ts` };
+    case "api-rest-assured":
+      return { featureFile: "", pageObject: `${module}Requests.java`, testFile: `${module}ApiTest.java`, dataFile: `${module}Schemas.java` };
+    case "api-robot":
+      return { featureFile: "", pageObject: `${lower}_requests.resource`, testFile: `${lower}_api.robot`, dataFile: `${lower}_schemas.py` };
+    default:
+      return { featureFile: `${lower}.feature`, pageObject: `${lower}.page.js`, testFile: `${lower}.steps.js`, dataFile: "" };
+  }
+};
+
+// Folder each generated file goes in. Step definitions import '../pages/<module>.page'
+// and page objects './base.page'; Robot finds resources and data through --pythonpath
+// (set in the scaffolding's robot.args). Java follows the Maven layout, packages named
+// after their folders; pytest-bdd finds features through bdd_features_base_dir.
+const CUCUMBER_JS_FOLDERS: Record<keyof GeneratedCode, string> = {
+  featureFile: "features",
+  pageObject: "pages",
+  testFile: "step_definitions",
+  dataFile: "data",
+};
+
+const FOLDERS: Record<ScaffoldingTarget, Record<keyof GeneratedCode, string>> = {
+  playwright: CUCUMBER_JS_FOLDERS,
+  "playwright-esm": CUCUMBER_JS_FOLDERS,
+  "playwright-typescript": CUCUMBER_JS_FOLDERS,
+  "playwright-native": { featureFile: "features", pageObject: "pages", testFile: "tests", dataFile: "data" },
+  selenium: CUCUMBER_JS_FOLDERS,
+  "selenium-java": {
+    featureFile: "src/test/resources/features",
+    pageObject: "src/test/java/pages",
+    testFile: "src/test/java/steps",
+    dataFile: "src/test/resources/data",
+  },
+  "selenium-python": { featureFile: "features", pageObject: "pages", testFile: "tests/step_defs", dataFile: "data" },
+  "selenium-csharp": { featureFile: "Features", pageObject: "Pages", testFile: "StepDefinitions", dataFile: "Data" },
+  cypress: CUCUMBER_JS_FOLDERS,
+  "cypress-esm": CUCUMBER_JS_FOLDERS,
+  "cypress-typescript": CUCUMBER_JS_FOLDERS,
+  webdriverio: CUCUMBER_JS_FOLDERS,
+  testcafe: CUCUMBER_JS_FOLDERS,
+  robot: { featureFile: "features", pageObject: "resources", testFile: "tests", dataFile: "data" },
+  "api-playwright": { featureFile: "features", pageObject: "api", testFile: "tests", dataFile: "schemas" },
+  "api-rest-assured": {
+    featureFile: "src/test/resources/features",
+    pageObject: "src/test/java/requests",
+    testFile: "src/test/java/tests",
+    dataFile: "src/test/java/schemas",
+  },
+  "api-robot": { featureFile: "features", pageObject: "resources", testFile: "tests", dataFile: "data" },
+};
+
+// Every file of a generated project: the generated files, laid out the way the
+// framework runs them, merged with the framework's scaffolding into one tree
+export const projectFiles = (
+  framework: ProjectFramework,
+  project: ProjectCode,
+  settings: ScaffoldingSettings,
+  name = `qatalyst-${framework}-tests`
+): ProjectFile[] => {
+  const target = scaffoldingTarget(framework, project);
+  const folders = FOLDERS[target];
+  const generated = project.modules.flatMap(({ module, code }) => {
+    const names = moduleFileNames(framework, module, project);
+    return (Object.keys(names) as (keyof GeneratedCode)[])
+      .filter(key => names[key] && code[key])
+      .map(key => ({ path: `${folders[key]}/${names[key]}`, content: code[key] }));
+  });
+  const base = basePageFile(framework, project.language);
+  if (base && project.basePage) generated.push({ path: `${folders.pageObject}/${base.fileName}`, content: project.basePage });
+
+  // Generated files win if a module's file happens to share a scaffolding path
+  const modules = project.modules.map(m => m.module);
+  const paths = new Set(generated.map(file => file.path));
+  const scaffolding = renderScaffolding(target, name, modules, settings).filter(file => !paths.has(file.path));
+  const files = [...generated, ...scaffolding];
+  return [...files, renderReadme(target, name, modules, settings, files)];
+};
+
+// Zips the project under a folder of its name and saves it
+export const downloadProjectZip = async (
+  framework: ProjectFramework,
+  project: ProjectCode,
+  settings: ScaffoldingSettings,
+  name = `qatalyst-${framework}-tests`
+) => {
+  const zip = new JSZip();
+  const folder = zip.folder(name)!;
+  projectFiles(framework, project, settings, name).forEach(file => folder.file(file.path, file.content.endsWith("\n") ? file.content : file.content + "\n"));
+  const blob = await zip.generateAsync({ type: "blob" });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${name}.zip`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
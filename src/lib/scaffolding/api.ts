@@ -0,0 +1,249 @@
+import type { ScaffoldingTemplates } from "./templates";
+
+// Scaffolding of the API test projects: no browser, just the HTTP client, the
+// base URL the request builders resolve against and a JSON schema validator
+
+export const API_PLAYWRIGHT_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+    "test": "playwright test",
+{{#each modules}}
+    "test:{{lower}}": "playwright test tests/{{lower}}.api.spec.ts",
+{{/each}}
+    "typecheck": "tsc --noEmit",
+    "report": "playwright show-report"
+  },
+  "dependencies": {
+    "ajv": "^8.16.0"
+  },
+  "devDependencies": {
+    "@playwright/test": "^1.45.0",
+    "@types/node": "^20.14.0",
+    "typescript": "^5.5.0"
+  }
+}
+`,
+    },
+    {
+      // BASE_URL overrides the default; the request fixture needs no browser
+      path: "playwright.config.ts",
+      template: `import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './tests',
+  timeout: {{timeoutMs}},
+  fullyParallel: true,
+  retries: process.env.CI ? 1 : 0,
+  reporter: [['list'], ['html', { open: 'never' }]],
+  use: {
+    baseURL: process.env.BASE_URL || '{{baseUrl}}',
+    extraHTTPHeaders: { Accept: 'application/json' },
+  },
+  projects: [{ name: 'api' }],
+});
+`,
+    },
+    {
+      path: "fixtures.ts",
+      template: `import { test as base } from '@playwright/test';
+{{#each modules}}
+import { {{name}}Api } from './api/{{lower}}.api';
+{{/each}}
+
+// Each module's request builders, bound to the test's request context. Specs import test and expect from here.
+type ApiFixtures = {
+{{#each modules}}
+  {{lower}}Api: {{name}}Api;
+{{/each}}
+};
+
+export const test = base.extend<ApiFixtures>({
+{{#each modules}}
+  {{lower}}Api: async ({ request }, use) => {
+    await use(new {{name}}Api(request));
+  },
+{{/each}}
+});
+
+export { expect } from '@playwright/test';
+`,
+    },
+    {
+      path: "support/schema.ts",
+      template: `import Ajv, { AnySchema } from 'ajv';
+import { expect } from '@playwright/test';
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+// Fails with every schema violation when body doesn't match schema
+export const expectToMatchSchema = (body: unknown, schema: AnySchema) => {
+  const validate = ajv.compile(schema);
+  const valid = validate(body);
+  expect(valid, ajv.errorsText(validate.errors)).toBe(true);
+};
+`,
+    },
+    {
+      path: "tsconfig.json",
+      template: `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "module": "commonjs",
+    "moduleResolution": "node",
+    "strict": true,
+    "esModuleInterop": true,
+    "resolveJsonModule": true,
+    "skipLibCheck": true,
+    "types": ["node"]
+  },
+  "include": ["fixtures.ts", "playwright.config.ts", "api/**/*.ts", "schemas/**/*.ts", "support/**/*.ts", "tests/**/*.ts"]
+}
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\nplaywright-report/\ntest-results/\n" },
+  ],
+};
+
+export const API_REST_ASSURED_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "mvn -q test-compile",
+  run: "mvn test",
+  files: [
+    {
+      path: "pom.xml",
+      template: `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0"
+         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 https://maven.apache.org/xsd/maven-4.0.0.xsd">
+  <modelVersion>4.0.0</modelVersion>
+
+  <groupId>com.qatalyst</groupId>
+  <artifactId>{{name}}</artifactId>
+  <version>1.0.0</version>
+
+  <properties>
+    <maven.compiler.release>17</maven.compiler.release>
+    <project.build.sourceEncoding>UTF-8</project.build.sourceEncoding>
+    <rest-assured.version>5.4.0</rest-assured.version>
+  </properties>
+
+  <dependencies>
+    <dependency>
+      <groupId>io.rest-assured</groupId>
+      <artifactId>rest-assured</artifactId>
+      <version>\${rest-assured.version}</version>
+      <scope>test</scope>
+    </dependency>
+    <dependency>
+      <groupId>io.rest-assured</groupId>
+      <artifactId>json-schema-validator</artifactId>
+      <version>\${rest-assured.version}</version>
+      <scope>test</scope>
+    </dependency>
+    <dependency>
+      <groupId>org.testng</groupId>
+      <artifactId>testng</artifactId>
+      <version>7.10.2</version>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.apache.maven.plugins</groupId>
+        <artifactId>maven-surefire-plugin</artifactId>
+        <version>3.3.0</version>
+      </plugin>
+    </plugins>
+  </build>
+</project>
+`,
+    },
+    {
+      path: "src/test/java/support/ApiConfig.java",
+      template: `package support;
+
+import io.restassured.builder.RequestSpecBuilder;
+import io.restassured.config.HttpClientConfig;
+import io.restassured.config.RestAssuredConfig;
+import io.restassured.filter.log.LogDetail;
+import io.restassured.http.ContentType;
+import io.restassured.specification.RequestSpecification;
+
+// Base request every request builder starts from; -DbaseUrl overrides the default
+public final class ApiConfig {
+    public static final String BASE_URL = System.getProperty("baseUrl", "{{baseUrl}}");
+    private static final int TIMEOUT_MS = {{timeoutMs}};
+
+    private ApiConfig() {
+    }
+
+    public static RequestSpecification spec() {
+        return new RequestSpecBuilder()
+            .setBaseUri(BASE_URL)
+            .setContentType(ContentType.JSON)
+            .setAccept(ContentType.JSON)
+            .setConfig(RestAssuredConfig.config().httpClient(HttpClientConfig.httpClientConfig()
+                .setParam("http.connection.timeout", TIMEOUT_MS)
+                .setParam("http.socket.timeout", TIMEOUT_MS)))
+            .log(LogDetail.URI)
+            .build();
+    }
+}
+`,
+    },
+    { path: ".gitignore", template: "target/\n.idea/\n" },
+  ],
+};
+
+export const API_ROBOT_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "pip install -r requirements.txt",
+  run: "robot --argumentfile robot.args tests",
+  files: [
+    { path: "requirements.txt", template: "robotframework>=7.0\nrobotframework-requests>=0.9.7\njsonschema>=4.22\n" },
+    {
+      // Request keywords, schemas and the schema library are found through --pythonpath
+      path: "robot.args",
+      template: `--pythonpath resources
+--pythonpath data
+--outputdir results
+--variable TIMEOUT:{{timeoutSeconds}}
+{{#if baseUrl}}
+--variable BASE_URL:{{baseUrl}}
+{{/if}}
+`,
+    },
+    {
+      path: "resources/SchemaValidation.py",
+      template: `from jsonschema import validate
+
+
+def response_should_match_schema(response, schema):
+    """Fails with the first schema violation when the response body doesn't match schema."""
+    validate(instance=response.json(), schema=schema)
+`,
+    },
+    {
+      // The "api" session every request keyword sends through
+      path: "tests/__init__.robot",
+      template: `*** Settings ***
+Documentation    {{name}}: {{#each modules}}{{name}}{{#unless last}}, {{/unless}}{{/each}}
+Library    RequestsLibrary
+Suite Setup    Create Session    api    \${BASE_URL}    timeout=\${TIMEOUT}
+Suite Teardown    Delete All Sessions
+`,
+    },
+    { path: ".gitignore", template: "__pycache__/\nresults/\n.venv/\n" },
+  ],
+};
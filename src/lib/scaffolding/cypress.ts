@@ -0,0 +1,126 @@
+import type { ScaffoldingTemplates } from "./templates";
+
+// Scaffolding of the Cypress projects written as ES modules or TypeScript.
+// esbuild bundles the step definitions either way; what changes is the
+// config file, the type checking and the step definition glob.
+
+const SCRIPTS = `{{#each modules}}
+    "test:{{lower}}": "cypress run --browser {{browser}} --spec features/{{lower}}.feature{{#unless headless}} --headed{{/unless}}",
+{{/each}}
+    "test": "cypress run --browser {{browser}}{{#unless headless}} --headed{{/unless}}",
+    "cy:open": "cypress open"`;
+
+const CONFIG = `import { defineConfig } from 'cypress';
+import createBundler from '@bahmutov/cypress-esbuild-preprocessor';
+import { addCucumberPreprocessorPlugin } from '@badeball/cypress-cucumber-preprocessor';
+import { createEsbuildPlugin } from '@badeball/cypress-cucumber-preprocessor/esbuild';
+
+export default defineConfig({
+  e2e: {
+{{#if baseUrl}}
+    baseUrl: '{{baseUrl}}',
+{{/if}}
+    specPattern: 'features/**/*.feature',
+    supportFile: false,
+    defaultCommandTimeout: {{timeoutMs}},
+    pageLoadTimeout: {{timeoutMs}},
+    // Feature files are compiled to specs with their step definitions bundled in
+    async setupNodeEvents(on, config) {
+      await addCucumberPreprocessorPlugin(on, config);
+      on('file:preprocessor', createBundler({ plugins: [createEsbuildPlugin(config)] }));
+      return config;
+    },
+  },
+});
+`;
+
+export const CYPRESS_ESM_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "type": "module",
+  "scripts": {
+${SCRIPTS}
+  },
+  "devDependencies": {
+    "@badeball/cypress-cucumber-preprocessor": "^20.1.0",
+    "@bahmutov/cypress-esbuild-preprocessor": "^2.2.2",
+    "cypress": "^13.13.0",
+    "esbuild": "^0.23.0"
+  }
+}
+`,
+    },
+    { path: "cypress.config.js", template: CONFIG },
+    {
+      path: ".cypress-cucumber-preprocessorrc.json",
+      template: `{
+  "stepDefinitions": "step_definitions/**/*.js"
+}
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\ncypress/screenshots/\ncypress/videos/\n" },
+  ],
+};
+
+export const CYPRESS_TYPESCRIPT_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+    "typecheck": "tsc --noEmit",
+${SCRIPTS}
+  },
+  "devDependencies": {
+    "@badeball/cypress-cucumber-preprocessor": "^20.1.0",
+    "@bahmutov/cypress-esbuild-preprocessor": "^2.2.2",
+    "@types/node": "^20.14.0",
+    "cypress": "^13.13.0",
+    "esbuild": "^0.23.0",
+    "typescript": "^5.5.0"
+  }
+}
+`,
+    },
+    { path: "cypress.config.ts", template: CONFIG },
+    {
+      path: "tsconfig.json",
+      template: `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "lib": ["ES2020", "DOM"],
+    "module": "commonjs",
+    "moduleResolution": "node",
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true,
+    "types": ["cypress", "node"]
+  },
+  "include": ["**/*.ts"]
+}
+`,
+    },
+    {
+      path: ".cypress-cucumber-preprocessorrc.json",
+      template: `{
+  "stepDefinitions": "step_definitions/**/*.ts"
+}
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\ncypress/screenshots/\ncypress/videos/\n" },
+  ],
+};
@@ -0,0 +1,107 @@
+// A small Mustache-like renderer for the scaffolding templates:
+//   {{name}}                        value from the context (inner scopes first)
+//   {{#if name}} ... {{else}} ... {{/if}}, {{#unless name}} ... {{/unless}}
+//   {{#each list}} ... {{/each}}    once per item, with the item's fields plus
+//                                   index, first and last in scope
+// Values are inserted as they are; templates produce code, not HTML. A block
+// tag alone on its line takes the whole line with it.
+
+export type TemplateValue = string | number | boolean | undefined | TemplateContext[];
+
+export interface TemplateContext {
+  [key: string]: TemplateValue;
+}
+
+type Node =
+  | { kind: "text"; text: string }
+  | { kind: "value"; name: string }
+  | { kind: "if" | "unless"; name: string; then: Node[]; otherwise: Node[] }
+  | { kind: "each"; name: string; body: Node[] };
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+const TAG = /\{\{\s*(#each|#if|#unless|\/each|\/if|\/unless|else)?\s*(\w*)\s*\}\}/g;
+const STANDALONE_BLOCK = /^[ \t]*(\{\{\s*(?:#each|#if|#unless|\/each|\/if|\/unless|else)\b[^}]*\}\})[ \t]*\r?\n/gm;
+
+type Block = Extract<Node, { kind: "if" | "unless" | "each" }>;
+
+const parse = (template: string): Node[] => {
+  const source = template.replace(STANDALONE_BLOCK, "$1");
+  const root: Node[] = [];
+  // Open blocks, innermost last; nodes go to the innermost one's current branch
+  const stack: { node: Block; branch: Node[] }[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].branch : root);
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, keyword, name] = match;
+    if (match.index! > last) current().push({ kind: "text", text: source.slice(last, match.index) });
+    last = match.index! + tag.length;
+
+    if (!keyword) {
+      if (!name) throw new TemplateError(`Empty tag ${tag}`);
+      current().push({ kind: "value", name });
+    } else if (keyword === "#each") {
+      const node: Block = { kind: "each", name, body: [] };
+      current().push(node);
+      stack.push({ node, branch: node.body });
+    } else if (keyword === "#if" || keyword === "#unless") {
+      const node: Block = { kind: keyword === "#if" ? "if" : "unless", name, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, branch: node.then });
+    } else if (keyword === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.kind === "each") throw new TemplateError("{{else}} outside {{#if}} or {{#unless}}");
+      open.branch = open.node.otherwise;
+    } else if (stack.pop()?.node.kind !== keyword.slice(1)) {
+      throw new TemplateError(`Unexpected ${tag}`);
+    }
+  }
+  if (stack.length) throw new TemplateError(`Unclosed {{#${stack[stack.length - 1].node.kind}}}`);
+  if (last < source.length) root.push({ kind: "text", text: source.slice(last) });
+  return root;
+};
+
+const lookup = (scopes: TemplateContext[], name: string): TemplateValue => {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (name in scopes[i]) return scopes[i][name];
+  }
+  return undefined;
+};
+
+const truthy = (value: TemplateValue) => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+
+const renderNodes = (nodes: Node[], scopes: TemplateContext[]): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case "text":
+        return node.text;
+      case "value": {
+        const value = lookup(scopes, node.name);
+        if (Array.isArray(value)) throw new TemplateError(`{{${node.name}}} is a list; use {{#each ${node.name}}}`);
+        return value === undefined ? "" : String(value);
+      }
+      case "if":
+      case "unless": {
+        const show = truthy(lookup(scopes, node.name)) === (node.kind === "if");
+        return renderNodes(show ? node.then : node.otherwise, scopes);
+      }
+      case "each": {
+        const items = lookup(scopes, node.name) ?? [];
+        if (!Array.isArray(items)) throw new TemplateError(`{{#each ${node.name}}} needs a list`);
+        return items
+          .map((item, index, all) =>
+            renderNodes(node.body, [...scopes, { index, first: index === 0, last: index === all.length - 1 }, item])
+          )
+          .join("");
+      }
+    }
+  }).join("");
+
+export const renderTemplate = (template: string, context: TemplateContext): string =>
+  renderNodes(parse(template), [context]);
@@ -0,0 +1,318 @@
+import type { ScaffoldingTemplates } from "./templates";
+
+// Scaffolding of the Playwright projects written as ES modules or TypeScript
+// (the same Cucumber.js runner and browser lifecycle as the CommonJS project),
+// and of the Playwright Test projects that run specs without Cucumber
+
+const SCRIPTS = `{{#each modules}}
+    "test:{{lower}}": "cucumber-js features/{{lower}}.feature",
+{{/each}}
+    "postinstall": "playwright install {{playwrightBrowser}}"`;
+
+export const PLAYWRIGHT_ESM_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "type": "module",
+  "scripts": {
+    "test": "cucumber-js",
+${SCRIPTS}
+  },
+  "devDependencies": {
+    "@cucumber/cucumber": "^10.8.0",
+    "@playwright/test": "^1.45.0"
+  }
+}
+`,
+    },
+    {
+      // ES module support code is loaded with import rather than require
+      path: "cucumber.js",
+      template: `export default {
+  paths: ['features/**/*.feature'],
+  import: ['support/**/*.js', 'step_definitions/**/*.js'],
+  format: ['progress', 'html:reports/cucumber-report.html'],
+};
+`,
+    },
+    {
+      path: "support/world.js",
+      template: `import { setWorldConstructor, World } from '@cucumber/cucumber';
+
+// Scenario state the step definitions share: the Playwright page and each module's page object
+class PlaywrightWorld extends World {
+  constructor(options) {
+    super(options);
+    this.context = null;
+    this.page = null;
+{{#each modules}}
+    this.{{lower}}Page = null;
+{{/each}}
+  }
+}
+
+setWorldConstructor(PlaywrightWorld);
+`,
+    },
+    {
+      path: "support/hooks.js",
+      template: `import { BeforeAll, AfterAll, Before, After, Status, setDefaultTimeout } from '@cucumber/cucumber';
+import { {{playwrightBrowser}} } from '@playwright/test';
+
+// One browser per run, a fresh context and page per scenario. BASE_URL and HEADLESS override the defaults.
+const BASE_URL = process.env.BASE_URL || '{{baseUrl}}';
+const HEADLESS = process.env.HEADLESS ? process.env.HEADLESS !== 'false' : {{headless}};
+
+setDefaultTimeout({{timeoutMs}});
+
+let browser;
+
+BeforeAll(async () => {
+  browser = await {{playwrightBrowser}}.launch({ headless: HEADLESS });
+});
+
+AfterAll(async () => {
+  await browser?.close();
+});
+
+Before(async function () {
+  this.context = await browser.newContext(BASE_URL ? { baseURL: BASE_URL } : {});
+  this.page = await this.context.newPage();
+  this.page.setDefaultTimeout({{timeoutMs}});
+});
+
+After(async function ({ result }) {
+  if (result?.status === Status.FAILED && this.page) {
+    this.attach(await this.page.screenshot({ fullPage: true }), 'image/png');
+  }
+  await this.context?.close();
+});
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\nreports/\ntest-results/\n" },
+  ],
+};
+
+export const PLAYWRIGHT_TYPESCRIPT_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+    "test": "cucumber-js",
+    "typecheck": "tsc --noEmit",
+${SCRIPTS}
+  },
+  "devDependencies": {
+    "@cucumber/cucumber": "^10.8.0",
+    "@playwright/test": "^1.45.0",
+    "@types/node": "^20.14.0",
+    "ts-node": "^10.9.2",
+    "typescript": "^5.5.0"
+  }
+}
+`,
+    },
+    {
+      // Support code and steps are compiled on the fly by ts-node
+      path: "cucumber.js",
+      template: `module.exports = {
+  default: {
+    paths: ['features/**/*.feature'],
+    requireModule: ['ts-node/register'],
+    require: ['support/**/*.ts', 'step_definitions/**/*.ts'],
+    format: ['progress', 'html:reports/cucumber-report.html'],
+  },
+};
+`,
+    },
+    {
+      path: "tsconfig.json",
+      template: `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "module": "commonjs",
+    "moduleResolution": "node",
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true,
+    "types": ["node"]
+  },
+  "include": ["support/**/*.ts", "step_definitions/**/*.ts", "pages/**/*.ts"]
+}
+`,
+    },
+    {
+      path: "support/world.ts",
+      template: `import { setWorldConstructor, World } from '@cucumber/cucumber';
+import { BrowserContext, Page } from '@playwright/test';
+{{#each modules}}
+import { {{name}}Page } from '../pages/{{lower}}.page';
+{{/each}}
+
+// Scenario state the step definitions share: the Playwright page and each
+// module's page object. Steps declare it as their this: PlaywrightWorld.
+export class PlaywrightWorld extends World {
+  context?: BrowserContext;
+  page!: Page;
+{{#each modules}}
+  {{lower}}Page!: {{name}}Page;
+{{/each}}
+}
+
+setWorldConstructor(PlaywrightWorld);
+`,
+    },
+    {
+      path: "support/hooks.ts",
+      template: `import { BeforeAll, AfterAll, Before, After, Status, setDefaultTimeout } from '@cucumber/cucumber';
+import { Browser, {{playwrightBrowser}} } from '@playwright/test';
+import { PlaywrightWorld } from './world';
+
+// One browser per run, a fresh context and page per scenario. BASE_URL and HEADLESS override the defaults.
+const BASE_URL = process.env.BASE_URL || '{{baseUrl}}';
+const HEADLESS = process.env.HEADLESS ? process.env.HEADLESS !== 'false' : {{headless}};
+
+setDefaultTimeout({{timeoutMs}});
+
+let browser: Browser | undefined;
+
+BeforeAll(async () => {
+  browser = await {{playwrightBrowser}}.launch({ headless: HEADLESS });
+});
+
+AfterAll(async () => {
+  await browser?.close();
+});
+
+Before(async function (this: PlaywrightWorld) {
+  this.context = await browser!.newContext(BASE_URL ? { baseURL: BASE_URL } : {});
+  this.page = await this.context.newPage();
+  this.page.setDefaultTimeout({{timeoutMs}});
+});
+
+After(async function (this: PlaywrightWorld, { result }) {
+  if (result?.status === Status.FAILED && this.page) {
+    this.attach(await this.page.screenshot({ fullPage: true }), 'image/png');
+  }
+  await this.context?.close();
+});
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\nreports/\ntest-results/\n" },
+  ],
+};
+
+// Playwright Test runs the specs itself: no Cucumber, one project per browser,
+// and the page objects handed to each test as fixtures
+export const PLAYWRIGHT_NATIVE_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+    "test": "playwright test",
+{{#each modules}}
+    "test:{{lower}}": "playwright test tests/{{lower}}.spec.ts",
+{{/each}}
+    "typecheck": "tsc --noEmit",
+    "report": "playwright show-report",
+    "postinstall": "playwright install"
+  },
+  "devDependencies": {
+    "@playwright/test": "^1.45.0",
+    "@types/node": "^20.14.0",
+    "typescript": "^5.5.0"
+  }
+}
+`,
+    },
+    {
+      // BASE_URL and HEADLESS override the defaults; --project picks a single browser
+      path: "playwright.config.ts",
+      template: `import { defineConfig, devices } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './tests',
+  timeout: {{timeoutMs}},
+  fullyParallel: true,
+  retries: process.env.CI ? 1 : 0,
+  reporter: [['list'], ['html', { open: 'never' }]],
+  use: {
+    baseURL: process.env.BASE_URL || '{{baseUrl}}',
+    headless: process.env.HEADLESS ? process.env.HEADLESS !== 'false' : {{headless}},
+    actionTimeout: {{timeoutMs}},
+    screenshot: 'only-on-failure',
+    trace: 'retain-on-failure',
+  },
+  projects: [
+    { name: 'chromium', use: { ...devices['Desktop Chrome'] } },
+    { name: 'firefox', use: { ...devices['Desktop Firefox'] } },
+    { name: 'webkit', use: { ...devices['Desktop Safari'] } },
+  ],
+});
+`,
+    },
+    {
+      path: "fixtures.ts",
+      template: `import { test as base } from '@playwright/test';
+{{#each modules}}
+import { {{name}}Page } from './pages/{{lower}}.page';
+{{/each}}
+
+// Each module's page object, built on the test's page. Specs import test and expect from here.
+type PageFixtures = {
+{{#each modules}}
+  {{lower}}Page: {{name}}Page;
+{{/each}}
+};
+
+export const test = base.extend<PageFixtures>({
+{{#each modules}}
+  {{lower}}Page: async ({ page }, use) => {
+    await use(new {{name}}Page(page));
+  },
+{{/each}}
+});
+
+export { expect } from '@playwright/test';
+`,
+    },
+    {
+      path: "tsconfig.json",
+      template: `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "module": "commonjs",
+    "moduleResolution": "node",
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true,
+    "types": ["node"]
+  },
+  "include": ["fixtures.ts", "playwright.config.ts", "tests/**/*.ts", "pages/**/*.ts"]
+}
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\nplaywright-report/\ntest-results/\n" },
+  ],
+};
@@ -0,0 +1,322 @@
+import type { ScaffoldingTemplates } from "./templates";
+
+// Scaffolding of the Selenium projects generated in a language other than
+// JavaScript, each with its usual Cucumber runner and browser lifecycle
+
+export const SELENIUM_JAVA_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "mvn -q test-compile",
+  run: "mvn test",
+  files: [
+    {
+      path: "pom.xml",
+      template: `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0"
+         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 https://maven.apache.org/xsd/maven-4.0.0.xsd">
+  <modelVersion>4.0.0</modelVersion>
+
+  <groupId>com.qatalyst</groupId>
+  <artifactId>{{name}}</artifactId>
+  <version>1.0.0</version>
+
+  <properties>
+    <maven.compiler.release>17</maven.compiler.release>
+    <project.build.sourceEncoding>UTF-8</project.build.sourceEncoding>
+    <cucumber.version>7.18.0</cucumber.version>
+  </properties>
+
+  <dependencies>
+    <dependency>
+      <groupId>io.cucumber</groupId>
+      <artifactId>cucumber-java</artifactId>
+      <version>\${cucumber.version}</version>
+      <scope>test</scope>
+    </dependency>
+    <dependency>
+      <groupId>io.cucumber</groupId>
+      <artifactId>cucumber-testng</artifactId>
+      <version>\${cucumber.version}</version>
+      <scope>test</scope>
+    </dependency>
+    <dependency>
+      <groupId>org.seleniumhq.selenium</groupId>
+      <artifactId>selenium-java</artifactId>
+      <version>4.22.0</version>
+      <scope>test</scope>
+    </dependency>
+    <dependency>
+      <groupId>org.testng</groupId>
+      <artifactId>testng</artifactId>
+      <version>7.10.2</version>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.apache.maven.plugins</groupId>
+        <artifactId>maven-surefire-plugin</artifactId>
+        <version>3.3.0</version>
+      </plugin>
+    </plugins>
+  </build>
+</project>
+`,
+    },
+    {
+      path: "src/test/java/runners/TestRunner.java",
+      template: `package runners;
+
+import io.cucumber.testng.AbstractTestNGCucumberTests;
+import io.cucumber.testng.CucumberOptions;
+
+// Runs every feature; run one module with
+// -Dcucumber.features=src/test/resources/features/<module>.feature
+@CucumberOptions(
+    features = "src/test/resources/features",
+    glue = {"steps", "hooks"},
+    plugin = {"pretty", "html:target/cucumber-report.html"}
+)
+public class TestRunner extends AbstractTestNGCucumberTests {
+}
+`,
+    },
+    {
+      path: "src/test/java/support/DriverFactory.java",
+      template: `package support;
+
+import java.time.Duration;
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.chrome.ChromeDriver;
+import org.openqa.selenium.chrome.ChromeOptions;
+import org.openqa.selenium.firefox.FirefoxDriver;
+import org.openqa.selenium.firefox.FirefoxOptions;
+
+// One WebDriver per scenario thread; -Dbrowser, -Dheadless and -DbaseUrl override the defaults
+public final class DriverFactory {
+    public static final String BASE_URL = System.getProperty("baseUrl", "{{baseUrl}}");
+    private static final ThreadLocal<WebDriver> DRIVER = new ThreadLocal<>();
+
+    private DriverFactory() {
+    }
+
+    public static WebDriver createDriver() {
+        String browser = System.getProperty("browser", "{{browser}}");
+        boolean headless = Boolean.parseBoolean(System.getProperty("headless", "{{headless}}"));
+        WebDriver driver;
+        if (browser.equals("firefox")) {
+            FirefoxOptions options = new FirefoxOptions();
+            if (headless) options.addArguments("-headless");
+            driver = new FirefoxDriver(options);
+        } else {
+            ChromeOptions options = new ChromeOptions();
+            if (headless) options.addArguments("--headless=new", "--window-size=1920,1080");
+            driver = new ChromeDriver(options);
+        }
+        driver.manage().timeouts().pageLoadTimeout(Duration.ofSeconds({{timeoutSeconds}}));
+        DRIVER.set(driver);
+        return driver;
+    }
+
+    public static WebDriver getDriver() {
+        return DRIVER.get();
+    }
+
+    public static void quitDriver() {
+        WebDriver driver = DRIVER.get();
+        if (driver != null) {
+            driver.quit();
+            DRIVER.remove();
+        }
+    }
+}
+`,
+    },
+    {
+      path: "src/test/java/hooks/Hooks.java",
+      template: `package hooks;
+
+import io.cucumber.java.After;
+import io.cucumber.java.Before;
+import io.cucumber.java.Scenario;
+import org.openqa.selenium.OutputType;
+import org.openqa.selenium.TakesScreenshot;
+import org.openqa.selenium.WebDriver;
+import support.DriverFactory;
+
+// A fresh browser per scenario, available to step definitions as DriverFactory.getDriver()
+public class Hooks {
+    @Before
+    public void startBrowser() {
+        DriverFactory.createDriver();
+    }
+
+    @After
+    public void closeBrowser(Scenario scenario) {
+        WebDriver driver = DriverFactory.getDriver();
+        if (driver != null && scenario.isFailed()) {
+            scenario.attach(((TakesScreenshot) driver).getScreenshotAs(OutputType.BYTES), "image/png", scenario.getName());
+        }
+        DriverFactory.quitDriver();
+    }
+}
+`,
+    },
+    { path: ".gitignore", template: "target/\n.idea/\n" },
+  ],
+};
+
+export const SELENIUM_PYTHON_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "pip install -r requirements.txt",
+  run: "pytest",
+  files: [
+    { path: "requirements.txt", template: "pytest>=8.0\npytest-bdd>=7.0\nselenium>=4.22\n" },
+    {
+      // Step modules load their feature by file name, relative to bdd_features_base_dir
+      path: "pytest.ini",
+      template: `[pytest]
+bdd_features_base_dir = features/
+pythonpath = .
+testpaths = tests
+`,
+    },
+    {
+      path: "conftest.py",
+      template: `import os
+
+import pytest
+from selenium import webdriver
+
+# BROWSER, HEADLESS and BASE_URL override the defaults
+BROWSER = os.environ.get("BROWSER", "{{browser}}")
+HEADLESS = os.environ.get("HEADLESS", "{{headless}}").lower() != "false"
+BASE_URL = os.environ.get("BASE_URL", "{{baseUrl}}")
+TIMEOUT = {{timeoutSeconds}}
+
+
+@pytest.fixture
+def driver():
+    """A fresh browser per scenario."""
+    if BROWSER == "firefox":
+        options = webdriver.FirefoxOptions()
+        if HEADLESS:
+            options.add_argument("-headless")
+        browser = webdriver.Firefox(options=options)
+    else:
+        options = webdriver.ChromeOptions()
+        if HEADLESS:
+            options.add_argument("--headless=new")
+            options.add_argument("--window-size=1920,1080")
+        browser = webdriver.Chrome(options=options)
+    browser.set_page_load_timeout(TIMEOUT)
+    yield browser
+    browser.quit()
+
+
+@pytest.fixture
+def base_url():
+    return BASE_URL
+`,
+    },
+    { path: ".gitignore", template: "__pycache__/\n.pytest_cache/\n.venv/\n" },
+  ],
+};
+
+export const SELENIUM_CSHARP_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "dotnet restore",
+  run: "dotnet test",
+  files: [
+    {
+      path: "QatalystTests.csproj",
+      template: `<Project Sdk="Microsoft.NET.Sdk">
+
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <ImplicitUsings>enable</ImplicitUsings>
+    <Nullable>enable</Nullable>
+    <IsPackable>false</IsPackable>
+    <RootNamespace>QatalystTests</RootNamespace>
+  </PropertyGroup>
+
+  <ItemGroup>
+    <PackageReference Include="Microsoft.NET.Test.Sdk" Version="17.10.0" />
+    <PackageReference Include="NUnit" Version="3.14.0" />
+    <PackageReference Include="NUnit3TestAdapter" Version="4.5.0" />
+    <PackageReference Include="Selenium.Support" Version="4.22.0" />
+    <PackageReference Include="Selenium.WebDriver" Version="4.22.0" />
+    <PackageReference Include="SpecFlow.NUnit" Version="3.9.74" />
+    <PackageReference Include="SpecFlow.Tools.MsBuild.Generation" Version="3.9.74" />
+  </ItemGroup>
+
+</Project>
+`,
+    },
+    { path: "specflow.json", template: `{\n  "language": {\n    "feature": "en-US"\n  }\n}\n` },
+    {
+      path: "Support/DriverFactory.cs",
+      template: `using OpenQA.Selenium;
+using OpenQA.Selenium.Chrome;
+using OpenQA.Selenium.Firefox;
+
+namespace QatalystTests.Support;
+
+// The BROWSER, HEADLESS and BASE_URL environment variables override the defaults
+public static class DriverFactory
+{
+    public static readonly string BaseUrl = Environment.GetEnvironmentVariable("BASE_URL") ?? "{{baseUrl}}";
+    private static readonly string Browser = Environment.GetEnvironmentVariable("BROWSER") ?? "{{browser}}";
+    private static readonly bool Headless = (Environment.GetEnvironmentVariable("HEADLESS") ?? "{{headless}}") != "false";
+
+    public static IWebDriver Create()
+    {
+        IWebDriver driver;
+        if (Browser == "firefox")
+        {
+            var options = new FirefoxOptions();
+            if (Headless) options.AddArgument("-headless");
+            driver = new FirefoxDriver(options);
+        }
+        else
+        {
+            var options = new ChromeOptions();
+            if (Headless) options.AddArguments("--headless=new", "--window-size=1920,1080");
+            driver = new ChromeDriver(options);
+        }
+        driver.Manage().Timeouts().PageLoad = TimeSpan.FromSeconds({{timeoutSeconds}});
+        return driver;
+    }
+}
+`,
+    },
+    {
+      path: "Hooks/Hooks.cs",
+      template: `using BoDi;
+using OpenQA.Selenium;
+using QatalystTests.Support;
+using TechTalk.SpecFlow;
+
+namespace QatalystTests.Hooks;
+
+// A fresh browser per scenario, injected into step definition constructors as IWebDriver
+[Binding]
+public class Hooks
+{
+    private readonly IObjectContainer _container;
+
+    public Hooks(IObjectContainer container) => _container = container;
+
+    [BeforeScenario]
+    public void StartBrowser() => _container.RegisterInstanceAs<IWebDriver>(DriverFactory.Create());
+
+    [AfterScenario]
+    public void CloseBrowser() => _container.Resolve<IWebDriver>().Quit();
+}
+`,
+    },
+    { path: ".gitignore", template: "bin/\nobj/\nTestResults/\n" },
+  ],
+};
@@ -0,0 +1,37 @@
+// Run settings the scaffolding files are rendered with; saved across sessions
+export interface ScaffoldingSettings {
+  // Application under test; the generated steps still open their own URLs
+  baseUrl: string;
+  browser: "chrome" | "firefox";
+  headless: boolean;
+  timeoutSeconds: number;
+}
+
+const SETTINGS_STORAGE_KEY = "qatalyst.scaffolding";
+
+export const DEFAULT_SCAFFOLDING_SETTINGS: ScaffoldingSettings = {
+  baseUrl: "",
+  browser: "chrome",
+  headless: true,
+  timeoutSeconds: 30,
+};
+
+export const loadScaffoldingSettings = (): ScaffoldingSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "{}");
+    return {
+      baseUrl: typeof saved.baseUrl === "string" ? saved.baseUrl : DEFAULT_SCAFFOLDING_SETTINGS.baseUrl,
+      browser: saved.browser === "firefox" ? "firefox" : "chrome",
+      headless: typeof saved.headless === "boolean" ? saved.headless : DEFAULT_SCAFFOLDING_SETTINGS.headless,
+      timeoutSeconds: Number.isInteger(saved.timeoutSeconds) && saved.timeoutSeconds > 0
+        ? saved.timeoutSeconds
+        : DEFAULT_SCAFFOLDING_SETTINGS.timeoutSeconds,
+    };
+  } catch {
+    return DEFAULT_SCAFFOLDING_SETTINGS;
+  }
+};
+
+export const saveScaffoldingSettings = (settings: ScaffoldingSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,548 @@
+import { TargetLanguage, TARGET_LANGUAGES } from "../targetLanguage";
+import type { ProjectLayout } from "../generatedCode";
+import { API_CLIENTS, ApiClient } from "../apiTests";
+import { TemplateContext, renderTemplate } from "./engine";
+import { ScaffoldingSettings } from "./settings";
+import { SELENIUM_CSHARP_V1, SELENIUM_JAVA_V1, SELENIUM_PYTHON_V1 } from "./selenium";
+import { PLAYWRIGHT_ESM_V1, PLAYWRIGHT_NATIVE_V1, PLAYWRIGHT_TYPESCRIPT_V1 } from "./playwright";
+import { CYPRESS_ESM_V1, CYPRESS_TYPESCRIPT_V1 } from "./cypress";
+import { API_PLAYWRIGHT_V1, API_REST_ASSURED_V1, API_ROBOT_V1 } from "./api";
+
+// Boilerplate around the generated files that the AI should not be writing:
+// build files, configs and the browser lifecycle each framework needs.
+// Templates are versioned per framework: change a framework's files by adding
+// a version, so projects can still be rendered the way they were downloaded.
+
+// "api" is the API test output; its scaffolding follows the client it is written with
+export type ProjectFramework = "playwright" | "selenium" | "cypress" | "webdriverio" | "testcafe" | "robot" | "api";
+
+// A set of scaffolding: one per framework, plus one per other language the
+// framework is generated in, one for Playwright Test specs and one per API client
+export type ScaffoldingTarget =
+  | Exclude<ProjectFramework, "api">
+  | "playwright-esm"
+  | "playwright-typescript"
+  | "playwright-native"
+  | "selenium-java"
+  | "selenium-python"
+  | "selenium-csharp"
+  | "cypress-esm"
+  | "cypress-typescript"
+  | `api-${ApiClient}`;
+
+export const scaffoldingTarget = (
+  framework: ProjectFramework,
+  { language = "javascript", runner = "cucumber", apiClient = "playwright" }: Partial<ProjectLayout> = {}
+): ScaffoldingTarget => {
+  if (framework === "api") return `api-${apiClient}`;
+  if (framework === "playwright" && runner === "native") return "playwright-native";
+  return language === "javascript" || framework === "robot" ? framework : `${framework}-${language}` as ScaffoldingTarget;
+};
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+interface TemplateFile {
+  path: string;
+  template: string;
+}
+
+export interface ScaffoldingTemplates {
+  version: number;
+  // Shell commands for the README
+  install: string;
+  run: string;
+  files: TemplateFile[];
+}
+
+const CUCUMBER_CONFIG = `module.exports = {
+  default: {
+    paths: ['features/**/*.feature'],
+    require: ['support/**/*.js', 'step_definitions/**/*.js'],
+    format: ['progress', 'html:reports/cucumber-report.html'],
+  },
+};
+`;
+
+const PLAYWRIGHT_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+    "test": "cucumber-js",
+{{#each modules}}
+    "test:{{lower}}": "cucumber-js features/{{lower}}.feature",
+{{/each}}
+    "postinstall": "playwright install {{playwrightBrowser}}"
+  },
+  "devDependencies": {
+    "@cucumber/cucumber": "^10.8.0",
+    "@playwright/test": "^1.45.0"
+  }
+}
+`,
+    },
+    { path: "cucumber.js", template: CUCUMBER_CONFIG },
+    {
+      path: "support/world.js",
+      template: `const { setWorldConstructor, World } = require('@cucumber/cucumber');
+
+// Scenario state the step definitions share: the Playwright page and each module's page object
+class PlaywrightWorld extends World {
+  constructor(options) {
+    super(options);
+    this.context = null;
+    this.page = null;
+{{#each modules}}
+    this.{{lower}}Page = null;
+{{/each}}
+  }
+}
+
+setWorldConstructor(PlaywrightWorld);
+`,
+    },
+    {
+      path: "support/hooks.js",
+      template: `const { BeforeAll, AfterAll, Before, After, Status, setDefaultTimeout } = require('@cucumber/cucumber');
+const { {{playwrightBrowser}} } = require('@playwright/test');
+
+// One browser per run, a fresh context and page per scenario. BASE_URL and HEADLESS override the defaults.
+const BASE_URL = process.env.BASE_URL || '{{baseUrl}}';
+const HEADLESS = process.env.HEADLESS ? process.env.HEADLESS !== 'false' : {{headless}};
+
+setDefaultTimeout({{timeoutMs}});
+
+let browser;
+
+BeforeAll(async () => {
+  browser = await {{playwrightBrowser}}.launch({ headless: HEADLESS });
+});
+
+AfterAll(async () => {
+  await browser?.close();
+});
+
+Before(async function () {
+  this.context = await browser.newContext(BASE_URL ? { baseURL: BASE_URL } : {});
+  this.page = await this.context.newPage();
+  this.page.setDefaultTimeout({{timeoutMs}});
+});
+
+After(async function ({ result }) {
+  if (result?.status === Status.FAILED && this.page) {
+    this.attach(await this.page.screenshot({ fullPage: true }), 'image/png');
+  }
+  await this.context?.close();
+});
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\nreports/\ntest-results/\n" },
+  ],
+};
+
+const SELENIUM_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+{{#each modules}}
+    "test:{{lower}}": "cucumber-js features/{{lower}}.feature",
+{{/each}}
+    "test": "cucumber-js"
+  },
+  "devDependencies": {
+    "@cucumber/cucumber": "^10.8.0",
+    "selenium-webdriver": "^4.22.0"
+  }
+}
+`,
+    },
+    { path: "cucumber.js", template: CUCUMBER_CONFIG },
+    {
+      path: "support/driver.js",
+      template: `const { Builder } = require('selenium-webdriver');
+const chrome = require('selenium-webdriver/chrome');
+const firefox = require('selenium-webdriver/firefox');
+
+// BROWSER, HEADLESS and BASE_URL override the defaults
+const BROWSER = process.env.BROWSER || '{{browser}}';
+const HEADLESS = process.env.HEADLESS ? process.env.HEADLESS !== 'false' : {{headless}};
+const BASE_URL = process.env.BASE_URL || '{{baseUrl}}';
+
+// A new WebDriver session; Selenium Manager downloads the matching driver
+const createDriver = async () => {
+  const builder = new Builder().forBrowser(BROWSER);
+  if (HEADLESS) {
+    builder.setChromeOptions(new chrome.Options().addArguments('--headless=new', '--window-size=1920,1080'));
+    builder.setFirefoxOptions(new firefox.Options().addArguments('-headless'));
+  }
+  const driver = await builder.build();
+  await driver.manage().setTimeouts({ pageLoad: {{timeoutMs}}, script: {{timeoutMs}} });
+  return driver;
+};
+
+module.exports = { createDriver, BASE_URL };
+`,
+    },
+    {
+      path: "support/hooks.js",
+      template: `const { Before, After, Status, setDefaultTimeout } = require('@cucumber/cucumber');
+const { createDriver } = require('./driver');
+
+// A fresh browser per scenario, available to the step definitions as this.driver
+setDefaultTimeout({{timeoutMs}});
+
+Before(async function () {
+  this.driver = await createDriver();
+});
+
+After(async function ({ result }) {
+  if (!this.driver) return;
+  if (result?.status === Status.FAILED) {
+    this.attach(await this.driver.takeScreenshot(), 'base64:image/png');
+  }
+  await this.driver.quit();
+});
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\nreports/\n" },
+  ],
+};
+
+const CYPRESS_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+{{#each modules}}
+    "test:{{lower}}": "cypress run --browser {{browser}} --spec features/{{lower}}.feature{{#unless headless}} --headed{{/unless}}",
+{{/each}}
+    "test": "cypress run --browser {{browser}}{{#unless headless}} --headed{{/unless}}",
+    "cy:open": "cypress open"
+  },
+  "devDependencies": {
+    "@badeball/cypress-cucumber-preprocessor": "^20.1.0",
+    "@bahmutov/cypress-esbuild-preprocessor": "^2.2.2",
+    "cypress": "^13.13.0",
+    "esbuild": "^0.23.0"
+  }
+}
+`,
+    },
+    {
+      path: "cypress.config.js",
+      template: `const { defineConfig } = require('cypress');
+const createBundler = require('@bahmutov/cypress-esbuild-preprocessor');
+const { addCucumberPreprocessorPlugin } = require('@badeball/cypress-cucumber-preprocessor');
+const { createEsbuildPlugin } = require('@badeball/cypress-cucumber-preprocessor/esbuild');
+
+module.exports = defineConfig({
+  e2e: {
+{{#if baseUrl}}
+    baseUrl: '{{baseUrl}}',
+{{/if}}
+    specPattern: 'features/**/*.feature',
+    supportFile: false,
+    defaultCommandTimeout: {{timeoutMs}},
+    pageLoadTimeout: {{timeoutMs}},
+    // Feature files are compiled to specs with their step definitions bundled in
+    async setupNodeEvents(on, config) {
+      await addCucumberPreprocessorPlugin(on, config);
+      on('file:preprocessor', createBundler({ plugins: [createEsbuildPlugin(config)] }));
+      return config;
+    },
+  },
+});
+`,
+    },
+    {
+      path: ".cypress-cucumber-preprocessorrc.json",
+      template: `{
+  "stepDefinitions": "step_definitions/**/*.js"
+}
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\ncypress/screenshots/\ncypress/videos/\n" },
+  ],
+};
+
+const WEBDRIVERIO_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+{{#each modules}}
+    "test:{{lower}}": "wdio run wdio.conf.js --spec features/{{lower}}.feature",
+{{/each}}
+    "test": "wdio run wdio.conf.js"
+  },
+  "devDependencies": {
+    "@wdio/cli": "^8.39.0",
+    "@wdio/cucumber-framework": "^8.39.0",
+    "@wdio/local-runner": "^8.39.0",
+    "@wdio/spec-reporter": "^8.39.0"
+  }
+}
+`,
+    },
+    {
+      path: "wdio.conf.js",
+      template: `// BROWSER, HEADLESS and BASE_URL override the defaults; WebdriverIO downloads the matching driver
+const BROWSER = process.env.BROWSER || '{{browser}}';
+const HEADLESS = process.env.HEADLESS ? process.env.HEADLESS !== 'false' : {{headless}};
+const BASE_URL = process.env.BASE_URL || '{{baseUrl}}';
+
+exports.config = {
+  runner: 'local',
+  specs: ['./features/**/*.feature'],
+  maxInstances: 1,
+  capabilities: [{
+    browserName: BROWSER,
+    ...(HEADLESS ? {
+      'goog:chromeOptions': { args: ['--headless=new', '--window-size=1920,1080'] },
+      'moz:firefoxOptions': { args: ['-headless'] },
+    } : {}),
+  }],
+  ...(BASE_URL ? { baseUrl: BASE_URL } : {}),
+  waitforTimeout: {{timeoutMs}},
+  framework: 'cucumber',
+  reporters: ['spec'],
+  cucumberOpts: {
+    require: ['./step_definitions/**/*.js'],
+    timeout: {{timeoutMs}},
+  },
+};
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\n" },
+  ],
+};
+
+const TESTCAFE_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "npm install",
+  run: "npm test",
+  files: [
+    {
+      // gherkin-testcafe runs the feature files with the step definitions listed after them
+      path: "package.json",
+      template: `{
+  "name": "{{name}}",
+  "version": "1.0.0",
+  "private": true,
+  "scripts": {
+{{#each modules}}
+    "test:{{lower}}": "gherkin-testcafe {{browser}}{{#if headless}}:headless{{/if}} features/{{lower}}.feature step_definitions/**/*.js",
+{{/each}}
+    "test": "gherkin-testcafe {{browser}}{{#if headless}}:headless{{/if}} features/**/*.feature step_definitions/**/*.js"
+  },
+  "devDependencies": {
+    "@cucumber/cucumber": "^7.3.2",
+    "gherkin-testcafe": "^7.1.0",
+    "testcafe": "^3.6.0"
+  }
+}
+`,
+    },
+    {
+      path: ".testcaferc.json",
+      template: `{
+{{#if baseUrl}}
+  "baseUrl": "{{baseUrl}}",
+{{/if}}
+  "selectorTimeout": {{timeoutMs}},
+  "assertionTimeout": {{timeoutMs}},
+  "pageLoadTimeout": {{timeoutMs}},
+  "screenshots": {
+    "path": "reports/screenshots",
+    "takeOnFails": true
+  }
+}
+`,
+    },
+    { path: ".gitignore", template: "node_modules/\nreports/\n" },
+  ],
+};
+
+const ROBOT_V1: ScaffoldingTemplates = {
+  version: 1,
+  install: "pip install -r requirements.txt",
+  run: "robot --argumentfile robot.args tests",
+  files: [
+    { path: "requirements.txt", template: "robotframework>=7.0\nrobotframework-seleniumlibrary>=6.5\n" },
+    {
+      // Keyword and data files are found through --pythonpath, so tests import them by name
+      path: "robot.args",
+      template: `--pythonpath resources
+--pythonpath data
+--outputdir results
+--variable BROWSER:{{robotBrowser}}
+--variable TIMEOUT:{{timeoutSeconds}}s
+{{#if baseUrl}}
+--variable BASE_URL:{{baseUrl}}
+{{/if}}
+`,
+    },
+    {
+      path: "tests/__init__.robot",
+      template: `*** Settings ***
+Documentation    {{name}}: {{#each modules}}{{name}}{{#unless last}}, {{/unless}}{{/each}}
+Library    SeleniumLibrary
+Suite Setup    Set Selenium Timeout    \${TIMEOUT}
+Suite Teardown    Close All Browsers
+`,
+    },
+    { path: ".gitignore", template: "__pycache__/\nresults/\n.venv/\n" },
+  ],
+};
+
+// Every version of each target's templates, oldest first
+export const SCAFFOLDING_TEMPLATES: Record<ScaffoldingTarget, ScaffoldingTemplates[]> = {
+  playwright: [PLAYWRIGHT_V1],
+  "playwright-esm": [PLAYWRIGHT_ESM_V1],
+  "playwright-typescript": [PLAYWRIGHT_TYPESCRIPT_V1],
+  "playwright-native": [PLAYWRIGHT_NATIVE_V1],
+  selenium: [SELENIUM_V1],
+  "selenium-java": [SELENIUM_JAVA_V1],
+  "selenium-python": [SELENIUM_PYTHON_V1],
+  "selenium-csharp": [SELENIUM_CSHARP_V1],
+  cypress: [CYPRESS_V1],
+  "cypress-esm": [CYPRESS_ESM_V1],
+  "cypress-typescript": [CYPRESS_TYPESCRIPT_V1],
+  webdriverio: [WEBDRIVERIO_V1],
+  testcafe: [TESTCAFE_V1],
+  robot: [ROBOT_V1],
+  "api-playwright": [API_PLAYWRIGHT_V1],
+  "api-rest-assured": [API_REST_ASSURED_V1],
+  "api-robot": [API_ROBOT_V1],
+};
+
+export const latestScaffoldingVersion = (target: ScaffoldingTarget): number =>
+  SCAFFOLDING_TEMPLATES[target][SCAFFOLDING_TEMPLATES[target].length - 1].version;
+
+const scaffoldingTemplates = (target: ScaffoldingTarget, version: number): ScaffoldingTemplates => {
+  const templates = SCAFFOLDING_TEMPLATES[target].find(t => t.version === version);
+  if (!templates) throw new Error(`No version ${version} of the ${target} scaffolding`);
+  return templates;
+};
+
+const README = `# {{name}}
+
+{{title}} test suite generated by QAtalyst (scaffolding v{{version}}).
+
+## Run
+
+\`\`\`
+{{install}}
+{{run}}
+\`\`\`
+
+## Modules
+
+{{#each modules}}
+- {{name}}
+{{/each}}
+
+## Layout
+
+{{#each files}}
+- \`{{path}}\`
+{{/each}}
+`;
+
+// "Playwright", or "Selenium (Java)" and "Cypress (TS)" for the language variants,
+// "Playwright (TS specs)" for Playwright Test and "REST Assured (Java) API" for API tests
+const FRAMEWORK_TITLES: Record<ProjectFramework, string> = {
+  playwright: "Playwright",
+  selenium: "Selenium",
+  cypress: "Cypress",
+  webdriverio: "WebdriverIO",
+  testcafe: "TestCafe",
+  robot: "Robot",
+  api: "API",
+};
+
+const targetTitle = (target: ScaffoldingTarget) => {
+  if (target === "playwright-native") return "Playwright (TS specs)";
+  if (target.startsWith("api-")) return `${API_CLIENTS[target.slice(4) as ApiClient].label} API`;
+  const [framework, language] = target.split("-");
+  const title = FRAMEWORK_TITLES[framework as ProjectFramework];
+  return language ? `${title} (${TARGET_LANGUAGES[language as TargetLanguage].short})` : title;
+};
+
+const templateContext = (target: ScaffoldingTarget, name: string, modules: string[], settings: ScaffoldingSettings): TemplateContext => ({
+  name,
+  title: targetTitle(target),
+  modules: modules.map(module => ({ name: module, lower: module.toLowerCase() })),
+  baseUrl: settings.baseUrl.trim(),
+  browser: settings.browser,
+  playwrightBrowser: settings.browser === "firefox" ? "firefox" : "chromium",
+  robotBrowser: `${settings.headless ? "headless" : ""}${settings.browser}`,
+  headless: settings.headless,
+  timeoutSeconds: settings.timeoutSeconds,
+  timeoutMs: settings.timeoutSeconds * 1000,
+});
+
+// The target's scaffolding files for the given modules
+export const renderScaffolding = (
+  target: ScaffoldingTarget,
+  name: string,
+  modules: string[],
+  settings: ScaffoldingSettings,
+  version = latestScaffoldingVersion(target)
+): ProjectFile[] => {
+  const templates = scaffoldingTemplates(target, version);
+  const context = { ...templateContext(target, name, modules, settings), version };
+  return templates.files.map(file => ({ path: file.path, content: renderTemplate(file.template, context) }));
+};
+
+// README with run instructions and the layout of the finished project tree
+export const renderReadme = (
+  target: ScaffoldingTarget,
+  name: string,
+  modules: string[],
+  settings: ScaffoldingSettings,
+  files: ProjectFile[],
+  version = latestScaffoldingVersion(target)
+): ProjectFile => {
+  const { install, run } = scaffoldingTemplates(target, version);
+  const context = {
+    ...templateContext(target, name, modules, settings),
+    version,
+    install,
+    run,
+    files: files.map(file => ({ path: file.path })),
+  };
+  return { path: "README.md", content: renderTemplate(README, context) };
+};
@@ -0,0 +1,61 @@
+// Languages a classic framework project can be generated in. Playwright and
+// Cypress choose a module system, Selenium a language; Robot has no choice.
+
+export type TargetLanguage = "javascript" | "esm" | "typescript" | "java" | "python" | "csharp";
+
+export interface TargetLanguageInfo {
+  label: string;
+  // Short form for titles: "TS", "Java"
+  short: string;
+  // Cucumber runner the generated steps are written for, where it isn't the framework's own
+  runner?: string;
+}
+
+export const TARGET_LANGUAGES: Record<TargetLanguage, TargetLanguageInfo> = {
+  javascript: { label: "JavaScript (CommonJS)", short: "JS" },
+  esm: { label: "JavaScript (ES modules)", short: "ESM" },
+  typescript: { label: "TypeScript", short: "TS" },
+  java: { label: "Java", short: "Java", runner: "Cucumber-JVM + TestNG" },
+  python: { label: "Python", short: "Python", runner: "pytest-bdd" },
+  csharp: { label: "C#", short: "C#", runner: "SpecFlow + NUnit" },
+};
+
+// Languages each framework offers, its default first
+export const FRAMEWORK_LANGUAGES: Record<string, TargetLanguage[]> = {
+  playwright: ["javascript", "esm", "typescript"],
+  selenium: ["javascript", "java", "python", "csharp"],
+  cypress: ["javascript", "esm", "typescript"],
+};
+
+// The languages written with the JavaScript tooling (Babel checks, Cucumber.js)
+export const isJavaScriptLanguage = (language: TargetLanguage) =>
+  language === "javascript" || language === "esm" || language === "typescript";
+
+export type FrameworkLanguages = Partial<Record<string, TargetLanguage>>;
+
+const FRAMEWORK_LANGUAGES_STORAGE_KEY = "qatalyst.frameworkLanguages";
+
+export const isTargetLanguage = (value: unknown): value is TargetLanguage =>
+  typeof value === "string" && value in TARGET_LANGUAGES;
+
+// Language a framework is generated in: the saved choice when the framework offers it
+export const frameworkLanguage = (framework: string, choices: FrameworkLanguages): TargetLanguage => {
+  const choice = choices[framework];
+  return choice && FRAMEWORK_LANGUAGES[framework]?.includes(choice) ? choice : "javascript";
+};
+
+export const loadFrameworkLanguages = (): FrameworkLanguages => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FRAMEWORK_LANGUAGES_STORAGE_KEY) || "{}");
+    if (!saved || typeof saved !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(saved).filter((entry): entry is [string, TargetLanguage] => isTargetLanguage(entry[1]))
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const saveFrameworkLanguages = (choices: FrameworkLanguages) => {
+  localStorage.setItem(FRAMEWORK_LANGUAGES_STORAGE_KEY, JSON.stringify(choices));
+};
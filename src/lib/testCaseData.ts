@@ -0,0 +1,146 @@
+import { ColumnMapping, MappableField, resolveMapping } from "./columnMapping";
+import { CellIssue, parseCell } from "./cellGrammar";
+import { mergeStepRows } from "./testSteps";
+
+// One ordered step of a multi-step test case
+export interface TestStep {
+  action: string;
+  // Locator name (or raw selector) the step acts on
+  target?: string;
+  // Test data used by the step, as name=value
+  data?: string;
+  expected?: string;
+}
+
+// Gherkin a test case was imported from, kept verbatim so the suite can be
+// written back without regenerating it
+export interface GherkinSource {
+  // Feature header (tags, "Feature:" line, description) and Background block
+  feature: string;
+  background?: string;
+  rule?: string;
+  // Dropped when the case is edited, so the scenario is rendered from its fields
+  scenario?: string;
+  // Scenario Outline rows: the Examples heading (with table header) and this case's row
+  examples?: { heading: string; row: string };
+}
+
+export interface TestCase {
+  id: string;
+  description: string;
+  steps: string;
+  expected: string;
+  locator: string;
+  testData: string;
+  // Module the case belongs to (e.g. the workbook sheet it was imported from)
+  module?: string;
+  preconditions?: string;
+  priority?: string;
+  tags?: string[];
+  // Ordered steps when the case has more than one; `steps`/`expected` keep the numbered text
+  stepList?: TestStep[];
+  gherkin?: GherkinSource;
+  // Key of the case in the test management tool it was imported from (e.g. "C123")
+  sourceKey?: string;
+  // Requirement / story keys the case is linked to
+  references?: string[];
+  // Left out of generation (toggled in the test case grid)
+  excluded?: boolean;
+}
+
+export interface TestCaseData {
+  testCases: TestCase[];
+  locators: { locator: string; value: string }[];
+  testData: { name: string; value: string }[];
+}
+
+const nonEmptyRows = (rows: string[][]): string[][] =>
+  rows.filter(row => row.some(cell => cell && String(cell).trim()));
+
+// Header row of an upload (first non-empty row)
+export const getHeaders = (rows: string[][]): string[] =>
+  nonEmptyRows(rows)[0]?.map(h => String(h).trim()) || [];
+
+// Convert raw rows (first row = headers) into TestCaseData. Without an
+// explicit mapping, a saved or auto-detected one is used.
+export const buildTestCaseData = (rows: string[][], module?: string, mapping?: ColumnMapping): TestCaseData => {
+  const filteredData = nonEmptyRows(rows);
+  const headers = getHeaders(rows);
+  const dataRows = filteredData.slice(1);
+  const columns = mapping || resolveMapping(headers);
+
+  // Values of every column mapped to the field, joined when several are
+  const read = (row: string[], field: MappableField): string =>
+    columns
+      .flatMap((f, i) => (f === field && row[i]?.trim() ? [row[i].trim()] : []))
+      .join('\n');
+
+  const testCases: TestCase[] = dataRows.map(row => {
+    const tc: TestCase = {
+      id: read(row, "id"),
+      description: read(row, "description"),
+      steps: read(row, "steps"),
+      expected: read(row, "expected"),
+      locator: read(row, "locator"),
+      testData: read(row, "testData"),
+    };
+    const rowModule = read(row, "module") || module;
+    const preconditions = read(row, "preconditions");
+    const priority = read(row, "priority");
+    const tags = read(row, "tags").split(/[\s,;]+/).map(t => t.replace(/^@/, '')).filter(Boolean);
+    if (rowModule) tc.module = rowModule;
+    if (preconditions) tc.preconditions = preconditions;
+    if (priority) tc.priority = priority;
+    if (tags.length) tc.tags = tags;
+    return tc;
+  }).filter(tc => tc.id || tc.steps);
+
+  return withLookups(mergeStepRows(testCases));
+};
+
+export interface CellIssueReport {
+  row: number;
+  testCaseId: string;
+  field: "locator" | "testData";
+  issue: CellIssue;
+}
+
+// Rebuild the unique locator / test data lookups from a list of test cases
+export const withLookups = (testCases: TestCase[]): TestCaseData => {
+  const locatorsMap = new Map<string, string>();
+  const testDataMap = new Map<string, string>();
+  testCases.forEach(tc => {
+    parseCell(tc.locator, "locator").entries.forEach(({ name, value }) => locatorsMap.set(name, value));
+    parseCell(tc.testData, "testData").entries.forEach(({ name, value }) => testDataMap.set(name, value));
+  });
+
+  return {
+    testCases,
+    locators: Array.from(locatorsMap.entries()).map(([locator, value]) => ({ locator, value })),
+    testData: Array.from(testDataMap.entries()).map(([name, value]) => ({ name, value }))
+  };
+};
+
+// Grammar problems in the locator / test data cells, per test case
+export const getCellIssues = (testCases: TestCase[]): CellIssueReport[] =>
+  testCases.flatMap((tc, row) =>
+    (["locator", "testData"] as const).flatMap(field =>
+      parseCell(tc[field], field).issues.map(issue => ({ row, testCaseId: tc.id, field, issue }))
+    )
+  );
+
+// Only the test cases included in generation, with lookups rebuilt for them
+export const includedTestCaseData = (data: TestCaseData): TestCaseData =>
+  withLookups(data.testCases.filter(tc => !tc.excluded));
+
+// Merge several imports (e.g. one per workbook sheet) into a single TestCaseData
+export const mergeTestCaseData = (parts: TestCaseData[]): TestCaseData =>
+  withLookups(parts.flatMap(p => p.testCases));
+
+// "checkout_flow" / "Checkout Flow" → "CheckoutFlow"
+export const toModuleName = (raw: string): string =>
+  raw
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join('');
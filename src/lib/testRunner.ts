@@ -0,0 +1,50 @@
+import { TargetLanguage } from "./targetLanguage";
+
+// Runners a framework's tests can be generated for. Every framework runs its
+// tests through Cucumber (Robot through its own runner); Playwright can also
+// write plain Playwright Test specs.
+
+export type TestRunner = "cucumber" | "native";
+
+export const TEST_RUNNERS: Record<TestRunner, { label: string }> = {
+  cucumber: { label: "Cucumber (feature + steps)" },
+  native: { label: "Playwright Test (specs)" },
+};
+
+// Runners each framework offers, its default first
+export const FRAMEWORK_RUNNERS: Record<string, TestRunner[]> = {
+  playwright: ["cucumber", "native"],
+};
+
+export type FrameworkRunners = Partial<Record<string, TestRunner>>;
+
+// Language a runner's files are written in: Playwright Test specs are always TypeScript
+export const runnerLanguage = (runner: TestRunner, language: TargetLanguage): TargetLanguage =>
+  runner === "native" ? "typescript" : language;
+
+const FRAMEWORK_RUNNERS_STORAGE_KEY = "qatalyst.frameworkRunners";
+
+export const isTestRunner = (value: unknown): value is TestRunner =>
+  typeof value === "string" && value in TEST_RUNNERS;
+
+// Runner a framework is generated for: the saved choice when the framework offers it
+export const frameworkRunner = (framework: string, choices: FrameworkRunners): TestRunner => {
+  const choice = choices[framework];
+  return choice && FRAMEWORK_RUNNERS[framework]?.includes(choice) ? choice : "cucumber";
+};
+
+export const loadFrameworkRunners = (): FrameworkRunners => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FRAMEWORK_RUNNERS_STORAGE_KEY) || "{}");
+    if (!saved || typeof saved !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(saved).filter((entry): entry is [string, TestRunner] => isTestRunner(entry[1]))
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const saveFrameworkRunners = (choices: FrameworkRunners) => {
+  localStorage.setItem(FRAMEWORK_RUNNERS_STORAGE_KEY, JSON.stringify(choices));
+};
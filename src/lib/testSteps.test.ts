@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { TestCase } from "./testCaseData";
+import { buildStepList, splitNumbered } from "./testSteps";
+
+const testCase = (steps: string, expected: string): TestCase => ({
+  id: "TC_001",
+  description: "",
+  steps,
+  expected,
+  locator: "",
+  testData: "",
+});
+
+describe("splitNumbered", () => {
+  it("splits numbered items on separate lines", () => {
+    expect(splitNumbered("1) Open the page\n2) Enter name")).toEqual(["Open the page", "Enter name"]);
+  });
+
+  it("splits numbered items after a sentence ending", () => {
+    expect(splitNumbered("1. Open the page. 2. Enter name")).toEqual(["Open the page.", "Enter name"]);
+  });
+
+  it("keeps a number inside a sentence in its step", () => {
+    expect(splitNumbered("1. Enter 10. Then submit\n2. Check the total")).toEqual([
+      "Enter 10. Then submit",
+      "Check the total",
+    ]);
+  });
+
+  it("splits unnumbered text on line breaks", () => {
+    expect(splitNumbered("Open the page\n\nEnter name")).toEqual(["Open the page", "Enter name"]);
+  });
+});
+
+describe("buildStepList", () => {
+  it("pairs expected results with the step they are numbered after", () => {
+    const steps = buildStepList(testCase("1. Open the page\n2. Enter 10. Then submit\n3. Log out", "2. Total is 10"));
+    expect(steps).toEqual([
+      { action: "Open the page" },
+      { action: "Enter 10. Then submit", expected: "Total is 10" },
+      { action: "Log out" },
+    ]);
+  });
+});
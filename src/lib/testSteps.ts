@@ -0,0 +1,120 @@
+import type { TestCase, TestStep } from "./testCaseData";
+import { parseCell } from "./cellGrammar";
+
+interface NumberedItem {
+  number?: number;
+  text: string;
+}
+
+// A number starts an item at the start of the text or a line, or after a
+// sentence ending, so "Enter 10. Then submit" stays one step
+const ITEM_NUMBER = /(?:^|(?<=[\n.!?]))\s*(\d+)[.)]\s+/g;
+
+// "1. Open the page. 2. Enter name" / "1) Open\n2) Enter" → numbered items.
+// Text without numbering is split on line breaks only.
+const splitNumberedItems = (text: string): NumberedItem[] => {
+  if (!text || !text.trim()) return [];
+  if (/^\s*\d+[.)]\s+/.test(text)) {
+    const starts = Array.from(text.matchAll(ITEM_NUMBER));
+    return starts
+      .map((m, i) => ({
+        number: Number(m[1]),
+        text: text.slice(m.index! + m[0].length, starts[i + 1]?.index ?? text.length).trim(),
+      }))
+      .filter(item => item.text);
+  }
+  return text.split(/\n+/).map(s => s.trim()).filter(Boolean).map(t => ({ text: t }));
+};
+
+export const splitNumbered = (text: string): string[] =>
+  splitNumberedItems(text).map(item => item.text);
+
+export const numberLines = (items: string[]): string =>
+  items.length > 1 ? items.map((item, i) => `${i + 1}. ${item}`).join("\n") : items[0] || "";
+
+// Single-entry cells identify the step's target/data; larger cells stay case-wide
+const singleEntry = (cell: string, kind: "locator" | "testData"): string | undefined => {
+  const { entries } = parseCell(cell, kind);
+  if (entries.length !== 1) return undefined;
+  return kind === "locator" ? entries[0].name : `${entries[0].name}=${entries[0].value}`;
+};
+
+// Ordered steps from the free-text steps/expected, keeping any per-step
+// target/data the case already had at the same position
+export const buildStepList = (tc: TestCase): TestStep[] => {
+  const actions = splitNumbered(tc.steps);
+  const expected = splitNumberedItems(tc.expected);
+  const previous = tc.stepList || [];
+  // Expected results numbered after their step ("3. Error shown") attach to that step
+  const byNumber = expected.every(e => e.number && e.number <= actions.length) && expected.length < actions.length;
+
+  return actions.map((action, i) => {
+    const step: TestStep = { action };
+    let exp = "";
+    if (byNumber) {
+      exp = expected.filter(e => e.number === i + 1).map(e => e.text).join(" ");
+    } else if (expected.length === actions.length) {
+      exp = expected[i].text;
+    } else if (i === actions.length - 1) {
+      // One expected result for several steps describes the outcome of the last one
+      exp = expected.map(e => e.text).join(" ");
+    }
+    if (exp) step.expected = exp;
+    if (previous[i]?.target) step.target = previous[i].target;
+    if (previous[i]?.data) step.data = previous[i].data;
+    return step;
+  });
+};
+
+// Numbered steps/expected text for an ordered step list; each expected result
+// is numbered after its step so edits can re-pair them
+export const stepListText = (stepList: TestStep[]): { steps: string; expected: string } => ({
+  steps: numberLines(stepList.map(s => s.action)),
+  expected: stepList.length > 1
+    ? stepList.flatMap((s, i) => (s.expected ? [`${i + 1}. ${s.expected}`] : [])).join("\n")
+    : stepList[0]?.expected || "",
+});
+
+const fromRow = (row: TestCase): TestStep => {
+  const step: TestStep = { action: row.steps.trim() };
+  const target = singleEntry(row.locator, "locator");
+  const data = singleEntry(row.testData, "testData");
+  if (row.expected.trim()) step.expected = row.expected.trim();
+  if (target) step.target = target;
+  if (data) step.data = data;
+  return step;
+};
+
+const joinCells = (cells: string[]): string =>
+  cells.map(c => c.trim()).filter(Boolean).join(";");
+
+// Consecutive rows with the same ID (or an empty ID continuing the previous
+// case) become one test case with one step per row. Single-row cases get
+// their steps from "1. … 2. …" numbering.
+export const mergeStepRows = (rows: TestCase[]): TestCase[] => {
+  const groups: TestCase[][] = [];
+  rows.forEach(row => {
+    const current = groups[groups.length - 1];
+    const continues = current && current[0].id !== "" && (row.id === "" || row.id === current[0].id);
+    if (continues) current.push(row);
+    else groups.push([row]);
+  });
+
+  return groups.map(group => {
+    const [first] = group;
+    if (group.length === 1) {
+      const stepList = buildStepList(first);
+      return stepList.length > 1 ? { ...first, stepList } : first;
+    }
+
+    const stepList = group.filter(r => r.steps.trim()).map(fromRow);
+    return {
+      ...first,
+      description: first.description || group.map(r => r.description).find(Boolean) || "",
+      ...stepListText(stepList),
+      locator: joinCells(group.map(r => r.locator)),
+      testData: joinCells(group.map(r => r.testData)),
+      stepList,
+    };
+  });
+};
@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Consumption of one user or workspace over a period, with the quotas that apply to it
+export interface UsageSummary {
+  scope: "user" | "workspace";
+  subjectId: string;
+  name: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  requestsPerDay: number | null;
+  tokensPerMonth: number | null;
+}
+
+export const isAppAdmin = async (): Promise<boolean> => {
+  const { data, error } = await supabase.rpc("is_app_admin");
+  if (error) throw error;
+  return Boolean(data);
+};
+
+// Only admins may call this; the database raises for everyone else
+export const getUsageSummary = async (since: Date): Promise<UsageSummary[]> => {
+  const { data, error } = await supabase.rpc("usage_summary", { _since: since.toISOString() });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    scope: row.scope as UsageSummary["scope"],
+    subjectId: row.subject_id,
+    name: row.subject_name || row.subject_id,
+    requests: Number(row.requests),
+    promptTokens: Number(row.prompt_tokens),
+    completionTokens: Number(row.completion_tokens),
+    totalTokens: Number(row.total_tokens),
+    requestsPerDay: row.requests_per_day ?? null,
+    tokensPerMonth: row.tokens_per_month ?? null,
+  }));
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { validateGherkin } from "./gherkin";
+
+const LOGIN = `@login
+Feature: Login
+
+  Scenario: Valid login
+    Given I am on the login page
+    When I log in as "admin"
+    Then I see the dashboard`;
+
+describe("validateGherkin", () => {
+  it("accepts several Features in one text", () => {
+    expect(validateGherkin(`${LOGIN}\n\n${LOGIN.replace(/Login/g, "Search")}`)).toEqual([]);
+  });
+
+  it("reports an error in a later Feature at its line in the whole text", () => {
+    const broken = "# Search module\n@search\nFeature: Search\n\n  Scenario: Find a product\n    Given I am on the home page\n    This is not a step";
+    const diagnostics = validateGherkin(`${LOGIN}\n\n${broken}`);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 15, column: 5 });
+    expect(diagnostics[0].message).toMatch(/^expected: /);
+  });
+
+  it("reports errors of a single Feature at their own line", () => {
+    const diagnostics = validateGherkin("Feature: Login\n  Scenario: Valid login\n    Given a step\n  Bogus line");
+    expect(diagnostics.map(d => d.line)).toEqual([4]);
+  });
+});
@@ -0,0 +1,45 @@
+import { AstBuilder, Errors, GherkinClassicTokenMatcher, Parser } from "@cucumber/gherkin";
+import { IdGenerator } from "@cucumber/messages";
+import { CodeDiagnostic } from "./syntax";
+
+const FEATURE_LINE = /^\s*Feature:/;
+
+// Parse errors of one feature, with lines offset to where it starts in the whole text
+const validateFeature = (text: string, lineOffset: number): CodeDiagnostic[] => {
+  const parser = new Parser(new AstBuilder(IdGenerator.incrementing()), new GherkinClassicTokenMatcher());
+  parser.stopAtFirstError = false;
+  try {
+    parser.parse(text);
+    return [];
+  } catch (error) {
+    const errors = error instanceof Errors.CompositeParserException ? error.errors : [error as Error];
+    return errors.map(e => {
+      const location = (e as Errors.GherkinException).location;
+      return {
+        line: (location?.line ?? 1) + lineOffset,
+        column: location?.column ?? 1,
+        // The parser prefixes its messages with "(line:column): "
+        message: e.message.replace(/^\(\d+:\d+\):\s*/, ""),
+      };
+    });
+  }
+};
+
+// Parse errors of Gherkin text. A Gherkin view of several modules holds one
+// Feature per module, so each Feature (with the tags and comments above it) is
+// parsed on its own.
+export const validateGherkin = (code: string): CodeDiagnostic[] => {
+  if (!code.trim()) return [];
+  const lines = code.split("\n");
+  const starts = lines.flatMap((line, i) => (FEATURE_LINE.test(line) ? [i] : []))
+    .map(start => {
+      let first = start;
+      while (first > 0 && /^\s*(@|#|$)/.test(lines[first - 1])) first--;
+      return first;
+    });
+  if (starts.length <= 1) return validateFeature(code, 0);
+
+  // Anything before the first Feature is parsed with it
+  starts[0] = 0;
+  return starts.flatMap((start, i) => validateFeature(lines.slice(start, starts[i + 1]).join("\n"), start));
+};
@@ -0,0 +1,30 @@
+import { parse } from "@babel/parser";
+import { CodeDiagnostic } from "./syntax";
+
+interface BabelError {
+  message: string;
+  loc?: { line: number; column: number };
+}
+
+const toDiagnostic = (error: BabelError): CodeDiagnostic => ({
+  line: error.loc?.line ?? 1,
+  column: (error.loc?.column ?? 0) + 1,
+  // Babel repeats the position at the end of its messages
+  message: error.message.replace(/\s*\(\d+:\d+\)$/, ""),
+});
+
+// Parse errors of a JavaScript (or TypeScript) file; Babel recovers from most
+// errors, so several can be reported at once
+export const validateJavaScript = (code: string, typescript = false): CodeDiagnostic[] => {
+  if (!code.trim()) return [];
+  try {
+    const ast = parse(code, {
+      sourceType: "unambiguous",
+      errorRecovery: true,
+      plugins: typescript ? ["typescript"] : [],
+    });
+    return (ast.errors || []).map(toDiagnostic);
+  } catch (error) {
+    return [toDiagnostic(error as BabelError)];
+  }
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { validatePython } from "./python";
+
+const TESTDATA = `"""Test data for the Login module."""
+import os
+
+BASE_URL = os.getenv("BASE_URL", "http://localhost:3000")
+
+USERS = {
+    "admin": {"username": "admin", "password": "s3cret#1"},  # a comment
+    "guest": {
+        "username": "guest",
+        "password": 'it\\'s "quoted"',
+    },
+}
+
+ROLES = [
+    "admin",
+    "guest",
+]
+
+PATTERN = r"\\d+\\.\\d+"
+WELCOME = """Welcome back,
+{name}!"""
+
+
+def user(name):
+    if name in USERS:
+        return USERS[name]
+    return None
+`;
+
+describe("validatePython", () => {
+  it("accepts a variables file with dicts, multi-line brackets and triple-quoted and raw strings", () => {
+    expect(validatePython(TESTDATA)).toEqual([]);
+  });
+
+  it("reports an unclosed bracket where it opens", () => {
+    expect(validatePython('USERS = {\n    "admin": ["a", "b"],\n')).toEqual([
+      { line: 1, column: 9, message: '"{" is never closed' },
+    ]);
+  });
+
+  it("reports mismatched and unmatched brackets", () => {
+    expect(validatePython('ROLES = ["admin")\nX = 1]')).toEqual([
+      { line: 1, column: 17, message: '")" does not match "[" opened on line 1' },
+      { line: 2, column: 6, message: 'Unmatched "]"' },
+    ]);
+  });
+
+  it("reports unclosed strings", () => {
+    expect(validatePython('NAME = "admin\nOTHER = 1')).toEqual([
+      { line: 1, column: 8, message: "Unterminated string" },
+    ]);
+    expect(validatePython('DOC = """never closed\nOTHER = 1')).toEqual([
+      { line: 1, column: 7, message: "Unterminated triple-quoted string" },
+    ]);
+  });
+
+  it("reports a dedent to no outer level", () => {
+    expect(validatePython("def user(name):\n        x = 1\n    return x\n")).toEqual([
+      { line: 3, column: 5, message: "Indentation does not match any outer level" },
+    ]);
+  });
+
+  it("reports missing and unexpected indentation", () => {
+    expect(validatePython("def user(name):\nreturn name\nX = 1\n    Y = 2")).toEqual([
+      { line: 2, column: 1, message: "Expected an indented block after line 1" },
+      { line: 4, column: 5, message: "Unexpected indent" },
+    ]);
+  });
+
+  it("reports a line that is not a statement", () => {
+    expect(validatePython("USERS = {}\nadmin password\n")).toEqual([
+      { line: 2, column: 1, message: "Invalid syntax" },
+    ]);
+  });
+});
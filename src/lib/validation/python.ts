@@ -0,0 +1,141 @@
+import { CodeDiagnostic } from "./syntax";
+
+// Syntax checks for the generated Python variables files (testdata.py): strings
+// and brackets must close, indentation must follow the block structure, and
+// each statement must look like an assignment, import, definition or docstring.
+// Not a full Python parser, but it catches what the AI gets wrong in data files.
+
+const OPENERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const CLOSERS: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+
+const STATEMENT = /^(?:''|[A-Za-z_][\w.]*(?:\[.*\])?\s*(?:,\s*[A-Za-z_]\w*\s*)*(?:[-+*/|&]?=(?!=)|:)|[A-Za-z_][\w.]*\s*\(|@|(?:import|from|def|class|if|elif|else|for|while|try|except|finally|with|return|pass|del|assert|raise|global|async)\b)/;
+
+interface LogicalLine {
+  line: number;
+  indent: number;
+  text: string;
+}
+
+export const validatePython = (code: string): CodeDiagnostic[] => {
+  if (!code.trim()) return [];
+  const diagnostics: CodeDiagnostic[] = [];
+  const report = (line: number, column: number, message: string) => diagnostics.push({ line, column, message });
+
+  // Pass 1: strings, comments and brackets, collecting logical lines (a
+  // statement continues while a bracket or triple-quoted string is open)
+  const stack: { char: string; line: number; column: number }[] = [];
+  const logical: LogicalLine[] = [];
+  let current: LogicalLine | null = null;
+  let line = 1;
+  let column = 1;
+  let i = 0;
+  let atLineStart = true;
+  let continued = false;
+
+  const advance = (count: number) => {
+    for (let n = 0; n < count && i < code.length; n++, i++) {
+      if (code[i] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (atLineStart) {
+      const indent = code.slice(i).match(/^[ \t]*/)![0];
+      const rest = code.slice(i + indent.length);
+      atLineStart = false;
+      if (!stack.length && !continued && rest && !/^(#|\r?\n)/.test(rest)) {
+        current = { line, indent: indent.replace(/\t/g, "    ").length, text: "" };
+        logical.push(current);
+      }
+      continued = false;
+      advance(indent.length);
+      continue;
+    }
+
+    if (char === "#") {
+      while (i < code.length && code[i] !== "\n") advance(1);
+      continue;
+    }
+    if (char === "\\" && code[i + 1] === "\n") {
+      continued = true;
+      advance(2);
+      atLineStart = true;
+      continue;
+    }
+    if (char === "\n") {
+      advance(1);
+      atLineStart = true;
+      continue;
+    }
+
+    // String literals, with optional r/b/f/u prefixes already consumed as identifier text
+    if (char === "'" || char === '"') {
+      const triple = code.startsWith(char.repeat(3), i);
+      const quote = triple ? char.repeat(3) : char;
+      const start = { line, column };
+      const raw = /[rR]$/.test(code.slice(Math.max(0, i - 2), i).replace(/[^rRbBfFuU]/g, ""));
+      advance(quote.length);
+      let closed = false;
+      while (i < code.length) {
+        if (!raw && code[i] === "\\") {
+          advance(2);
+          continue;
+        }
+        if (code.startsWith(quote, i)) {
+          advance(quote.length);
+          closed = true;
+          break;
+        }
+        if (!triple && code[i] === "\n") break;
+        advance(1);
+      }
+      if (!closed) report(start.line, start.column, triple ? "Unterminated triple-quoted string" : "Unterminated string");
+      if (current) current.text += "''";
+      continue;
+    }
+
+    if (OPENERS[char]) {
+      stack.push({ char, line, column });
+    } else if (CLOSERS[char]) {
+      const open = stack.pop();
+      if (!open) {
+        report(line, column, `Unmatched "${char}"`);
+      } else if (open.char !== CLOSERS[char]) {
+        report(line, column, `"${char}" does not match "${open.char}" opened on line ${open.line}`);
+      }
+    }
+    if (current && stack.length <= 1) current.text += char;
+    advance(1);
+  }
+  stack.forEach(open => report(open.line, open.column, `"${open.char}" is never closed`));
+
+  // Pass 2: block structure and statement shapes
+  const indents = [0];
+  logical.forEach((statement, n) => {
+    const previous = logical[n - 1];
+    const opensBlock = previous && /:\s*$/.test(previous.text.trim());
+    if (opensBlock) {
+      if (statement.indent <= indents[indents.length - 1]) {
+        report(statement.line, 1, `Expected an indented block after line ${previous.line}`);
+      } else {
+        indents.push(statement.indent);
+      }
+    } else if (statement.indent > indents[indents.length - 1]) {
+      report(statement.line, statement.indent + 1, "Unexpected indent");
+    } else {
+      while (statement.indent < indents[indents.length - 1]) indents.pop();
+      if (statement.indent !== indents[indents.length - 1]) {
+        report(statement.line, statement.indent + 1, "Indentation does not match any outer level");
+      }
+    }
+    if (!STATEMENT.test(statement.text.trim())) report(statement.line, statement.indent + 1, "Invalid syntax");
+  });
+  return diagnostics;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { validateRobot } from "./robot";
+
+const SUITE = `*** Settings ***
+Library    SeleniumLibrary
+Resource    login_page.resource
+
+*** Variables ***
+\${BASE_URL}    http://localhost:3000
+@{USERS}    admin
+...    guest
+
+*** Test Cases ***
+Login With Valid Credentials
+    [Tags]    TC_LOGIN_001
+    Open Login Page    \${BASE_URL}
+    FOR    \${user}    IN    @{USERS}
+        IF    '\${user}' == 'admin'    Log    admin
+        Log In As    \${user}
+    END
+
+*** Keywords ***
+Open Login Page
+    [Arguments]    \${url}
+    Go To    \${url}
+`;
+
+describe("validateRobot", () => {
+  it("accepts a suite with settings, variables, blocks and a one-line IF", () => {
+    expect(validateRobot(SUITE)).toEqual([]);
+  });
+
+  it("reports unknown sections and settings and content before the first section", () => {
+    expect(validateRobot("Library    X\n*** Setting ***\nLibray    SeleniumLibrary\n*** Tests ***\n")).toEqual([
+      { line: 1, column: 1, message: "Content before the first section header" },
+      { line: 3, column: 1, message: 'Unknown setting "Libray"' },
+      { line: 4, column: 1, message: 'Unknown section "Tests"' },
+    ]);
+  });
+
+  it("reports a block without END and an END without a block", () => {
+    const code = "*** Test Cases ***\nLoop\n    FOR    ${i}    IN RANGE    3\n        Log    ${i}\nDone\n    Log    done\n    END\n";
+    expect(validateRobot(code)).toEqual([
+      { line: 3, column: 1, message: 'FOR in "Loop" has no matching END' },
+      { line: 7, column: 1, message: "END without an open FOR, WHILE, IF or TRY" },
+    ]);
+  });
+
+  it("reports unclosed variables, single-space indents and empty test cases", () => {
+    const code = "*** Test Cases ***\nEmpty\nLogin\n Log    ${user\n";
+    expect(validateRobot(code)).toEqual([
+      { line: 2, column: 1, message: '"Empty" has no steps' },
+      { line: 4, column: 9, message: "Variable is not closed with }" },
+      { line: 4, column: 1, message: "Steps must be indented with at least two spaces or a tab" },
+    ]);
+  });
+
+  it("reports unknown test and keyword settings", () => {
+    const code = "*** Keywords ***\nLog In\n    [Argument]    ${user}\n    Log    ${user}\n";
+    expect(validateRobot(code)).toEqual([{ line: 3, column: 1, message: "Unknown setting [Argument]" }]);
+  });
+});
@@ -0,0 +1,139 @@
+import { CodeDiagnostic } from "./syntax";
+
+// Structural checks of a Robot Framework file: Robot itself accepts almost any
+// text, so these catch what makes a generated suite fail to load or run as meant.
+
+type Section = "settings" | "variables" | "testcases" | "keywords" | "comments";
+
+const SECTIONS: Record<string, Section> = {
+  setting: "settings",
+  settings: "settings",
+  variable: "variables",
+  variables: "variables",
+  "test case": "testcases",
+  "test cases": "testcases",
+  task: "testcases",
+  tasks: "testcases",
+  keyword: "keywords",
+  keywords: "keywords",
+  comment: "comments",
+  comments: "comments",
+};
+
+const SETTINGS = new Set([
+  "library", "resource", "variables", "documentation", "metadata", "name",
+  "suite setup", "suite teardown", "test setup", "test teardown", "test template", "test timeout",
+  "task setup", "task teardown", "task template", "task timeout",
+  "test tags", "task tags", "force tags", "default tags", "keyword tags",
+]);
+
+const TEST_SETTINGS = new Set(["documentation", "tags", "setup", "teardown", "template", "timeout"]);
+const KEYWORD_SETTINGS = new Set(["documentation", "tags", "arguments", "setup", "teardown", "timeout", "return"]);
+
+// Control structures closed by END; IF also has a one-line form (IF  cond  Keyword)
+const BLOCK_OPENERS = new Set(["FOR", "WHILE", "TRY", "IF"]);
+
+// Cells of a data line: separated by two or more spaces, a tab, or " | "
+const cells = (line: string) => line.trim().split(/\s{2,}|\t| \| /).filter(Boolean);
+
+// ${var}, @{list} and &{dict} opened in a line but never closed
+const unclosedVariable = (line: string): number => {
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (/[$@&%]/.test(line[i]) && line[i + 1] === "{" && line[i - 1] !== "\\") {
+      if (depth === 0) start = i;
+      depth++;
+      i++;
+    } else if (line[i] === "}" && depth > 0) {
+      depth--;
+    }
+  }
+  return depth > 0 ? start : -1;
+};
+
+export const validateRobot = (code: string): CodeDiagnostic[] => {
+  if (!code.trim()) return [];
+  const diagnostics: CodeDiagnostic[] = [];
+  const report = (line: number, message: string, column = 1) => diagnostics.push({ line, column, message });
+
+  let section: Section | null = null;
+  // The test or keyword being read, with its open control blocks
+  let item: { name: string; line: number; steps: number; blocks: { keyword: string; line: number }[] } | null = null;
+
+  const closeItem = () => {
+    if (!item) return;
+    item.blocks.forEach(block => report(block.line, `${block.keyword} in "${item!.name}" has no matching END`));
+    if (item.steps === 0) report(item.line, `"${item.name}" has no steps`);
+    item = null;
+  };
+
+  code.split("\n").forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = raw.replace(/\r$/, "");
+    if (!line.trim() || line.trim().startsWith("#")) return;
+
+    const header = line.match(/^\*+\s*([^*]+?)\s*\**\s*$/);
+    if (header) {
+      closeItem();
+      section = SECTIONS[header[1].toLowerCase()] ?? null;
+      if (!section) report(lineNumber, `Unknown section "${header[1]}"`);
+      return;
+    }
+    if (section === "comments") return;
+    if (!section) {
+      report(lineNumber, "Content before the first section header");
+      return;
+    }
+
+    const variable = unclosedVariable(line);
+    if (variable !== -1) report(lineNumber, "Variable is not closed with }", variable + 1);
+
+    const indented = /^\s/.test(line);
+    const [first = ""] = cells(line);
+
+    if (section === "settings" || section === "variables") {
+      if (indented || first === "...") {
+        if (first !== "...") report(lineNumber, "Indented line in a settings or variables table; continue a value with ...");
+        return;
+      }
+      if (section === "settings" && !SETTINGS.has(first.toLowerCase())) {
+        report(lineNumber, `Unknown setting "${first}"`);
+      }
+      if (section === "variables" && !/^[$@&]\{.+\} ?=?$/.test(first)) {
+        report(lineNumber, `"${first}" is not a variable name such as \${NAME}, @{LIST} or &{DICT}`);
+      }
+      return;
+    }
+
+    // Test case and keyword tables: names at the start of a line, steps indented under them
+    if (!indented) {
+      closeItem();
+      item = { name: line.trim(), line: lineNumber, steps: 0, blocks: [] };
+      return;
+    }
+    if (!item) {
+      report(lineNumber, `Indented line before the first ${section === "keywords" ? "keyword" : "test case"} name`);
+      return;
+    }
+    if (/^ (?! )/.test(line)) report(lineNumber, "Steps must be indented with at least two spaces or a tab");
+
+    const setting = first.match(/^\[(.+)\]$/);
+    if (setting) {
+      const allowed = section === "keywords" ? KEYWORD_SETTINGS : TEST_SETTINGS;
+      if (!allowed.has(setting[1].toLowerCase())) report(lineNumber, `Unknown setting ${first}`);
+      return;
+    }
+    if (first === "...") return;
+
+    item.steps++;
+    if (BLOCK_OPENERS.has(first)) {
+      // One-line IF: a condition followed by the keyword to run
+      if (first !== "IF" || cells(line).length <= 2) item.blocks.push({ keyword: first, line: lineNumber });
+    } else if (first === "END") {
+      if (!item.blocks.pop()) report(lineNumber, "END without an open FOR, WHILE, IF or TRY");
+    }
+  });
+  closeItem();
+  return diagnostics;
+};
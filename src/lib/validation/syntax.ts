@@ -0,0 +1,67 @@
+import { FileKey, GeneratedCode } from "../generatedCode";
+import { TargetLanguage } from "../targetLanguage";
+import { validateGherkin } from "./gherkin";
+import { validateJavaScript } from "./javascript";
+import { validatePython } from "./python";
+import { validateRobot } from "./robot";
+
+// A syntax error in a generated file; line and column start at 1
+export interface CodeDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export type CodeDiagnostics = Partial<Record<FileKey, CodeDiagnostic[]>>;
+
+export type SyntaxLanguage = "javascript" | "typescript" | "gherkin" | "robot" | "python" | "java" | "csharp";
+
+const parseErrors = (language: SyntaxLanguage, code: string): CodeDiagnostic[] => {
+  switch (language) {
+    case "javascript":
+      return validateJavaScript(code);
+    case "typescript":
+      return validateJavaScript(code, true);
+    case "gherkin":
+      return validateGherkin(code);
+    case "robot":
+      return validateRobot(code);
+    case "python":
+      return validatePython(code);
+    case "java":
+    case "csharp":
+      // No parser for these is bundled; their compilers report the errors
+      return [];
+  }
+};
+
+const byPosition = (a: CodeDiagnostic, b: CodeDiagnostic) => a.line - b.line || a.column - b.column;
+
+// Syntax errors of a file, in the order they appear
+export const validateSyntax = (language: SyntaxLanguage, code: string): CodeDiagnostic[] =>
+  parseErrors(language, code).sort(byPosition);
+
+// Language of one of an output type's files
+export const fileLanguage = (outputType: string, key: FileKey, language: TargetLanguage = "javascript"): SyntaxLanguage => {
+  if (key === "featureFile" || outputType === "gherkin") return "gherkin";
+  if (outputType === "robot") return key === "dataFile" ? "python" : "robot";
+  return language === "esm" ? "javascript" : language;
+};
+
+// Errors of each non-empty file of a generation
+export const validateGeneratedCode = (outputType: string, code: GeneratedCode, language: TargetLanguage = "javascript"): CodeDiagnostics =>
+  Object.fromEntries(
+    (Object.keys(code) as FileKey[])
+      .filter(key => code[key])
+      .map(key => [key, validateSyntax(fileLanguage(outputType, key, language), code[key])] as const)
+      .filter(([, diagnostics]) => diagnostics.length > 0)
+  );
+
+export const countDiagnostics = (diagnostics: CodeDiagnostics): number =>
+  Object.values(diagnostics).reduce((sum, list) => sum + (list?.length || 0), 0);
+
+// Errors as the repair prompt lists them: "pageObject line 12:5: Unexpected token"
+export const describeDiagnostics = (diagnostics: CodeDiagnostics, limit: number): string[] =>
+  Object.entries(diagnostics)
+    .flatMap(([key, list]) => (list || []).map(d => `${key} line ${d.line}:${d.column}: ${d.message}`))
+    .slice(0, limit);
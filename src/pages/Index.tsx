@@ -1,19 +1,39 @@
-import { useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { FileText, Code, Sparkles, Play, TestTube, Bot, Layers, Zap } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Code, Play, TestTube, Bot, Layers, Zap, Loader2, Globe, Coffee, Network } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import Footer from "@/components/Footer";
 import CsvUploader, { TestCaseData } from "@/components/CsvUploader";
+import { includedTestCaseData } from "@/lib/testCaseData";
+import { toFeatureText } from "@/lib/importers/feature";
 import CodeOutput from "@/components/CodeOutput";
 import BddCodeOutput from "@/components/BddCodeOutput";
 import WorkflowSteps from "@/components/WorkflowSteps";
+import GenerationHistory from "@/components/GenerationHistory";
+import AuthenticationCard from "@/components/AuthenticationCard";
+import AccountMenu from "@/components/AccountMenu";
+import ModelPicker from "@/components/ModelPicker";
+import ModuleEditor from "@/components/ModuleEditor";
+import FrameworkLanguagePicker from "@/components/FrameworkLanguagePicker";
+import { ModuleRule, assignModules, loadModuleRules, saveModuleRules } from "@/lib/modules";
+import { FrameworkLanguages, frameworkLanguage, loadFrameworkLanguages, saveFrameworkLanguages } from "@/lib/targetLanguage";
+import { FrameworkRunners, frameworkRunner, loadFrameworkRunners, runnerLanguage, saveFrameworkRunners } from "@/lib/testRunner";
+import { FRAMEWORK_LABELS } from "@/lib/frameworks";
+import { API_CLIENTS, ApiClient, apiTestCases, isApiTestCase, loadApiClient, saveApiClient } from "@/lib/apiTests";
+import { useAuth } from "@/hooks/use-auth";
+import { GenerationMode, GenerationOutputType, GenerationRun, recordGenerationRun, saveTestSuite } from "@/lib/persistence";
 
-type OutputType = "gherkin" | "playwright" | "selenium" | "cypress" | "robot" | null;
-type FrameworkType = "playwright" | "selenium" | "cypress" | "robot";
+type OutputType = "gherkin" | "playwright" | "selenium" | "cypress" | "webdriverio" | "testcafe" | "robot" | "api" | null;
+type FrameworkType = "playwright" | "selenium" | "cypress" | "webdriverio" | "testcafe" | "robot";
 type AutomationMode = "classic" | "bdd" | null;
 
+const MODEL_STORAGE_KEY = "qatalyst.model";
+
 const Index = () => {
   const [testData, setTestData] = useState<TestCaseData | null>(null);
+  // Included test cases, captured when an output type is picked so grid edits don't retrigger generation
+  const [generationData, setGenerationData] = useState<TestCaseData | null>(null);
   const [outputType, setOutputType] = useState<OutputType>(null);
   const [generatedCode, setGeneratedCode] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
@@ -23,10 +43,75 @@ const Index = () => {
   const [frameworkAfterGherkin, setFrameworkAfterGherkin] = useState<FrameworkType | null>(null);
   const [frameworkCode, setFrameworkCode] = useState("");
   const [isGeneratingFramework, setIsGeneratingFramework] = useState(false);
+  // File the current test cases came from, used to name the stored suite
+  const [sourceFile, setSourceFile] = useState<string | null>(null);
+  // BDD files of a reopened generation
+  const [bddCode, setBddCode] = useState<Record<string, string> | undefined>(undefined);
+  // Remounts the output panels when a previous generation is reopened
+  const [viewKey, setViewKey] = useState(0);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Suite the current generation data is stored as, saved with its first generation
+  const suiteRef = useRef<{ data: TestCaseData; workspaceId: string; id: Promise<string> } | null>(null);
+  // AI model picked in the header, sent with every generation request
+  const [model, setModel] = useState<string | null>(() => localStorage.getItem(MODEL_STORAGE_KEY));
+  // How test cases are grouped into modules: saved rules, and renames for the current data
+  const [moduleRules, setModuleRules] = useState<ModuleRule[]>(loadModuleRules);
+  const [moduleRenames, setModuleRenames] = useState<Record<string, string>>({});
+  // Language and runner each framework's projects are generated for
+  const [frameworkLanguages, setFrameworkLanguages] = useState<FrameworkLanguages>(loadFrameworkLanguages);
+  const [frameworkRunners, setFrameworkRunners] = useState<FrameworkRunners>(loadFrameworkRunners);
+  // Client API tests are written with
+  const [apiClient, setApiClient] = useState<ApiClient>(loadApiClient);
   const { toast } = useToast();
+  const { session, isLoading: isAuthLoading, workspace } = useAuth();
+
+  const handleModelChange = useCallback((id: string) => {
+    setModel(id);
+    localStorage.setItem(MODEL_STORAGE_KEY, id);
+  }, []);
+
+  const handleFrameworkLanguagesChange = (choices: FrameworkLanguages) => {
+    setFrameworkLanguages(choices);
+    saveFrameworkLanguages(choices);
+  };
+
+  const handleFrameworkRunnersChange = (choices: FrameworkRunners) => {
+    setFrameworkRunners(choices);
+    saveFrameworkRunners(choices);
+  };
+
+  const handleApiClientChange = (client: ApiClient) => {
+    setApiClient(client);
+    saveApiClient(client);
+  };
+
+  // Runner and language a classic project of the framework is generated for
+  const classicTarget = (framework: string) => {
+    const runner = frameworkRunner(framework, frameworkRunners);
+    return { runner, language: runnerLanguage(runner, frameworkLanguage(framework, frameworkLanguages)) };
+  };
+
+  // What a project of the output type is generated for: API tests follow their client
+  const outputTarget = (type: Exclude<OutputType, null>) =>
+    type === "api" ? { apiClient, language: API_CLIENTS[apiClient].language } : classicTarget(type);
+
+  const handleModuleRulesChange = (rules: ModuleRule[]) => {
+    setModuleRules(rules);
+    saveModuleRules(rules);
+  };
+
+  const handleDataLoaded = (data: TestCaseData, fileName?: string) => {
+    setTestData(data);
+    setModuleRenames({});
+    if (fileName) setSourceFile(fileName);
+  };
 
   const handleReset = () => {
     setTestData(null);
+    setGenerationData(null);
+    setSourceFile(null);
+    setModuleRenames({});
+    setBddCode(undefined);
     setOutputType(null);
     setGeneratedCode("");
     setGherkinResult("");
@@ -37,26 +122,112 @@ const Index = () => {
 
   const handleSelectOutput = (type: OutputType) => {
     setGeneratedCode("");
+    setBddCode(undefined);
     setGherkinResult("");
     setAutomationMode(null);
     setFrameworkAfterGherkin(null);
     setFrameworkCode("");
+    const included = testData ? includedTestCaseData(testData) : null;
+    // API tests are generated for the API checks among the test cases only
+    const testCases = included && assignModules(type === "api" ? apiTestCases(included.testCases) : included.testCases, moduleRules, moduleRenames);
+    const data = included && testCases && { ...included, testCases };
+    setGenerationData(data);
+
+    // Scenarios imported from .feature files stand in for the generate-gherkin step
+    if (type !== "api" && data && data.testCases.length > 0 && data.testCases.every(tc => tc.gherkin)) {
+      const feature = toFeatureText(data.testCases);
+      setGeneratedCode(feature);
+      setGherkinResult(feature);
+      setOutputType("gherkin");
+      if (type && type !== "gherkin") {
+        setAutomationMode("classic");
+        setFrameworkAfterGherkin(type);
+      }
+      return;
+    }
     setOutputType(type);
   };
 
   const handleSelectFrameworkAfterGherkin = (type: FrameworkType) => {
     setFrameworkCode("");
+    setBddCode(undefined);
     setAutomationMode("classic");
     setFrameworkAfterGherkin(type);
   };
 
+  // Store a finished generation; failures only cost the history entry
+  const storeGeneration = async (
+    outputType: GenerationOutputType,
+    mode: GenerationMode,
+    output: Record<string, string>,
+    model?: string,
+    gherkin?: string
+  ) => {
+    if (!generationData || !workspace) return;
+    try {
+      if (suiteRef.current?.data !== generationData || suiteRef.current.workspaceId !== workspace.id) {
+        suiteRef.current = {
+          data: generationData,
+          workspaceId: workspace.id,
+          id: saveTestSuite(workspace.id, sourceFile, generationData),
+        };
+      }
+      const suiteId = await suiteRef.current.id;
+      await recordGenerationRun({
+        suiteId,
+        outputType,
+        mode,
+        framework: outputType === "gherkin" ? null : outputType === "api" ? apiClient : outputType,
+        model,
+        input: { testData: generationData, ...(gherkin ? { gherkin } : {}) },
+        output,
+      });
+      setHistoryVersion(v => v + 1);
+    } catch (error) {
+      console.error('Failed to save generation:', error);
+      suiteRef.current = null;
+    }
+  };
+
+  const handleOpenRun = (run: GenerationRun) => {
+    const data = run.input.testData;
+    const gherkin = run.outputType === "gherkin" ? run.output.gherkin || "" : run.input.gherkin || "";
+    suiteRef.current = workspace ? { data, workspaceId: workspace.id, id: Promise.resolve(run.suiteId) } : null;
+    setTestData(data);
+    setGenerationData(data);
+    setSourceFile(run.suiteName);
+    setGherkinResult(gherkin);
+    setFrameworkCode("");
+    setBddCode(undefined);
+    setAutomationMode(null);
+    setFrameworkAfterGherkin(null);
+
+    if (run.outputType === "gherkin") {
+      setOutputType("gherkin");
+      setGeneratedCode(gherkin);
+    } else if (gherkin && run.outputType !== "api") {
+      setOutputType("gherkin");
+      setGeneratedCode(gherkin);
+      setAutomationMode(run.mode);
+      setFrameworkAfterGherkin(run.outputType);
+      if (run.mode === "bdd") setBddCode(run.output);
+      else setFrameworkCode(JSON.stringify(run.output));
+    } else {
+      setOutputType(run.outputType);
+      setGeneratedCode(JSON.stringify(run.output));
+    }
+    setViewKey(k => k + 1);
+  };
+
   const getCurrentStep = () => {
     if (!testData || testData.testCases.length === 0) return 1;
     if (!outputType) return 1;
     return 2;
   };
 
-  const hasTestCases = testData && testData.testCases.length > 0;
+  const hasTestCases = testData && testData.testCases.some(tc => !tc.excluded);
+  const hasImportedGherkin = hasTestCases && testData.testCases.every(tc => tc.excluded || tc.gherkin);
+  const apiCaseCount = testData ? testData.testCases.filter(tc => !tc.excluded && isApiTestCase(tc)).length : 0;
   const gherkinGenerated = outputType === "gherkin" && gherkinResult.length > 0 && !isGenerating;
 
   const frameworkButtons = (onClick: (fw: FrameworkType) => void) => (
@@ -70,9 +241,23 @@ const Index = () => {
       <Button onClick={() => onClick("cypress")} className="bg-cyan-600 hover:bg-cyan-700 text-white" size="lg">
         <Play className="h-5 w-5 mr-2" /> Cypress
       </Button>
+      <Button onClick={() => onClick("webdriverio")} className="bg-amber-600 hover:bg-amber-700 text-white" size="lg">
+        <Globe className="h-5 w-5 mr-2" /> WebdriverIO
+      </Button>
+      <Button onClick={() => onClick("testcafe")} className="bg-teal-600 hover:bg-teal-700 text-white" size="lg">
+        <Coffee className="h-5 w-5 mr-2" /> TestCafe
+      </Button>
       <Button onClick={() => onClick("robot")} className="bg-rose-600 hover:bg-rose-700 text-white" size="lg">
         <Bot className="h-5 w-5 mr-2" /> Robot Framework
       </Button>
+      <div className="basis-full">
+        <FrameworkLanguagePicker
+          value={frameworkLanguages}
+          onChange={handleFrameworkLanguagesChange}
+          runners={frameworkRunners}
+          onRunnersChange={handleFrameworkRunnersChange}
+        />
+      </div>
     </div>
   );
 
@@ -94,154 +279,224 @@ const Index = () => {
                 QAtalyst — AI-Powered Test Automation Generator
               </h1>
             </div>
-            <div className="flex items-center space-x-2 text-base text-emerald-400">
-              <Sparkles className="h-5 w-5" />
-              <span className="font-medium">Powered by Gemini Flash</span>
+            <div className="flex items-center space-x-4">
+              {session && <ModelPicker value={model} onChange={handleModelChange} />}
+              <AccountMenu />
             </div>
           </div>
         </div>
       </div>
 
-      <div className="container mx-auto px-6 py-8 max-w-5xl">
-        <WorkflowSteps currentStep={getCurrentStep()} />
-
-        {/* Step 1: Upload */}
-        <div className="mb-8">
-          <div className="flex items-center gap-2 mb-4">
-            <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold text-sm">1</div>
-            <h2 className="text-lg font-semibold text-white">Upload Test Case (CSV)</h2>
-          </div>
-          <CsvUploader onDataLoaded={setTestData} testData={testData} onReset={handleReset} />
+      {isAuthLoading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="h-8 w-8 text-blue-400 animate-spin" />
+        </div>
+      ) : !session ? (
+        <div className="container mx-auto px-6 py-16 flex justify-center">
+          <AuthenticationCard />
         </div>
+      ) : (
+        <div className="container mx-auto px-6 py-8 max-w-5xl">
+          <WorkflowSteps currentStep={getCurrentStep()} />
 
-        {/* Step 2: Select Output Type */}
-        {hasTestCases && !outputType && (
+          {/* Step 1: Upload */}
           <div className="mb-8">
             <div className="flex items-center gap-2 mb-4">
-              <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold text-sm">2</div>
-              <h2 className="text-lg font-semibold text-white">Select Output Type</h2>
+              <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold text-sm">1</div>
+              <h2 className="text-lg font-semibold text-white">Upload Test Case (CSV / Excel / Gherkin)</h2>
             </div>
+            <CsvUploader onDataLoaded={handleDataLoaded} testData={testData} onReset={handleReset} />
+          </div>
+
+          {/* Step 2: Select Output Type */}
+          {hasTestCases && !outputType && (
+            <div className="mb-8">
+              <div className="flex items-center gap-2 mb-4">
+                <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold text-sm">2</div>
+                <h2 className="text-lg font-semibold text-white">Select Output Type</h2>
+              </div>
             
-            {/* Documentation */}
-            <div className="mb-4">
-              <h3 className="text-sm font-medium text-slate-400 mb-3 uppercase tracking-wide">Documentation / BDD</h3>
-              <div className="flex flex-wrap gap-3">
+              {/* Documentation */}
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-slate-400 mb-3 uppercase tracking-wide">Documentation / BDD</h3>
+                <div className="flex flex-wrap gap-3">
+                  <Button 
+                    onClick={() => handleSelectOutput("gherkin")}
+                    className="bg-purple-600 hover:bg-purple-700 text-white"
+                    size="lg"
+                  >
+                    <FileText className="h-5 w-5 mr-2" />
+                    {hasImportedGherkin ? "Use Imported Gherkin" : "Generate Gherkin"}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Direct Automation Framework */}
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-slate-400 mb-3 uppercase tracking-wide">Automation Framework (Classic)</h3>
+                {frameworkButtons((fw) => handleSelectOutput(fw))}
+              </div>
+
+              {/* API Tests */}
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-slate-400 mb-3 uppercase tracking-wide">API Tests</h3>
+                <div className="flex flex-wrap items-center gap-3">
+                  <Button onClick={() => handleSelectOutput("api")} className="bg-indigo-600 hover:bg-indigo-700 text-white" size="lg">
+                    <Network className="h-5 w-5 mr-2" /> API Tests
+                  </Button>
+                  <Select value={apiClient} onValueChange={(client) => handleApiClientChange(client as ApiClient)}>
+                    <SelectTrigger aria-label="API test client" className="h-9 w-56 bg-slate-800 border-slate-600 text-slate-200">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(API_CLIENTS) as ApiClient[]).map(client => (
+                        <SelectItem key={client} value={client}>
+                          {API_CLIENTS[client].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-slate-400">
+                    {apiCaseCount
+                      ? `${apiCaseCount} test case${apiCaseCount === 1 ? "" : "s"} look like API checks`
+                      : "No API checks detected; all test cases will be used"}
+                  </span>
+                </div>
+              </div>
+
+              <ModuleEditor
+                testCases={testData.testCases.filter(tc => !tc.excluded)}
+                rules={moduleRules}
+                onRulesChange={handleModuleRulesChange}
+                renames={moduleRenames}
+                onRenamesChange={setModuleRenames}
+              />
+            </div>
+          )}
+
+          {/* Generated Output (Gherkin or Classic Framework) */}
+          {outputType && generationData && (
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold text-sm">2</div>
+                  <h2 className="text-lg font-semibold text-white">Generated Output</h2>
+                </div>
                 <Button 
-                  onClick={() => handleSelectOutput("gherkin")}
-                  className="bg-purple-600 hover:bg-purple-700 text-white"
-                  size="lg"
+                  variant="outline" size="sm"
+                  onClick={() => setOutputType(null)}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
                 >
-                  <FileText className="h-5 w-5 mr-2" />
-                  Generate Gherkin
+                  Back to Selection
                 </Button>
               </div>
-            </div>
 
-            {/* Direct Automation Framework */}
-            <div>
-              <h3 className="text-sm font-medium text-slate-400 mb-3 uppercase tracking-wide">Automation Framework (Classic)</h3>
-              {frameworkButtons((fw) => handleSelectOutput(fw))}
+              <CodeOutput
+                key={`output-${viewKey}`}
+                type={outputType}
+                testData={generationData}
+                generatedCode={generatedCode}
+                onCodeGenerated={(code) => {
+                  setGeneratedCode(code);
+                  if (outputType === "gherkin") setGherkinResult(code);
+                }}
+                onGenerated={(code, model) =>
+                  storeGeneration(outputType, "classic", outputType === "gherkin" ? { gherkin: code } : JSON.parse(code), model)
+                }
+                isGenerating={isGenerating}
+                setIsGenerating={setIsGenerating}
+                model={model}
+                {...outputTarget(outputType)}
+              />
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Generated Output (Gherkin or Classic Framework) */}
-        {outputType && testData && (
-          <div className="mb-8">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center gap-2">
-                <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold text-sm">2</div>
-                <h2 className="text-lg font-semibold text-white">Generated Output</h2>
+          {/* Step 3: After Gherkin → Choose Framework (auto Classic mode) */}
+          {gherkinGenerated && !frameworkAfterGherkin && (
+            <div className="mb-8">
+              <div className="flex items-center gap-2 mb-4">
+                <div className="h-8 w-8 rounded-full bg-emerald-600 flex items-center justify-center text-white font-bold text-sm">3</div>
+                <h2 className="text-lg font-semibold text-white">Select Framework (Classic + Gherkin)</h2>
               </div>
-              <Button 
-                variant="outline" size="sm"
-                onClick={() => setOutputType(null)}
-                className="border-slate-600 text-slate-300 hover:bg-slate-700"
-              >
-                Back to Selection
-              </Button>
+              <p className="text-slate-400 text-sm mb-4">
+                Generate Page Object Model + Step Definitions integrated with your Gherkin scenarios.
+              </p>
+              {frameworkButtons(handleSelectFrameworkAfterGherkin)}
             </div>
+          )}
 
-            <CodeOutput
-              type={outputType}
-              testData={testData}
-              generatedCode={generatedCode}
-              onCodeGenerated={(code) => {
-                setGeneratedCode(code);
-                if (outputType === "gherkin") setGherkinResult(code);
-              }}
-              isGenerating={isGenerating}
-              setIsGenerating={setIsGenerating}
-            />
-          </div>
-        )}
-
-        {/* Step 3: After Gherkin → Choose Framework (auto Classic mode) */}
-        {gherkinGenerated && !frameworkAfterGherkin && (
-          <div className="mb-8">
-            <div className="flex items-center gap-2 mb-4">
-              <div className="h-8 w-8 rounded-full bg-emerald-600 flex items-center justify-center text-white font-bold text-sm">3</div>
-              <h2 className="text-lg font-semibold text-white">Select Framework (Classic + Gherkin)</h2>
+          {/* Step 3c: Classic framework output */}
+          {frameworkAfterGherkin && automationMode === "classic" && generationData && (
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <div className="h-8 w-8 rounded-full bg-emerald-600 flex items-center justify-center text-white font-bold text-sm">3</div>
+                  <h2 className="text-lg font-semibold text-white">Framework Code (Classic + Gherkin)</h2>
+                </div>
+                <Button 
+                  variant="outline" size="sm"
+                  onClick={() => setFrameworkAfterGherkin(null)}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  Back to Framework Selection
+                </Button>
+              </div>
+              <CodeOutput
+                key={`framework-${viewKey}`}
+                type={frameworkAfterGherkin}
+                testData={generationData}
+                generatedCode={frameworkCode}
+                onCodeGenerated={setFrameworkCode}
+                onGenerated={(code, model) =>
+                  storeGeneration(frameworkAfterGherkin, "classic", JSON.parse(code), model, gherkinResult)
+                }
+                isGenerating={isGeneratingFramework}
+                setIsGenerating={setIsGeneratingFramework}
+                gherkinContext={gherkinResult}
+                model={model}
+                {...classicTarget(frameworkAfterGherkin)}
+              />
             </div>
-            <p className="text-slate-400 text-sm mb-4">
-              Generate Page Object Model + Step Definitions integrated with your Gherkin scenarios.
-            </p>
-            {frameworkButtons(handleSelectFrameworkAfterGherkin)}
-          </div>
-        )}
+          )}
 
-        {/* Step 3c: Classic framework output */}
-        {frameworkAfterGherkin && automationMode === "classic" && testData && (
-          <div className="mb-8">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center gap-2">
-                <div className="h-8 w-8 rounded-full bg-emerald-600 flex items-center justify-center text-white font-bold text-sm">3</div>
-                <h2 className="text-lg font-semibold text-white">Framework Code (Classic + Gherkin)</h2>
+          {/* Step 3c: BDD framework output */}
+          {frameworkAfterGherkin && automationMode === "bdd" && generationData && (
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <div className="h-8 w-8 rounded-full bg-emerald-600 flex items-center justify-center text-white font-bold text-sm">3</div>
+                  <h2 className="text-lg font-semibold text-white">BDD Architecture — {FRAMEWORK_LABELS[frameworkAfterGherkin]}</h2>
+                </div>
+                <Button 
+                  variant="outline" size="sm"
+                  onClick={() => setFrameworkAfterGherkin(null)}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  Back to Framework Selection
+                </Button>
               </div>
-              <Button 
-                variant="outline" size="sm"
-                onClick={() => setFrameworkAfterGherkin(null)}
-                className="border-slate-600 text-slate-300 hover:bg-slate-700"
-              >
-                Back to Framework Selection
-              </Button>
+              <BddCodeOutput
+                key={`bdd-${viewKey}`}
+                framework={frameworkAfterGherkin}
+                testData={generationData}
+                gherkinScenarios={gherkinResult}
+                initialCode={bddCode}
+                model={model}
+                language={frameworkLanguage(frameworkAfterGherkin, frameworkLanguages)}
+                onGenerated={(code, model) =>
+                  storeGeneration(frameworkAfterGherkin, "bdd", code, model, gherkinResult)
+                }
+              />
             </div>
-            <CodeOutput
-              type={frameworkAfterGherkin}
-              testData={testData}
-              generatedCode={frameworkCode}
-              onCodeGenerated={setFrameworkCode}
-              isGenerating={isGeneratingFramework}
-              setIsGenerating={setIsGeneratingFramework}
-              gherkinContext={gherkinResult}
-            />
-          </div>
-        )}
+          )}
 
-        {/* Step 3c: BDD framework output */}
-        {frameworkAfterGherkin && automationMode === "bdd" && testData && (
-          <div className="mb-8">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center gap-2">
-                <div className="h-8 w-8 rounded-full bg-emerald-600 flex items-center justify-center text-white font-bold text-sm">3</div>
-                <h2 className="text-lg font-semibold text-white">BDD Architecture — {frameworkAfterGherkin.charAt(0).toUpperCase() + frameworkAfterGherkin.slice(1)}</h2>
-              </div>
-              <Button 
-                variant="outline" size="sm"
-                onClick={() => setFrameworkAfterGherkin(null)}
-                className="border-slate-600 text-slate-300 hover:bg-slate-700"
-              >
-                Back to Framework Selection
-              </Button>
+          {workspace && (
+            <div className="mb-8">
+              <GenerationHistory workspaceId={workspace.id} refreshKey={historyVersion} onOpen={handleOpenRun} />
             </div>
-            <BddCodeOutput
-              framework={frameworkAfterGherkin}
-              testData={testData}
-              gherkinScenarios={gherkinResult}
-            />
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
       <Footer />
     </div>
   );
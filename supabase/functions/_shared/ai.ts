@@ -0,0 +1,132 @@
+import { HttpError } from "./http.ts";
+import { currentProvider, resolveModel } from "./providers.ts";
+import { readEventData } from "./sse.ts";
+
+// Attempts share one deadline that ends before the browser gives up (120s)
+const MAX_ATTEMPTS = 3;
+const ATTEMPT_TIMEOUT_MS = 90_000;
+const DEADLINE_MS = 110_000;
+const BASE_BACKOFF_MS = 1_000;
+// Don't start another attempt with less time than this left
+const MIN_ATTEMPT_MS = 15_000;
+// A streamed answer may run past the deadline as long as text keeps arriving
+const STREAM_IDLE_MS = 60_000;
+
+// Statuses worth retrying: rate limiting and transient upstream failures
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface Completion {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface CompletionOptions {
+  temperature: number;
+  // A model offered by the configured provider; its default when null
+  model: string | null;
+  // Aborts the upstream request, e.g. when the browser cancels
+  signal?: AbortSignal;
+  // Streams the answer, called with each piece of text as it arrives
+  onText?: (text: string) => void;
+}
+
+export class CompletionAbortedError extends Error {}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter, or the provider's Retry-After when it sends a short one
+export function backoffDelay(attempt: number, retryAfter?: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds) && seconds >= 0 && seconds <= 30) return seconds * 1000;
+  const base = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+  return base / 2 + Math.random() * base / 2;
+}
+
+function providerError(status: number): Error {
+  if (status === 429) return new HttpError(429, "AI Generation limit reached. Please try again later.");
+  if (status === 402) return new HttpError(402, "Payment required. Please add credits to your workspace.");
+  return new Error(`AI provider responded with ${status}`);
+}
+
+// Sends one prompt to the configured AI provider, retrying rate limits, upstream
+// errors and timeouts. Errors meant for the user are HttpErrors; anything else is
+// internal. A streamed answer is not retried once text has reached onText.
+export async function complete(prompt: string, options: CompletionOptions): Promise<Completion> {
+  const provider = currentProvider();
+  const model = resolveModel(provider, options.model);
+  const { url, headers, body } = provider.request(prompt, model, options.temperature, Boolean(options.onText));
+  const deadline = Date.now() + DEADLINE_MS;
+  let lastError: Error = new Error("AI provider was not called");
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const remaining = deadline - Date.now();
+    if (attempt > 1 && remaining < MIN_ATTEMPT_MS) break;
+
+    const timeout = new AbortController();
+    let timer = setTimeout(() => timeout.abort(), Math.min(ATTEMPT_TIMEOUT_MS, remaining));
+    const signal = options.signal ? AbortSignal.any([timeout.signal, options.signal]) : timeout.signal;
+    let retryAfter: string | null = null;
+    let streamed = false;
+    try {
+      const response = await fetch(url, { method: "POST", headers, body: JSON.stringify(body), signal });
+
+      if (response.ok && !options.onText) {
+        return { model, ...provider.parse(await response.json()) };
+      }
+
+      if (response.ok && response.body) {
+        const onText = options.onText!;
+        let content = "";
+        const usage: TokenUsage = {};
+        await readEventData(response.body, (data) => {
+          clearTimeout(timer);
+          timer = setTimeout(() => timeout.abort(), STREAM_IDLE_MS);
+          const event = provider.parseStreamEvent(JSON.parse(data));
+          for (const [key, value] of Object.entries(event.usage || {})) {
+            if (value !== undefined) usage[key as keyof TokenUsage] = value;
+          }
+          if (event.text) {
+            streamed = true;
+            content += event.text;
+            onText(event.text);
+          }
+        });
+        return { model, content: content.trim(), usage };
+      }
+
+      const errorText = await response.text();
+      console.error(`AI provider error (attempt ${attempt}):`, response.status, errorText);
+      lastError = providerError(response.status);
+      if (!RETRYABLE_STATUS.has(response.status)) throw lastError;
+      retryAfter = response.headers.get("Retry-After");
+    } catch (error) {
+      if (error === lastError) throw error;
+      if (options.signal?.aborted) throw new CompletionAbortedError("Generation was cancelled");
+      if (timeout.signal.aborted) {
+        console.error(`AI provider timed out (attempt ${attempt})`);
+        lastError = new HttpError(504, "The AI model took too long to respond. Please try again.");
+      } else {
+        console.error(`AI provider request failed (attempt ${attempt}):`, error);
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+      if (streamed) throw lastError;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < MAX_ATTEMPTS) {
+      const delay = backoffDelay(attempt, retryAfter);
+      if (Date.now() + delay + MIN_ATTEMPT_MS > deadline) break;
+      await wait(delay);
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,101 @@
+import { assert, assertEquals, assertRejects } from "jsr:@std/assert@1";
+import { backoffDelay, complete, CompletionAbortedError } from "./ai.ts";
+import { HttpError } from "./http.ts";
+
+Deno.test("backoffDelay uses a short Retry-After", () => {
+  assertEquals(backoffDelay(1, "2"), 2000);
+  assertEquals(backoffDelay(3, "0"), 0);
+});
+
+Deno.test("backoffDelay doubles with each attempt and ignores a long Retry-After", () => {
+  for (let i = 0; i < 20; i++) {
+    const first = backoffDelay(1, null);
+    const third = backoffDelay(3, "60");
+    assert(first >= 500 && first <= 1000, `attempt 1 waited ${first}ms`);
+    assert(third >= 2000 && third <= 4000, `attempt 3 waited ${third}ms`);
+  }
+});
+
+// Runs complete() against the local provider with fetch answering from
+// responses in turn, and returns the number of calls it made
+async function withResponses(responses: (() => Response)[], run: () => Promise<unknown>): Promise<number> {
+  const originalFetch = globalThis.fetch;
+  const originalError = console.error;
+  let calls = 0;
+  Deno.env.set("AI_PROVIDER", "local");
+  globalThis.fetch = () => Promise.resolve(responses[Math.min(calls++, responses.length - 1)]());
+  console.error = () => {};
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+    console.error = originalError;
+    Deno.env.delete("AI_PROVIDER");
+  }
+  return calls;
+}
+
+const answer = (content: string) => () =>
+  Response.json({ choices: [{ message: { content } }], usage: { total_tokens: 42 } });
+
+const failure = (status: number) => () => new Response("upstream error", { status, headers: { "Retry-After": "0" } });
+
+const options = { temperature: 0.2, model: null };
+
+Deno.test("complete retries a transient failure", async () => {
+  let content = "";
+  const calls = await withResponses([failure(503), answer(" Feature: Login ")], async () => {
+    const completion = await complete("prompt", options);
+    content = completion.content;
+    assertEquals(completion.usage, { total_tokens: 42 });
+  });
+  assertEquals(calls, 2);
+  assertEquals(content, "Feature: Login");
+});
+
+Deno.test("complete gives up after the last attempt", async () => {
+  const calls = await withResponses([failure(503)], () =>
+    assertRejects(() => complete("prompt", options), Error, "AI provider responded with 503"));
+  assertEquals(calls, 3);
+});
+
+Deno.test("complete does not retry a request the provider rejects", async () => {
+  const calls = await withResponses([failure(400)], () =>
+    assertRejects(() => complete("prompt", options), Error, "AI provider responded with 400"));
+  assertEquals(calls, 1);
+});
+
+Deno.test("complete reports a rate limit to the user", async () => {
+  const calls = await withResponses([failure(429)], () =>
+    assertRejects(() => complete("prompt", options), HttpError, "AI Generation limit reached"));
+  assertEquals(calls, 3);
+});
+
+Deno.test("complete stops retrying when the deadline is too close", async () => {
+  const originalNow = Date.now;
+  let elapsed = 0;
+  Date.now = () => originalNow() + elapsed;
+  try {
+    // The first attempt takes 100 of the 110 seconds, leaving no time for another
+    const slow = () => {
+      elapsed = 100_000;
+      return failure(503)();
+    };
+    const calls = await withResponses([slow], () =>
+      assertRejects(() => complete("prompt", options), Error, "AI provider responded with 503"));
+    assertEquals(calls, 1);
+  } finally {
+    Date.now = originalNow;
+  }
+});
+
+Deno.test("complete stops when the caller aborts", async () => {
+  const controller = new AbortController();
+  const aborted = () => {
+    controller.abort();
+    throw new DOMException("The signal has been aborted", "AbortError");
+  };
+  const calls = await withResponses([aborted], () =>
+    assertRejects(() => complete("prompt", { ...options, signal: controller.signal }), CompletionAbortedError));
+  assertEquals(calls, 1);
+});
@@ -0,0 +1,171 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { Completion, CompletionAbortedError, TokenUsage, complete } from "./ai.ts";
+import { HttpError, authenticatedUserId, corsHeaders, jsonResponse, readJsonBody } from "./http.ts";
+import { GenerationRequest, LIMITS, RequestRules, parseGenerationRequest } from "./schema.ts";
+import { SectionSpec, SectionStream } from "./sections.ts";
+import { encodeEvent } from "./sse.ts";
+import { WorkspaceAccessError, quotaMessage, releaseUsage, reserveUsage, settleUsage } from "./usage.ts";
+
+// How much new text a streamed answer needs before the client hears about it again
+const PROGRESS_INTERVAL = 500;
+
+export interface GenerationContext {
+  request: GenerationRequest;
+  // Sends a prompt to the model and returns its non-empty answer; its tokens are
+  // added to the request's usage.
+  // When the client streams, each of the given sections is sent as soon as it completes.
+  generate: (prompt: string, temperature: number, sections?: SectionSpec<string>) => Promise<string>;
+}
+
+export interface GenerationFunction {
+  // Function name, used in logs and the usage ledger
+  name: string;
+  rules: RequestRules;
+  // Shown to the user for any failure that has no message of its own
+  failureMessage: string;
+  handle: (context: GenerationContext) => Promise<Record<string, unknown>>;
+}
+
+type Emit = (event: string, data: unknown) => void;
+
+function failure(fn: GenerationFunction, error: unknown): { status: number; error: string } {
+  if (error instanceof HttpError) return { status: error.status, error: error.message };
+  if (error instanceof WorkspaceAccessError) return { status: 403, error: "You are not a member of this workspace." };
+  console.error(`${fn.name} error:`, error);
+  return { status: 500, error: fn.failureMessage };
+}
+
+// Serves a generate-* function: CORS, sign-in, request validation, quotas and
+// error responses are handled here, so the function only builds its prompt and
+// shapes the model's answer. Responses carry the model that produced them.
+//
+// With `stream: true` the answer is a server-sent event stream instead of JSON:
+//   progress { received, section }  - characters received so far and the section being written
+//   section  { key, content }       - a section of the answer, as soon as it is complete
+//   done     { model, ...result }   - the same body a non-streamed request gets
+//   error    { error }
+// Closing the stream aborts the request to the AI provider.
+export function serveGeneration(fn: GenerationFunction) {
+  Deno.serve(async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const userId = authenticatedUserId(req);
+    if (!userId) {
+      return jsonResponse({ error: "Please sign in to generate code." }, 401);
+    }
+
+    try {
+      const request = parseGenerationRequest(await readJsonBody(req, LIMITS.bodyBytes), fn.rules);
+
+      // Counts the request before the AI is called, so parallel requests can't
+      // all pass a nearly used-up quota; its tokens are settled as answers come in
+      const reserved = await reserveUsage({
+        userId,
+        workspaceId: request.workspaceId,
+        functionName: fn.name,
+        model: request.model || "",
+      });
+      if ("exceeded" in reserved) {
+        const quota = reserved.exceeded;
+        return jsonResponse({ error: quotaMessage(quota), code: "quota_exceeded", quota }, 429);
+      }
+      const { reservation } = reserved;
+
+      const upstream = new AbortController();
+      req.signal.addEventListener("abort", () => upstream.abort());
+      let model = "";
+      let answered = false;
+      const spent = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+      const addUsage = (usage: TokenUsage = {}) => {
+        const promptTokens = Number(usage.prompt_tokens) || 0;
+        const completionTokens = Number(usage.completion_tokens) || 0;
+        spent.prompt_tokens += promptTokens;
+        spent.completion_tokens += completionTokens;
+        spent.total_tokens += Number(usage.total_tokens) || promptTokens + completionTokens;
+      };
+
+      const handle = (emit?: Emit) => fn.handle({
+        request,
+        generate: async (prompt, temperature, sections) => {
+          const parser = emit && sections
+            ? new SectionStream(sections, (key, content) => emit("section", { key, content }))
+            : null;
+          let received = 0;
+          let reported = 0;
+          let section: string | null = null;
+          const onText = emit && ((text: string) => {
+            received += text.length;
+            parser?.push(text);
+            const current = parser?.current ?? null;
+            if (received - reported < PROGRESS_INTERVAL && current === section) return;
+            reported = received;
+            section = current;
+            emit("progress", { received, section });
+          });
+
+          const completion: Completion = await complete(prompt, {
+            temperature,
+            model: request.model,
+            signal: upstream.signal,
+            onText,
+          });
+          model = completion.model;
+          answered = true;
+          addUsage(completion.usage);
+          await settleUsage(reservation, completion.model, spent);
+          if (!completion.content) throw new Error("No content received from AI");
+          return completion.content;
+        },
+      });
+
+      // A request that failed before the AI answered gives its reservation back;
+      // a cancelled one still counts against the daily request quota
+      const run = async (emit?: Emit) => {
+        try {
+          return await handle(emit);
+        } catch (error) {
+          if (!answered && !(error instanceof CompletionAbortedError)) await releaseUsage(reservation);
+          throw error;
+        }
+      };
+
+      if (!request.stream) {
+        const result = await run();
+        return jsonResponse({ model, ...result });
+      }
+
+      const encoder = new TextEncoder();
+      let closed = false;
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const emit: Emit = (event, data) => {
+            if (!closed) controller.enqueue(encoder.encode(encodeEvent(event, data)));
+          };
+          try {
+            const result = await run(emit);
+            emit("done", { model, ...result });
+          } catch (error) {
+            if (!(error instanceof CompletionAbortedError)) emit("error", { error: failure(fn, error).error });
+          } finally {
+            if (!closed) {
+              closed = true;
+              controller.close();
+            }
+          }
+        },
+        cancel() {
+          closed = true;
+          upstream.abort();
+        },
+      });
+      return new Response(body, {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
+    } catch (error) {
+      const { status, error: message } = failure(fn, error);
+      return jsonResponse({ error: message }, status);
+    }
+  });
+}
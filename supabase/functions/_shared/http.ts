@@ -0,0 +1,44 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// An error whose message is safe to show to the user, sent with its status code
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// verify_jwt has already checked the token's signature, but the publishable
+// (anon) key is a valid JWT too, so require a signed-in user's token
+export function authenticatedUserId(req: Request): string | null {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") || "";
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return payload.role === "authenticated" && typeof payload.sub === "string" ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads a JSON body, refusing anything over maxBytes before parsing it
+export async function readJsonBody(req: Request, maxBytes: number): Promise<unknown> {
+  const tooLarge = new HttpError(413, `Request is too large (max ${Math.round(maxBytes / 1000)} KB).`);
+  if (Number(req.headers.get("Content-Length") || 0) > maxBytes) throw tooLarge;
+  const text = await req.text();
+  if (new TextEncoder().encode(text).length > maxBytes) throw tooLarge;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON.");
+  }
+}
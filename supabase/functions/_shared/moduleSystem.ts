@@ -0,0 +1,66 @@
+// How the JavaScript frameworks' files are written, picked with the request's
+// language: CommonJS ("javascript"), ES modules ("esm") or TypeScript. The file
+// names and the import paths match the project zip the client builds.
+
+export const MODULE_LANGUAGES = ["javascript", "esm", "typescript"] as const;
+
+export interface ModuleSystem {
+  label: string;
+  // For the prompt's opening line: "JavaScript only, NO TypeScript"
+  stack: string;
+  extension: "js" | "ts";
+  commonjs: boolean;
+  typescript: boolean;
+  // Code rules for the whole project
+  rules: string;
+  // `const { A, B } = require('x');` or `import { A, B } from 'x';`
+  importNames: (names: string[], from: string) => string;
+  // Path of a generated file in an import, from its path without the extension
+  localPath: (path: string) => string;
+  // How a file exports its class
+  exportClass: (name: string) => string;
+}
+
+const COMMONJS: ModuleSystem = {
+  label: "JavaScript (CommonJS)",
+  stack: "JavaScript only, NO TypeScript",
+  extension: "js",
+  commonjs: true,
+  typescript: false,
+  rules: `- Pure JavaScript only (NO TypeScript, NO type annotations, NO interfaces, NO generics)
+- Use require() and module.exports — NEVER import/export ES syntax`,
+  importNames: (names, from) => `const { ${names.join(", ")} } = require('${from}');`,
+  localPath: path => `${path}.js`,
+  exportClass: name => `module.exports = { ${name} };`,
+};
+
+const ESM: ModuleSystem = {
+  label: "JavaScript (ES modules)",
+  stack: "JavaScript ES modules, NO TypeScript",
+  extension: "js",
+  commonjs: false,
+  typescript: false,
+  rules: `- Pure JavaScript only (NO TypeScript, NO type annotations, NO interfaces, NO generics)
+- ES modules only: import/export syntax — NEVER require() or module.exports
+- Relative imports always include the .js extension`,
+  importNames: (names, from) => `import { ${names.join(", ")} } from '${from}';`,
+  localPath: path => `${path}.js`,
+  exportClass: name => `export class ${name} { ... }`,
+};
+
+const TYPESCRIPT: ModuleSystem = {
+  label: "TypeScript",
+  stack: "TypeScript in strict mode",
+  extension: "ts",
+  commonjs: false,
+  typescript: true,
+  rules: `- TypeScript in strict mode: type every parameter, field and return value; NEVER use any
+- import/export syntax only — NEVER require() or module.exports
+- Relative imports omit the file extension`,
+  importNames: (names, from) => `import { ${names.join(", ")} } from '${from}';`,
+  localPath: path => path,
+  exportClass: name => `export class ${name} { ... }`,
+};
+
+export const moduleSystem = (language: string): ModuleSystem =>
+  language === "typescript" ? TYPESCRIPT : language === "esm" ? ESM : COMMONJS;
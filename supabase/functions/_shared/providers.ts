@@ -0,0 +1,206 @@
+import { HttpError } from "./http.ts";
+import type { TokenUsage } from "./ai.ts";
+
+// One chat-completion backend. AI_PROVIDER picks which one the functions use:
+//   lovable   - Lovable AI gateway (default), LOVABLE_API_KEY
+//   openai    - any OpenAI-compatible API, OPENAI_API_KEY and optional OPENAI_BASE_URL
+//   anthropic - Anthropic Messages API, ANTHROPIC_API_KEY and optional ANTHROPIC_BASE_URL
+//   local     - Ollama or llama.cpp server, LOCAL_AI_BASE_URL and optional LOCAL_AI_API_KEY
+// AI_MODELS overrides the offered models as "id" or "id=Label" entries separated
+// by commas; the first one is the default.
+export interface AiModel {
+  id: string;
+  label: string;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface Provider {
+  id: string;
+  name: string;
+  models: AiModel[];
+  request: (prompt: string, model: string, temperature: number, stream: boolean) => ProviderRequest;
+  parse: (data: unknown) => { content: string; usage?: TokenUsage };
+  // One parsed server-sent event of a streamed response
+  parseStreamEvent: (data: unknown) => { text?: string; usage?: TokenUsage };
+}
+
+interface OpenAiResponse {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+  usage?: TokenUsage;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content?: { type?: string; text?: string }[];
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type?: string;
+  message?: { usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string };
+  usage?: AnthropicUsage;
+}
+
+const env = (key: string) => Deno.env.get(key)?.trim() || "";
+
+function requireKey(key: string): string {
+  const value = env(key);
+  if (!value) {
+    console.error(`${key} is not configured`);
+    throw new HttpError(500, "Service configuration error. Please try again later.");
+  }
+  return value;
+}
+
+function modelsFromEnv(fallback: AiModel[]): AiModel[] {
+  const configured = env("AI_MODELS").split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [id, label] = entry.split("=").map(s => s.trim());
+    return { id, label: label || id };
+  });
+  return configured.length ? configured : fallback;
+}
+
+// OpenAI chat-completions request and response, shared by every compatible backend
+function openAiCompatible(baseUrl: string, apiKey: string | null) {
+  return {
+    request: (prompt: string, model: string, temperature: number, stream: boolean): ProviderRequest => ({
+      url: `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      headers: {
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: {
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature,
+        // The last streamed chunk then carries the token counts
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      },
+    }),
+    parse: (data: unknown) => {
+      const response = data as OpenAiResponse;
+      return { content: response.choices?.[0]?.message?.content?.trim() || "", usage: response.usage };
+    },
+    parseStreamEvent: (data: unknown) => {
+      const chunk = data as OpenAiResponse;
+      return { text: chunk.choices?.[0]?.delta?.content || undefined, usage: chunk.usage || undefined };
+    },
+  };
+}
+
+const ANTHROPIC_MAX_TOKENS = 16_000;
+
+const PROVIDERS: Record<string, () => Provider> = {
+  lovable: () => ({
+    id: "lovable",
+    name: "Lovable AI",
+    models: modelsFromEnv([
+      { id: "google/gemini-3-flash-preview", label: "Gemini 3 Flash" },
+      { id: "google/gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+      { id: "google/gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+      { id: "openai/gpt-5-mini", label: "GPT-5 Mini" },
+    ]),
+    ...openAiCompatible("https://ai.gateway.lovable.dev/v1", requireKey("LOVABLE_API_KEY")),
+  }),
+  openai: () => ({
+    id: "openai",
+    name: "OpenAI",
+    models: modelsFromEnv([
+      { id: "gpt-4.1-mini", label: "GPT-4.1 Mini" },
+      { id: "gpt-4.1", label: "GPT-4.1" },
+    ]),
+    ...openAiCompatible(env("OPENAI_BASE_URL") || "https://api.openai.com/v1", requireKey("OPENAI_API_KEY")),
+  }),
+  anthropic: () => {
+    const apiKey = requireKey("ANTHROPIC_API_KEY");
+    const baseUrl = (env("ANTHROPIC_BASE_URL") || "https://api.anthropic.com").replace(/\/+$/, "");
+    return {
+      id: "anthropic",
+      name: "Anthropic",
+      models: modelsFromEnv([
+        { id: "claude-sonnet-4-5", label: "Claude Sonnet 4.5" },
+        { id: "claude-haiku-4-5", label: "Claude Haiku 4.5" },
+      ]),
+      request: (prompt, model, temperature, stream) => ({
+        url: `${baseUrl}/v1/messages`,
+        headers: {
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+        body: {
+          model,
+          max_tokens: ANTHROPIC_MAX_TOKENS,
+          messages: [{ role: "user", content: prompt }],
+          temperature,
+          ...(stream ? { stream: true } : {}),
+        },
+      }),
+      parse: (data) => {
+        const response = data as AnthropicResponse;
+        return {
+          content: (response.content || [])
+            .filter(block => block.type === "text")
+            .map(block => block.text || "")
+            .join("")
+            .trim(),
+          usage: response.usage && {
+            prompt_tokens: response.usage.input_tokens,
+            completion_tokens: response.usage.output_tokens,
+          },
+        };
+      },
+      // Input tokens arrive with message_start, output tokens with message_delta
+      parseStreamEvent: (data) => {
+        const event = data as AnthropicStreamEvent;
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          return { text: event.delta.text };
+        }
+        if (event.type === "message_start" && event.message?.usage) {
+          return { usage: { prompt_tokens: event.message.usage.input_tokens } };
+        }
+        if (event.type === "message_delta" && event.usage) {
+          return { usage: { completion_tokens: event.usage.output_tokens } };
+        }
+        return {};
+      },
+    };
+  },
+  // Ollama and llama.cpp's server both expose the OpenAI API under /v1. From
+  // `supabase functions serve` the host machine is http://host.docker.internal.
+  local: () => ({
+    id: "local",
+    name: "Local model",
+    models: modelsFromEnv([{ id: "llama3.1", label: "Llama 3.1 (local)" }]),
+    ...openAiCompatible(env("LOCAL_AI_BASE_URL") || "http://localhost:11434/v1", env("LOCAL_AI_API_KEY") || null),
+  }),
+};
+
+export function currentProvider(): Provider {
+  const id = env("AI_PROVIDER") || "lovable";
+  const create = PROVIDERS[id];
+  if (!create) {
+    console.error(`Unknown AI_PROVIDER "${id}"`);
+    throw new HttpError(500, "Service configuration error. Please try again later.");
+  }
+  return create();
+}
+
+// The requested model when the provider offers it, otherwise the provider's default
+export function resolveModel(provider: Provider, requested: string | null): string {
+  if (!requested) return provider.models[0].id;
+  if (!provider.models.some(m => m.id === requested)) {
+    throw new HttpError(400, `Model "${requested}" is not available. Choose another model.`);
+  }
+  return requested;
+}
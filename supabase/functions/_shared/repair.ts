@@ -0,0 +1,25 @@
+import { RepairRequest } from "./schema.ts";
+import { SectionSpec } from "./sections.ts";
+
+// The prompt for a generation, or, when the client sent back an answer that
+// failed to parse, that prompt followed by the answer and its errors. The model
+// returns the whole answer again, so the sections are extracted as usual.
+export function withRepair(prompt: string, repair: RepairRequest | null, sections?: SectionSpec<string>): string {
+  if (!repair) return prompt;
+  const answer = sections
+    ? Object.entries(sections)
+      .map(([key, marker]) => `===${marker}_START===\n${repair.files[key] ?? ""}\n===${marker}_END===`)
+      .join("\n\n")
+    : Object.values(repair.files).join("\n\n");
+
+  return `${prompt}
+
+**REPAIR** — an earlier answer to these instructions does not parse:
+${repair.errors.map(error => `- ${error}`).join("\n")}
+
+Earlier answer:
+
+${answer}
+
+Return the COMPLETE answer again in exactly the same output format with these errors fixed. Change nothing else: keep the same scenarios, steps, names, locators and data.`;
+}
@@ -0,0 +1,251 @@
+import { HttpError } from "./http.ts";
+
+// Size limits for everything a generate-* function accepts. Requests over a
+// limit are rejected rather than truncated, so the model never sees half a test case.
+export const LIMITS = {
+  bodyBytes: 2_000_000,
+  testCases: 50,
+  stepsPerCase: 100,
+  id: 100,
+  text: 10_000,
+  stepField: 2_000,
+  target: 200,
+  listItems: 20,
+  listItem: 100,
+  lookups: 500,
+  lookupValue: 2_000,
+  moduleName: 50,
+  gherkin: 50_000,
+  repairFile: 100_000,
+  repairErrors: 50,
+};
+
+export interface TestStepInput {
+  action: string;
+  target?: string;
+  data?: string;
+  expected?: string;
+}
+
+export interface TestCaseInput {
+  id: string;
+  description: string;
+  preconditions: string;
+  steps: string;
+  expected: string;
+  stepList?: TestStepInput[];
+  sourceKey?: string;
+  references?: string[];
+  tags?: string[];
+  priority?: string;
+  locator?: string;
+  testData?: string;
+}
+
+// Files of an earlier answer that failed to parse, keyed like the response
+// (e.g. pageObject), sent back with their parse errors to have them fixed
+export interface RepairRequest {
+  files: Record<string, string>;
+  errors: string[];
+}
+
+// Locator and test-data lookups as the client sends them: [{ locator, value }] / [{ name, value }]
+export type Lookup = Record<string, string>;
+
+export interface GenerationRequest {
+  testCases: TestCaseInput[];
+  locators: Lookup[];
+  testData: Lookup[];
+  moduleName: string;
+  // The project has a shared base page (or resource) the generated code builds on
+  basePage: boolean;
+  gherkinScenarios: string;
+  framework: string;
+  // Language to write the framework code in; "javascript" unless the function offers others
+  language: string;
+  // Runner the tests are written for; "cucumber" unless the function offers others
+  runner: string;
+  // Model picked in the UI; null for the provider's default
+  model: string | null;
+  // Answer as server-sent events, one per completed section
+  stream: boolean;
+  // Set when the client asks for a broken answer to be repaired
+  repair: RepairRequest | null;
+  // Workspace whose quota the request counts against; null for the user's own
+  // workspace, which reserve_usage looks up
+  workspaceId: string | null;
+}
+
+export interface RequestRules {
+  // Message for a request without test cases; omit when test cases are optional
+  requireTestCases?: string;
+  // Message for a request without Gherkin; omit when Gherkin is optional
+  requireGherkin?: string;
+  frameworks?: readonly string[];
+  // Languages the function writes; omit when it only writes JavaScript
+  languages?: readonly string[];
+  // Runners the function writes for besides Cucumber
+  runners?: readonly string[];
+  maxTestCases?: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject =>
+  value && typeof value === "object" && !Array.isArray(value) ? value as JsonObject : {};
+
+function text(value: unknown, max: number, label: string): string {
+  if (value === undefined || value === null) return "";
+  const s = typeof value === "string" ? value : String(value);
+  if (s.length > max) throw new HttpError(400, `${label} is too long (max ${max} characters).`);
+  return s;
+}
+
+function optionalText(value: unknown, max: number, label: string): string | undefined {
+  return text(value, max, label) || undefined;
+}
+
+function list(value: unknown, label: string): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  if (value.length > LIMITS.listItems) throw new HttpError(400, `Too many ${label} (max ${LIMITS.listItems}).`);
+  return value.map(item => text(item, LIMITS.listItem, label));
+}
+
+function parseSteps(value: unknown, caseId: string): TestStepInput[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  if (value.length > LIMITS.stepsPerCase) {
+    throw new HttpError(400, `Test case ${caseId} has too many steps (max ${LIMITS.stepsPerCase}).`);
+  }
+  return value.map(raw => {
+    const step = asObject(raw);
+    return {
+      action: text(step.action, LIMITS.stepField, `A step of test case ${caseId}`),
+      target: optionalText(step.target, LIMITS.target, `A step target of test case ${caseId}`),
+      data: optionalText(step.data, LIMITS.stepField, `Step data of test case ${caseId}`),
+      expected: optionalText(step.expected, LIMITS.stepField, `A step expected result of test case ${caseId}`),
+    };
+  });
+}
+
+export function parseTestCase(raw: unknown): TestCaseInput {
+  const tc = asObject(raw);
+  const id = text(tc.id, LIMITS.id, "Test case ID");
+  const label = (field: string) => `${field} of test case ${id || "(no ID)"}`;
+  return {
+    id,
+    description: text(tc.description, LIMITS.text, label("Description")),
+    preconditions: text(tc.preconditions, LIMITS.text, label("Preconditions")),
+    steps: text(tc.steps, LIMITS.text, label("Step text")),
+    expected: text(tc.expected, LIMITS.text, label("Expected result")),
+    stepList: parseSteps(tc.stepList, id),
+    sourceKey: optionalText(tc.sourceKey, LIMITS.id, label("Source key")),
+    references: list(tc.references, "references"),
+    tags: list(tc.tags, "tags"),
+    priority: optionalText(tc.priority, LIMITS.listItem, label("Priority")),
+    locator: optionalText(tc.locator, LIMITS.text, label("Locator")),
+    testData: optionalText(tc.testData, LIMITS.text, label("Test data")),
+  };
+}
+
+function parseLookups(value: unknown, label: string): Lookup[] {
+  const entries = Array.isArray(value)
+    ? value.map(asObject)
+    : Object.entries(asObject(value)).map(([name, v]) => ({ name, value: v }));
+  if (entries.length > LIMITS.lookups) throw new HttpError(400, `Too many ${label} (max ${LIMITS.lookups}).`);
+  return entries.map(entry => Object.fromEntries(
+    Object.entries(entry).map(([key, v]) => [key, text(v, LIMITS.lookupValue, `A ${label} value`)]),
+  ));
+}
+
+function parseRepair(value: unknown): RepairRequest | null {
+  if (value === undefined || value === null) return null;
+  const repair = asObject(value);
+  const errors = Array.isArray(repair.errors) ? repair.errors : [];
+  if (errors.length === 0) throw new HttpError(400, "A repair request needs the errors to fix.");
+  if (errors.length > LIMITS.repairErrors) throw new HttpError(400, `Too many errors to repair (max ${LIMITS.repairErrors}).`);
+  return {
+    files: Object.fromEntries(
+      Object.entries(asObject(repair.files)).map(([key, v]) => [key.slice(0, LIMITS.id), text(v, LIMITS.repairFile, "A file to repair")]),
+    ),
+    errors: errors.map(error => text(error, LIMITS.stepField, "A repair error")),
+  };
+}
+
+export function parseGenerationRequest(body: unknown, rules: RequestRules = {}): GenerationRequest {
+  const b = asObject(body);
+  const maxTestCases = rules.maxTestCases ?? LIMITS.testCases;
+
+  const rawCases = Array.isArray(b.testCases) ? b.testCases : [];
+  if (rules.requireTestCases && rawCases.length === 0) throw new HttpError(400, rules.requireTestCases);
+  if (rawCases.length > maxTestCases) throw new HttpError(400, `Too many test cases. Maximum is ${maxTestCases}.`);
+
+  const gherkinScenarios = text(b.gherkinScenarios, LIMITS.gherkin, "Gherkin");
+  if (rules.requireGherkin && !gherkinScenarios.trim()) throw new HttpError(400, rules.requireGherkin);
+
+  const framework = typeof b.framework === "string" ? b.framework : "";
+  if (rules.frameworks && !rules.frameworks.includes(framework)) {
+    throw new HttpError(400, `Invalid framework. Choose: ${rules.frameworks.join(", ")}.`);
+  }
+
+  const language = typeof b.language === "string" && b.language ? b.language : "javascript";
+  if (language !== "javascript" && !rules.languages?.includes(language)) {
+    throw new HttpError(400, `Invalid language. Choose: ${(rules.languages ?? ["javascript"]).join(", ")}.`);
+  }
+
+  const runner = typeof b.runner === "string" && b.runner ? b.runner : "cucumber";
+  if (runner !== "cucumber" && !rules.runners?.includes(runner)) {
+    throw new HttpError(400, `Invalid runner. Choose: ${["cucumber", ...(rules.runners ?? [])].join(", ")}.`);
+  }
+
+  return {
+    testCases: rawCases.map(parseTestCase),
+    locators: parseLookups(b.locators, "locators"),
+    testData: parseLookups(b.testData, "test data entries"),
+    // Derived from the file name by the client, so shortened rather than rejected
+    moduleName: String(b.moduleName || "Login").slice(0, LIMITS.moduleName),
+    basePage: b.basePage === true,
+    gherkinScenarios,
+    framework,
+    language,
+    runner,
+    model: typeof b.model === "string" && b.model ? b.model.slice(0, LIMITS.id) : null,
+    stream: b.stream === true,
+    repair: parseRepair(b.repair),
+    workspaceId: typeof b.workspaceId === "string" && b.workspaceId ? b.workspaceId : null,
+  };
+}
+
+// The fields the framework prompts describe a test case with; locators and
+// test data are sent separately as lookups
+export function promptTestCase(tc: TestCaseInput) {
+  return {
+    id: tc.id,
+    description: tc.description,
+    preconditions: tc.preconditions,
+    steps: tc.steps,
+    expected: tc.expected,
+    stepList: tc.stepList,
+    sourceKey: tc.sourceKey,
+    references: tc.references,
+  };
+}
+
+// How a generated project uses the step list and source key a test case may
+// carry, as rules for the prompts that send promptTestCase: steps says what
+// becomes of each stepList entry, sourceKey where the key (and the case's
+// references) is tagged
+export interface TestCaseInputUse {
+  steps?: string;
+  sourceKey?: string;
+}
+
+// sourceKey for tests without tags of their own, which carry it in the title
+export const SOURCE_KEY_IN_TITLE =
+  'put "[<sourceKey>]" at the start of the test title, and add its "references" to the title as tags too when present';
+
+export const testCaseInputRules = ({
+  steps = 'turn each entry into its own step(s) — "action" is what the user does, "target" names the locator it acts on (see Locators), "data" is the value it uses and "expected" is checked right after that step',
+  sourceKey = 'tag the generated test with it: put "[<sourceKey>]" at the start of the test title, and tag it with its "references" too when present',
+}: TestCaseInputUse = {}): string =>
+  `- When a test case has a "stepList", it is the ordered list of its steps: keep that order and ${steps}
+- When a test case has a "sourceKey" (its key in the test management tool, e.g. C123 or PROJ-T12), ${sourceKey}`;
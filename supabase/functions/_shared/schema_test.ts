@@ -0,0 +1,99 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert@1";
+import { HttpError } from "./http.ts";
+import { LIMITS, parseGenerationRequest, testCaseInputRules } from "./schema.ts";
+
+const testCase = (id: string) => ({ id, description: "Login", steps: "1. Open the page", expected: "Dashboard" });
+
+Deno.test("parseGenerationRequest fills in the defaults", () => {
+  const request = parseGenerationRequest({ testCases: [testCase("TC001")] });
+  assertEquals(request.moduleName, "Login");
+  assertEquals(request.language, "javascript");
+  assertEquals(request.runner, "cucumber");
+  assertEquals(request.model, null);
+  assertEquals(request.repair, null);
+  assertEquals(request.workspaceId, null);
+  assertEquals(request.testCases[0].preconditions, "");
+});
+
+Deno.test("parseGenerationRequest shortens the module name rather than rejecting it", () => {
+  const request = parseGenerationRequest({ moduleName: "M".repeat(80) });
+  assertEquals(request.moduleName.length, LIMITS.moduleName);
+});
+
+Deno.test("parseGenerationRequest rejects too many test cases", () => {
+  const testCases = Array.from({ length: LIMITS.testCases + 1 }, (_, i) => testCase(`TC${i}`));
+  assertThrows(() => parseGenerationRequest({ testCases }), HttpError, `Maximum is ${LIMITS.testCases}.`);
+  assertThrows(
+    () => parseGenerationRequest({ testCases: testCases.slice(0, 11) }, { maxTestCases: 10 }),
+    HttpError,
+    "Maximum is 10.",
+  );
+});
+
+Deno.test("parseGenerationRequest rejects text over its limit", () => {
+  const long = { ...testCase("TC001"), description: "x".repeat(LIMITS.text + 1) };
+  assertThrows(
+    () => parseGenerationRequest({ testCases: [long] }),
+    HttpError,
+    `Description of test case TC001 is too long (max ${LIMITS.text} characters).`,
+  );
+  const steps = Array.from({ length: LIMITS.stepsPerCase + 1 }, () => ({ action: "Click" }));
+  assertThrows(
+    () => parseGenerationRequest({ testCases: [{ ...testCase("TC002"), stepList: steps }] }),
+    HttpError,
+    "Test case TC002 has too many steps",
+  );
+});
+
+Deno.test("parseGenerationRequest applies the function's rules", () => {
+  const rules = {
+    requireTestCases: "No test cases provided.",
+    requireGherkin: "No Gherkin provided.",
+    frameworks: ["playwright", "cypress"],
+    languages: ["typescript"],
+    runners: ["playwright-test"],
+  };
+  const valid = { testCases: [testCase("TC001")], gherkinScenarios: "Feature: Login", framework: "playwright" };
+
+  assertThrows(() => parseGenerationRequest({ ...valid, testCases: [] }, rules), HttpError, "No test cases provided.");
+  assertThrows(() => parseGenerationRequest({ ...valid, gherkinScenarios: "  " }, rules), HttpError, "No Gherkin provided.");
+  assertThrows(
+    () => parseGenerationRequest({ ...valid, framework: "selenium" }, rules),
+    HttpError,
+    "Invalid framework. Choose: playwright, cypress.",
+  );
+  assertThrows(
+    () => parseGenerationRequest({ ...valid, language: "java" }, rules),
+    HttpError,
+    "Invalid language. Choose: typescript.",
+  );
+  assertThrows(
+    () => parseGenerationRequest({ ...valid, runner: "jest" }, rules),
+    HttpError,
+    "Invalid runner. Choose: cucumber, playwright-test.",
+  );
+  assertEquals(parseGenerationRequest({ ...valid, language: "typescript" }, rules).language, "typescript");
+});
+
+Deno.test("parseGenerationRequest needs the errors of a repair request", () => {
+  assertThrows(
+    () => parseGenerationRequest({ repair: { files: { pageObject: "class {" }, errors: [] } }),
+    HttpError,
+    "A repair request needs the errors to fix.",
+  );
+  const request = parseGenerationRequest({ repair: { files: { pageObject: "class {" }, errors: ["Unexpected end"] } });
+  assertEquals(request.repair, { files: { pageObject: "class {" }, errors: ["Unexpected end"] });
+});
+
+Deno.test("parseGenerationRequest reads lookups given as an object", () => {
+  const request = parseGenerationRequest({ testData: { username: "admin" } });
+  assertEquals(request.testData, [{ name: "username", value: "admin" }]);
+});
+
+Deno.test("testCaseInputRules writes one rule per optional test case field", () => {
+  const rules = testCaseInputRules({ sourceKey: "add it to the test's [Tags]" }).split("\n");
+  assertEquals(rules.length, 2);
+  assert(rules[0].startsWith('- When a test case has a "stepList"'));
+  assert(rules[0].endsWith("checked right after that step"));
+  assert(rules[1].endsWith("e.g. C123 or PROJ-T12), add it to the test's [Tags]"));
+});
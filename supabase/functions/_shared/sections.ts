@@ -0,0 +1,50 @@
+// The prompts ask the model to wrap each generated file in ===NAME_START=== /
+// ===NAME_END=== markers. A spec maps response keys to marker names, e.g.
+// { featureFile: "FEATURE_FILE", testFile: "STEPS_FILE" }.
+export type SectionSpec<K extends string> = Record<K, string>;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Text between a section's markers, trimmed; "" when the model left the section out
+export function extractSection(content: string, marker: string): string {
+  const name = escapeRegExp(marker);
+  const match = content.match(new RegExp(`===${name}_START===([\\s\\S]*?)===${name}_END===`));
+  return match?.[1]?.trim() || "";
+}
+
+export function extractSections<K extends string>(content: string, spec: SectionSpec<K>): Record<K, string> {
+  const sections = {} as Record<K, string>;
+  for (const key of Object.keys(spec) as K[]) {
+    sections[key] = extractSection(content, spec[key]);
+  }
+  return sections;
+}
+
+// Removes a markdown fence the model wrapped its whole answer in
+export function stripCodeFence(content: string): string {
+  return content.replace(/^```[\w-]*\n?/, "").replace(/\n?```$/, "").trim();
+}
+
+// Extracts sections from an answer while it streams in: push each piece of text
+// as it arrives and onSection is called once per section when its end marker lands
+export class SectionStream<K extends string> {
+  private text = "";
+  private completed = new Set<K>();
+
+  constructor(private spec: SectionSpec<K>, private onSection: (key: K, content: string) => void) {}
+
+  push(chunk: string) {
+    this.text += chunk;
+    for (const key of Object.keys(this.spec) as K[]) {
+      if (this.completed.has(key) || !this.text.includes(`===${this.spec[key]}_END===`)) continue;
+      this.completed.add(key);
+      this.onSection(key, extractSection(this.text, this.spec[key]));
+    }
+  }
+
+  // The section being written: its start marker has arrived but not its end
+  get current(): K | null {
+    const keys = Object.keys(this.spec) as K[];
+    return keys.find(key => !this.completed.has(key) && this.text.includes(`===${this.spec[key]}_START===`)) ?? null;
+  }
+}
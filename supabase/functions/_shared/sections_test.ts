@@ -0,0 +1,56 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { extractSection, SectionStream, stripCodeFence } from "./sections.ts";
+
+const SPEC = { featureFile: "FEATURE_FILE", testFile: "STEPS_FILE" };
+
+const ANSWER = `===FEATURE_FILE_START===
+Feature: Login
+===FEATURE_FILE_END===
+
+===STEPS_FILE_START===
+Given('I am on the login page', () => {});
+===STEPS_FILE_END===`;
+
+Deno.test("extractSection returns the trimmed text between the markers", () => {
+  assertEquals(extractSection(ANSWER, "FEATURE_FILE"), "Feature: Login");
+  assertEquals(extractSection(ANSWER, "DATA_FILE"), "");
+  assertEquals(extractSection("===FEATURE_FILE_START===\nFeature: Login", "FEATURE_FILE"), "");
+});
+
+Deno.test("stripCodeFence removes a fence around the whole answer", () => {
+  assertEquals(stripCodeFence("```text\n" + ANSWER + "\n```"), ANSWER);
+});
+
+Deno.test("SectionStream reports each section once its end marker lands", () => {
+  const sections: [string, string][] = [];
+  const stream = new SectionStream(SPEC, (key, content) => sections.push([key, content]));
+  for (const char of ANSWER) stream.push(char);
+
+  assertEquals(sections, [
+    ["featureFile", "Feature: Login"],
+    ["testFile", "Given('I am on the login page', () => {});"],
+  ]);
+});
+
+Deno.test("SectionStream waits for an end marker split across chunks", () => {
+  const sections: string[] = [];
+  const stream = new SectionStream(SPEC, (key) => sections.push(key));
+  const split = ANSWER.indexOf("===FEATURE_FILE_END===") + 10;
+
+  stream.push(ANSWER.slice(0, split));
+  assertEquals(sections, []);
+  assertEquals(stream.current, "featureFile");
+
+  stream.push(ANSWER.slice(split));
+  assertEquals(sections, ["featureFile", "testFile"]);
+  assertEquals(stream.current, null);
+});
+
+Deno.test("SectionStream knows the section being written", () => {
+  const stream = new SectionStream(SPEC, () => {});
+  assertEquals(stream.current, null);
+  stream.push("===FEATURE_FILE_START===\nFeature: Login\n===FEATURE_FILE_END===\n===STEPS_");
+  assertEquals(stream.current, null);
+  stream.push("FILE_START===\nGiven");
+  assertEquals(stream.current, "testFile");
+});
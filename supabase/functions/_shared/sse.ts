@@ -0,0 +1,32 @@
+// Server-sent events, both directions: reading a provider's streamed response
+// and writing the stream a generate-* function sends to the browser.
+
+// Calls onData with the data of each event in the stream, until it ends or "[DONE]"
+export async function readEventData(body: ReadableStream<Uint8Array>, onData: (data: string) => void) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let boundary: RegExpExecArray | null;
+    while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+      const block = buffer.slice(0, boundary.index);
+      buffer = buffer.slice(boundary.index + boundary[0].length);
+      const data = block.split(/\r?\n/)
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).replace(/^ /, ""))
+        .join("\n");
+      if (!data) continue;
+      if (data === "[DONE]") {
+        await reader.cancel();
+        return;
+      }
+      onData(data);
+    }
+  }
+}
+
+export function encodeEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
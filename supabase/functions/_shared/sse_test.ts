@@ -0,0 +1,43 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { encodeEvent, readEventData } from "./sse.ts";
+
+// A response body that arrives in the given pieces
+const body = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder();
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const events: string[] = [];
+  await readEventData(stream, (data) => events.push(data));
+  return events;
+};
+
+Deno.test("readEventData reads events separated by \\r\\n", async () => {
+  const events = await readAll(body('data: {"a":1}\r\n\r\ndata: {"b":2}\r\n\r\n'));
+  assertEquals(events, ['{"a":1}', '{"b":2}']);
+});
+
+Deno.test("readEventData reads a boundary split across chunks", async () => {
+  const events = await readAll(body('data: {"a":1}\r\n', '\r\ndata: {"b"', ':2}\n\n'));
+  assertEquals(events, ['{"a":1}', '{"b":2}']);
+});
+
+Deno.test("readEventData joins multi-line data and skips other fields", async () => {
+  const events = await readAll(body(": keep-alive\r\n\r\nevent: message\r\ndata: first\r\ndata: second\r\n\r\n"));
+  assertEquals(events, ["first\nsecond"]);
+});
+
+Deno.test("readEventData stops at [DONE]", async () => {
+  const events = await readAll(body("data: one\n\ndata: [DONE]\n\ndata: two\n\n"));
+  assertEquals(events, ["one"]);
+});
+
+Deno.test("encodeEvent writes one event that readEventData reads back", async () => {
+  const events = await readAll(body(encodeEvent("section", { key: "testFile" })));
+  assertEquals(events.map((data) => JSON.parse(data)), [{ key: "testFile" }]);
+});
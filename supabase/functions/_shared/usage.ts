@@ -0,0 +1,81 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { TokenUsage } from "./ai.ts";
+
+export interface QuotaExceeded {
+  scope: "user" | "workspace";
+  limit: "requests_per_day" | "tokens_per_month";
+  used: number;
+  allowed: number;
+  resets_at: string;
+}
+
+export class WorkspaceAccessError extends Error {}
+
+// The ledger and quota reservation are not reachable with the caller's token, so
+// both go through the service role
+function serviceClient() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+}
+
+export interface Reservation {
+  // Ledger row holding the request; its token counts are settled after the AI answers
+  id: string;
+  // Workspace the request counts against: the one asked for, or the user's own
+  workspaceId: string | null;
+}
+
+// Checks the user's and the workspace's quotas and, when neither is used up,
+// counts the request in the same database call. Returns the reservation, or
+// the first quota the caller has used up.
+export async function reserveUsage(entry: {
+  userId: string;
+  workspaceId: string | null;
+  functionName: string;
+  model: string;
+}): Promise<{ reservation: Reservation } | { exceeded: QuotaExceeded }> {
+  const { data, error } = await serviceClient().rpc("reserve_usage", {
+    _user_id: entry.userId,
+    _workspace_id: entry.workspaceId,
+    _function_name: entry.functionName,
+    _model: entry.model,
+  });
+  if (error) {
+    if (error.code === "42501") throw new WorkspaceAccessError(error.message);
+    throw error;
+  }
+  const result = data as { id?: string; workspace_id?: string | null; exceeded?: QuotaExceeded };
+  if (result.exceeded) return { exceeded: result.exceeded };
+  return { reservation: { id: result.id!, workspaceId: result.workspace_id ?? null } };
+}
+
+export function quotaMessage(quota: QuotaExceeded): string {
+  const owner = quota.scope === "user" ? "Your" : "This workspace's";
+  const resets = new Date(quota.resets_at).toUTCString();
+  if (quota.limit === "requests_per_day") {
+    return `${owner} daily quota of ${quota.allowed} generations is used up. It resets ${resets}.`;
+  }
+  return `${owner} monthly quota of ${quota.allowed.toLocaleString("en-US")} AI tokens is used up (${quota.used.toLocaleString("en-US")} used). It resets ${resets}.`;
+}
+
+// Writes the model and token counts onto a reservation. Token counts come from
+// the `usage` block of the provider's response. A failed update is logged only
+// so the caller still gets the generated code.
+export async function settleUsage(reservation: Reservation, model: string, usage: TokenUsage) {
+  const promptTokens = Number(usage.prompt_tokens) || 0;
+  const completionTokens = Number(usage.completion_tokens) || 0;
+  const { error } = await serviceClient().from("usage_ledger").update({
+    model,
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: Number(usage.total_tokens) || promptTokens + completionTokens,
+  }).eq("id", reservation.id);
+  if (error) console.error("Failed to record usage:", error);
+}
+
+// Gives a reservation back when the request failed before the AI answered
+export async function releaseUsage(reservation: Reservation) {
+  const { error } = await serviceClient().from("usage_ledger").delete().eq("id", reservation.id);
+  if (error) console.error("Failed to release usage:", error);
+}
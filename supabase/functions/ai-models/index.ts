@@ -0,0 +1,26 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { HttpError, authenticatedUserId, corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { currentProvider } from "../_shared/providers.ts";
+
+// The provider the generate-* functions are configured with and the models it
+// offers, for the model picker. The first model is the default.
+Deno.serve((req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!authenticatedUserId(req)) {
+    return jsonResponse({ error: "Please sign in to generate code." }, 401);
+  }
+
+  try {
+    const provider = currentProvider();
+    return jsonResponse({ provider: provider.name, models: provider.models });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("ai-models error:", error);
+    return jsonResponse({ error: "Could not load the available models." }, 500);
+  }
+});
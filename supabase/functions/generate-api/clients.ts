@@ -0,0 +1,100 @@
+// The parts of the API test prompt that depend on the client the tests are
+// written with: the stack, the file names and the conventions of its request
+// builders, tests and schemas. File names and folders match the project zip
+// the client builds, and the helpers its scaffolding provides.
+
+export const CLIENTS = ["playwright", "rest-assured", "robot"] as const;
+
+export type ApiClient = typeof CLIENTS[number];
+
+export interface ClientPrompt {
+  stack: string;
+  requestsFile: string;
+  testsFile: string;
+  schemasFile: string;
+  // Code rules for the whole project
+  rules: string;
+  requests: string;
+  tests: string;
+  schemas: string;
+}
+
+interface PromptContext {
+  moduleName: string;
+  lower: string;
+}
+
+const playwright = ({ moduleName, lower }: PromptContext): ClientPrompt => ({
+  stack: "Playwright Test's request fixture (TypeScript) with Ajv JSON schema validation",
+  requestsFile: `${lower}.api.ts`,
+  testsFile: `${lower}.api.spec.ts`,
+  schemasFile: `${lower}.schemas.ts`,
+  rules: `- TypeScript with strict types; import/export only
+- Request builders live in api/, tests in tests/, schemas in schemas/
+- playwright.config.ts already sets baseURL: every request uses a relative path (e.g. '/api/orders')
+- fixtures.ts already builds the request builders: tests take ${lower}Api as a fixture — never construct it in a test`,
+  requests: `- import { APIRequestContext, APIResponse } from '@playwright/test';
+- export class ${moduleName}Api { constructor(private readonly request: APIRequestContext) {} ... }
+- One async method per endpoint and verb (e.g. createOrder(body), getOrder(id)) returning the APIResponse untouched
+- Typed interfaces for request payloads; path parameters and query strings built from method arguments
+- Shared headers (auth, content type) set in one private helper, never repeated per method`,
+  tests: `- import { test, expect } from '../fixtures';
+- import { expectToMatchSchema } from '../support/schema';
+- import * as schemas from '../schemas/${lower}.schemas';
+- Wrap the module's tests in test.describe('${moduleName} API', () => { ... })
+- Tests take the builders as a fixture: test('... @TC_xxx', async ({ ${lower}Api }) => { ... })
+- Every test asserts the status (expect(response.status()).toBe(201)), then the body against its schema with expectToMatchSchema(await response.json(), schemas.xxx), then the values the test case names`,
+  schemas: `- One exported JSON Schema (draft-07) object per response shape: export const orderSchema = { type: 'object', required: [...], properties: {...} } as const;
+- List the fields the test cases rely on under required; set additionalProperties only when a test case says extra fields are an error`,
+});
+
+const restAssured = ({ moduleName }: PromptContext): ClientPrompt => ({
+  stack: "REST Assured 5 (Java 17) with TestNG and REST Assured's json-schema-validator",
+  requestsFile: `${moduleName}Requests.java`,
+  testsFile: `${moduleName}ApiTest.java`,
+  schemasFile: `${moduleName}Schemas.java`,
+  rules: `- Java 17 only; every file starts with its package declaration and compiles on its own
+- Request builders live in package requests, tests in package tests, schemas in package schemas
+- support.ApiConfig.spec() already returns the base RequestSpecification (base URI, JSON content type, timeouts) — start every request from it, never set the base URI yourself`,
+  requests: `- package requests;
+- import static io.restassured.RestAssured.given; import io.restassured.response.Response; import support.ApiConfig;
+- public final class ${moduleName}Requests with one public static method per endpoint and verb (e.g. createOrder(Map<String, Object> body), getOrder(String id)) returning the Response
+- Each method is given().spec(ApiConfig.spec())...when().post("/api/orders").then().extract().response()
+- Path parameters through pathParam(), query strings through queryParam()`,
+  tests: `- package tests;
+- import static io.restassured.module.jsv.JsonSchemaValidator.matchesJsonSchema; import static org.hamcrest.Matchers.*; import org.testng.annotations.Test; import requests.${moduleName}Requests; import schemas.${moduleName}Schemas;
+- public class ${moduleName}ApiTest with one @Test(description = "TC_xxx ...") method per test case
+- Every test asserts the status with .then().statusCode(201), the body with .body(matchesJsonSchema(${moduleName}Schemas.XXX)) and the values the test case names with Hamcrest matchers`,
+  schemas: `- package schemas;
+- public final class ${moduleName}Schemas with one public static final String per response shape holding a JSON Schema (draft-07) as a text block
+- List the fields the test cases rely on under required`,
+});
+
+const robot = ({ moduleName, lower }: PromptContext): ClientPrompt => ({
+  stack: "Robot Framework with RequestsLibrary and jsonschema",
+  requestsFile: `${lower}_requests.resource`,
+  testsFile: `${lower}_api.robot`,
+  schemasFile: `${lower}_schemas.py`,
+  rules: `- Robot Framework 7 syntax, four-space separators
+- Keyword resources live in resources/, test suites in tests/, schemas in data/ — all found through --pythonpath, so import them by file name
+- tests/__init__.robot already creates the RequestsLibrary session "api" on \${BASE_URL} — send every request through it, never create a session yourself
+- SchemaValidation.py (in resources/) already provides the keyword Response Should Match Schema    \${response}    \${schema}`,
+  requests: `- *** Settings *** Library    RequestsLibrary
+- One keyword per endpoint and verb (e.g. Create Order    \${body}, Get Order    \${id}) using GET On Session / POST On Session ... api    /api/orders    json=\${body}    expected_status=any
+- Each keyword returns the response with RETURN`,
+  tests: `- *** Settings *** Resource    ${lower}_requests.resource, Library    SchemaValidation.py, Variables    ${lower}_schemas.py
+- Documentation    ${moduleName} API
+- One test case per TC, named after it and tagged with [Tags]    TC_xxx
+- Every test checks the status with Status Should Be    201    \${response}, the body with Response Should Match Schema    \${response}    \${ORDER_SCHEMA} and the values the test case names with Should Be Equal`,
+  schemas: `- A Python variable file: one UPPER_SNAKE_CASE dict per response shape holding a JSON Schema (draft-07), e.g. ORDER_SCHEMA = {"type": "object", "required": [...], "properties": {...}}
+- List the fields the test cases rely on under "required"`,
+});
+
+const PROMPTS: Record<ApiClient, (context: PromptContext) => ClientPrompt> = {
+  playwright,
+  "rest-assured": restAssured,
+  robot,
+};
+
+export const clientPrompt = (client: string, context: PromptContext): ClientPrompt =>
+  PROMPTS[client as ApiClient](context);
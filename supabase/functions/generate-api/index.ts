@@ -0,0 +1,83 @@
+import { serveGeneration } from "../_shared/generation.ts";
+import { SOURCE_KEY_IN_TITLE, promptTestCase, testCaseInputRules } from "../_shared/schema.ts";
+import { withRepair } from "../_shared/repair.ts";
+import { SectionSpec, extractSections } from "../_shared/sections.ts";
+import { CLIENTS, clientPrompt } from "./clients.ts";
+
+// API tests: test cases describing HTTP interactions, written as request-level
+// tests with the client picked as the request's framework. Request builders
+// come back under pageObject and response schemas under dataFile.
+
+const SECTIONS: SectionSpec<"pageObject" | "testFile" | "dataFile"> = {
+  pageObject: "REQUESTS_FILE",
+  testFile: "TESTS_FILE",
+  dataFile: "SCHEMAS_FILE",
+};
+
+serveGeneration({
+  name: "generate-api",
+  rules: {
+    requireTestCases: "No test cases provided. Please upload a valid CSV first.",
+    frameworks: CLIENTS,
+  },
+  failureMessage: "Failed to generate API tests. Please try again.",
+  handle: async ({ request, generate }) => {
+    const { testData, moduleName, gherkinScenarios } = request;
+    const testCases = request.testCases.map(promptTestCase);
+    const client = clientPrompt(request.framework, { moduleName, lower: moduleName.toLowerCase() });
+
+    const prompt = `
+You are a senior QA automation engineer expert in API testing with ${client.stack}.
+
+Test Cases:
+${JSON.stringify(testCases, null, 2)}
+
+Test Data:
+${JSON.stringify(testData, null, 2)}
+
+Generate API tests for the ${moduleName} module with THREE outputs (NO feature file, NO page object, NO browser).
+
+**STRICT RULES:**
+- Each test case describes HTTP interactions: read the method, path, payload, expected status and expected response fields from its description, steps and expected result
+${testCaseInputRules({
+  steps: 'send each entry\'s request, checking its "expected" right after it; "data" is the payload or parameter it sends',
+  sourceKey: SOURCE_KEY_IN_TITLE,
+})}
+${client.rules}
+- Each test case = one test, named after it with its TC id as a tag
+- Tests call the request builders only — NEVER build a raw request inside a test
+- Every response is checked for its status code AND against its schema before its values are checked
+- Payload values come from the test case or Test Data; when several test cases send the same request with different data, loop over a data table instead of repeating the test
+- **DO NOT create or import any testData.json / data.json file**
+
+**1) REQUEST BUILDERS (${client.requestsFile})**
+${client.requests}
+
+**2) TESTS (${client.testsFile})**
+${client.tests}
+
+**3) SCHEMAS (${client.schemasFile})**
+${client.schemas}
+
+**OUTPUT FORMAT — exact separators, no markdown fences, no extra text:**
+
+===REQUESTS_FILE_START===
+===REQUESTS_FILE_END===
+
+===TESTS_FILE_START===
+===TESTS_FILE_END===
+
+===SCHEMAS_FILE_START===
+===SCHEMAS_FILE_END===
+
+${gherkinScenarios ? `\n**EXISTING GHERKIN CONTEXT** (name the tests after these scenarios where possible):\n${gherkinScenarios}\n` : ''}
+`;
+
+    const content = await generate(withRepair(prompt, request.repair, SECTIONS), 0.2, SECTIONS);
+
+    return {
+      featureFile: "",
+      ...extractSections(content, SECTIONS),
+    };
+  },
+});
@@ -1,56 +1,77 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+import { serveGeneration } from "../_shared/generation.ts";
+import { Lookup, promptTestCase, testCaseInputRules } from "../_shared/schema.ts";
+import { withRepair } from "../_shared/repair.ts";
+import { SectionSpec, extractSections } from "../_shared/sections.ts";
+import { HttpError } from "../_shared/http.ts";
+import { MODULE_LANGUAGES, ModuleSystem, moduleSystem } from "../_shared/moduleSystem.ts";
+
+const FRAMEWORKS = ["playwright", "selenium", "cypress", "webdriverio", "testcafe", "robot"] as const;
+
+// Frameworks whose layers can be written as ES modules or TypeScript
+const MODULE_FRAMEWORKS = ["playwright", "cypress"];
+
+const SECTIONS: SectionSpec<"stepDefinitions" | "actions" | "adapter" | "dataFile"> = {
+  stepDefinitions: "STEP_DEFINITIONS",
+  actions: "ACTIONS",
+  adapter: "ADAPTER",
+  dataFile: "DATA_FILE",
 };
 
-const MAX_TEST_CASES = 50;
-const MAX_STRING_LENGTH = Number.MAX_SAFE_INTEGER;
-
-function validatePayload(body: any): string | null {
-  if (!body?.gherkinScenarios || typeof body.gherkinScenarios !== "string") {
-    return "No Gherkin scenarios provided.";
-  }
-  if (!body?.framework || !["playwright", "selenium", "cypress", "robot"].includes(body.framework)) {
-    return "Invalid framework. Choose: playwright, selenium, cypress, robot.";
-  }
-  return null;
-}
+// A class in the request's module system, exported the way its files export
+const exportedClass = (modules: ModuleSystem, name: string, body: string) => modules.commonjs
+  ? `class ${name} ${body}\n\n${modules.exportClass(name)}`
+  : `export class ${name} ${body}`;
 
-function sanitizePayload(body: any) {
-  const testCases = (body.testCases || []).slice(0, MAX_TEST_CASES).map((tc: any) => ({
-    id: String(tc.id || "").slice(0, 100),
-    description: String(tc.description || "").slice(0, MAX_STRING_LENGTH),
-    steps: String(tc.steps || "").slice(0, MAX_STRING_LENGTH),
-    expected: String(tc.expected || "").slice(0, MAX_STRING_LENGTH),
-  }));
-  const locators = body.locators && typeof body.locators === "object" ? body.locators : {};
-  const testData = body.testData && typeof body.testData === "object" ? body.testData : {};
-  return { testCases, locators, testData };
-}
+const playwrightAdapter = (modules: ModuleSystem, moduleName: string) => modules.typescript
+  ? `import { Page } from '@playwright/test';
 
-function buildPrompt(framework: string, gherkin: string, testCases: any[], locators: any, testData: any, moduleName: string): string {
+${exportedClass(modules, `${moduleName}Adapter`, `{
+  constructor(private page: Page) {}
+
+  async navigateTo(url: string): Promise<void> { await this.page.goto(url); }
+  async fill(selector: string, value: string): Promise<void> { await this.page.fill(selector, value); }
+  async click(selector: string): Promise<void> { await this.page.click(selector); }
+  async getText(selector: string): Promise<string | null> { return await this.page.textContent(selector); }
+  async isVisible(selector: string): Promise<boolean> { return await this.page.isVisible(selector); }
+}`)}`
+  : exportedClass(modules, `${moduleName}Adapter`, `{
+  constructor(page) { this.page = page; }
+
+  async navigateTo(url) { await this.page.goto(url); }
+  async fill(selector, value) { await this.page.fill(selector, value); }
+  async click(selector) { await this.page.click(selector); }
+  async getText(selector) { return await this.page.textContent(selector); }
+  async isVisible(selector) { return await this.page.isVisible(selector); }
+}`);
+
+const cypressAdapter = (modules: ModuleSystem, moduleName: string) => exportedClass(modules, `${moduleName}Adapter`, modules.typescript
+  ? `{
+  navigateTo(url: string): void { cy.visit(url); }
+  fill(selector: string, value: string): void { cy.get(selector).clear().type(value); }
+  click(selector: string): void { cy.get(selector).click(); }
+  getText(selector: string): Cypress.Chainable<string> { return cy.get(selector).invoke('text'); }
+  isVisible(selector: string): void { cy.get(selector).should('be.visible'); }
+}`
+  : `{
+  navigateTo(url) { cy.visit(url); }
+  fill(selector, value) { cy.get(selector).clear().type(value); }
+  click(selector) { cy.get(selector).click(); }
+  getText(selector) { return cy.get(selector).invoke('text'); }
+  isVisible(selector) { cy.get(selector).should('be.visible'); }
+}`);
+
+function buildPrompt(framework: string, modules: ModuleSystem, gherkin: string, testCases: ReturnType<typeof promptTestCase>[], locators: Lookup[], testData: Lookup[], moduleName: string): string {
+  const actionsPath = modules.localPath(`../core/actions/${moduleName.toLowerCase()}Actions`);
   const frameworkDetails: Record<string, { lang: string; stepSyntax: string; adapterExample: string; stepDefExample: string }> = {
     playwright: {
-      lang: "TypeScript",
-      stepSyntax: `import { Given, When, Then } from '@cucumber/cucumber';
-import { actions } from '../core/actions/${moduleName.toLowerCase()}Actions';
+      lang: modules.label,
+      stepSyntax: `${modules.importNames(["Given", "When", "Then"], "@cucumber/cucumber")}
+${modules.importNames(["actions"], actionsPath)}
 
 Given('the user navigates to login page', async function () {
   await actions.navigateToLogin();
 });`,
-      adapterExample: `import { Page } from '@playwright/test';
-
-export class ${moduleName}Adapter {
-  constructor(private page: Page) {}
-
-  async navigateTo(url: string) { await this.page.goto(url); }
-  async fill(selector: string, value: string) { await this.page.fill(selector, value); }
-  async click(selector: string) { await this.page.click(selector); }
-  async getText(selector: string) { return await this.page.textContent(selector); }
-  async isVisible(selector: string) { return await this.page.isVisible(selector); }
-}`,
+      adapterExample: playwrightAdapter(modules, moduleName),
       stepDefExample: `Given('...', async function() { await actions.methodName(); });`
     },
     selenium: {
@@ -74,22 +95,54 @@ class ${moduleName}Adapter {
       stepDefExample: `Given('...', async function() { await actions.methodName(); });`
     },
     cypress: {
-      lang: "JavaScript",
-      stepSyntax: `import { Given, When, Then } from '@badeball/cypress-cucumber-preprocessor';
-import actions from '../core/actions/${moduleName.toLowerCase()}Actions';
+      lang: modules.label,
+      stepSyntax: `${modules.importNames(["Given", "When", "Then"], "@badeball/cypress-cucumber-preprocessor")}
+${modules.importNames(["actions"], actionsPath)}
 
 Given('the user navigates to login page', () => {
   actions.navigateToLogin();
 });`,
-      adapterExample: `class ${moduleName}Adapter {
-  navigateTo(url) { cy.visit(url); }
-  fill(selector, value) { cy.get(selector).clear().type(value); }
-  click(selector) { cy.get(selector).click(); }
-  getText(selector) { return cy.get(selector).invoke('text'); }
-  isVisible(selector) { cy.get(selector).should('be.visible'); }
-}`,
+      adapterExample: cypressAdapter(modules, moduleName),
       stepDefExample: `Given('...', () => { actions.methodName(); });`
     },
+    webdriverio: {
+      lang: "JavaScript",
+      stepSyntax: `const { Given, When, Then } = require('@wdio/cucumber-framework');
+const actions = require('../core/actions/${moduleName.toLowerCase()}Actions');
+
+Given('the user navigates to login page', async function () {
+  await actions.navigateToLogin();
+});`,
+      adapterExample: `// browser and $ are WebdriverIO globals
+class ${moduleName}Adapter {
+  async navigateTo(url) { await browser.url(url); }
+  async fill(selector, value) { await $(selector).setValue(value); }
+  async click(selector) { await $(selector).click(); }
+  async getText(selector) { return await $(selector).getText(); }
+  async isVisible(selector) { return await $(selector).isDisplayed(); }
+}`,
+      stepDefExample: `Given('...', async function() { await actions.methodName(); });`
+    },
+    testcafe: {
+      lang: "JavaScript",
+      stepSyntax: `const { Given, When, Then } = require('@cucumber/cucumber');
+const actions = require('../core/actions/${moduleName.toLowerCase()}Actions');
+
+// gherkin-testcafe passes the test controller first and the step parameters as an array
+Given('the user navigates to login page', async (t) => {
+  await actions.navigateToLogin();
+});`,
+      adapterExample: `const { Selector, t } = require('testcafe');
+
+class ${moduleName}Adapter {
+  async navigateTo(url) { await t.navigateTo(url); }
+  async fill(selector, value) { await t.typeText(Selector(selector), value, { replace: true }); }
+  async click(selector) { await t.click(Selector(selector)); }
+  async getText(selector) { return await Selector(selector).innerText; }
+  async isVisible(selector) { return await Selector(selector).visible; }
+}`,
+      stepDefExample: `When('... {string}', async (t, [value]) => { await actions.methodName(value); });`
+    },
     robot: {
       lang: "Robot Framework",
       stepSyntax: `*** Keywords ***
@@ -173,6 +226,7 @@ ${fw.adapterExample}
 - File: testData.json
 
 ## RULES
+${testCaseInputRules({ sourceKey: 'tag its scenario with @<sourceKey>, plus one @tag per entry of its "references"' })}
 - NO hardcoded test data in step definitions or actions
 - NO duplicate step definitions
 - Step definitions call ONLY actions, never framework APIs directly
@@ -181,7 +235,9 @@ ${fw.adapterExample}
 - All parameterized values use {string}, {int}, etc.
 - Generated code must be production-ready
 - Maintain a clear dependency chain: Steps → Actions → Adapter → Framework
-
+${MODULE_FRAMEWORKS.includes(framework) ? `${modules.rules}
+- Files use the .${modules.extension} extension; the actions file exports a named actions object
+` : ""}
 ## OUTPUT FORMAT
 Output exactly in this format with separators:
 
@@ -205,100 +261,20 @@ Do not include any other text, comments outside the blocks, or markdown code fen
 `;
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const body = await req.json();
-
-    const validationError = validatePayload(body);
-    if (validationError) {
-      return new Response(
-        JSON.stringify({ error: validationError }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+serveGeneration({
+  name: "generate-bdd",
+  rules: { requireGherkin: "No Gherkin scenarios provided.", frameworks: FRAMEWORKS, languages: MODULE_LANGUAGES },
+  failureMessage: "Failed to generate BDD code. Please try again.",
+  handle: async ({ request, generate }) => {
+    const { framework, gherkinScenarios, locators, testData, moduleName } = request;
+    const testCases = request.testCases.map(promptTestCase);
+    if (request.language !== "javascript" && !MODULE_FRAMEWORKS.includes(framework)) {
+      throw new HttpError(400, `The ${framework} layers are only generated in JavaScript.`);
     }
 
-    const framework = body.framework;
-    const gherkin = String(body.gherkinScenarios).slice(0, 15000);
-    const moduleName = String(body.moduleName || "Login").slice(0, 50);
-    const { testCases, locators, testData } = sanitizePayload(body);
-
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      return new Response(
-        JSON.stringify({ error: "Service configuration error." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const prompt = buildPrompt(framework, gherkin, testCases, locators, testData, moduleName);
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "AI Generation limit reached. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits to your workspace." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      return new Response(
-        JSON.stringify({ error: "Failed to generate BDD code. Please try again." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content?.trim();
-
-    if (!content) {
-      return new Response(
-        JSON.stringify({ error: "Failed to generate BDD code. Please try again." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const prompt = buildPrompt(framework, moduleSystem(request.language), gherkinScenarios, testCases, locators, testData, moduleName);
+    const content = await generate(withRepair(prompt, request.repair, SECTIONS), 0.2, SECTIONS);
 
-    const stepDefsMatch = content.match(/===STEP_DEFINITIONS_START===([\s\S]*?)===STEP_DEFINITIONS_END===/);
-    const actionsMatch = content.match(/===ACTIONS_START===([\s\S]*?)===ACTIONS_END===/);
-    const adapterMatch = content.match(/===ADAPTER_START===([\s\S]*?)===ADAPTER_END===/);
-    const dataMatch = content.match(/===DATA_FILE_START===([\s\S]*?)===DATA_FILE_END===/);
-
-    return new Response(
-      JSON.stringify({
-        stepDefinitions: stepDefsMatch?.[1]?.trim() || '',
-        actions: actionsMatch?.[1]?.trim() || '',
-        adapter: adapterMatch?.[1]?.trim() || '',
-        dataFile: dataMatch?.[1]?.trim() || '',
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (error) {
-    console.error("generate-bdd error:", error);
-    return new Response(
-      JSON.stringify({ error: "Failed to generate BDD code. Please try again." }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+    return extractSections(content, SECTIONS);
+  },
 });
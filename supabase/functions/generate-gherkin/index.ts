@@ -1,46 +1,41 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const body = await req.json();
-    const testCases = body?.testCases;
-
-    if (!testCases || !Array.isArray(testCases) || testCases.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "At least one test case is required." }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
+import { serveGeneration } from "../_shared/generation.ts";
+import { withRepair } from "../_shared/repair.ts";
+import { stripCodeFence } from "../_shared/sections.ts";
+
+serveGeneration({
+  name: "generate-gherkin",
+  // Gherkin is a lighter rewrite than framework code, so more cases fit one request
+  rules: { requireTestCases: "At least one test case is required.", maxTestCases: 200 },
+  failureMessage: "Failed to generate Gherkin. Please try again.",
+  handle: async ({ request, generate }) => {
     // Build structured test case text blocks
-    const scenarioBlocks = testCases.map((tc: any) => {
+    const scenarioBlocks = request.testCases.map((tc) => {
       const parts = [`Test Case ID: ${tc.id || "N/A"}`];
       if (tc.description) parts.push(`Description: ${tc.description}`);
-      if (tc.steps) parts.push(`Steps:\n${tc.steps}`);
+      if (tc.sourceKey) parts.push(`Source Key: ${tc.sourceKey}`);
+      if (tc.references?.length) parts.push(`References: ${tc.references.join(", ")}`);
+      if (tc.preconditions) parts.push(`Preconditions: ${tc.preconditions}`);
+      if (tc.tags?.length) parts.push(`Tags: ${tc.tags.join(", ")}`);
+      if (tc.priority) parts.push(`Priority: ${tc.priority}`);
+      if (tc.stepList?.length) {
+        const lines = tc.stepList.map((step, i) => {
+          const extras = [
+            step.target ? `target: ${step.target}` : "",
+            step.data ? `data: ${step.data}` : "",
+            step.expected ? `expected: ${step.expected}` : "",
+          ].filter(Boolean);
+          return `${i + 1}. ${step.action}${extras.length ? ` (${extras.join("; ")})` : ""}`;
+        });
+        parts.push(`Steps:\n${lines.join("\n")}`);
+      } else if (tc.steps) {
+        parts.push(`Steps:\n${tc.steps}`);
+      }
       if (tc.expected) parts.push(`Expected Result:\n${tc.expected}`);
       if (tc.locator) parts.push(`Locators:\n${tc.locator}`);
       if (tc.testData) parts.push(`Test Data:\n${tc.testData}`);
       return parts.join("\n");
     }).join("\n---\n");
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY is not configured");
-      return new Response(
-        JSON.stringify({ error: "Service configuration error. Please try again later." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     const prompt = `You are a Senior QA Automation Architect.
 
 You will receive structured test case data extracted from a CSV file.
@@ -78,6 +73,9 @@ TRANSFORMATION RULES
    - Convert imperative steps into declarative BDD steps
    - Split compound actions into separate steps
    - One action per step
+   - Numbered steps with an "expected" note get a Then/And check right after that step
+   - If the block lists Tags, add them as @tags on the line above the Scenario
+   - If the block has a Source Key or References, tag the Scenario with them as well (e.g. @C123 @PROJ-45)
 
 3. Step mapping:
    Preconditions → Given
@@ -167,64 +165,8 @@ Feature: Login Functionality
     And the error message should be "Epic sadface: Username and password do not match any user in this service"
 `;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "AI Generation limit reached. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits to your workspace." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      return new Response(
-        JSON.stringify({ error: "Failed to generate Gherkin. Please try again." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const data = await response.json();
-    let gherkin = data.choices?.[0]?.message?.content?.trim();
-
-    if (!gherkin) {
-      console.error("No content received from AI");
-      return new Response(
-        JSON.stringify({ error: "Failed to generate Gherkin. Please try again." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Strip markdown fences if present
-    gherkin = gherkin.replace(/^```(?:gherkin)?\n?/i, '').replace(/\n?```$/i, '').trim();
-
-    return new Response(
-      JSON.stringify({ gherkin }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (error) {
-    console.error("generate-gherkin error:", error);
-    return new Response(
-      JSON.stringify({ error: "Failed to generate Gherkin. Please try again." }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+    const gherkin = stripCodeFence(await generate(withRepair(prompt, request.repair), 0.3));
+
+    return { gherkin };
+  },
 });
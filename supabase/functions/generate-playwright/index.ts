@@ -1,79 +1,42 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+import { serveGeneration } from "../_shared/generation.ts";
+import { promptTestCase, testCaseInputRules } from "../_shared/schema.ts";
+import { withRepair } from "../_shared/repair.ts";
+import { SectionSpec, extractSections } from "../_shared/sections.ts";
+import { MODULE_LANGUAGES, moduleSystem } from "../_shared/moduleSystem.ts";
+import { pageObjectRules } from "./pageObject.ts";
+import { NATIVE_SECTIONS, nativePrompt } from "./native.ts";
+
+const SECTIONS: SectionSpec<"featureFile" | "testFile" | "pageObject"> = {
+  featureFile: "FEATURE_FILE",
+  testFile: "STEPS_FILE",
+  pageObject: "PAGE_OBJECT",
 };
 
-const MAX_TEST_CASES = 50;
-const MAX_STRING_LENGTH = Number.MAX_SAFE_INTEGER;
-
-function validateAutomationPayload(body: any): string | null {
-  if (!body?.testCases || !Array.isArray(body.testCases) || body.testCases.length === 0) {
-    return "No test cases provided. Please upload a valid CSV first.";
-  }
-  if (body.testCases.length > MAX_TEST_CASES) {
-    return `Too many test cases. Maximum is ${MAX_TEST_CASES}.`;
-  }
-  for (const tc of body.testCases) {
-    if (tc.steps && typeof tc.steps === "string" && tc.steps.length > MAX_STRING_LENGTH) {
-      return `Test case step too long (max ${MAX_STRING_LENGTH} chars).`;
-    }
-    if (tc.expected && typeof tc.expected === "string" && tc.expected.length > MAX_STRING_LENGTH) {
-      return `Test case expected result too long (max ${MAX_STRING_LENGTH} chars).`;
-    }
-  }
-  return null;
-}
-
-function sanitizePayload(body: any) {
-  const testCases = (body.testCases || []).slice(0, MAX_TEST_CASES).map((tc: any) => ({
-    id: String(tc.id || "").slice(0, 100),
-    description: String(tc.description || "").slice(0, MAX_STRING_LENGTH),
-    steps: String(tc.steps || "").slice(0, MAX_STRING_LENGTH),
-    expected: String(tc.expected || "").slice(0, MAX_STRING_LENGTH),
-  }));
-  const locators = body.locators && typeof body.locators === "object" ? body.locators : {};
-  const testData = body.testData && typeof body.testData === "object" ? body.testData : {};
-  return { testCases, locators, testData };
-}
-
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const body = await req.json();
-
-    const validationError = validateAutomationPayload(body);
-    if (validationError) {
-      return new Response(
-        JSON.stringify({ error: validationError }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+serveGeneration({
+  name: "generate-playwright",
+  rules: {
+    requireTestCases: "No test cases provided. Please upload a valid CSV first.",
+    languages: MODULE_LANGUAGES,
+    runners: ["native"],
+  },
+  failureMessage: "Failed to generate code. Please try again.",
+  handle: async ({ request, generate }) => {
+    if (request.runner === "native") {
+      const content = await generate(withRepair(nativePrompt(request), request.repair, NATIVE_SECTIONS), 0.2, NATIVE_SECTIONS);
+      return { ...extractSections(content, NATIVE_SECTIONS), featureFile: "", dataFile: "" };
     }
 
-    const { testCases, locators, testData } = sanitizePayload(body);
-    const moduleName = String(body.moduleName || "Login").slice(0, 50);
-    const gherkinScenarios = body.gherkinScenarios ? String(body.gherkinScenarios).slice(0, 10000) : "";
+    const { locators, testData, moduleName, gherkinScenarios, basePage } = request;
+    const testCases = request.testCases.map(promptTestCase);
+    const modules = moduleSystem(request.language);
     const lower = moduleName.toLowerCase();
     const featureFile = `${lower}.feature`;
-    const stepsFile = `${lower}.steps.js`;
-    const pageFile = `${lower}.page.js`;
+    const stepsFile = `${lower}.steps.${modules.extension}`;
+    const pageFile = `${lower}.page.${modules.extension}`;
     const pageClass = `${moduleName}Page`;
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY is not configured");
-      return new Response(
-        JSON.stringify({ error: "Service configuration error. Please try again later." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     const prompt = `
-You are a senior QA automation engineer expert in Playwright + Cucumber BDD (JavaScript only, NO TypeScript).
+You are a senior QA automation engineer expert in Playwright + Cucumber BDD (${modules.stack}).
 
 Given this test data:
 
@@ -89,11 +52,11 @@ ${JSON.stringify(testData, null, 2)}
 Generate a Cucumber BDD project for Playwright with THREE outputs (NO data file):
 
 **STRICT RULES:**
-- Pure JavaScript only (NO TypeScript, NO type annotations, NO interfaces, NO generics)
-- Use require() and module.exports — NEVER import/export ES syntax
+${testCaseInputRules()}
+${modules.rules}
 - Each test case = one Gherkin Scenario tagged with its TC id (e.g. @TC_LOGIN_001)
 - Reuse identical Gherkin steps across scenarios (deduplicate)
-- Step definitions use this.page and this.${lower}Page (World context)
+- Step definitions use this.page and this.${lower}Page (World context)${modules.typescript ? `, typed by declaring "this: PlaywrightWorld" as the first parameter of every step function` : ""}
 - **DO NOT create or import any testData.json / data.json file. NO require('../data/...').**
 - All variable test values MUST live inside the Examples table of the .feature file
 - Static values (baseUrl, fixed admin creds, fixed URLs) MUST be hardcoded directly inside the step definition or page object — NEVER abstracted to a data file
@@ -109,9 +72,10 @@ Generate a Cucumber BDD project for Playwright with THREE outputs (NO data file)
 - Keep single-data test cases as regular Scenario (not Outline)
 
 **2) STEP DEFINITIONS (${stepsFile})**
-- const { Given, When, Then } = require('@cucumber/cucumber');
-- const { ${pageClass} } = require('../pages/${pageFile}');
-- **DO NOT** require any data/testData/json file
+- ${modules.importNames(["Given", "When", "Then"], "@cucumber/cucumber")}
+- ${modules.importNames([pageClass], modules.localPath(`../pages/${lower}.page`))}
+${modules.typescript ? `- ${modules.importNames(["PlaywrightWorld"], "../support/world")}  (declares page and ${lower}Page)
+` : ""}- **DO NOT** require any data/testData/json file
 - Use {string} / {int} parameters in step patterns to consume values directly from the Examples table
 - Each step body calls Page Object methods via this.${lower}Page
 - Initialize this.${lower}Page = new ${pageClass}(this.page) inside the first Given step
@@ -119,39 +83,7 @@ Generate a Cucumber BDD project for Playwright with THREE outputs (NO data file)
 - Reuse one definition for steps that repeat across scenarios
 
 **3) PAGE OBJECT (${pageFile})** — Playwright SEMANTIC LOCATORS only
-- const { expect } = require('@playwright/test');
-- class ${pageClass} { constructor(page) { this.page = page; /* locators here */ } ... }
-- **MANDATORY: All locators MUST be arrow-function getters using Playwright semantic locators**
-  Example:
-    this.usernameInput = () => this.page.getByLabel('Username');
-    this.passwordInput = () => this.page.getByLabel('Password');
-    this.loginButton  = () => this.page.getByRole('button', { name: 'Login' });
-    this.errorBox     = () => this.page.getByRole('alert');
-  Dynamic example:
-    this.productByName = (name) => this.page.getByText(name, { exact: true });
-- **Locator priority (use first that applies):**
-  1. getByRole('button'|'textbox'|'combobox'|'checkbox'|'alert'|..., { name: '...' })
-  2. getByLabel('...')
-  3. getByPlaceholder('...')
-  4. getByText('...', { exact: true })
-  5. getByTestId('...')
-  6. page.locator('css') — LAST RESORT only
-- **NEVER use** page.locator('id=...'), page.locator('class=...'), or raw 'id=xxx'/'class=xxx' Playwright engine selectors
-
-- **CSV LOCATOR CONVERSION RULES** — when the Locators map contains raw attribute-style values (id="...", class="...", name="...", data-test="...", data-testid="...", xpath="..."), and no semantic equivalent exists, you MUST convert to correct Playwright CSS/XPath selectors:
-  1. id="xxx"          → this.x = () => this.page.locator('#xxx')
-  2. class="a"         → this.x = () => this.page.locator('.a')
-     class="a b"       → this.x = () => this.page.locator('.a.b')
-  3. name="xxx"        → this.x = () => this.page.locator('[name="xxx"]')
-  4. data-test="xxx"   → this.x = () => this.page.locator('[data-test="xxx"]')
-  5. data-testid="xxx" → this.x = () => this.page.locator('[data-testid="xxx"]')
-  6. xpath="//..."     → this.x = () => this.page.locator('//...')
-  - id and class use shorthand (# and .). ALL other attributes MUST use square brackets [attr="value"].
-  - NEVER write locator('data-test="error"') without brackets — that is always wrong.
-  - Always wrap in arrow-function getter, e.g. this.errorMessage = () => this.page.locator('[data-test="error"]')
-- Methods invoke locators with parens: await this.usernameInput().fill(value);
-- Assertions inside Page Object methods using expect()
-- module.exports = { ${pageClass} };
+${pageObjectRules(modules, pageClass, basePage)}
 
 **OUTPUT FORMAT — exact separators, no markdown fences, no extra text:**
 
@@ -160,80 +92,21 @@ Generate a Cucumber BDD project for Playwright with THREE outputs (NO data file)
 ===FEATURE_FILE_END===
 
 ===STEPS_FILE_START===
-// step definitions JS content
+// step definitions ${modules.typescript ? "TypeScript" : "JS"} content
 ===STEPS_FILE_END===
 
 ===PAGE_OBJECT_START===
-// page object JS content
+// page object ${modules.typescript ? "TypeScript" : "JS"} content
 ===PAGE_OBJECT_END===
 
 ${gherkinScenarios ? `\n**EXISTING GHERKIN CONTEXT** (align step wording with this where possible):\n${gherkinScenarios}\n` : ''}
 `;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "AI Generation limit reached. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits to your workspace." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      return new Response(
-        JSON.stringify({ error: "Failed to generate code. Please try again." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content?.trim();
-
-    if (!content) {
-      console.error("No content received from AI");
-      return new Response(
-        JSON.stringify({ error: "Failed to generate code. Please try again." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const content = await generate(withRepair(prompt, request.repair, SECTIONS), 0.2, SECTIONS);
 
-    const featureMatch = content.match(/===FEATURE_FILE_START===([\s\S]*?)===FEATURE_FILE_END===/);
-    const stepsMatch = content.match(/===STEPS_FILE_START===([\s\S]*?)===STEPS_FILE_END===/);
-    const pageObjectMatch = content.match(/===PAGE_OBJECT_START===([\s\S]*?)===PAGE_OBJECT_END===/);
-
-    return new Response(
-      JSON.stringify({
-        featureFile: featureMatch?.[1]?.trim() || '',
-        testFile: stepsMatch?.[1]?.trim() || '',
-        pageObject: pageObjectMatch?.[1]?.trim() || '',
-        dataFile: '',
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (error) {
-    console.error("generate-playwright error:", error);
-    return new Response(
-      JSON.stringify({ error: "Failed to generate code. Please try again." }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+    return {
+      ...extractSections(content, SECTIONS),
+      dataFile: "",
+    };
+  },
 });
@@ -0,0 +1,77 @@
+import { GenerationRequest, SOURCE_KEY_IN_TITLE, promptTestCase, testCaseInputRules } from "../_shared/schema.ts";
+import { SectionSpec } from "../_shared/sections.ts";
+import { moduleSystem } from "../_shared/moduleSystem.ts";
+import { pageObjectRules } from "./pageObject.ts";
+
+// Playwright Test ("native") output: a spec per module run by Playwright's own
+// runner, without Cucumber. Always TypeScript. The scaffolding's fixtures.ts
+// builds each module's page object and hands it to the tests as <lower>Page.
+
+export const NATIVE_SECTIONS: SectionSpec<"testFile" | "pageObject"> = {
+  testFile: "SPEC_FILE",
+  pageObject: "PAGE_OBJECT",
+};
+
+export const nativePrompt = (request: GenerationRequest): string => {
+  const { locators, testData, moduleName, gherkinScenarios, basePage } = request;
+  const testCases = request.testCases.map(promptTestCase);
+  const modules = moduleSystem("typescript");
+  const lower = moduleName.toLowerCase();
+  const specFile = `${lower}.spec.ts`;
+  const pageFile = `${lower}.page.ts`;
+  const pageClass = `${moduleName}Page`;
+  const fixture = `${lower}Page`;
+
+  return `
+You are a senior QA automation engineer expert in Playwright Test (${modules.stack}).
+
+Given this test data:
+
+Test Cases:
+${JSON.stringify(testCases, null, 2)}
+
+Locators:
+${JSON.stringify(locators, null, 2)}
+
+Test Data:
+${JSON.stringify(testData, null, 2)}
+
+Generate a Playwright Test project with TWO outputs (NO feature file, NO data file):
+
+**STRICT RULES:**
+${testCaseInputRules({
+  steps: 'wrap each entry in its own test.step — "action" is what the user does, "target" names the locator it acts on (see Locators), "data" is the value it uses and "expected" is checked inside that same step',
+  sourceKey: SOURCE_KEY_IN_TITLE,
+})}
+${modules.rules}
+- Each test case = one test() whose title ends with its TC id as a tag (e.g. 'Login with valid credentials @TC_LOGIN_001')
+- NO Cucumber, NO Gherkin, NO @cucumber/cucumber imports
+- **DO NOT create or import any testData.json / data.json file**
+- Test values live in the spec; when several test cases share the same steps and only vary by data, declare them as a typed array and generate one test per entry with a for...of loop, keeping each entry's TC id tag in its title
+- NO hardcoded locators inside the spec — only inside the Page Object
+
+**1) SPEC (${specFile})**
+- import { test, expect } from '../fixtures';  (fixtures.ts extends Playwright's test with the page objects)
+- Wrap the module's tests in test.describe('${moduleName}', () => { ... })
+- Tests take the page object as a fixture: test('... @TC_xxx', async ({ ${fixture} }) => { ... }); add page to the fixtures only when the test needs it directly
+- **NEVER** construct the page object in the spec — the ${fixture} fixture already does: new ${pageClass}(page)
+- Every step of the test case is its own await test.step('<step description>', async () => { ... });
+- Step bodies call Page Object methods via ${fixture}; final checks use expect() or Page Object assertion methods
+- Navigate with relative paths (e.g. this.page.goto('/login') inside a Page Object method): baseURL comes from playwright.config.ts
+
+**2) PAGE OBJECT (${pageFile})** — Playwright SEMANTIC LOCATORS only
+${pageObjectRules(modules, pageClass, basePage)}
+
+**OUTPUT FORMAT — exact separators, no markdown fences, no extra text:**
+
+===SPEC_FILE_START===
+// spec TypeScript content
+===SPEC_FILE_END===
+
+===PAGE_OBJECT_START===
+// page object TypeScript content
+===PAGE_OBJECT_END===
+
+${gherkinScenarios ? `\n**EXISTING GHERKIN CONTEXT** (name the tests and steps after these scenarios where possible):\n${gherkinScenarios}\n` : ''}
+`;
+};
@@ -0,0 +1,47 @@
+import { ModuleSystem } from "../_shared/moduleSystem.ts";
+
+// Page object rules of the prompt, shared by the Cucumber steps and the
+// Playwright Test specs: the class, its semantic locators and its assertions
+export const pageObjectRules = (modules: ModuleSystem, pageClass: string, basePage: boolean): string => `- ${modules.importNames(modules.typescript ? ["expect", "Locator", "Page"] : ["expect"], "@playwright/test")}
+${basePage ? `- ${modules.importNames(["BasePage"], modules.localPath("./base.page"))}
+${modules.typescript
+  ? `- export class ${pageClass} extends BasePage { constructor(page: Page) { super(page); } /* locator fields here */ ... }
+- BasePage declares protected readonly page: Page`
+  : `- class ${pageClass} extends BasePage { constructor(page) { super(page); /* locators here */ } ... }`}
+- BasePage already provides goto(url), waitForLoad() and getTitle() — use them, never redefine them` : modules.typescript
+  ? `- export class ${pageClass} { constructor(private readonly page: Page) {} /* locator fields here */ ... }`
+  : `- class ${pageClass} { constructor(page) { this.page = page; /* locators here */ } ... }`}
+- **MANDATORY: All locators MUST be arrow-function getters using Playwright semantic locators**
+  Example:
+    this.usernameInput = () => this.page.getByLabel('Username');
+    this.passwordInput = () => this.page.getByLabel('Password');
+    this.loginButton  = () => this.page.getByRole('button', { name: 'Login' });
+    this.errorBox     = () => this.page.getByRole('alert');
+  Dynamic example:
+    this.productByName = (name) => this.page.getByText(name, { exact: true });
+${modules.typescript ? `  In TypeScript declare them as readonly typed fields instead of assigning them in the constructor:
+    readonly usernameInput = (): Locator => this.page.getByLabel('Username');
+    readonly productByName = (name: string): Locator => this.page.getByText(name, { exact: true });
+` : ""}- **Locator priority (use first that applies):**
+  1. getByRole('button'|'textbox'|'combobox'|'checkbox'|'alert'|..., { name: '...' })
+  2. getByLabel('...')
+  3. getByPlaceholder('...')
+  4. getByText('...', { exact: true })
+  5. getByTestId('...')
+  6. page.locator('css') — LAST RESORT only
+- **NEVER use** page.locator('id=...'), page.locator('class=...'), or raw 'id=xxx'/'class=xxx' Playwright engine selectors
+
+- **CSV LOCATOR CONVERSION RULES** — when the Locators map contains raw attribute-style values (id="...", class="...", name="...", data-test="...", data-testid="...", xpath="..."), and no semantic equivalent exists, you MUST convert to correct Playwright CSS/XPath selectors:
+  1. id="xxx"          → this.x = () => this.page.locator('#xxx')
+  2. class="a"         → this.x = () => this.page.locator('.a')
+     class="a b"       → this.x = () => this.page.locator('.a.b')
+  3. name="xxx"        → this.x = () => this.page.locator('[name="xxx"]')
+  4. data-test="xxx"   → this.x = () => this.page.locator('[data-test="xxx"]')
+  5. data-testid="xxx" → this.x = () => this.page.locator('[data-testid="xxx"]')
+  6. xpath="//..."     → this.x = () => this.page.locator('//...')
+  - id and class use shorthand (# and .). ALL other attributes MUST use square brackets [attr="value"].
+  - NEVER write locator('data-test="error"') without brackets — that is always wrong.
+  - Always wrap in arrow-function getter, e.g. this.errorMessage = () => this.page.locator('[data-test="error"]')
+- Methods invoke locators with parens: await this.usernameInput().fill(value);
+- Assertions inside Page Object methods using expect()
+- ${modules.exportClass(pageClass)}`;
@@ -0,0 +1,127 @@
+// The parts of the Selenium prompt that depend on the language the project is
+// written in: the stack, the file names and the step definition and page
+// object conventions of its Cucumber runner. File names and folders match the
+// project zip the client builds, and the base page helpers its base page files.
+
+export const LANGUAGES = ["javascript", "java", "python", "csharp"] as const;
+
+export type SeleniumLanguage = typeof LANGUAGES[number];
+
+export interface LanguagePrompt {
+  stack: string;
+  featureFile: string;
+  stepsFile: string;
+  pageFile: string;
+  // Code rules for the whole project
+  rules: string;
+  steps: string;
+  page: string;
+}
+
+interface PromptContext {
+  moduleName: string;
+  lower: string;
+  pageClass: string;
+  basePage: boolean;
+}
+
+const javascript = ({ lower, pageClass, basePage }: PromptContext): LanguagePrompt => {
+  const featureFile = `${lower}.feature`;
+  const stepsFile = `${lower}.steps.js`;
+  const pageFile = `${lower}.page.js`;
+  return {
+    stack: "Selenium WebDriver + Cucumber BDD (JavaScript only, NO TypeScript)",
+    featureFile,
+    stepsFile,
+    pageFile,
+    rules: `- Pure JavaScript only (NO TypeScript)
+- require() / module.exports only`,
+    steps: `- const { Given, When, Then } = require('@cucumber/cucumber');
+- const { ${pageClass} } = require('../pages/${pageFile}');
+- **DO NOT** require any data/testData/json file
+- Use {string}/{int} parameters in step patterns to consume values directly from the Examples table
+- For steps with no varying data (like navigate), hardcode the value (e.g. baseUrl) directly inside the step body
+- Initialize this.${lower}Page = new ${pageClass}(this.driver) in the first Given
+- Step definitions use this.driver and this.${lower}Page from the Cucumber World
+- Steps call Page Object methods only`,
+    page: `- const { By, until } = require('selenium-webdriver');
+${basePage ? `- const { BasePage } = require('./base.page.js');
+- class ${pageClass} extends BasePage { constructor(driver) { super(driver); ... } }
+- BasePage already provides goto(url), find(locator), click(locator), type(locator, text) and textOf(locator), each waiting for the element first — use them, never redefine them` : `- class ${pageClass} { constructor(driver) { this.driver = driver; ... } }`}
+- Locators defined as By.* in constructor
+- Reusable async methods + assertions inside the class
+- module.exports = { ${pageClass} };`,
+  };
+};
+
+const java = ({ moduleName, lower, pageClass, basePage }: PromptContext): LanguagePrompt => ({
+  stack: "Selenium WebDriver (Java 17) + Cucumber-JVM 7 with TestNG",
+  featureFile: `${lower}.feature`,
+  stepsFile: `${moduleName}Steps.java`,
+  pageFile: `${pageClass}.java`,
+  rules: `- Java 17 only; every file starts with its package declaration and compiles on its own
+- The feature file lives in src/test/resources/features, steps in package steps, page objects in package pages
+- A TestNG runner (runners.TestRunner) and hooks (hooks.Hooks) already exist: the hooks create the driver before each scenario and quit it after — never create, configure or quit a driver yourself`,
+  steps: `- package steps;
+- import io.cucumber.java.en.*; import org.testng.Assert; import pages.${pageClass}; import support.DriverFactory;
+- public class ${moduleName}Steps with a field private final ${pageClass} ${lower}Page = new ${pageClass}(DriverFactory.getDriver());
+- Annotate steps with @Given/@When/@Then using Cucumber Expressions ({string}, {int}) whose parameters become method parameters
+- For steps with no varying data (like navigate), use DriverFactory.BASE_URL or hardcode the URL inside the step body
+- Steps call Page Object methods only; assert with org.testng.Assert`,
+  page: `- package pages;
+- import org.openqa.selenium.By; import org.openqa.selenium.WebDriver;
+${basePage ? `- public class ${pageClass} extends BasePage { public ${pageClass}(WebDriver driver) { super(driver); } ... }
+- BasePage (package pages) already provides goTo(url), find(By), click(By), type(By, text) and textOf(By), each waiting for the element first — use them, never redefine them` : `- public class ${pageClass} { private final WebDriver driver; public ${pageClass}(WebDriver driver) { this.driver = driver; } ... } with explicit WebDriverWait waits`}
+- Locators as private final By fields (By.id, By.cssSelector, By.xpath...)
+- Public methods per user action and per check, returning values for the steps to assert on`,
+});
+
+const python = ({ lower, pageClass, basePage }: PromptContext): LanguagePrompt => ({
+  stack: "Selenium WebDriver (Python 3) + pytest-bdd",
+  featureFile: `${lower}.feature`,
+  stepsFile: `test_${lower}.py`,
+  pageFile: `${lower}_page.py`,
+  rules: `- Python 3 only, PEP 8 style
+- The feature file lives in features/, the step module in tests/step_defs/, page objects in the pages package
+- conftest.py already provides a "driver" fixture (a fresh browser per scenario, quit afterwards) and a "base_url" fixture — never create or quit a driver yourself`,
+  steps: `- from pytest_bdd import scenarios, given, when, then, parsers
+- from pages.${lower}_page import ${pageClass}
+- scenarios("${lower}.feature")  (resolved against bdd_features_base_dir)
+- A fixture @pytest.fixture def ${lower}_page(driver): return ${pageClass}(driver), requested by the steps that need it
+- Use parsers.parse('...') patterns with {name} fields for values from the Examples table; steps receive them as arguments
+- For steps with no varying data (like navigate), use the base_url fixture or hardcode the URL inside the step body
+- Steps call Page Object methods only; check results with plain assert statements`,
+  page: `- from selenium.webdriver.common.by import By
+${basePage ? `- from pages.base_page import BasePage
+- class ${pageClass}(BasePage) — BasePage.__init__(self, driver, timeout=10) sets self.driver and self.wait
+- BasePage already provides goto(url), find(locator), click(locator), type(locator, text) and text_of(locator), each waiting for the element first — use them, never redefine them` : `- class ${pageClass}: def __init__(self, driver): self.driver = driver, with WebDriverWait for explicit waits`}
+- Locators as class attributes holding (By.ID, "...") style tuples
+- Methods per user action and per check, in snake_case, returning values for the steps to assert on`,
+});
+
+const csharp = ({ moduleName, pageClass, basePage }: PromptContext): LanguagePrompt => ({
+  stack: "Selenium WebDriver (C#, .NET 8) + SpecFlow 3.9 with NUnit",
+  featureFile: `${moduleName}.feature`,
+  stepsFile: `${moduleName}Steps.cs`,
+  pageFile: `${pageClass}.cs`,
+  rules: `- C# 12 with file-scoped namespaces and nullable reference types enabled
+- The feature file lives in Features/, step definitions in namespace QatalystTests.StepDefinitions, page objects in QatalystTests.Pages
+- Hooks already register a fresh IWebDriver per scenario in the SpecFlow container and quit it afterwards — take it as a constructor parameter, never create or quit a driver yourself`,
+  steps: `- using NUnit.Framework; using OpenQA.Selenium; using QatalystTests.Pages; using TechTalk.SpecFlow;
+- namespace QatalystTests.StepDefinitions;
+- [Binding] public class ${moduleName}Steps with a constructor taking IWebDriver driver that creates private readonly ${pageClass} _${moduleName.charAt(0).toLowerCase() + moduleName.slice(1)}Page
+- Annotate steps with [Given(@"...")]/[When(@"...")]/[Then(@"...")] regular expressions; capture Examples values with "(.*)" or (\\d+) and take them as method parameters
+- For steps with no varying data (like navigate), use QatalystTests.Support.DriverFactory.BaseUrl or hardcode the URL inside the step body
+- Steps call Page Object methods only; assert with NUnit's Assert.That`,
+  page: `- using OpenQA.Selenium;
+- namespace QatalystTests.Pages;
+${basePage ? `- public class ${pageClass} : BasePage { public ${pageClass}(IWebDriver driver) : base(driver) { } ... }
+- BasePage already provides GoTo(url), Find(By), Click(By), Type(By, text) and TextOf(By), each waiting for the element first — use them, never redefine them` : `- public class ${pageClass} { private readonly IWebDriver _driver; ... } with WebDriverWait for explicit waits`}
+- Locators as private static readonly By fields
+- Public PascalCase methods per user action and per check, returning values for the steps to assert on`,
+});
+
+const PROMPTS: Record<SeleniumLanguage, (context: PromptContext) => LanguagePrompt> = { javascript, java, python, csharp };
+
+export const languagePrompt = (language: string, context: PromptContext): LanguagePrompt =>
+  PROMPTS[language as SeleniumLanguage](context);
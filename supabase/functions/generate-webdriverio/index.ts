@@ -0,0 +1,92 @@
+import { serveGeneration } from "../_shared/generation.ts";
+import { promptTestCase, testCaseInputRules } from "../_shared/schema.ts";
+import { withRepair } from "../_shared/repair.ts";
+import { SectionSpec, extractSections } from "../_shared/sections.ts";
+
+const SECTIONS: SectionSpec<"featureFile" | "testFile" | "pageObject"> = {
+  featureFile: "FEATURE_FILE",
+  testFile: "STEPS_FILE",
+  pageObject: "PAGE_OBJECT",
+};
+
+serveGeneration({
+  name: "generate-webdriverio",
+  rules: { requireTestCases: "No test cases provided. Please upload a valid CSV first." },
+  failureMessage: "Failed to generate code. Please try again.",
+  handle: async ({ request, generate }) => {
+    const { locators, testData, moduleName, gherkinScenarios, basePage } = request;
+    const testCases = request.testCases.map(promptTestCase);
+    const lower = moduleName.toLowerCase();
+    const pageClass = `${moduleName}Page`;
+
+    const prompt = `
+You are a senior QA automation engineer expert in WebdriverIO + Cucumber BDD via @wdio/cucumber-framework (JavaScript only, NO TypeScript).
+
+Test Cases:
+${JSON.stringify(testCases, null, 2)}
+
+Locators:
+${JSON.stringify(locators, null, 2)}
+
+Test Data:
+${JSON.stringify(testData, null, 2)}
+
+Generate a Cucumber BDD project for WebdriverIO with THREE outputs (NO data file).
+
+**STRICT RULES:**
+${testCaseInputRules()}
+- Pure JavaScript only (NO TypeScript, NO type annotations)
+- Use require() and module.exports — NEVER import/export ES syntax
+- Each test case = one Gherkin Scenario tagged @TC_xxx
+- Reuse identical Gherkin steps across scenarios
+- browser, $, $$ and expect are WebdriverIO globals — never require them
+- Step definitions instantiate the Page Object once (const ${lower}Page = new ${pageClass}();)
+- **DO NOT create or import any testData.json / data file. NO require('../data/...').**
+- All variable test values MUST live inside the Examples table of the .feature file
+- Static values (fixed creds, fixed paths) MUST be hardcoded directly inside the step definition — NEVER abstracted to a data file
+- NO hardcoded locators in step definitions
+
+**1) FEATURE FILE (${lower}.feature)** — standard Gherkin with @TC tag.
+- USE Scenario Outline + Examples table when multiple test cases share the same steps but vary by data. Include a 'tc' column for Test Case IDs and tag the outline with all related @TC ids. Keep single-data tests as plain Scenario.
+- Step definitions must use {string}/{int} parameters to consume Examples values.
+
+**2) STEP DEFINITIONS (${lower}.steps.js)**
+- const { Given, When, Then } = require('@wdio/cucumber-framework');
+- const { ${pageClass} } = require('../pages/${lower}.page');
+- **DO NOT** require any data/testData/json file
+- Step functions are async and await every Page Object call
+- Use {string}/{int} parameters in step patterns to consume values directly from the Examples table
+- Navigate with relative paths (browser.url('/login')): baseUrl comes from wdio.conf.js
+- Each step body delegates to the Page Object
+
+**3) PAGE OBJECT (${lower}.page.js)**
+${basePage ? `- const { BasePage } = require('./base.page');
+- class ${pageClass} extends BasePage { get usernameInput() { return $('#username'); } ... }
+- BasePage already provides open(path) and waitForDisplayed(element) — use them, never redefine them` : `- class ${pageClass} { get usernameInput() { return $('#username'); } ... }`}
+- Locators as getters returning $() / $$() — convert CSV locators to CSS selectors (id="x" → '#x', class="a b" → '.a.b', other attributes → '[attr="value"]') or XPath ('//...')
+- Reusable async methods: await this.usernameInput.setValue(value); await this.loginButton.click();
+- Assertions inside Page Object methods via expect-webdriverio: await expect(this.errorBox).toHaveText(message);
+- module.exports = { ${pageClass} };
+
+**OUTPUT FORMAT — exact separators, no markdown fences, no extra text:**
+
+===FEATURE_FILE_START===
+===FEATURE_FILE_END===
+
+===STEPS_FILE_START===
+===STEPS_FILE_END===
+
+===PAGE_OBJECT_START===
+===PAGE_OBJECT_END===
+
+${gherkinScenarios ? `\n**EXISTING GHERKIN CONTEXT:**\n${gherkinScenarios}\n` : ''}
+`;
+
+    const content = await generate(withRepair(prompt, request.repair, SECTIONS), 0.2, SECTIONS);
+
+    return {
+      ...extractSections(content, SECTIONS),
+      dataFile: "",
+    };
+  },
+});
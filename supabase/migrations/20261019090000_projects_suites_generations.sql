@@ -0,0 +1,81 @@
+-- Projects group the test suites uploaded for one application under test.
+create table public.projects (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One uploaded file (CSV, workbook, .feature, tool export) as it was sent to generation.
+create table public.test_suites (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  source_file text,
+  -- csv | xlsx | xls | ods | feature | xml | json
+  source_format text,
+  created_at timestamptz not null default now()
+);
+
+create table public.test_cases (
+  id uuid primary key default gen_random_uuid(),
+  suite_id uuid not null references public.test_suites (id) on delete cascade,
+  position integer not null,
+  case_key text not null default '',
+  module text,
+  -- The full TestCase object (steps, locators, test data, tags, source key ...)
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (suite_id, position)
+);
+
+-- Every generation with what went in and what came out, so it can be reopened.
+create table public.generation_runs (
+  id uuid primary key default gen_random_uuid(),
+  suite_id uuid not null references public.test_suites (id) on delete cascade,
+  -- gherkin | playwright | selenium | cypress | robot
+  output_type text not null,
+  mode text not null default 'classic' check (mode in ('classic', 'bdd')),
+  framework text,
+  model text,
+  -- { testData, gherkin? }
+  input jsonb not null,
+  -- { gherkin } or the generated files keyed by role
+  output jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index test_suites_project_id_idx on public.test_suites (project_id);
+create index test_cases_suite_id_idx on public.test_cases (suite_id);
+create index generation_runs_suite_id_idx on public.generation_runs (suite_id);
+create index generation_runs_created_at_idx on public.generation_runs (created_at desc);
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger projects_set_updated_at
+  before update on public.projects
+  for each row execute function public.set_updated_at();
+
+-- The app has no sign-in yet, so the publishable key may read and write everything.
+alter table public.projects enable row level security;
+alter table public.test_suites enable row level security;
+alter table public.test_cases enable row level security;
+alter table public.generation_runs enable row level security;
+
+create policy "Public access to projects" on public.projects
+  for all to anon, authenticated using (true) with check (true);
+create policy "Public access to test suites" on public.test_suites
+  for all to anon, authenticated using (true) with check (true);
+create policy "Public access to test cases" on public.test_cases
+  for all to anon, authenticated using (true) with check (true);
+create policy "Public access to generation runs" on public.generation_runs
+  for all to anon, authenticated using (true) with check (true);
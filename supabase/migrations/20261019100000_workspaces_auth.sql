@@ -0,0 +1,144 @@
+-- Per-user workspaces. Every user gets a personal workspace on sign-up; projects
+-- (and through them suites, test cases and generation runs) belong to a workspace
+-- and are only visible to its members.
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Projects created before sign-in existed have no workspace and stay hidden.
+alter table public.projects add column workspace_id uuid references public.workspaces (id) on delete cascade;
+create index projects_workspace_id_idx on public.projects (workspace_id);
+
+alter table public.generation_runs add column created_by uuid references auth.users (id) on delete set null default auth.uid();
+
+-- Membership checks run as the definer so policies on workspace_members don't recurse.
+create or replace function public.is_workspace_member(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.workspace_members
+    where workspace_id = _workspace_id and user_id = auth.uid()
+  );
+$$;
+
+create or replace function public.can_access_project(_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.projects p
+    where p.id = _project_id and public.is_workspace_member(p.workspace_id)
+  );
+$$;
+
+create or replace function public.can_access_suite(_suite_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.test_suites s
+    where s.id = _suite_id and public.can_access_project(s.project_id)
+  );
+$$;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _workspace_id uuid;
+begin
+  insert into public.workspaces (name, owner_id)
+  values (coalesce(new.raw_user_meta_data ->> 'full_name', split_part(new.email, '@', 1), 'My') || '''s workspace', new.id)
+  returning id into _workspace_id;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (_workspace_id, new.id, 'owner');
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Personal workspaces for users who signed up before this migration.
+do $$
+declare
+  _user record;
+  _workspace_id uuid;
+begin
+  for _user in
+    select u.id, u.email, u.raw_user_meta_data from auth.users u
+    where not exists (select 1 from public.workspace_members m where m.user_id = u.id)
+  loop
+    insert into public.workspaces (name, owner_id)
+    values (coalesce(_user.raw_user_meta_data ->> 'full_name', split_part(_user.email, '@', 1), 'My') || '''s workspace', _user.id)
+    returning id into _workspace_id;
+    insert into public.workspace_members (workspace_id, user_id, role)
+    values (_workspace_id, _user.id, 'owner');
+  end loop;
+end;
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+create policy "Members can view their workspaces" on public.workspaces
+  for select to authenticated using (public.is_workspace_member(id));
+create policy "Owners can update their workspaces" on public.workspaces
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+create policy "Members can view workspace members" on public.workspace_members
+  for select to authenticated using (public.is_workspace_member(workspace_id));
+
+-- Replace the open policies from before sign-in existed.
+drop policy "Public access to projects" on public.projects;
+drop policy "Public access to test suites" on public.test_suites;
+drop policy "Public access to test cases" on public.test_cases;
+drop policy "Public access to generation runs" on public.generation_runs;
+
+create policy "Members manage workspace projects" on public.projects
+  for all to authenticated
+  using (public.is_workspace_member(workspace_id))
+  with check (public.is_workspace_member(workspace_id));
+
+create policy "Members manage test suites" on public.test_suites
+  for all to authenticated
+  using (public.can_access_project(project_id))
+  with check (public.can_access_project(project_id));
+
+create policy "Members manage test cases" on public.test_cases
+  for all to authenticated
+  using (public.can_access_suite(suite_id))
+  with check (public.can_access_suite(suite_id));
+
+create policy "Members manage generation runs" on public.generation_runs
+  for all to authenticated
+  using (public.can_access_suite(suite_id))
+  with check (public.can_access_suite(suite_id));
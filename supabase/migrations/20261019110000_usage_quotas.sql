@@ -0,0 +1,186 @@
+-- AI usage accounting. Every generate-* call that reaches the AI gateway is
+-- recorded in usage_ledger with the token counts the gateway reported; quotas
+-- cap requests per day and tokens per month for each user and each workspace.
+create table public.usage_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete set null,
+  function_name text not null,
+  model text,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index usage_ledger_user_created_idx on public.usage_ledger (user_id, created_at desc);
+create index usage_ledger_workspace_created_idx on public.usage_ledger (workspace_id, created_at desc);
+
+-- Limits per scope. A row with subject_id null is the default for its scope;
+-- a row for a specific user or workspace overrides it.
+create table public.usage_quotas (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null check (scope in ('user', 'workspace')),
+  subject_id uuid,
+  requests_per_day integer not null,
+  tokens_per_month bigint not null,
+  updated_at timestamptz not null default now()
+);
+
+create unique index usage_quotas_scope_subject_idx
+  on public.usage_quotas (scope, coalesce(subject_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+create trigger usage_quotas_set_updated_at
+  before update on public.usage_quotas
+  for each row execute function public.set_updated_at();
+
+insert into public.usage_quotas (scope, subject_id, requests_per_day, tokens_per_month) values
+  ('user', null, 50, 500000),
+  ('workspace', null, 200, 2000000);
+
+-- Operators who can see everyone's consumption and edit quotas.
+create table public.app_admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create or replace function public.is_app_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.app_admins where user_id = auth.uid());
+$$;
+
+-- Called by the edge functions (service role) before each AI request. Returns
+-- null when the request is allowed, otherwise the first exceeded quota as
+-- { scope, limit, used, allowed, resets_at }.
+create or replace function public.check_usage_quota(_user_id uuid, _workspace_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  _day timestamptz := date_trunc('day', now());
+  _month timestamptz := date_trunc('month', now());
+  _quota record;
+  _requests bigint;
+  _tokens bigint;
+  _scope text;
+  _subject uuid;
+begin
+  if _workspace_id is not null and not exists (
+    select 1 from public.workspace_members where workspace_id = _workspace_id and user_id = _user_id
+  ) then
+    raise exception 'User % is not a member of workspace %', _user_id, _workspace_id using errcode = '42501';
+  end if;
+
+  foreach _scope in array array['user', 'workspace'] loop
+    _subject := case when _scope = 'user' then _user_id else _workspace_id end;
+    continue when _subject is null;
+
+    select requests_per_day, tokens_per_month into _quota
+    from public.usage_quotas
+    where scope = _scope and (subject_id = _subject or subject_id is null)
+    order by subject_id nulls last
+    limit 1;
+    continue when not found;
+
+    select
+      count(*) filter (where created_at >= _day),
+      coalesce(sum(total_tokens) filter (where created_at >= _month), 0)
+    into _requests, _tokens
+    from public.usage_ledger
+    where created_at >= least(_day, _month)
+      and case when _scope = 'user' then user_id = _subject else workspace_id = _subject end;
+
+    if _requests >= _quota.requests_per_day then
+      return jsonb_build_object('scope', _scope, 'limit', 'requests_per_day', 'used', _requests,
+        'allowed', _quota.requests_per_day, 'resets_at', _day + interval '1 day');
+    end if;
+    if _tokens >= _quota.tokens_per_month then
+      return jsonb_build_object('scope', _scope, 'limit', 'tokens_per_month', 'used', _tokens,
+        'allowed', _quota.tokens_per_month, 'resets_at', _month + interval '1 month');
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+revoke execute on function public.check_usage_quota(uuid, uuid) from public, anon, authenticated;
+
+-- Consumption since a point in time per user and per workspace, for admins.
+create or replace function public.usage_summary(_since timestamptz)
+returns table (
+  scope text,
+  subject_id uuid,
+  subject_name text,
+  requests bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  total_tokens bigint,
+  requests_per_day integer,
+  tokens_per_month bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_app_admin() then
+    raise exception 'Only admins can view usage' using errcode = '42501';
+  end if;
+
+  return query
+  select 'user'::text, u.id, u.email::text,
+    count(l.id), coalesce(sum(l.prompt_tokens), 0)::bigint, coalesce(sum(l.completion_tokens), 0)::bigint,
+    coalesce(sum(l.total_tokens), 0)::bigint,
+    q.requests_per_day, q.tokens_per_month
+  from public.usage_ledger l
+  join auth.users u on u.id = l.user_id
+  left join lateral (
+    select requests_per_day, tokens_per_month from public.usage_quotas
+    where scope = 'user' and (subject_id = u.id or subject_id is null)
+    order by subject_id nulls last limit 1
+  ) q on true
+  where l.created_at >= _since
+  group by u.id, u.email, q.requests_per_day, q.tokens_per_month
+  union all
+  select 'workspace'::text, w.id, w.name,
+    count(l.id), coalesce(sum(l.prompt_tokens), 0)::bigint, coalesce(sum(l.completion_tokens), 0)::bigint,
+    coalesce(sum(l.total_tokens), 0)::bigint,
+    q.requests_per_day, q.tokens_per_month
+  from public.usage_ledger l
+  join public.workspaces w on w.id = l.workspace_id
+  left join lateral (
+    select requests_per_day, tokens_per_month from public.usage_quotas
+    where scope = 'workspace' and (subject_id = w.id or subject_id is null)
+    order by subject_id nulls last limit 1
+  ) q on true
+  where l.created_at >= _since
+  group by w.id, w.name, q.requests_per_day, q.tokens_per_month
+  order by 7 desc;
+end;
+$$;
+
+alter table public.usage_ledger enable row level security;
+alter table public.usage_quotas enable row level security;
+alter table public.app_admins enable row level security;
+
+-- Rows are written by the edge functions with the service role only.
+create policy "Users see their own usage" on public.usage_ledger
+  for select to authenticated using (user_id = auth.uid() or public.is_app_admin());
+
+create policy "Signed-in users can read quotas" on public.usage_quotas
+  for select to authenticated using (true);
+create policy "Admins manage quotas" on public.usage_quotas
+  for all to authenticated using (public.is_app_admin()) with check (public.is_app_admin());
+
+create policy "Admins can view admins" on public.app_admins
+  for select to authenticated using (public.is_app_admin());
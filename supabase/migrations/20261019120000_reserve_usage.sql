@@ -0,0 +1,89 @@
+-- Quotas are checked and the request is counted in one call. check_usage_quota
+-- left the workspace scope out when the client sent no workspace, and the
+-- ledger row was only written after the AI answered, so parallel requests
+-- could all pass a nearly used-up quota. reserve_usage works out the workspace
+-- itself and inserts the ledger row under a lock; the edge function settles
+-- the token counts on that row once the AI has answered.
+
+drop function public.check_usage_quota(uuid, uuid);
+
+-- Called by the edge functions (service role) before each AI request. The
+-- workspace is the one given, which the user must be a member of, or else the
+-- user's own (personal) workspace. Returns { id, workspace_id } of the ledger
+-- row that now holds the request, or { exceeded: { scope, limit, used,
+-- allowed, resets_at } } with the first exceeded quota and no row inserted.
+create or replace function public.reserve_usage(_user_id uuid, _workspace_id uuid, _function_name text, _model text)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  _day timestamptz := date_trunc('day', now());
+  _month timestamptz := date_trunc('month', now());
+  _quota record;
+  _requests bigint;
+  _tokens bigint;
+  _scope text;
+  _subject uuid;
+  _id uuid;
+begin
+  if _workspace_id is null then
+    select id into _workspace_id
+    from public.workspaces
+    where owner_id = _user_id
+    order by created_at
+    limit 1;
+  elsif not exists (
+    select 1 from public.workspace_members where workspace_id = _workspace_id and user_id = _user_id
+  ) then
+    raise exception 'User % is not a member of workspace %', _user_id, _workspace_id using errcode = '42501';
+  end if;
+
+  -- Concurrent reservations for the same user or workspace wait for each
+  -- other until commit, so each one counts the rows the others inserted.
+  -- Locks are always taken user first, then workspace.
+  perform pg_advisory_xact_lock(hashtextextended('usage:user:' || _user_id::text, 0));
+  if _workspace_id is not null then
+    perform pg_advisory_xact_lock(hashtextextended('usage:workspace:' || _workspace_id::text, 0));
+  end if;
+
+  foreach _scope in array array['user', 'workspace'] loop
+    _subject := case when _scope = 'user' then _user_id else _workspace_id end;
+    continue when _subject is null;
+
+    select requests_per_day, tokens_per_month into _quota
+    from public.usage_quotas
+    where scope = _scope and (subject_id = _subject or subject_id is null)
+    order by subject_id nulls last
+    limit 1;
+    continue when not found;
+
+    select
+      count(*) filter (where created_at >= _day),
+      coalesce(sum(total_tokens) filter (where created_at >= _month), 0)
+    into _requests, _tokens
+    from public.usage_ledger
+    where created_at >= least(_day, _month)
+      and case when _scope = 'user' then user_id = _subject else workspace_id = _subject end;
+
+    if _requests >= _quota.requests_per_day then
+      return jsonb_build_object('exceeded', jsonb_build_object('scope', _scope, 'limit', 'requests_per_day',
+        'used', _requests, 'allowed', _quota.requests_per_day, 'resets_at', _day + interval '1 day'));
+    end if;
+    if _tokens >= _quota.tokens_per_month then
+      return jsonb_build_object('exceeded', jsonb_build_object('scope', _scope, 'limit', 'tokens_per_month',
+        'used', _tokens, 'allowed', _quota.tokens_per_month, 'resets_at', _month + interval '1 month'));
+    end if;
+  end loop;
+
+  insert into public.usage_ledger (user_id, workspace_id, function_name, model)
+  values (_user_id, _workspace_id, _function_name, _model)
+  returning id into _id;
+
+  return jsonb_build_object('id', _id, 'workspace_id', _workspace_id);
+end;
+$$;
+
+revoke execute on function public.reserve_usage(uuid, uuid, text, text) from public, anon, authenticated;